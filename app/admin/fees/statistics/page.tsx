@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { isAdmin } from "@/lib/rbac";
+import { can } from "@/lib/rbac";
 import Sidebar from "@/components/Sidebar";
 import { getDepositedFeesByPeriod } from "@/lib/server-actions/admin";
 
@@ -40,7 +40,7 @@ const FeeStatisticsPage = () => {
 
   // Check authorization
   useEffect(() => {
-    if (!authLoading && (!user || !isAdmin(user.role))) {
+    if (!authLoading && (!user || !can(user.permissions, "fees.view"))) {
       router.push("/admin");
     }
   }, [authLoading, user, router]);
@@ -48,7 +48,7 @@ const FeeStatisticsPage = () => {
   // Fetch fees data when period changes
   useEffect(() => {
     const fetchFees = async () => {
-      if (!user || !isAdmin(user.role)) return;
+      if (!user || !can(user.permissions, "fees.view")) return;
 
       try {
         setLoading(true);
@@ -146,7 +146,7 @@ const FeeStatisticsPage = () => {
     );
   }
 
-  if (!user || !isAdmin(user.role)) {
+  if (!user || !can(user.permissions, "fees.view")) {
     return null;
   }
 
@@ -17,8 +17,9 @@
  * - Permission: Manage user permissions and access control
  * 
  * Access Control:
- * - Only users with "admin" role can access this page
- * - Non-admin users are automatically redirected to /dashboard
+ * - Each tab requires a permission (see config/adminTabs.ts); users only see the
+ *   tabs their role grants, so admins see everything and custom roles see a subset
+ * - Users without access to any tab are automatically redirected to /dashboard
  * - Authentication and authorization checks are performed on page load
  * 
  * Architecture:
@@ -33,13 +34,12 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { isAdmin } from "@/lib/rbac";
 import Sidebar from "@/components/Sidebar";
 import AdminPageHeader from "@/components/admin/AdminPageHeader";
 import AdminTabNavigation from "@/components/admin/AdminTabNavigation";
 import AdminTabContent from "@/components/admin/AdminTabContent";
 import AdminPageLoading from "@/components/admin/AdminPageLoading";
-import { ADMIN_TABS, DEFAULT_TAB, AdminTabId } from "@/components/admin/config/adminTabs";
+import { DEFAULT_TAB, AdminTabId, getAdminTabsFor } from "@/components/admin/config/adminTabs";
 import { useKycNotifications } from "@/components/admin/hooks/useKycNotifications";
 import { useEventNotifications } from "@/components/admin/hooks/useEventNotifications";
 
@@ -48,9 +48,15 @@ const AdminPage = () => {
   const { user, loading } = useAuth();
   const router = useRouter();
 
+  // Tabs the signed-in user's permissions give access to
+  const tabs = getAdminTabsFor(user?.permissions);
+
   // Active tab state - determines which admin section is currently displayed
   const [activeTab, setActiveTab] = useState<AdminTabId>(DEFAULT_TAB);
 
+  // Fall back to the first accessible tab when the selected one isn't available
+  const currentTab = tabs.some((tab) => tab.id === activeTab) ? activeTab : tabs[0]?.id ?? DEFAULT_TAB;
+
   // KYC Notifications - Track unviewed pending applications
   const { unviewedCount: kycUnviewedCount, refresh: refreshKycNotifications } = useKycNotifications();
 
@@ -62,28 +68,28 @@ const AdminPage = () => {
    * This ensures the badge count is updated when admin switches to these tabs
    */
   useEffect(() => {
-    if (activeTab === "kyc") {
+    if (currentTab === "kyc") {
       refreshKycNotifications();
-    } else if (activeTab === "permission") {
+    } else if (currentTab === "permission") {
       refreshEventNotifications();
     }
-  }, [activeTab, refreshKycNotifications, refreshEventNotifications]);
+  }, [currentTab, refreshKycNotifications, refreshEventNotifications]);
 
   /**
    * Access Control Effect
    * 
    * This effect runs on component mount and whenever loading/user state changes.
-   * It ensures that only authenticated admin users can access this page.
+   * It ensures that only authenticated users with access to at least one tab can access this page.
    * 
    * Behavior:
-   * - If user is not loading and either no user exists or user is not admin → redirect to /dashboard
+   * - If user is not loading and either no user exists or user has no admin tabs → redirect to /dashboard
    * - This prevents unauthorized access to admin functionality
    */
   useEffect(() => {
-    if (!loading && (!user || !isAdmin(user.role))) {
+    if (!loading && (!user || tabs.length === 0)) {
       router.push("/dashboard");
     }
-  }, [loading, user, router]);
+  }, [loading, user, tabs.length, router]);
 
   /**
    * Tab Change Handler
@@ -110,11 +116,11 @@ const AdminPage = () => {
   /**
    * Authorization Check
    * 
-   * If user is not authenticated or not an admin, render nothing.
+   * If user is not authenticated or has no admin tabs, render nothing.
    * The useEffect will handle the redirect, but we also need to prevent
    * rendering the admin interface to unauthorized users.
    */
-  if (!user || !isAdmin(user.role)) {
+  if (!user || tabs.length === 0) {
     return null;
   }
 
@@ -144,9 +150,9 @@ const AdminPage = () => {
           {/* Tab Navigation */}
           <div className="flex-shrink-0 mb-3 sm:mb-4">
             <AdminTabNavigation
-              activeTab={activeTab}
+              activeTab={currentTab}
               onTabChange={handleTabChange}
-              tabs={ADMIN_TABS}
+              tabs={tabs}
               notificationCounts={{
                 kyc: kycUnviewedCount > 0 ? kycUnviewedCount : undefined,
                 permission: eventPendingCount > 0 ? eventPendingCount : undefined,
@@ -157,7 +163,7 @@ const AdminPage = () => {
           {/* Tab Content - Renders the appropriate component based on active tab */}
           <div className="flex-1 overflow-y-auto overflow-x-hidden min-h-0">
             <AdminTabContent 
-              activeTab={activeTab} 
+              activeTab={currentTab} 
               onKycNotificationRefresh={refreshKycNotifications}
               onEventNotificationRefresh={refreshEventNotifications}
             />
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/rbac";
+import Sidebar from "@/components/Sidebar";
+import { formatCurrency, formatDateWithTime } from "@/lib/format";
+import { getLatestBalanceReconciliation, runBalanceReconciliation } from "@/lib/server-actions/admin";
+import toast from "react-hot-toast";
+
+type ReconciliationRun = NonNullable<Awaited<ReturnType<typeof getLatestBalanceReconciliation>>["run"]>;
+
+const formatCents = (cents: number) => formatCurrency(cents / 100);
+
+const BalanceReconciliationPage = () => {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [run, setRun] = useState<ReconciliationRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Check authorization
+  useEffect(() => {
+    if (!authLoading && (!user || !can(user.permissions, "wallet.view"))) {
+      router.push("/admin");
+    }
+  }, [authLoading, user, router]);
+
+  // Load the latest run
+  useEffect(() => {
+    const fetchRun = async () => {
+      if (!user || !can(user.permissions, "wallet.view")) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await getLatestBalanceReconciliation();
+        if (result.success) {
+          setRun(result.run ?? null);
+        } else {
+          setError(result.error || "Failed to load the reconciliation report");
+        }
+      } catch (err) {
+        console.error("Error fetching reconciliation:", err);
+        setError("Failed to load the reconciliation report");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRun();
+  }, [user]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runBalanceReconciliation();
+      if (result.success && result.run) {
+        setRun(result.run);
+        setError(null);
+        if (result.run.drift.length === 0 && result.run.totalsMatch) {
+          toast.success("All balances reconcile");
+        } else {
+          toast.error("Reconciliation found drift");
+        }
+      } else {
+        toast.error(result.error || "Failed to run reconciliation");
+      }
+    } catch (err) {
+      console.error("Error running reconciliation:", err);
+      toast.error("Failed to run reconciliation");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f0] flex">
+        <Sidebar />
+        <div className="flex-1 w-full md:ml-56 lg:ml-56 xl:ml-60">
+          <div className="max-w-7xl mx-auto px-3 xs:px-4 sm:px-5 md:px-6 lg:px-8 py-4 xs:py-5 sm:py-6 md:py-8 lg:py-10 xl:py-12">
+            <div className="flex justify-center items-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#800000]"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !can(user.permissions, "wallet.view")) {
+    return null;
+  }
+
+  const totalsRows = run
+    ? [
+        { label: "Wallet balances", cents: run.totals.walletBalancesCents },
+        { label: "Pending cash withdrawals", cents: run.totals.pendingWithdrawalsCents },
+        { label: "Undeposited fees", cents: run.totals.undepositedFeesCents },
+        { label: "Undeposited ticket revenue", cents: run.totals.undepositedTicketRevenueCents },
+        { label: "Unredeemed codes", cents: run.totals.unredeemedCodesCents },
+      ]
+    : [];
+
+  const expectedRows = run
+    ? [
+        { label: "Redeem value issued", cents: run.totals.issuedRedeemCents },
+        { label: "Cash paid out", cents: -run.totals.cashPaidOutCents },
+        { label: "Manual credits and opening balances", cents: run.totals.otherNetInflowCents },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-[#f5f5f0] flex">
+      <Sidebar />
+      <div className="flex-1 w-full md:ml-56 lg:ml-56 xl:ml-60">
+        <div className="max-w-7xl mx-auto px-3 xs:px-4 sm:px-5 md:px-6 lg:px-8 pt-20 xs:pt-24 sm:pt-20 md:pt-8 lg:pt-10 xl:pt-12 pb-4 xs:pb-5 sm:pb-6 md:pb-8 lg:pb-10 xl:pb-12">
+          {/* Header */}
+          <div className="mb-6">
+            <button
+              onClick={() => router.back()}
+              className="mb-4 mt-2 xs:mt-4 sm:mt-2 md:mt-0 flex items-center gap-2 text-[#800000] hover:text-[#900000] transition-colors"
+              tabIndex={0}
+              aria-label="Go back"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10 19l-7-7m0 0l7-7m-7 7h18"
+                />
+              </svg>
+              <span>Back to Admin</span>
+            </button>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-[#800000]">Balance Reconciliation</h1>
+                <p className="text-gray-600 mt-2">
+                  Wallet balances checked against the ledger and the transaction history
+                </p>
+              </div>
+              <button
+                onClick={handleRun}
+                disabled={running}
+                className="px-4 py-2 bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                tabIndex={0}
+                aria-label="Run reconciliation now"
+              >
+                {running ? "Running..." : "Run Now"}
+              </button>
+            </div>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
+          {!run ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <p className="text-[#800000] text-lg">Reconciliation hasn&apos;t run yet</p>
+            </div>
+          ) : (
+            <>
+              {/* Summary Card */}
+              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+                <p className="text-sm text-gray-600 mb-4">
+                  Last run {formatDateWithTime(run.finishedAt)} ({run.trigger === "cli" ? "command line" : "admin"})
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="bg-blue-50 rounded-lg p-4">
+                    <p className="text-sm text-[#800000] mb-1">Wallets Checked</p>
+                    <p className="text-2xl font-bold text-blue-600">{run.walletCount}</p>
+                  </div>
+                  <div className={`${run.drift.length === 0 ? "bg-green-50" : "bg-red-50"} rounded-lg p-4`}>
+                    <p className="text-sm text-[#800000] mb-1">Wallets With Drift</p>
+                    <p className={`text-2xl font-bold ${run.drift.length === 0 ? "text-green-600" : "text-red-600"}`}>
+                      {run.drift.length}
+                    </p>
+                  </div>
+                  <div className={`${run.totalsMatch ? "bg-green-50" : "bg-red-50"} rounded-lg p-4`}>
+                    <p className="text-sm text-[#800000] mb-1">Platform Totals</p>
+                    <p className={`text-2xl font-bold ${run.totalsMatch ? "text-green-600" : "text-red-600"}`}>
+                      {run.totalsMatch
+                        ? "Balanced"
+                        : `Off by ${formatCents(run.totals.heldCents - run.totals.expectedCents)}`}
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Platform Totals */}
+              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+                <h3 className="text-lg font-semibold text-[#800000] mb-4">Platform Totals</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <p className="text-sm font-medium text-[#800000] mb-2">Held for users</p>
+                    {totalsRows.map((row) => (
+                      <div key={row.label} className="flex justify-between text-sm py-1 text-gray-700">
+                        <span>{row.label}</span>
+                        <span>{formatCents(row.cents)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm py-1 font-semibold text-[#800000] border-t border-gray-200 mt-1">
+                      <span>Total held</span>
+                      <span>{formatCents(run.totals.heldCents)}</span>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-[#800000] mb-2">Money that came in</p>
+                    {expectedRows.map((row) => (
+                      <div key={row.label} className="flex justify-between text-sm py-1 text-gray-700">
+                        <span>{row.label}</span>
+                        <span>{formatCents(row.cents)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm py-1 font-semibold text-[#800000] border-t border-gray-200 mt-1">
+                      <span>Total expected</span>
+                      <span>{formatCents(run.totals.expectedCents)}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Drifting Wallets */}
+              {run.drift.length === 0 ? (
+                <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                  <p className="text-[#800000] text-lg">Every wallet balance matches its ledger and history</p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            Wallet ID
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            Status
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            Stored
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            Ledger
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            History
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">
+                            Transactions
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {run.drift.map((wallet) => (
+                          <tr key={wallet.walletId} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                              {wallet.walletId}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 capitalize">
+                              {wallet.status}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-[#800000]">
+                              {formatCents(wallet.storedCents)}
+                            </td>
+                            <td
+                              className={`px-6 py-4 whitespace-nowrap text-right text-sm ${
+                                wallet.ledgerCents === wallet.storedCents ? "text-gray-900" : "text-red-600 font-semibold"
+                              }`}
+                            >
+                              {formatCents(wallet.ledgerCents)}
+                            </td>
+                            <td
+                              className={`px-6 py-4 whitespace-nowrap text-right text-sm ${
+                                wallet.replayedCents === wallet.storedCents ? "text-gray-900" : "text-red-600 font-semibold"
+                              }`}
+                            >
+                              {formatCents(wallet.replayedCents)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                              {wallet.transactionCount}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BalanceReconciliationPage;
@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/rbac";
+import Sidebar from "@/components/Sidebar";
+import { formatCurrency, formatDateWithTime } from "@/lib/format";
+import { getPendingRefundRequests, decideRefundRequest } from "@/lib/server-actions/refunds";
+import toast from "react-hot-toast";
+
+type RefundRequest = NonNullable<Awaited<ReturnType<typeof getPendingRefundRequests>>["requests"]>[number];
+
+const RefundRequestsPage = () => {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [requests, setRequests] = useState<RefundRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+  const [refundFees, setRefundFees] = useState<Record<string, boolean>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  // Check authorization
+  useEffect(() => {
+    if (!authLoading && (!user || !can(user.permissions, "refunds.approve"))) {
+      router.push("/admin");
+    }
+  }, [authLoading, user, router]);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setError(null);
+      const result = await getPendingRefundRequests();
+      if (result.success) {
+        setRequests(result.requests ?? []);
+      } else {
+        setError(result.error || "Failed to load refund requests");
+      }
+    } catch (err) {
+      console.error("Error fetching refund requests:", err);
+      setError("Failed to load refund requests");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user && can(user.permissions, "refunds.approve")) {
+      fetchRequests();
+    }
+  }, [user, fetchRequests]);
+
+  const handleDecide = async (request: RefundRequest, approve: boolean) => {
+    setDecidingId(request._id);
+    try {
+      const result = await decideRefundRequest(request._id, approve, {
+        refundFee: refundFees[request._id] === true,
+        note: notes[request._id],
+      });
+      if (result.success) {
+        toast.success(result.message || (approve ? "Transfer reversed" : "Refund request rejected"));
+      } else {
+        toast.error(result.error || "Failed to decide refund request");
+      }
+      await fetchRequests();
+    } catch (err) {
+      console.error("Error deciding refund request:", err);
+      toast.error("Failed to decide refund request");
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f0] flex">
+        <Sidebar />
+        <div className="flex-1 w-full md:ml-56 lg:ml-56 xl:ml-60">
+          <div className="max-w-7xl mx-auto px-3 xs:px-4 sm:px-5 md:px-6 lg:px-8 py-4 xs:py-5 sm:py-6 md:py-8 lg:py-10 xl:py-12">
+            <div className="flex justify-center items-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#800000]"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !can(user.permissions, "refunds.approve")) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#f5f5f0] flex">
+      <Sidebar />
+      <div className="flex-1 w-full md:ml-56 lg:ml-56 xl:ml-60">
+        <div className="max-w-7xl mx-auto px-3 xs:px-4 sm:px-5 md:px-6 lg:px-8 pt-20 xs:pt-24 sm:pt-20 md:pt-8 lg:pt-10 xl:pt-12 pb-4 xs:pb-5 sm:pb-6 md:pb-8 lg:pb-10 xl:pb-12">
+          {/* Header */}
+          <div className="mb-6">
+            <button
+              onClick={() => router.back()}
+              className="mb-4 mt-2 xs:mt-4 sm:mt-2 md:mt-0 flex items-center gap-2 text-[#800000] hover:text-[#900000] transition-colors"
+              tabIndex={0}
+              aria-label="Go back"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10 19l-7-7m0 0l7-7m-7 7h18"
+                />
+              </svg>
+              <span>Back to Admin</span>
+            </button>
+            <h1 className="text-3xl font-bold text-[#800000]">Refund Requests</h1>
+            <p className="text-gray-600 mt-2">
+              Pending requests to reverse a transfer. Approving moves the amount back from the recipient to the sender.
+            </p>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
+          {requests.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <p className="text-[#800000] text-lg">No refund requests are waiting</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {requests.map((request) => (
+                <div key={request._id} className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex flex-col md:flex-row md:justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="text-lg font-semibold text-[#800000]">
+                        {formatCurrency(request.amount)} · transfer {request.ref}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        From <span className="font-mono">{request.senderWalletId}</span> to{" "}
+                        <span className="font-mono">{request.recipientWalletId}</span>
+                      </p>
+                      <p className="text-sm text-gray-600">Requested {formatDateWithTime(request.createdAt)}</p>
+                      <p className="text-sm text-gray-800 break-words">&ldquo;{request.reason}&rdquo;</p>
+                    </div>
+                    <div className="md:w-80 space-y-3">
+                      {request.feeCents > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-[#800000]">
+                          <input
+                            type="checkbox"
+                            checked={refundFees[request._id] === true}
+                            onChange={(e) => setRefundFees((current) => ({ ...current, [request._id]: e.target.checked }))}
+                            disabled={decidingId !== null}
+                          />
+                          Also refund the {formatCurrency(request.feeCents / 100)} fee
+                        </label>
+                      )}
+                      <input
+                        type="text"
+                        value={notes[request._id] ?? ""}
+                        onChange={(e) => setNotes((current) => ({ ...current, [request._id]: e.target.value }))}
+                        placeholder="Note to the sender (optional)"
+                        maxLength={500}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-[#800000] placeholder:text-gray-400 focus:ring-2 focus:ring-[#800000] outline-none"
+                        disabled={decidingId !== null}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleDecide(request, false)}
+                          disabled={decidingId !== null}
+                          className="flex-1 px-4 py-2 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          aria-label={`Reject refund request for transfer ${request.ref}`}
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleDecide(request, true)}
+                          disabled={decidingId !== null}
+                          className="flex-1 px-4 py-2 text-sm font-medium bg-[#800000] text-white rounded-lg hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          aria-label={`Approve refund request for transfer ${request.ref}`}
+                        >
+                          {decidingId === request._id ? "Working..." : "Approve"}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundRequestsPage;
@@ -33,7 +33,7 @@ const DashboardPage = () => {
 
       try {
         setLoadingKyc(true);
-        const result = await getKycUserInfo(user.id, user.email);
+        const result = await getKycUserInfo();
         if (result.success && result.firstName && result.lastName) {
           setFirstName(result.firstName);
           setLastName(result.lastName);
@@ -60,7 +60,7 @@ const DashboardPage = () => {
       try {
         setLoadingStats(true);
         setStatsError("");
-        const result = await getDashboardStats(user.id, user.email);
+        const result = await getDashboardStats();
         if (result.success && result.stats) {
           setStats(result.stats);
         } else {
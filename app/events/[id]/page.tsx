@@ -8,7 +8,7 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import { getEvent } from "@/lib/server-actions/events";
 import { getUserById } from "@/lib/db/utils";
-import { getKycUserInfo } from "@/lib/server-actions/kyc";
+import { getMaskedKycName } from "@/lib/kyc";
 import { formatDateTime, formatDate, formatCurrency } from "@/lib/format";
 import ComingUpBadge from "@/components/badges/ComingUpBadge";
 import LiveNowBadge from "@/components/badges/LiveNowBadge";
@@ -70,14 +70,10 @@ export default async function EventDetailPage({
     const user = await getUserById(event.creatorUserId);
     if (user) {
       creatorEmail = user.email;
-      // Try to get name from KYC
-      const kycInfo = await getKycUserInfo(event.creatorUserId);
-      if (kycInfo.success && kycInfo.firstName && kycInfo.lastName) {
-        creatorName = `${kycInfo.firstName} ${kycInfo.lastName}`;
-      } else {
-        // Fallback to email if no KYC info
-        creatorName = user.email;
-      }
+      // Try to get name from KYC (masked, since anyone can open this page)
+      const maskedName = await getMaskedKycName(user._id);
+      // Fallback to email if no KYC info
+      creatorName = maskedName || user.email;
     }
   } catch (error) {
     console.error("Error fetching creator info:", error);
@@ -75,7 +75,7 @@ const CreateEventPage = () => {
 
       try {
         setCheckingWallet(true);
-        const balanceResult = await getBalance(user.id, user.email);
+        const balanceResult = await getBalance();
         // If getBalance succeeds, user has a wallet
         setHasWallet(balanceResult.success && balanceResult.walletId !== undefined);
       } catch (err) {
@@ -101,7 +101,7 @@ const CreateEventPage = () => {
       setLoadingEvents(true);
       setError("");
       try {
-        const result = await getUserEvents(user.id);
+        const result = await getUserEvents();
         if (result.success) {
           setAllEvents(result.events as UserEvent[]);
         } else {
@@ -128,7 +128,7 @@ const CreateEventPage = () => {
       setLoadingTickets(true);
       setTicketsError("");
       try {
-        const result = await getUserEventTickets(user.id, user.email);
+        const result = await getUserEventTickets();
         if (result.success) {
           setTicketSummary(result.summary || []);
         } else {
@@ -154,7 +154,7 @@ const CreateEventPage = () => {
 
       setLoadingPurchasedTickets(true);
       try {
-        const result = await getUserPurchasedTickets(user.id, user.email);
+        const result = await getUserPurchasedTickets();
         if (result.success) {
           setPurchasedTickets(result.tickets || []);
         }
@@ -177,7 +177,7 @@ const CreateEventPage = () => {
 
       setLoadingTicketSales(true);
       try {
-        const result = await getUserEventTicketSales(user.id, user.email);
+        const result = await getUserEventTicketSales();
         if (result.success) {
           setTicketSales(result.sales || []);
         }
@@ -196,7 +196,7 @@ const CreateEventPage = () => {
   const handleEventSuccess = () => {
     // Refresh events after successful creation
     if (user?.id) {
-      getUserEvents(user.id).then((result) => {
+      getUserEvents().then((result) => {
         if (result.success) {
           setAllEvents(result.events as UserEvent[]);
         }
@@ -207,15 +207,15 @@ const CreateEventPage = () => {
   const handleStopSelling = async () => {
     if (!user?.id || !confirmModal.eventId) return;
 
-    const result = await stopSellingTickets(confirmModal.eventId, user.id, user.email);
+    const result = await stopSellingTickets(confirmModal.eventId);
     if (result.success) {
       // Refresh ticket sales
-      const salesResult = await getUserEventTicketSales(user.id, user.email);
+      const salesResult = await getUserEventTicketSales();
       if (salesResult.success) {
         setTicketSales(salesResult.sales || []);
       }
       // Refresh events
-      const eventsResult = await getUserEvents(user.id);
+      const eventsResult = await getUserEvents();
       if (eventsResult.success) {
         setAllEvents(eventsResult.events as UserEvent[]);
       }
@@ -229,15 +229,15 @@ const CreateEventPage = () => {
   const handleDeleteEvent = async () => {
     if (!user?.id || !confirmModal.eventId) return;
 
-    const result = await deleteEvent(confirmModal.eventId, user.id, user.email);
+    const result = await deleteEvent(confirmModal.eventId);
     if (result.success) {
       // Refresh events
-      const eventsResult = await getUserEvents(user.id);
+      const eventsResult = await getUserEvents();
       if (eventsResult.success) {
         setAllEvents(eventsResult.events as UserEvent[]);
       }
       // Refresh ticket sales
-      const salesResult = await getUserEventTicketSales(user.id, user.email);
+      const salesResult = await getUserEventTicketSales();
       if (salesResult.success) {
         setTicketSales(salesResult.sales || []);
       }
@@ -253,10 +253,10 @@ const CreateEventPage = () => {
 
     setDepositing(confirmModal.eventId);
     try {
-      const result = await depositTicketSales(confirmModal.eventId, user.id, user.email);
+      const result = await depositTicketSales(confirmModal.eventId);
       if (result.success) {
         // Refresh ticket sales
-        const salesResult = await getUserEventTicketSales(user.id, user.email);
+        const salesResult = await getUserEventTicketSales();
         if (salesResult.success) {
           setTicketSales(salesResult.sales || []);
         }
@@ -278,10 +278,10 @@ const CreateEventPage = () => {
 
     setDeletingTicket(confirmModal.eventId);
     try {
-      const result = await deleteTicket(confirmModal.eventId, user.id, user.email);
+      const result = await deleteTicket(confirmModal.eventId);
       if (result.success) {
         // Refresh purchased tickets
-        const ticketsResult = await getUserPurchasedTickets(user.id, user.email);
+        const ticketsResult = await getUserPurchasedTickets();
         if (ticketsResult.success) {
           setPurchasedTickets(ticketsResult.tickets || []);
         }
@@ -968,7 +968,6 @@ const CreateEventPage = () => {
             setIsCreateModalOpen(false);
           }}
           onSuccess={handleEventSuccess}
-          userId={user.id}
         />
       )}
 
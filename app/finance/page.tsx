@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { canHandleFinance } from "@/lib/rbac";
+import { can } from "@/lib/rbac";
 import FinancePayoutModal from "@/components/wallet/FinancePayoutModal";
 import Sidebar from "@/components/Sidebar";
 
@@ -13,7 +13,7 @@ const FinancePage = () => {
   const [isPayModalOpen, setIsPayModalOpen] = useState(false);
 
   useEffect(() => {
-    if (!loading && (!user || !canHandleFinance(user.role))) {
+    if (!loading && (!user || !can(user.permissions, "cash.payout"))) {
       router.push("/dashboard");
     }
   }, [loading, user, router]);
@@ -33,7 +33,7 @@ const FinancePage = () => {
     );
   }
 
-  if (!user || !canHandleFinance(user.role)) {
+  if (!user || !can(user.permissions, "cash.payout")) {
     return null;
   }
 
@@ -137,8 +137,8 @@ const FinancePage = () => {
                 </ol>
                 <div className="mt-6 p-4 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-800">
-                    <strong>Note:</strong> A 5% system fee will be deducted from the withdrawal amount
-                    and credited to the Admin wallet. The remaining amount will be processed for payout.
+                    <strong>Note:</strong> The cash withdrawal fee will be deducted from the withdrawal amount
+                    and recorded in the Fee Ledger. The remaining amount will be processed for payout.
                   </p>
                 </div>
               </div>
@@ -153,8 +153,7 @@ const FinancePage = () => {
           isOpen={isPayModalOpen}
           onClose={() => setIsPayModalOpen(false)}
           onSuccess={handleSuccess}
-          financeUserId={user.id}
-          userRole={user.role}
+          permissions={user.permissions}
         />
       )}
     </div>
@@ -6,6 +6,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { submitKycApplication, getKycStatus } from "@/lib/server-actions/kyc";
 import { uploadImageToCloudinary } from "@/lib/server-actions/cloudinary";
 import Sidebar from "@/components/Sidebar";
+import EmailVerificationNotice from "@/components/EmailVerificationNotice";
 
 const KycPage = () => {
   const { loading, isAuthenticated, user } = useAuth();
@@ -35,7 +36,7 @@ const KycPage = () => {
   useEffect(() => {
     const fetchKycStatus = async () => {
       if (user?.id) {
-        const result = await getKycStatus(user.id, user.email);
+        const result = await getKycStatus();
         if (result.success && result.kyc) {
           setKycStatus({
             status: result.kyc.status,
@@ -141,14 +142,12 @@ const KycPage = () => {
     }
 
     const result = await submitKycApplication(
-      user.id,
       formData.firstName,
       formData.lastName,
       formData.phone,
       formData.address,
       formData.idFrontUrl,
-      formData.idBackUrl,
-      user.email
+      formData.idBackUrl
     );
 
     if (result.success) {
@@ -162,7 +161,7 @@ const KycPage = () => {
         idBackUrl: "",
       });
       // Refresh KYC status
-      const statusResult = await getKycStatus(user.id, user.email);
+      const statusResult = await getKycStatus();
       if (statusResult.success && statusResult.kyc) {
         setKycStatus({
           status: statusResult.kyc.status,
@@ -340,8 +339,13 @@ const KycPage = () => {
               </div>
             )}
 
-            {/* Only show form if no application exists or application was rejected (allowing resubmission) */}
             {(!kycStatus || kycStatus.status === "rejected") && (
+              <EmailVerificationNotice blockedAction="submit your KYC application" />
+            )}
+
+            {/* Only show form if no application exists or application was rejected (allowing resubmission),
+                and only once the email address is verified */}
+            {(!kycStatus || kycStatus.status === "rejected") && user?.emailVerified && (
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
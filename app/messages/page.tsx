@@ -54,7 +54,7 @@ const MessagesPage = () => {
     try {
       setLoading(true);
       setError("");
-      const result = await getUserMessages(user.id);
+      const result = await getUserMessages();
       if (result.success && result.messages) {
         setMessages(result.messages as UserMessage[]);
       } else {
@@ -74,7 +74,7 @@ const MessagesPage = () => {
     // Mark as read if not already read
     if (!message.read && user?.id) {
       try {
-        await markMessageAsRead(message.id, user.id);
+        await markMessageAsRead(message.id);
         // Update local state
         setMessages((prev) =>
           prev.map((msg) =>
@@ -100,7 +100,7 @@ const MessagesPage = () => {
 
     setDeleting(true);
     try {
-      const result = await deleteMessageByUser(messageToDelete.id, user.id);
+      const result = await deleteMessageByUser(messageToDelete.id);
       if (result.success) {
         toast.success("Message deleted successfully");
         setMessages((prev) => prev.filter((msg) => msg.id !== messageToDelete.id));
@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/rbac";
 import Sidebar from "@/components/Sidebar";
 import { createPost, getUserPosts, getAllPostsForAdmin, deletePost } from "@/lib/server-actions/posts";
 import { uploadImageToCloudinary } from "@/lib/server-actions/cloudinary";
@@ -49,10 +50,9 @@ const CreatePostPage = () => {
       return;
     }
 
-    // Check user role
+    // Check the user's role grants news publishing
     if (!loading && isAuthenticated && user) {
-      const allowedRoles = ["journalist", "employee", "admin"];
-      if (!allowedRoles.includes(user.role)) {
+      if (!can(user.permissions, "news.publish")) {
         setRoleError("Only journalists, employees, and admins can create posts.");
       }
     }
@@ -70,10 +70,10 @@ const CreatePostPage = () => {
     setLoadingPosts(true);
     try {
       let result;
-      if (user.role === "admin") {
+      if (can(user.permissions, "news.moderate")) {
         result = await getAllPostsForAdmin();
       } else {
-        result = await getUserPosts(user.id);
+        result = await getUserPosts();
       }
 
       if (result.success) {
@@ -210,7 +210,6 @@ const CreatePostPage = () => {
       }
 
       const result = await createPost({
-        authorUserId: user.id,
         title: title.trim(),
         content: content.trim(),
         imageUrl: finalImageUrl,
@@ -256,7 +255,7 @@ const CreatePostPage = () => {
 
     setDeleting(true);
     try {
-      const result = await deletePost(deleteModal.postId, user.id);
+      const result = await deletePost(deleteModal.postId);
       if (result.success) {
         toast.success("Post deleted successfully");
         setDeleteModal({ isOpen: false, postId: "", postTitle: "" });
@@ -472,7 +471,7 @@ const CreatePostPage = () => {
           ) : (
             <div>
               <h1 className="text-3xl sm:text-4xl font-bold text-[#800000] mb-8">
-                {user?.role === "admin" ? "All Posts" : "My Posts"}
+                {can(user?.permissions, "news.moderate") ? "All Posts" : "My Posts"}
               </h1>
 
               {loadingPosts ? (
@@ -525,7 +524,7 @@ const CreatePostPage = () => {
                           >
                             View Details
                           </Link>
-                          {(user?.role === "admin" || post.authorUserId === user?.id) && (
+                          {(can(user?.permissions, "news.moderate") || post.authorUserId === user?.id) && (
                             <button
                               onClick={() => handleDeleteClick(post.id, post.title)}
                               className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-semibold"
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
 import { verifyPasswordResetToken, resetPassword } from "@/lib/server-actions/auth";
 import toast from "react-hot-toast";
 
@@ -12,6 +13,7 @@ import toast from "react-hot-toast";
 const ResetPasswordContent = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { refreshUser } = useAuth();
   const token = searchParams.get("token");
 
   const [password, setPassword] = useState("");
@@ -103,6 +105,8 @@ const ResetPasswordContent = () => {
       setError(result.message || "Failed to reset password");
       setLoading(false);
     } else {
+      // Every session was signed out, including this browser's if it had one
+      await refreshUser();
       toast.success("Password reset successfully! Redirecting to login...");
       setTimeout(() => {
         router.push("/");
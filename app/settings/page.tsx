@@ -5,6 +5,11 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { getKycUserInfo } from "@/lib/server-actions/kyc";
 import Sidebar from "@/components/Sidebar";
+import TwoFactorSettings from "@/components/settings/TwoFactorSettings";
+import TransactionPinSettings from "@/components/settings/TransactionPinSettings";
+import ActiveSessions from "@/components/settings/ActiveSessions";
+import RecentSignIns from "@/components/settings/RecentSignIns";
+import EmailVerificationNotice from "@/components/EmailVerificationNotice";
 
 const SettingsPage = () => {
   const { user, loading, isAuthenticated } = useAuth();
@@ -29,7 +34,7 @@ const SettingsPage = () => {
 
       try {
         setLoadingKyc(true);
-        const result = await getKycUserInfo(user.id, user.email);
+        const result = await getKycUserInfo();
         if (result.success && result.firstName && result.lastName) {
           setFirstName(result.firstName);
           setLastName(result.lastName);
@@ -241,17 +246,16 @@ const SettingsPage = () => {
             </button>
           </div>
           <div className="border-t border-gray-200 pt-6">
-            <h4 className="text-base font-medium text-[#800000] mb-3">Two-Factor Authentication</h4>
-            <p className="text-base text-[#800000] mb-6">
-              Two-factor authentication is not yet available.
-            </p>
-            <button
-              disabled
-              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium cursor-not-allowed"
-              tabIndex={-1}
-            >
-              Enable 2FA
-            </button>
+            <TwoFactorSettings />
+          </div>
+          <div className="border-t border-gray-200 pt-6 empty:hidden">
+            <TransactionPinSettings />
+          </div>
+          <div className="border-t border-gray-200 pt-6">
+            <ActiveSessions />
+          </div>
+          <div className="border-t border-gray-200 pt-6">
+            <RecentSignIns />
           </div>
         </div>
       </div>
@@ -378,6 +382,7 @@ const SettingsPage = () => {
 
             {/* Main Content */}
             <div className="flex-1">
+              <EmailVerificationNotice blockedAction="apply for a wallet" />
               {renderContent()}
             </div>
           </div>
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams, useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { verifyEmail } from "@/lib/server-actions/auth";
+
+/**
+ * Verify Email Content Component
+ * Uses the token from the link once and shows the result
+ */
+const VerifyEmailContent = () => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { refreshUser, isAuthenticated } = useAuth();
+  const token = searchParams.get("token");
+
+  const [verifying, setVerifying] = useState(true);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  // Tokens are single-use, so make sure the effect only ever submits once
+  const verificationStarted = useRef(false);
+
+  // Verify token on mount
+  useEffect(() => {
+    if (verificationStarted.current) return;
+    verificationStarted.current = true;
+
+    const verifyToken = async () => {
+      if (!token) {
+        setResult({ success: false, message: "Invalid verification link. Please request a new one." });
+        setVerifying(false);
+        return;
+      }
+
+      const verification = await verifyEmail(token);
+      setResult({
+        success: verification.success,
+        message: verification.message || (verification.success ? "Your email address has been verified" : "Invalid or expired verification link"),
+      });
+      if (verification.success) {
+        // Unlocks KYC and the wallet for the signed-in user without a reload
+        await refreshUser();
+      }
+      setVerifying(false);
+    };
+
+    verifyToken();
+  }, [token, refreshUser]);
+
+  /**
+   * Handles key down events for accessibility.
+   */
+  const handleKeyDown = (e: React.KeyboardEvent, action: () => void) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  if (verifying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#d6d6c2] px-4">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-xl">
+          <div className="text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#800000]"></div>
+            <p className="mt-4 text-[#800000]">Verifying your email address...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const nextPath = result?.success ? (isAuthenticated ? "/kyc" : "/") : isAuthenticated ? "/settings" : "/";
+  const nextLabel = result?.success
+    ? isAuthenticated
+      ? "Continue to KYC"
+      : "Go to Home"
+    : isAuthenticated
+      ? "Request a New Link in Settings"
+      : "Go to Home";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#d6d6c2] px-4">
+      <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-xl">
+        <h1 className="text-2xl font-semibold text-[#800000] mb-4">
+          {result?.success ? "Email Verified" : "Verification Failed"}
+        </h1>
+        <div
+          className={`mb-6 p-3 rounded-md text-sm ${
+            result?.success
+              ? "bg-green-50 border border-green-200 text-green-700"
+              : "bg-red-50 border border-red-200 text-red-700"
+          }`}
+        >
+          {result?.message}
+        </div>
+        {!result?.success && !isAuthenticated && (
+          <p className="text-[#800000] mb-6">
+            Sign in and open Settings to request a new verification link.
+          </p>
+        )}
+        <button
+          onClick={() => router.push(nextPath)}
+          className="w-full bg-[#800000] text-white py-3 rounded-md font-medium hover:bg-[#900000] transition-colors focus:outline-none focus:ring-2 focus:ring-[#800000] focus:ring-offset-2"
+          tabIndex={0}
+          onKeyDown={(e) => handleKeyDown(e, () => router.push(nextPath))}
+        >
+          {nextLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Verify Email Page
+ * Confirms the user's email address using the token from the verification email.
+ * Wrapped in Suspense to handle useSearchParams() properly.
+ */
+const VerifyEmailPage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-[#d6d6c2] px-4">
+          <div className="w-full max-w-md rounded-lg bg-white p-8 shadow-xl">
+            <div className="text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#800000]"></div>
+              <p className="mt-4 text-[#800000]">Loading...</p>
+            </div>
+          </div>
+        </div>
+      }
+    >
+      <VerifyEmailContent />
+    </Suspense>
+  );
+};
+
+export default VerifyEmailPage;
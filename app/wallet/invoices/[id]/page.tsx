@@ -512,11 +512,7 @@ export default function InvoiceDetailPage() {
     setError("");
 
     try {
-      const result = await deleteInvoice(
-        invoice._id || invoice.ref || "",
-        user.id,
-        user.email
-      );
+      const result = await deleteInvoice(invoice._id || invoice.ref || "");
 
       if (result.success) {
         // Redirect to invoices list after successful deletion
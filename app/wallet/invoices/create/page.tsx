@@ -9,6 +9,8 @@ import { getUserInvoices } from "@/lib/server-actions/invoices";
 import { payInvoiceByRef } from "@/lib/server-actions/invoices";
 import { getBalance } from "@/lib/server-actions/wallet";
 import toast from "react-hot-toast";
+import PayModal from "@/components/wallet/PayModal";
+import { createIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
 
 interface Invoice {
   _id?: string;
@@ -36,6 +38,8 @@ const CreateInvoicePage = () => {
   const [error, setError] = useState("");
   const [payingInvoiceId, setPayingInvoiceId] = useState<string | null>(null);
   const [payError, setPayError] = useState("");
+  // Invoice to pay through the Pay modal when the server asks for the transaction PIN
+  const [pinInvoiceRef, setPinInvoiceRef] = useState<string | null>(null);
   const [hasWallet, setHasWallet] = useState<boolean | null>(null);
   const [checkingWallet, setCheckingWallet] = useState(true);
 
@@ -56,7 +60,7 @@ const CreateInvoicePage = () => {
 
       try {
         setCheckingWallet(true);
-        const balanceResult = await getBalance(user.id, user.email);
+        const balanceResult = await getBalance();
         // If getBalance succeeds, user has a wallet
         setHasWallet(balanceResult.success && balanceResult.walletId !== undefined);
       } catch (err) {
@@ -81,7 +85,7 @@ const CreateInvoicePage = () => {
       try {
         setLoadingInvoices(true);
         setError("");
-        const result = await getUserInvoices(user.id, user.email);
+        const result = await getUserInvoices();
         if (result.success) {
           setSentInvoices(result.issued || []);
           setReceivedInvoices(result.received || []);
@@ -101,6 +105,14 @@ const CreateInvoicePage = () => {
     }
   }, [user?.id, user?.email, hasWallet]);
 
+  const refreshInvoices = async () => {
+    const refreshResult = await getUserInvoices();
+    if (refreshResult.success) {
+      setSentInvoices(refreshResult.issued || []);
+      setReceivedInvoices(refreshResult.received || []);
+    }
+  };
+
   const handlePayInvoice = async (invoice: Invoice) => {
     if (!user?.id || !invoice.ref) return;
 
@@ -108,15 +120,14 @@ const CreateInvoicePage = () => {
     setPayingInvoiceId(invoice._id || null);
 
     try {
-      const result = await payInvoiceByRef(invoice.ref, user.id, user.email);
+      const result = await payInvoiceByRef(createIdempotencyKey(), invoice.ref);
       if (result.success) {
         toast.success(`Invoice paid successfully! Amount: $${result.amount?.toFixed(2)}`);
         // Refresh invoices
-        const refreshResult = await getUserInvoices(user.id, user.email);
-        if (refreshResult.success) {
-          setSentInvoices(refreshResult.issued || []);
-          setReceivedInvoices(refreshResult.received || []);
-        }
+        await refreshInvoices();
+      } else if ("pinRequired" in result) {
+        // Finish the payment in the Pay modal, which asks for the PIN
+        setPinInvoiceRef(invoice.ref);
       } else {
         const errorMsg = result.error || "Failed to pay invoice";
         setPayError(errorMsg);
@@ -133,7 +144,7 @@ const CreateInvoicePage = () => {
   const handleInvoiceSuccess = () => {
     // Refresh invoices after successful creation
     if (user?.id) {
-      getUserInvoices(user.id, user.email).then((result) => {
+      getUserInvoices().then((result) => {
         if (result.success) {
           setSentInvoices(result.issued || []);
           setReceivedInvoices(result.received || []);
@@ -444,8 +455,17 @@ const CreateInvoicePage = () => {
           isOpen={isCreateModalOpen}
           onClose={() => setIsCreateModalOpen(false)}
           onSuccess={handleInvoiceSuccess}
-          userId={user.id}
-          userEmail={user.email}
+        />
+      )}
+
+      {/* Pay Modal (invoices that need the transaction PIN) */}
+      {pinInvoiceRef && (
+        <PayModal
+          key={pinInvoiceRef}
+          isOpen
+          initialReference={pinInvoiceRef}
+          onClose={() => setPinInvoiceRef(null)}
+          onSuccess={refreshInvoices}
         />
       )}
     </div>
@@ -8,6 +8,8 @@ import { getUserInvoices } from "@/lib/server-actions/invoices";
 import { payInvoiceByRef } from "@/lib/server-actions/invoices";
 import { getBalance } from "@/lib/server-actions/wallet";
 import toast from "react-hot-toast";
+import PayModal from "@/components/wallet/PayModal";
+import { createIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
 
 interface Invoice {
   _id: string;
@@ -37,6 +39,8 @@ const InvoicesPage = () => {
   const [activeTab, setActiveTab] = useState<"received" | "issued">("received");
   const [payingInvoiceId, setPayingInvoiceId] = useState<string | null>(null);
   const [payError, setPayError] = useState("");
+  // Invoice to pay through the Pay modal when the server asks for the transaction PIN
+  const [pinInvoiceRef, setPinInvoiceRef] = useState<string | null>(null);
   const [hasWallet, setHasWallet] = useState<boolean | null>(null);
   const [checkingWallet, setCheckingWallet] = useState(true);
 
@@ -57,7 +61,7 @@ const InvoicesPage = () => {
 
       try {
         setCheckingWallet(true);
-        const balanceResult = await getBalance(user.id, user.email);
+        const balanceResult = await getBalance();
         // If getBalance succeeds, user has a wallet
         setHasWallet(balanceResult.success && balanceResult.walletId !== undefined);
       } catch (err) {
@@ -85,7 +89,7 @@ const InvoicesPage = () => {
       try {
         setLoadingInvoices(true);
         setError("");
-        const result = await getUserInvoices(user.id, user.email);
+        const result = await getUserInvoices();
         if (result.success) {
           const filterValidInvoices = (invoices: any[]): Invoice[] => {
             return invoices
@@ -116,6 +120,25 @@ const InvoicesPage = () => {
     }
   }, [user?.id, user?.email, hasWallet]);
 
+  const refreshInvoices = async () => {
+    const refreshResult = await getUserInvoices();
+    if (refreshResult.success) {
+      const filterValidInvoices = (invoices: any[]): Invoice[] => {
+        return invoices
+          .filter((inv) => inv._id && inv.ref)
+          .map((inv) => ({
+            ...inv,
+            _id: inv._id as string,
+            ref: inv.ref as string,
+          }));
+      };
+      setInvoices({
+        issued: filterValidInvoices(refreshResult.issued || []),
+        received: filterValidInvoices(refreshResult.received || []),
+      });
+    }
+  };
+
   const handlePayInvoice = async (invoice: Invoice) => {
     if (!user?.id) return;
 
@@ -123,26 +146,14 @@ const InvoicesPage = () => {
     setPayingInvoiceId(invoice._id);
 
     try {
-      const result = await payInvoiceByRef(invoice.ref, user.id, user.email);
+      const result = await payInvoiceByRef(createIdempotencyKey(), invoice.ref);
       if (result.success) {
         toast.success(`Invoice paid successfully! Amount: $${result.amount?.toFixed(2)}`);
         // Refresh invoices
-        const refreshResult = await getUserInvoices(user.id, user.email);
-        if (refreshResult.success) {
-          const filterValidInvoices = (invoices: any[]): Invoice[] => {
-            return invoices
-              .filter((inv) => inv._id && inv.ref)
-              .map((inv) => ({
-                ...inv,
-                _id: inv._id as string,
-                ref: inv.ref as string,
-              }));
-          };
-          setInvoices({
-            issued: filterValidInvoices(refreshResult.issued || []),
-            received: filterValidInvoices(refreshResult.received || []),
-          });
-        }
+        await refreshInvoices();
+      } else if ("pinRequired" in result) {
+        // Finish the payment in the Pay modal, which asks for the PIN
+        setPinInvoiceRef(invoice.ref);
       } else {
         const errorMsg = result.error || "Failed to pay invoice";
         setPayError(errorMsg);
@@ -443,6 +454,17 @@ const InvoicesPage = () => {
           )}
         </div>
       </div>
+
+      {/* Pay Modal (invoices that need the transaction PIN) */}
+      {pinInvoiceRef && (
+        <PayModal
+          key={pinInvoiceRef}
+          isOpen
+          initialReference={pinInvoiceRef}
+          onClose={() => setPinInvoiceRef(null)}
+          onSuccess={refreshInvoices}
+        />
+      )}
     </div>
   );
 };
@@ -11,9 +11,10 @@
  * 
  * This page has been refactored into smaller components for better maintainability:
  * - WalletStatusMessages: Handles KYC status and no wallet messages
- * - WalletCard: Displays the Mastercard-style wallet card
+ * - WalletCard: Displays the Mastercard-style wallet card and what is left of its limits
  * - WalletActionButtons: Action buttons for wallet operations
  * - WalletTransactions: Transaction list with filters and pagination
+ * - RefundRequests: Refund requests to approve and the ones the user filed
  */
 
 import { useEffect, useState } from "react";
@@ -22,18 +23,21 @@ import { useAuth } from "@/contexts/AuthContext";
 import Sidebar from "@/components/Sidebar";
 import { getBalance, getTransactions } from "@/lib/server-actions/wallet";
 import { getKycUserInfo, getKycStatus } from "@/lib/server-actions/kyc";
+import { getMyWalletLimits } from "@/lib/server-actions/limits";
+import type { WalletAllowance } from "@/lib/limit-profile";
 import SendModal from "@/components/wallet/SendModal";
 import WithdrawModal from "@/components/wallet/WithdrawModal";
 import DepositModal from "@/components/wallet/DepositModal";
 import FinancePayoutModal from "@/components/wallet/FinancePayoutModal";
 import TransactionDetailModal from "@/components/wallet/TransactionDetailModal";
-import { canHandleFinance } from "@/lib/rbac";
+import { can } from "@/lib/rbac";
 
 // Import wallet sub-components
 import WalletStatusMessages from "@/components/wallet/WalletStatusMessages";
 import WalletCard from "@/components/wallet/WalletCard";
 import WalletActionButtons from "@/components/wallet/WalletActionButtons";
 import WalletTransactions from "@/components/wallet/WalletTransactions";
+import RefundRequests from "@/components/wallet/RefundRequests";
 
 const WalletPage = () => {
   // Authentication and routing
@@ -46,6 +50,7 @@ const WalletPage = () => {
   const [balanceLoading, setBalanceLoading] = useState(true); // Loading state for balance fetch
   const [balanceError, setBalanceError] = useState<string>(""); // Error message from balance fetch
   const [walletStatus, setWalletStatus] = useState<"active" | "suspended" | "terminated" | null>(null); // Wallet status
+  const [allowance, setAllowance] = useState<WalletAllowance | null>(null); // What is left of the wallet's limits
 
   // Transactions state
   const [transactions, setTransactions] = useState<any[]>([]); // List of all transactions
@@ -87,8 +92,7 @@ const WalletPage = () => {
       if (user?.id) {
         setBalanceLoading(true);
         try {
-          // Pass both userId and email to handle localStorage auth IDs
-          const balanceResult = await getBalance(user.id, user.email);
+          const balanceResult = await getBalance();
           if (balanceResult.success) {
             setBalance(balanceResult.balance);
             setBalanceError(""); // Clear any previous errors
@@ -96,6 +100,8 @@ const WalletPage = () => {
             if (balanceResult.walletId) {
               setWalletId(balanceResult.walletId);
             }
+            const limitsResult = await getMyWalletLimits();
+            setAllowance(limitsResult.success && limitsResult.allowance ? limitsResult.allowance : null);
           } else {
             // Check if wallet is suspended or terminated
             if (balanceResult.error === "suspended" || balanceResult.status === "suspended") {
@@ -120,7 +126,7 @@ const WalletPage = () => {
             }
           }
 
-          const transactionsResult = await getTransactions(user.id, user.email);
+          const transactionsResult = await getTransactions();
           if (transactionsResult.success) {
             setTransactions(transactionsResult.transactions);
           } else {
@@ -150,7 +156,7 @@ const WalletPage = () => {
       }
       try {
         setLoadingKyc(true);
-        const result = await getKycUserInfo(user.id, user.email);
+        const result = await getKycUserInfo();
         if (result.success && result.firstName && result.lastName) {
           setFirstName(result.firstName);
           setLastName(result.lastName);
@@ -177,7 +183,7 @@ const WalletPage = () => {
       }
       try {
         setLoadingKycStatus(true);
-        const result = await getKycStatus(user.id, user.email);
+        const result = await getKycStatus();
         if (result.success && result.kyc) {
           setKycStatus(result.kyc.status);
           setKycRejectionReason(result.kyc.rejectionReason || null);
@@ -207,8 +213,7 @@ const WalletPage = () => {
     if (user?.id) {
       setBalanceLoading(true);
       try {
-        // Pass both userId and email to handle localStorage auth IDs
-        const balanceResult = await getBalance(user.id, user.email);
+        const balanceResult = await getBalance();
         if (balanceResult.success) {
           setBalance(balanceResult.balance);
           setBalanceError(""); // Clear any previous errors
@@ -216,6 +221,8 @@ const WalletPage = () => {
           if (balanceResult.walletId) {
             setWalletId(balanceResult.walletId);
           }
+          const limitsResult = await getMyWalletLimits();
+          setAllowance(limitsResult.success && limitsResult.allowance ? limitsResult.allowance : null);
         } else {
           // Check if wallet is suspended or terminated
           if (balanceResult.error === "suspended" || balanceResult.status === "suspended") {
@@ -240,13 +247,13 @@ const WalletPage = () => {
           }
         }
 
-        const transactionsResult = await getTransactions(user.id, user.email);
+        const transactionsResult = await getTransactions();
         if (transactionsResult.success) {
           setTransactions(transactionsResult.transactions);
         }
 
         // Also refresh KYC status
-        const kycStatusResult = await getKycStatus(user.id, user.email);
+        const kycStatusResult = await getKycStatus();
         if (kycStatusResult.success && kycStatusResult.kyc) {
           setKycStatus(kycStatusResult.kyc.status);
           setKycRejectionReason(kycStatusResult.kyc.rejectionReason || null);
@@ -316,6 +323,7 @@ const WalletPage = () => {
               kycStatus={kycStatus}
               kycRejectionReason={kycRejectionReason}
               userEmail={user?.email}
+              allowance={allowance}
             />
           )}
 
@@ -326,10 +334,15 @@ const WalletPage = () => {
               onWithdrawClick={() => setIsWithdrawModalOpen(true)}
               onDepositClick={() => setIsDepositModalOpen(true)}
               onPayClick={() => setIsPayModalOpen(true)}
-              canHandleFinance={canHandleFinance(user?.role || "user")}
+              canHandleFinance={can(user?.permissions, "cash.payout")}
             />
           )}
 
+          {/* Refund Requests - Only show if wallet exists and is active */}
+          {!balanceError && walletStatus === "active" && (
+            <RefundRequests onBalanceChange={handleRefreshBalance} />
+          )}
+
           {/* Recent Transactions - Only show if wallet exists and is active */}
           {!balanceError && walletStatus === "active" && (
             <WalletTransactions
@@ -347,7 +360,7 @@ const WalletPage = () => {
                 setSelectedTransaction(transaction);
                 setIsTransactionModalOpen(true);
               }}
-              canHandleFinance={canHandleFinance(user?.role || "user")}
+              canHandleFinance={can(user?.permissions, "cash.payout")}
             />
           )}
 
@@ -360,33 +373,26 @@ const WalletPage = () => {
         isOpen={isSendModalOpen}
         onClose={() => setIsSendModalOpen(false)}
         onSuccess={handleRefreshBalance}
-        userId={user?.id || ""}
-        userEmail={user?.email}
       />
       {/* Withdraw Money Modal */}
       <WithdrawModal
         isOpen={isWithdrawModalOpen}
         onClose={() => setIsWithdrawModalOpen(false)}
         onSuccess={handleRefreshBalance}
-        userId={user?.id || ""}
-        userEmail={user?.email}
       />
       {/* Deposit Money Modal */}
       <DepositModal
         isOpen={isDepositModalOpen}
         onClose={() => setIsDepositModalOpen(false)}
         onSuccess={handleRefreshBalance}
-        userId={user?.id || ""}
-        userEmail={user?.email}
       />
-      {/* Pay Modal - Only for Admin and Finance roles */}
+      {/* Pay Modal - Only for roles with the cash.payout permission */}
       {user?.id && (
         <FinancePayoutModal
           isOpen={isPayModalOpen}
           onClose={() => setIsPayModalOpen(false)}
           onSuccess={handleRefreshBalance}
-          financeUserId={user.id}
-          userRole={user.role || "user"}
+          permissions={user.permissions}
         />
       )}
       {/* Transaction Detail Modal */}
@@ -397,9 +403,7 @@ const WalletPage = () => {
           setSelectedTransaction(null);
         }}
         transaction={selectedTransaction}
-        userId={user?.id || ""}
-        userEmail={user?.email}
-        onDelete={() => {
+        onHide={() => {
           handleRefreshBalance();
           // Reset to page 1 if current page would be empty
           const newTotalPages = Math.ceil((transactions.length - 1) / transactionsPerPage);
@@ -1,11 +1,180 @@
-export default function RedeemPage() {
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import Sidebar from "@/components/Sidebar";
+import RedeemForm from "@/components/wallet/RedeemForm";
+import { getMyRedemptions } from "@/lib/server-actions/wallet";
+import { formatRedeemSerial, parseScannedRedeemCode } from "@/lib/redeem-code-format";
+import { formatDateWithTime } from "@/lib/format";
+
+type Redemption = NonNullable<Awaited<ReturnType<typeof getMyRedemptions>>["redemptions"]>[number];
+
+// Keeps the code from a card's QR link while the user signs in
+const PENDING_CODE_KEY = "pendingRedeemCode";
+
+const RedeemContent = () => {
+  const { loading, isAuthenticated, user } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [initialCode, setInitialCode] = useState("");
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [loadingRedemptions, setLoadingRedemptions] = useState(true);
+  const [error, setError] = useState("");
+
+  // A printed card's QR code opens /wallet/redeem?code=…; the code is taken out
+  // of the address bar so it doesn't stay in the browser history
+  useEffect(() => {
+    const linkedCode = searchParams.get("code");
+    const code = linkedCode ? parseScannedRedeemCode(linkedCode) : sessionStorage.getItem(PENDING_CODE_KEY);
+
+    if (!loading && !isAuthenticated) {
+      if (code) sessionStorage.setItem(PENDING_CODE_KEY, code);
+      router.push("/auth/sign-in");
+      return;
+    }
+    if (loading) return;
+
+    sessionStorage.removeItem(PENDING_CODE_KEY);
+    if (code) setInitialCode(code);
+    if (linkedCode) router.replace("/wallet/redeem");
+  }, [loading, isAuthenticated, router, searchParams]);
+
+  const fetchRedemptions = useCallback(async () => {
+    try {
+      const result = await getMyRedemptions();
+      if (result.success) {
+        setRedemptions(result.redemptions ?? []);
+        setError("");
+      } else {
+        setError(result.error || "Failed to load your redemptions");
+      }
+    } catch (err) {
+      setError("An error occurred while loading your redemptions");
+      console.error("Error fetching redemptions:", err);
+    } finally {
+      setLoadingRedemptions(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchRedemptions();
+    }
+  }, [user?.id, fetchRedemptions]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#800000] mx-auto mb-4"></div>
+          <p className="text-[#800000]">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
   return (
-    <div className="min-h-screen bg-[#f5f5f0]">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
-        <h1 className="text-3xl sm:text-4xl font-bold text-[#800000]mb-8">Redeem Code</h1>
-        <p className="text-[#800000]">Redeem code page coming soon...</p>
+    <div className="min-h-screen bg-[#f5f5f0] flex">
+      <Sidebar />
+      <div className="flex-1 md:ml-56 lg:ml-56 xl:ml-60">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <div className="mb-6">
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2" style={{ color: '#800000' }}>
+              Redeem Code
+            </h1>
+            <p className="text-sm" style={{ color: '#800000' }}>
+              Scan the QR code on your card or type its code, then enter the PIN from under the scratch area.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <RedeemForm key={initialCode} initialCode={initialCode} onRedeemed={fetchRedemptions} />
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-3" style={{ color: '#800000' }}>
+                Past Redemptions
+              </h2>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+                  {error}
+                </div>
+              )}
+
+              {loadingRedemptions ? (
+                <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#800000] mx-auto"></div>
+                </div>
+              ) : redemptions.length === 0 ? (
+                <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                  <p style={{ color: '#800000' }}>You haven&apos;t redeemed any codes yet</p>
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Code</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Redeemed</th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {redemptions.map((redemption) => (
+                          <tr key={redemption._id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                              {redemption.maskedCode || "—"}
+                              {redemption.serial !== undefined && (
+                                <div className="text-xs font-sans text-gray-500">Serial {formatRedeemSerial(redemption.serial)}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {formatDateWithTime(redemption.createdAt)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-green-700">
+                              +${redemption.amount.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
       </div>
     </div>
   );
-}
+};
+
+/**
+ * Redeem Page
+ * Redeems a code from a redeem card and lists the codes the user redeemed before.
+ * Wrapped in Suspense to handle useSearchParams() properly.
+ */
+const RedeemPage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-[#f5f5f0] flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#800000]"></div>
+        </div>
+      }
+    >
+      <RedeemContent />
+    </Suspense>
+  );
+};
 
+export default RedeemPage;
@@ -1,11 +1,201 @@
-export default function RequestCashPage() {
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import Sidebar from "@/components/Sidebar";
+import WithdrawModal from "@/components/wallet/WithdrawModal";
+import { getMyCashWithdrawals, cancelCashWithdrawal } from "@/lib/server-actions/wallet";
+import { formatDateWithTime } from "@/lib/format";
+import toast from "react-hot-toast";
+
+type CashWithdrawal = NonNullable<Awaited<ReturnType<typeof getMyCashWithdrawals>>["withdrawals"]>[number];
+
+const STATUS_BADGES: Record<CashWithdrawal["status"], { label: string; className: string }> = {
+  pending: { label: "Waiting for pickup", className: "bg-yellow-100 text-yellow-800" },
+  processed: { label: "Paid out", className: "bg-green-100 text-green-800" },
+  expired: { label: "Expired, refunded", className: "bg-gray-100 text-gray-800" },
+  cancelled: { label: "Cancelled, refunded", className: "bg-gray-100 text-gray-800" },
+};
+
+const RequestCashPage = () => {
+  const { loading, isAuthenticated, user } = useAuth();
+  const router = useRouter();
+  const [withdrawals, setWithdrawals] = useState<CashWithdrawal[]>([]);
+  const [loadingWithdrawals, setLoadingWithdrawals] = useState(true);
+  const [error, setError] = useState("");
+  const [cancellingRef, setCancellingRef] = useState<string | null>(null);
+  const [isWithdrawModalOpen, setIsWithdrawModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !isAuthenticated) {
+      router.push("/auth/sign-in");
+    }
+  }, [loading, isAuthenticated, router]);
+
+  const fetchWithdrawals = useCallback(async () => {
+    try {
+      const result = await getMyCashWithdrawals();
+      if (result.success) {
+        setWithdrawals(result.withdrawals ?? []);
+        setError("");
+      } else {
+        setError(result.error || "Failed to load your cash requests");
+      }
+    } catch (err) {
+      setError("An error occurred while loading your cash requests");
+      console.error("Error fetching cash withdrawals:", err);
+    } finally {
+      setLoadingWithdrawals(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchWithdrawals();
+    }
+  }, [user?.id, fetchWithdrawals]);
+
+  const handleCancel = async (ref: string) => {
+    if (!confirm(`Cancel cash request ${ref}? The full amount goes back to your wallet.`)) {
+      return;
+    }
+
+    setCancellingRef(ref);
+    try {
+      const result = await cancelCashWithdrawal(ref);
+      if (result.success) {
+        toast.success(result.message || "Withdrawal cancelled");
+      } else {
+        toast.error(result.error || "Failed to cancel withdrawal");
+      }
+      await fetchWithdrawals();
+    } catch (err) {
+      toast.error("An error occurred. Please try again.");
+      console.error("Error cancelling withdrawal:", err);
+    } finally {
+      setCancellingRef(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#f5f5f0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#800000] mx-auto mb-4"></div>
+          <p className="text-[#800000]">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
   return (
-    <div className="min-h-screen bg-[#f5f5f0]">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
-        <h1 className="text-3xl sm:text-4xl font-bold text-[#800000]mb-8">Request Cash</h1>
-        <p className="text-[#800000]">Request cash page coming soon...</p>
+    <div className="min-h-screen bg-[#f5f5f0] flex">
+      <Sidebar />
+      <div className="flex-1 md:ml-56 lg:ml-56 xl:ml-60">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h1 className="text-3xl sm:text-4xl font-bold mb-2" style={{ color: '#800000' }}>
+                Request Cash
+              </h1>
+              <p className="text-sm" style={{ color: '#800000' }}>
+                Collect your cash at the counter within 24 hours. Requests that aren&apos;t collected in time are refunded to your wallet.
+              </p>
+            </div>
+            <button
+              onClick={() => setIsWithdrawModalOpen(true)}
+              className="px-6 py-3 text-white rounded-lg font-semibold hover:opacity-90 transition-opacity whitespace-nowrap"
+              style={{ backgroundColor: '#800000' }}
+            >
+              New Request
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          {loadingWithdrawals ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#800000] mx-auto"></div>
+            </div>
+          ) : withdrawals.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <p style={{ color: '#800000' }}>You haven&apos;t requested any cash yet</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Reference</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider">Amount</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Requested</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Status</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-[#800000] uppercase tracking-wider"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {withdrawals.map((withdrawal) => (
+                      <tr key={withdrawal.ref} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{withdrawal.ref}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-[#800000]">
+                          ${withdrawal.amount.toFixed(2)}
+                          {withdrawal.status === "processed" && withdrawal.payoutAmount !== undefined && withdrawal.payoutAmount !== withdrawal.amount && (
+                            <div className="text-xs font-normal text-gray-500">${withdrawal.payoutAmount.toFixed(2)} in cash after the fee</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          <div>{formatDateWithTime(withdrawal.createdAt)}</div>
+                          {withdrawal.status === "pending" && (
+                            <div className="text-xs">Collect by {formatDateWithTime(withdrawal.expiresAt)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_BADGES[withdrawal.status].className}`}>
+                            {STATUS_BADGES[withdrawal.status].label}
+                          </span>
+                          {withdrawal.status === "processed" && withdrawal.processedAt && (
+                            <div className="text-xs text-gray-500 mt-1">{formatDateWithTime(withdrawal.processedAt)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          {withdrawal.status === "pending" && (
+                            <button
+                              onClick={() => handleCancel(withdrawal.ref)}
+                              disabled={cancellingRef !== null}
+                              className="px-3 py-1 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              aria-label={`Cancel cash request ${withdrawal.ref}`}
+                            >
+                              {cancellingRef === withdrawal.ref ? "Cancelling..." : "Cancel"}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
+
+      <WithdrawModal
+        isOpen={isWithdrawModalOpen}
+        onClose={() => setIsWithdrawModalOpen(false)}
+        onSuccess={fetchWithdrawals}
+      />
     </div>
   );
-}
+};
 
+export default RequestCashPage;
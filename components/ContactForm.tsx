@@ -25,7 +25,7 @@ const ContactForm = () => {
       if (isAuthenticated && user?.id) {
         setLoadingUserInfo(true);
         try {
-          const result = await getUserContactInfo(user.id);
+          const result = await getUserContactInfo();
           if (result.success) {
             setUserEmail(result.email || "");
             setUserPhone(result.phone || "");
@@ -63,7 +63,6 @@ const ContactForm = () => {
 
     try {
       const result = await submitContactMessage({
-        userId: isAuthenticated ? user?.id : undefined,
         email: formData.email,
         phone: formData.phone || undefined,
         subject: formData.subject,
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { resendVerificationEmail } from "@/lib/server-actions/auth";
+
+interface EmailVerificationNoticeProps {
+  /** What the user can't do yet, e.g. "submit your KYC application" */
+  blockedAction?: string;
+}
+
+/**
+ * EmailVerificationNotice Component
+ *
+ * Shown to signed-in users whose email address isn't verified yet, with a button
+ * to send a new verification link. Renders nothing once the address is verified.
+ *
+ * @param props - Component props
+ */
+const EmailVerificationNotice = ({ blockedAction }: EmailVerificationNoticeProps) => {
+  const { user } = useAuth();
+  const [sending, setSending] = useState(false);
+
+  if (!user || user.emailVerified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const result = await resendVerificationEmail();
+      if (result.success) {
+        toast.success(result.message || "Verification link sent");
+      } else {
+        toast.error(result.message || "Failed to send verification link");
+      }
+    } catch (err) {
+      console.error("Error resending verification email:", err);
+      toast.error("Failed to send verification link");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <p className="text-sm font-semibold text-yellow-900 mb-1">Verify your email address</p>
+      <p className="text-sm text-yellow-800 mb-3">
+        We sent a verification link to <span className="font-medium">{user.email}</span>.
+        {blockedAction ? ` You need to verify it before you can ${blockedAction}.` : ""}
+      </p>
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={sending}
+        className="px-4 py-2 text-sm bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending ? "Sending..." : "Resend verification link"}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationNotice;
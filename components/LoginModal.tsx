@@ -1,8 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Image from "next/image";
 import { useAuth } from "@/contexts/AuthContext";
 
+// "verify" and "setup" are the two-factor steps after a correct password;
+// "recovery-codes" shows the codes created by the setup step
+type LoginStep = "credentials" | "verify" | "setup" | "recovery-codes";
+
 interface LoginModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -14,6 +19,8 @@ interface LoginModalProps {
  * LoginModal Component
  * A modal dialog component that displays a login form for user authentication.
  * Allows users to sign in with their email and password, and provides an option to switch to sign up.
+ * Accounts with two-factor authentication get a second step asking for a code, and accounts whose
+ * role requires it but haven't set it up yet are walked through the setup first.
  */
 const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPassword }: LoginModalProps) => {
   // State to control password visibility (show/hide password text)
@@ -27,8 +34,18 @@ const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPasswor
     email: "",
     password: "",
   });
-  // Get signIn function from authentication context
-  const { signIn } = useAuth();
+  // Current step of the sign-in flow
+  const [step, setStep] = useState<LoginStep>("credentials");
+  // Challenge token from signIn, proving the password step passed
+  const [challengeToken, setChallengeToken] = useState("");
+  // Authenticator or recovery code typed in the two-factor steps
+  const [code, setCode] = useState("");
+  // QR code and secret for the setup step
+  const [setupData, setSetupData] = useState<{ qrCodeDataUrl: string; secret: string } | null>(null);
+  // Recovery codes shown once after setup
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  // Get sign-in functions from authentication context
+  const { signIn, verifyTwoFactor, startTwoFactorSetup, completeTwoFactorSetup } = useAuth();
 
   // Reset form state when modal opens or closes
   useEffect(() => {
@@ -41,6 +58,11 @@ const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPasswor
         email: "",
         password: "",
       });
+      setStep("credentials");
+      setChallengeToken("");
+      setCode("");
+      setSetupData(null);
+      setRecoveryCodes([]);
     }
   }, [isOpen]);
 
@@ -79,7 +101,24 @@ const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPasswor
 
     const result = await signIn(formData.email, formData.password);
 
-    if (!result.success) {
+    if (result.twoFactor && result.challengeToken) {
+      // Password was correct; the session is created after the second step
+      setChallengeToken(result.challengeToken);
+      setFormData((prev) => ({ ...prev, password: "" }));
+
+      if (result.twoFactor === "setup") {
+        const setup = await startTwoFactorSetup(result.challengeToken);
+        if (!setup.success || !setup.qrCodeDataUrl || !setup.secret) {
+          setError(setup.message || "Failed to start two-factor setup");
+          setLoading(false);
+          return;
+        }
+        setSetupData({ qrCodeDataUrl: setup.qrCodeDataUrl, secret: setup.secret });
+      }
+
+      setStep(result.twoFactor);
+      setLoading(false);
+    } else if (!result.success) {
       setError(result.message || "Invalid email or password");
       setLoading(false);
     } else {
@@ -93,6 +132,43 @@ const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPasswor
     }
   };
 
+  /**
+   * Handles the two-factor steps: checks the code against the challenge from signIn.
+   * In the setup step a successful code also enables 2FA, and the recovery codes
+   * are shown before the modal closes.
+   * @param e - React form event
+   */
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    const result: Awaited<ReturnType<typeof completeTwoFactorSetup>> =
+      step === "setup"
+        ? await completeTwoFactorSetup(challengeToken, code)
+        : await verifyTwoFactor(challengeToken, code);
+
+    setLoading(false);
+    setCode("");
+
+    if (!result.success) {
+      setError(result.message || "Invalid authentication code");
+      if (!result.challengeToken) {
+        // The challenge expired or ran out of attempts; start over
+        setStep("credentials");
+      }
+      return;
+    }
+
+    if (step === "setup" && result.recoveryCodes) {
+      setRecoveryCodes(result.recoveryCodes);
+      setStep("recovery-codes");
+      return;
+    }
+
+    onClose();
+  };
+
   /**
    * Handles switching from login modal to sign up modal.
    * Closes the current login modal and opens the sign up modal if the callback is provided.
@@ -155,147 +231,248 @@ const LoginModal = ({ isOpen, onClose, onSwitchToSignUp, onSwitchToForgotPasswor
           </svg>
         </button>
 
-        {/* Title */}
-        <h2 id="login-modal-title" className="text-2xl font-semibold text-[#800000] mb-2">
-          Login
-        </h2>
-
-        {/* Sign Up Link */}
-        <p className="text-sm text-[#800000] mb-6">
-          Don't have an account?{" "}
-          <button
-            className="text-[#800000] hover:text-[#900000] font-medium"
-            onClick={handleSwitchToSignUp}
-            tabIndex={0}
-          >
-            Sign Up
-          </button>
-        </p>
-
-        {/* Error Message */}
-        {error && (
-          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
-            {error}
-          </div>
-        )}
+        {step !== "credentials" ? (
+          <>
+            {/* Title */}
+            <h2 id="login-modal-title" className="text-2xl font-semibold text-[#800000] mb-2">
+              {step === "verify" && "Two-Factor Authentication"}
+              {step === "setup" && "Set Up Two-Factor Authentication"}
+              {step === "recovery-codes" && "Save Your Recovery Codes"}
+            </h2>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {/* Email */}
-          <div>
-            <label htmlFor="login-email" className="block text-sm font-medium text-[#800000] mb-1">
-              Email
-            </label>
-            <input
-              type="email"
-              id="login-email"
-              name="email"
-              value={formData.email}
-              onChange={handleInputChange}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent text-base text-[#800000] placeholder:text-[#800000]/60 touch-manipulation bg-white"
-              placeholder="Enter your email"
-              required
-              disabled={loading}
-              autoComplete="email"
-              inputMode="email"
-            />
-          </div>
-
-          {/* Password */}
-          <div>
-            <label
-              htmlFor="login-password"
-              className="block text-sm font-medium text-[#800000] mb-1"
-            >
-              Password
-            </label>
-            <div className="relative">
-              <input
-                type={showPassword ? "text" : "password"}
-                id="login-password"
-                name="password"
-                value={formData.password}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent pr-10 text-base text-[#800000] md:text-[#800000] placeholder:text-[#800000]/60 touch-manipulation bg-white"
-                placeholder="Enter your password"
-                required
-                disabled={loading}
-                autoComplete="current-password"
-              />
+            {/* Error Message */}
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+
+            {step === "recovery-codes" ? (
+              <div className="space-y-4">
+                <p className="text-sm text-[#800000]">
+                  Each code can be used once to sign in if you lose access to your authenticator app.
+                  Store them somewhere safe; they won&apos;t be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 rounded-md bg-white p-4 font-mono text-sm text-[#800000]">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <li key={recoveryCode}>{recoveryCode}</li>
+                  ))}
+                </ul>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="w-full bg-[#800000] text-white py-3 rounded-md font-medium hover:bg-[#900000] transition-colors focus:outline-none focus:ring-2 focus:ring-[#800000] focus:ring-offset-2"
+                >
+                  I&apos;ve saved my codes
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleCodeSubmit} className="space-y-4">
+                {step === "setup" && setupData ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-[#800000]">
+                      Your role requires two-factor authentication. Scan this QR code with an
+                      authenticator app (Google Authenticator, Authy, 1Password...), then enter the
+                      6-digit code it shows.
+                    </p>
+                    <div className="flex justify-center">
+                      <Image
+                        src={setupData.qrCodeDataUrl}
+                        alt="Two-factor authentication QR code"
+                        width={200}
+                        height={200}
+                        unoptimized
+                        className="rounded-md bg-white p-2"
+                      />
+                    </div>
+                    <p className="text-xs text-[#800000]/80 text-center break-all">
+                      Can&apos;t scan it? Enter this key instead: <span className="font-mono">{setupData.secret}</span>
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-[#800000]">
+                    Enter the 6-digit code from your authenticator app. Lost your device? Enter one of
+                    your recovery codes instead.
+                  </p>
+                )}
+
+                <div>
+                  <label htmlFor="login-code" className="block text-sm font-medium text-[#800000] mb-1">
+                    Authentication code
+                  </label>
+                  <input
+                    type="text"
+                    id="login-code"
+                    name="code"
+                    value={code}
+                    onChange={(e) => {
+                      setCode(e.target.value);
+                      setError("");
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent text-base text-[#800000] placeholder:text-[#800000]/60 touch-manipulation bg-white tracking-widest"
+                    placeholder={step === "setup" ? "123456" : "123456 or recovery code"}
+                    required
+                    disabled={loading}
+                    autoComplete="one-time-code"
+                    autoFocus
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading || !code.trim()}
+                  className="w-full bg-[#800000] text-white py-3 rounded-md font-medium hover:bg-[#900000] transition-colors focus:outline-none focus:ring-2 focus:ring-[#800000] focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? "Verifying..." : step === "setup" ? "Enable and sign in" : "Verify"}
+                </button>
+              </form>
+            )}
+          </>
+        ) : (
+          <>
+            {/* Title */}
+            <h2 id="login-modal-title" className="text-2xl font-semibold text-[#800000] mb-2">
+              Login
+            </h2>
+
+            {/* Sign Up Link */}
+            <p className="text-sm text-[#800000] mb-6">
+              Don't have an account?{" "}
               <button
-                type="button"
-                onClick={handleTogglePassword}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-[#800000] hover:text-[#900000]"
-                aria-label={showPassword ? "Hide password" : "Show password"}
+                className="text-[#800000] hover:text-[#900000] font-medium"
+                onClick={handleSwitchToSignUp}
                 tabIndex={0}
               >
-                {showPassword ? (
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="h-5 w-5"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                    strokeWidth={2}
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
-                    />
-                  </svg>
-                ) : (
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="h-5 w-5"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                    strokeWidth={2}
+                Sign Up
+              </button>
+            </p>
+
+            {/* Error Message */}
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+
+            {/* Form */}
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Email */}
+              <div>
+                <label htmlFor="login-email" className="block text-sm font-medium text-[#800000] mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  id="login-email"
+                  name="email"
+                  value={formData.email}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent text-base text-[#800000] placeholder:text-[#800000]/60 touch-manipulation bg-white"
+                  placeholder="Enter your email"
+                  required
+                  disabled={loading}
+                  autoComplete="email"
+                  inputMode="email"
+                />
+              </div>
+
+              {/* Password */}
+              <div>
+                <label
+                  htmlFor="login-password"
+                  className="block text-sm font-medium text-[#800000] mb-1"
+                >
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    id="login-password"
+                    name="password"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent pr-10 text-base text-[#800000] md:text-[#800000] placeholder:text-[#800000]/60 touch-manipulation bg-white"
+                    placeholder="Enter your password"
+                    required
+                    disabled={loading}
+                    autoComplete="current-password"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleTogglePassword}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-[#800000] hover:text-[#900000]"
+                    aria-label={showPassword ? "Hide password" : "Show password"}
+                    tabIndex={0}
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-                    />
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-                    />
-                  </svg>
-                )}
+                    {showPassword ? (
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+                        />
+                      </svg>
+                    ) : (
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={2}
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                        />
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                        />
+                      </svg>
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              {/* Forgot Password Link */}
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  className="text-sm text-[#800000] hover:text-[#900000] font-medium hover:cursor-pointer"
+                  onClick={handleSwitchToForgotPassword}
+                  tabIndex={0}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      handleSwitchToForgotPassword();
+                    }
+                  }}
+                >
+                  Forgot password?
+                </button>
+              </div>
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-[#800000] text-white py-3 rounded-md font-medium hover:bg-[#900000] transition-colors focus:outline-none focus:ring-2 focus:ring-[#800000] focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Signing in..." : "Login"}
               </button>
-            </div>
-          </div>
-
-          {/* Forgot Password Link */}
-          <div className="flex justify-end">
-            <button
-              type="button"
-              className="text-sm text-[#800000] hover:text-[#900000] font-medium hover:cursor-pointer"
-              onClick={handleSwitchToForgotPassword}
-              tabIndex={0}
-              onKeyDown={(e) => {
-                if (e.key === "Enter" || e.key === " ") {
-                  e.preventDefault();
-                  handleSwitchToForgotPassword();
-                }
-              }}
-            >
-              Forgot password?
-            </button>
-          </div>
-
-          {/* Submit Button */}
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full bg-[#800000] text-white py-3 rounded-md font-medium hover:bg-[#900000] transition-colors focus:outline-none focus:ring-2 focus:ring-[#800000] focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {loading ? "Signing in..." : "Login"}
-          </button>
-        </form>
+            </form>
+          </>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { isAdmin } from "@/lib/rbac";
+import { getAdminTabsFor } from "@/components/admin/config/adminTabs";
 import { userHasMessages } from "@/lib/server-actions/user-messages";
 
 const Sidebar = () => {
@@ -181,7 +182,7 @@ const Sidebar = () => {
         ]
       : []),
     
-    ...(user && isAdmin(user.role)
+    ...(user && getAdminTabsFor(user.permissions).length > 0
       ? [
           {
             label: "Admin",
@@ -299,7 +300,7 @@ const Sidebar = () => {
 
       try {
         setLoadingMessages(true);
-        const result = await userHasMessages(user.id);
+        const result = await userHasMessages();
         if (result.success) {
           setHasMessages(result.hasMessages);
           setUnreadMessageCount(result.unreadCount);
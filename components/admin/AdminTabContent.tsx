@@ -14,7 +14,7 @@
  * - redeem → RedeemGeneratorForm component (code generation)
  * - kyc → KycReviewDrawer component (KYC approval)
  * - control → Control component (system settings)
- * - permission → Permission component (permission management)
+ * - permission → Permission component (roles, permissions and event approvals)
  * 
  * @param activeTab - Currently active tab ID that determines which component to render
  */
@@ -72,7 +72,7 @@ const AdminTabContent = ({ activeTab, onKycNotificationRefresh, onEventNotificat
         return <Control />;
 
       case "permission":
-        // Permission management: manage user permissions and access control
+        // Permission management: roles and permissions, event approvals
         return <Permission onNotificationRefresh={onEventNotificationRefresh} />;
 
       case "messages":
@@ -3,13 +3,13 @@
 import { useState, useEffect } from "react";
 import { getSystemSettings, updateSystemSettings } from "@/lib/server-actions/system-settings";
 import { useAuth } from "@/contexts/AuthContext";
+import { can, DEFAULT_ROLES } from "@/lib/rbac";
 import { uploadImageToCloudinary } from "@/lib/server-actions/cloudinary";
+import { getRoles } from "@/lib/server-actions/roles";
+import FeeScheduleEditor from "@/components/admin/FeeScheduleEditor";
+import LimitProfileEditor from "@/components/admin/LimitProfileEditor";
 
 interface SystemSettings {
-  p2pFeePercentage: number;
-  ticketFeePercentage: number;
-  invoiceFeePercentage: number;
-  withdrawalFeePercentage: number;
   maintenanceMode: boolean;
   maintenanceMessage: string;
   maxBalanceForDeletion: number;
@@ -17,6 +17,8 @@ interface SystemSettings {
   heroHeadline: string;
   heroSubheadline: string;
   heroBackgroundImageUrl: string;
+  twoFactorRequiredRoles: string[];
+  pinAlwaysRequiredAboveCents: number;
 }
 
 // List of common currencies
@@ -50,10 +52,6 @@ const Control = () => {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [settings, setSettings] = useState<SystemSettings>({
-    p2pFeePercentage: 5,
-    ticketFeePercentage: 10,
-    invoiceFeePercentage: 5,
-    withdrawalFeePercentage: 5,
     maintenanceMode: false,
     maintenanceMessage: "The website is currently under maintenance. Please check back later.",
     maxBalanceForDeletion: 0,
@@ -61,14 +59,33 @@ const Control = () => {
     heroHeadline: "Time is money.\nSave both.",
     heroSubheadline: "Easy-to-use corporate cards, bill payments, accounting, and a whole lot more. All in one place.",
     heroBackgroundImageUrl: "",
+    twoFactorRequiredRoles: ["admin", "finance"],
+    pinAlwaysRequiredAboveCents: 50000,
   });
+  const [roleOptions, setRoleOptions] = useState<{ name: string; label: string }[]>(
+    Object.values(DEFAULT_ROLES).map((role) => ({ name: role.name, label: role.label }))
+  );
   const [uploadingImage, setUploadingImage] = useState(false);
   const [imagePreviewError, setImagePreviewError] = useState(false);
 
   useEffect(() => {
     loadSettings();
+    loadRoleOptions();
   }, []);
 
+  // Custom roles can be required to use 2FA too; keep the built-in list if the
+  // roles can't be loaded
+  const loadRoleOptions = async () => {
+    try {
+      const result = await getRoles();
+      if (result.success && result.roles && result.roles.length > 0) {
+        setRoleOptions(result.roles.map((role) => ({ name: role.name, label: role.label })));
+      }
+    } catch (err) {
+      console.error("Error loading roles:", err);
+    }
+  };
+
   const loadSettings = async () => {
     try {
       setLoading(true);
@@ -139,18 +156,20 @@ const Control = () => {
     setSuccess("");
 
     try {
-      const result = await updateSystemSettings(user.id, {
-        p2pFeePercentage: settings.p2pFeePercentage,
-        ticketFeePercentage: settings.ticketFeePercentage,
-        invoiceFeePercentage: settings.invoiceFeePercentage,
-        withdrawalFeePercentage: settings.withdrawalFeePercentage,
-        maintenanceMode: settings.maintenanceMode,
-        maintenanceMessage: settings.maintenanceMessage,
-        maxBalanceForDeletion: settings.maxBalanceForDeletion,
-        currency: settings.currency,
-        heroHeadline: settings.heroHeadline,
-        heroSubheadline: settings.heroSubheadline,
-        heroBackgroundImageUrl: settings.heroBackgroundImageUrl,
+      // Only send the sections the user's role is allowed to change; fee schedules
+      // are saved on their own from the fee editor
+      const result = await updateSystemSettings({
+        ...(can(user?.permissions, "settings.edit") && {
+          maintenanceMode: settings.maintenanceMode,
+          maintenanceMessage: settings.maintenanceMessage,
+          maxBalanceForDeletion: settings.maxBalanceForDeletion,
+          currency: settings.currency,
+          heroHeadline: settings.heroHeadline,
+          heroSubheadline: settings.heroSubheadline,
+          heroBackgroundImageUrl: settings.heroBackgroundImageUrl,
+          twoFactorRequiredRoles: settings.twoFactorRequiredRoles,
+          pinAlwaysRequiredAboveCents: settings.pinAlwaysRequiredAboveCents,
+        }),
       });
 
       if (result.success) {
@@ -177,17 +196,19 @@ const Control = () => {
     }
   };
 
-  const handleFeeChange = (field: keyof SystemSettings, value: number) => {
-    if (value < 0 || value > 100) {
-      return; // Invalid value
-    }
-    setSettings((prev) => ({ ...prev, [field]: value }));
-  };
-
   const handleMaintenanceToggle = () => {
     setSettings((prev) => ({ ...prev, maintenanceMode: !prev.maintenanceMode }));
   };
 
+  const handleTwoFactorRoleToggle = (role: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      twoFactorRequiredRoles: prev.twoFactorRequiredRoles.includes(role)
+        ? prev.twoFactorRequiredRoles.filter((r) => r !== role)
+        : [...prev.twoFactorRequiredRoles, role],
+    }));
+  };
+
   const handleHeroImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) {
@@ -347,107 +368,13 @@ const Control = () => {
         </div>
       </div>
 
-      {/* Fee Settings */}
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h4 className="text-lg font-semibold text-[#800000] mb-4">Fee Settings</h4>
-        <div className="space-y-6">
-          {/* P2P Fee */}
-          <div>
-            <label className="block text-sm font-medium text-[#800000] mb-2">
-              P2P Transaction Fee (%)
-            </label>
-            <div className="flex items-center gap-4">
-              <input
-                type="number"
-                min="0"
-                max="100"
-                step="0.1"
-                value={settings.p2pFeePercentage}
-                onChange={(e) =>
-                  handleFeeChange("p2pFeePercentage", parseFloat(e.target.value) || 0)
-                }
-                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]"
-                aria-label="P2P transaction fee percentage"
-              />
-              <span className="text-sm text-gray-600">
-                Current: {settings.p2pFeePercentage}% fee on peer-to-peer transfers
-              </span>
-            </div>
-          </div>
-
-          {/* Ticket Fee */}
-          <div>
-            <label className="block text-sm font-medium text-[#800000] mb-2">
-              Ticket Sales Fee (%)
-            </label>
-            <div className="flex items-center gap-4">
-              <input
-                type="number"
-                min="0"
-                max="100"
-                step="0.1"
-                value={settings.ticketFeePercentage}
-                onChange={(e) =>
-                  handleFeeChange("ticketFeePercentage", parseFloat(e.target.value) || 0)
-                }
-                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]"
-                aria-label="Ticket sales fee percentage"
-              />
-              <span className="text-sm text-gray-600">
-                Current: {settings.ticketFeePercentage}% fee on ticket sales
-              </span>
-            </div>
-          </div>
-
-          {/* Invoice Fee */}
-          <div>
-            <label className="block text-sm font-medium text-[#800000] mb-2">
-              Invoice Payment Fee (%)
-            </label>
-            <div className="flex items-center gap-4">
-              <input
-                type="number"
-                min="0"
-                max="100"
-                step="0.1"
-                value={settings.invoiceFeePercentage}
-                onChange={(e) =>
-                  handleFeeChange("invoiceFeePercentage", parseFloat(e.target.value) || 0)
-                }
-                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]"
-                aria-label="Invoice payment fee percentage"
-              />
-              <span className="text-sm text-gray-600">
-                Current: {settings.invoiceFeePercentage}% fee on invoice payments
-              </span>
-            </div>
-          </div>
+      {/* Fee Schedules */}
+      {can(user?.permissions, "fees.edit") && (
+        <FeeScheduleEditor currency={settings.currency} roleOptions={roleOptions} />
+      )}
 
-          {/* Withdrawal Fee */}
-          <div>
-            <label className="block text-sm font-medium text-[#800000] mb-2">
-              Cash Withdrawal Fee (%)
-            </label>
-            <div className="flex items-center gap-4">
-              <input
-                type="number"
-                min="0"
-                max="100"
-                step="0.1"
-                value={settings.withdrawalFeePercentage}
-                onChange={(e) =>
-                  handleFeeChange("withdrawalFeePercentage", parseFloat(e.target.value) || 0)
-                }
-                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]"
-                aria-label="Cash withdrawal fee percentage"
-              />
-              <span className="text-sm text-gray-600">
-                Current: {settings.withdrawalFeePercentage}% fee on cash withdrawals
-              </span>
-            </div>
-          </div>
-        </div>
-      </div>
+      {/* Wallet Limits */}
+      {can(user?.permissions, "limits.manage") && <LimitProfileEditor currency={settings.currency} />}
 
       {/* User Deletion Settings */}
       <div className="bg-white rounded-lg shadow-md p-6">
@@ -679,6 +606,60 @@ const Control = () => {
         </div>
       </div>
 
+      {/* Transaction PIN */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h4 className="text-lg font-semibold text-[#800000] mb-4">Transaction PIN</h4>
+        <div>
+          <label className="block text-sm font-medium text-[#800000] mb-2">
+            Always Require PIN Above (in dollars)
+          </label>
+          <div className="flex items-center gap-4">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={(settings.pinAlwaysRequiredAboveCents / 100).toFixed(2)}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                setSettings((prev) => ({ ...prev, pinAlwaysRequiredAboveCents: Math.round(value * 100) }));
+              }}
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]"
+              aria-label="Amount above which the transaction PIN is always required, in dollars"
+            />
+            <span className="text-sm text-gray-600">
+              Payments above ${(settings.pinAlwaysRequiredAboveCents / 100).toFixed(2)} always ask for the PIN
+            </span>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Users can trust a device to skip the PIN for smaller transfers, withdrawals, invoice payments and
+            ticket purchases. Set this to $0.00 to require the PIN for every payment.
+          </p>
+        </div>
+      </div>
+
+      {/* Two-Factor Authentication */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h4 className="text-lg font-semibold text-[#800000] mb-2">Two-Factor Authentication</h4>
+        <p className="text-sm text-gray-600 mb-4">
+          Users with these roles must set up an authenticator app before they can sign in or use
+          their role&apos;s admin tools
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {roleOptions.map((role) => (
+            <label key={role.name} className="flex items-center gap-2 text-sm text-[#800000] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.twoFactorRequiredRoles.includes(role.name)}
+                onChange={() => handleTwoFactorRoleToggle(role.name)}
+                className="h-4 w-4 rounded border-gray-300 text-[#800000] focus:ring-[#800000]"
+                aria-label={`Require two-factor authentication for ${role.label}`}
+              />
+              {role.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
       {/* Save Button */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <button
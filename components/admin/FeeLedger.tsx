@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { getAllFees, depositTotalFees, getDepositedTicketFees } from "@/lib/server-actions/admin";
+import { getAllFees, depositTotalFees, getDepositedTicketFees, getFeeRevenueBalance } from "@/lib/server-actions/admin";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface FeeTransaction {
@@ -39,6 +39,7 @@ const FeeLedger = () => {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>("all");
   const [fees, setFees] = useState<FeeTransaction[]>([]);
+  const [feeRevenueCents, setFeeRevenueCents] = useState<number | null>(null);
   const [depositedTicketFees, setDepositedTicketFees] = useState<DepositedTicketFee[]>([]);
   const [loading, setLoading] = useState(true);
   const [depositLoading, setDepositLoading] = useState(false);
@@ -54,8 +55,9 @@ const FeeLedger = () => {
       try {
         setLoading(true);
         setError("");
-        const feesData = await getAllFees();
+        const [feesData, revenue] = await Promise.all([getAllFees(), getFeeRevenueBalance()]);
         setFees(feesData);
+        setFeeRevenueCents(revenue.success ? (revenue.balanceCents ?? 0) : null);
       } catch (err) {
         console.error("Error loading fees:", err);
         setError("Failed to load fees");
@@ -149,8 +151,11 @@ const FeeLedger = () => {
   };
 
   // Only count undeposited fees in totals
+  // The total is the fee revenue account in the ledger; the per-type figures break it down
   const undepositedFees = fees.filter((f) => !f.deposited);
-  const totalFees = undepositedFees.reduce((sum, fee) => sum + fee.fee, 0);
+  const totalFees = feeRevenueCents !== null
+    ? feeRevenueCents / 100
+    : undepositedFees.reduce((sum, fee) => sum + fee.fee, 0);
   const p2pFees = undepositedFees.filter((f) => f.type === "p2p").reduce((sum, f) => sum + f.fee, 0);
   const ticketFees = undepositedFees.filter((f) => f.type === "ticket").reduce((sum, f) => sum + f.fee, 0);
   const invoiceFees = undepositedFees.filter((f) => f.type === "invoice").reduce((sum, f) => sum + f.fee, 0);
@@ -167,7 +172,7 @@ const FeeLedger = () => {
     setDepositSuccess("");
 
     try {
-      const result = await depositTotalFees(user.id);
+      const result = await depositTotalFees();
       
       if (result.success) {
         const walletInfo = result.walletId ? ` (Wallet ID: ${result.walletId})` : "";
@@ -176,8 +181,9 @@ const FeeLedger = () => {
         );
         setShowDepositConfirm(false);
         // Reload fees after successful deposit
-        const feesData = await getAllFees();
+        const [feesData, revenue] = await Promise.all([getAllFees(), getFeeRevenueBalance()]);
         setFees(feesData);
+        setFeeRevenueCents(revenue.success ? (revenue.balanceCents ?? 0) : null);
         // Clear success message after 8 seconds (increased visibility time)
         setTimeout(() => setDepositSuccess(""), 8000);
       } else {
@@ -356,28 +362,28 @@ const FeeLedger = () => {
                   <p className="text-xl font-semibold text-blue-600">
                     ${p2pFees.toFixed(2)}
                   </p>
-                  <p className="text-xs text-[#800000] mt-1">5% of transfers</p>
+                  <p className="text-xs text-[#800000] mt-1">Paid by senders</p>
                 </div>
                 <div className="bg-green-50 p-4 rounded-lg">
                   <p className="text-sm text-[#800000]">Ticket Fees</p>
                   <p className="text-xl font-semibold text-green-600">
                     ${ticketFees.toFixed(2)}
                   </p>
-                  <p className="text-xs text-[#800000] mt-1">10% of sales</p>
+                  <p className="text-xs text-[#800000] mt-1">Paid by event creators</p>
                 </div>
                 <div className="bg-purple-50 p-4 rounded-lg">
                   <p className="text-sm text-[#800000]">Invoice Fees</p>
                   <p className="text-xl font-semibold text-purple-600">
                     ${invoiceFees.toFixed(2)}
                   </p>
-                  <p className="text-xs text-[#800000] mt-1">5% of payments</p>
+                  <p className="text-xs text-[#800000] mt-1">Paid by invoice payers</p>
                 </div>
                 <div className="bg-orange-50 p-4 rounded-lg">
                   <p className="text-sm text-[#800000]">Cash Out Fees</p>
                   <p className="text-xl font-semibold text-orange-600">
                     ${withdrawalFees.toFixed(2)}
                   </p>
-                  <p className="text-xs text-[#800000] mt-1">5% of cash withdrawals</p>
+                  <p className="text-xs text-[#800000] mt-1">Deducted from cash withdrawals</p>
                 </div>
               </div>
 
@@ -0,0 +1,493 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FeeBandModel, FeeKind } from "@/lib/db/models";
+import {
+  FEE_KINDS,
+  FEE_KIND_LABELS,
+  FEE_PAYER_DESCRIPTIONS,
+  calculateFee,
+  validateFeeSchedule,
+} from "@/lib/fee-schedule";
+import type { FeeScheduleRules } from "@/lib/fee-schedule";
+import { getFeeSchedules, saveFeeSchedule } from "@/lib/server-actions/fee-schedules";
+import { formatCurrency, formatDateWithTime } from "@/lib/format";
+
+type FeeScheduleSummary = NonNullable<Awaited<ReturnType<typeof getFeeSchedules>>["schedules"]>[number];
+
+interface FeeScheduleEditorProps {
+  currency: string;
+  roleOptions: { name: string; label: string }[];
+}
+
+// Amounts are edited in currency units as typed; empty means "not set"
+interface BandDraft {
+  upTo: string;
+  percentage: string;
+  flat: string;
+  minFee: string;
+  maxFee: string;
+}
+
+interface ScheduleDraft {
+  bands: BandDraft[];
+  exemptRoles: string[];
+  exemptWalletIds: string;
+  effectiveFrom: string;
+  note: string;
+}
+
+const toAmountText = (cents: number | undefined) => (cents === undefined ? "" : (cents / 100).toString());
+
+const toCents = (text: string): number | undefined =>
+  text.trim() === "" ? undefined : Math.round(parseFloat(text) * 100);
+
+const toDraft = (rules: FeeScheduleRules): ScheduleDraft => ({
+  bands: rules.bands.map((band) => ({
+    upTo: toAmountText(band.upToCents),
+    percentage: band.percentage.toString(),
+    flat: toAmountText(band.flatCents),
+    minFee: toAmountText(band.minFeeCents),
+    maxFee: toAmountText(band.maxFeeCents),
+  })),
+  exemptRoles: rules.exemptRoles,
+  exemptWalletIds: rules.exemptWalletIds.join(", "),
+  effectiveFrom: "",
+  note: "",
+});
+
+const toBands = (bands: BandDraft[]): FeeBandModel[] =>
+  bands.map((band, index) => ({
+    ...(index < bands.length - 1 && { upToCents: toCents(band.upTo) ?? NaN }),
+    percentage: parseFloat(band.percentage || "0"),
+    flatCents: toCents(band.flat) ?? 0,
+    minFeeCents: toCents(band.minFee),
+    maxFeeCents: toCents(band.maxFee),
+  }));
+
+const EMPTY_BAND: BandDraft = { upTo: "", percentage: "0", flat: "", minFee: "", maxFee: "" };
+
+/**
+ * Fee schedule editor for the Control tab
+ * Edits one fee kind at a time and previews the fee on a sample payment, for the
+ * draft and for the schedule in effect, with the same rules the server charges.
+ */
+const FeeScheduleEditor = ({ currency, roleOptions }: FeeScheduleEditorProps) => {
+  const [schedules, setSchedules] = useState<FeeScheduleSummary[]>([]);
+  const [kind, setKind] = useState<FeeKind>("p2p");
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [previewAmount, setPreviewAmount] = useState("100");
+  const [previewRole, setPreviewRole] = useState("user");
+
+  const selected = schedules.find((schedule) => schedule.kind === kind);
+  const inEffect: FeeScheduleRules | null = selected?.current ?? selected?.legacy ?? null;
+
+  const loadSchedules = async () => {
+    try {
+      const result = await getFeeSchedules();
+      if (result.success) {
+        setSchedules(result.schedules ?? []);
+      } else {
+        setError(result.error || "Failed to load fee schedules");
+      }
+    } catch (err) {
+      console.error("Error loading fee schedules:", err);
+      setError("Failed to load fee schedules");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  // Start editing from the schedule in effect whenever the kind changes or reloads
+  useEffect(() => {
+    const summary = schedules.find((schedule) => schedule.kind === kind);
+    const rules = summary?.current ?? summary?.legacy ?? null;
+    setDraft(rules ? toDraft(rules) : null);
+  }, [kind, schedules]);
+
+  const draftRules: FeeScheduleRules | null = draft
+    ? {
+        kind,
+        bands: toBands(draft.bands),
+        exemptRoles: draft.exemptRoles,
+        exemptWalletIds: draft.exemptWalletIds
+          .split(",")
+          .map((walletId) => walletId.trim().toUpperCase())
+          .filter(Boolean),
+      }
+    : null;
+
+  const hasInvalidNumber = draft?.bands.some((band) =>
+    [band.upTo, band.percentage, band.flat, band.minFee, band.maxFee].some(
+      (value) => value.trim() !== "" && Number.isNaN(parseFloat(value))
+    )
+  );
+  const draftError = !draftRules
+    ? null
+    : hasInvalidNumber
+    ? "Enter amounts and percentages as numbers"
+    : validateFeeSchedule(draftRules);
+
+  const previewCents = toCents(previewAmount) ?? 0;
+  const previewPayer = { role: previewRole };
+  const draftQuote = draftRules && !draftError ? calculateFee(draftRules, previewCents, previewPayer) : null;
+  const currentQuote = inEffect ? calculateFee(inEffect, previewCents, previewPayer) : null;
+
+  const formatCents = (cents: number) => formatCurrency(cents / 100, currency);
+
+  const describeBands = (bands: FeeBandModel[]) =>
+    bands
+      .map((band, index) => {
+        const from = index === 0 ? 0 : (bands[index - 1].upToCents ?? 0) + 1;
+        const range = band.upToCents === undefined
+          ? `${formatCents(from)} and up`
+          : `${formatCents(from)} to ${formatCents(band.upToCents)}`;
+        const parts = [`${band.percentage}%`];
+        if (band.flatCents > 0) parts.push(`+ ${formatCents(band.flatCents)}`);
+        if (band.minFeeCents !== undefined) parts.push(`min ${formatCents(band.minFeeCents)}`);
+        if (band.maxFeeCents !== undefined) parts.push(`max ${formatCents(band.maxFeeCents)}`);
+        return `${range}: ${parts.join(" ")}`;
+      })
+      .join("; ");
+
+  const updateBand = (index: number, field: keyof BandDraft, value: string) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        bands: prev.bands.map((band, i) => (i === index ? { ...band, [field]: value } : band)),
+      }
+    );
+  };
+
+  const addBand = () => {
+    setDraft((prev) => prev && { ...prev, bands: [...prev.bands, { ...EMPTY_BAND }] });
+  };
+
+  const removeBand = (index: number) => {
+    setDraft((prev) => prev && { ...prev, bands: prev.bands.filter((_, i) => i !== index) });
+  };
+
+  const toggleExemptRole = (role: string) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        exemptRoles: prev.exemptRoles.includes(role)
+          ? prev.exemptRoles.filter((r) => r !== role)
+          : [...prev.exemptRoles, role],
+      }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draftRules || draftError) return;
+
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const result = await saveFeeSchedule({
+        ...draftRules,
+        effectiveFrom: draft.effectiveFrom ? new Date(draft.effectiveFrom).toISOString() : undefined,
+        note: draft.note,
+      });
+      if (result.success) {
+        setSuccess(`✅ ${FEE_KIND_LABELS[kind]}: ${result.message}`);
+        setTimeout(() => setSuccess(""), 6000);
+        await loadSchedules();
+      } else {
+        setError(`❌ ${result.error || "Failed to save fee schedule"}`);
+      }
+    } catch (err) {
+      console.error("Error saving fee schedule:", err);
+      setError("❌ Failed to save fee schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000]";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h4 className="text-lg font-semibold text-[#800000] mb-1">Fee Schedules</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Each change is saved as a new schedule. Fees already charged keep the schedule they were charged under.
+      </p>
+
+      {/* Kind Tabs */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {FEE_KINDS.map((feeKind) => (
+          <button
+            key={feeKind}
+            onClick={() => setKind(feeKind)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
+              kind === feeKind
+                ? "bg-[#800000] text-white border-[#800000]"
+                : "text-[#800000] border-[#800000] hover:bg-[#800000]/10"
+            }`}
+            aria-pressed={kind === feeKind}
+          >
+            {FEE_KIND_LABELS[feeKind]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+      {success && <p className="text-sm text-green-700 mb-3">{success}</p>}
+
+      {loading || !draft ? (
+        <div className="py-6 text-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#800000] mx-auto"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* In Effect */}
+          <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-1">
+            <p className="text-[#800000] font-medium">{FEE_PAYER_DESCRIPTIONS[kind]}</p>
+            {selected?.current ? (
+              <p>
+                In effect since {formatDateWithTime(selected.current.effectiveFrom)}: {describeBands(selected.current.bands)}
+              </p>
+            ) : (
+              inEffect && <p>No schedule saved yet. Charging the legacy flat fee: {describeBands(inEffect.bands)}</p>
+            )}
+            {inEffect && (
+              <p>
+                Exempt: {[...inEffect.exemptRoles, ...inEffect.exemptWalletIds].join(", ") || "nobody"}
+              </p>
+            )}
+            {selected?.upcoming.map((schedule) => (
+              <p key={schedule._id} className="text-blue-700">
+                Scheduled for {formatDateWithTime(schedule.effectiveFrom)}: {describeBands(schedule.bands)}
+              </p>
+            ))}
+          </div>
+
+          {/* Bands */}
+          <div>
+            <p className="text-sm font-medium text-[#800000] mb-2">Amount bands</p>
+            <div className="space-y-2">
+              {draft.bands.map((band, index) => {
+                const isLast = index === draft.bands.length - 1;
+                return (
+                  <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                    <label className="text-xs text-gray-600">
+                      Up to ({currency})
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={isLast ? "" : band.upTo}
+                        placeholder={isLast ? "No limit" : ""}
+                        disabled={isLast}
+                        onChange={(e) => updateBand(index, "upTo", e.target.value)}
+                        className={`${inputClassName} disabled:bg-gray-100`}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Percent (%)
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.1"
+                        value={band.percentage}
+                        onChange={(e) => updateBand(index, "percentage", e.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Flat fee ({currency})
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={band.flat}
+                        placeholder="0"
+                        onChange={(e) => updateBand(index, "flat", e.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Minimum fee
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={band.minFee}
+                        placeholder="None"
+                        onChange={(e) => updateBand(index, "minFee", e.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                      Maximum fee
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={band.maxFee}
+                        placeholder="None"
+                        onChange={(e) => updateBand(index, "maxFee", e.target.value)}
+                        className={inputClassName}
+                      />
+                    </label>
+                    <button
+                      onClick={() => removeBand(index)}
+                      disabled={draft.bands.length === 1}
+                      className="px-3 py-2 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                      aria-label={`Remove band ${index + 1}`}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={addBand}
+              className="mt-2 text-sm font-medium text-[#800000] hover:underline"
+            >
+              + Add band
+            </button>
+          </div>
+
+          {/* Exemptions */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-[#800000] mb-2">Exempt roles</p>
+              <div className="flex flex-wrap gap-3">
+                {roleOptions.map((role) => (
+                  <label key={role.name} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.exemptRoles.includes(role.name)}
+                      onChange={() => toggleExemptRole(role.name)}
+                    />
+                    {role.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="text-sm font-medium text-[#800000]">
+              Exempt wallet IDs (comma separated)
+              <input
+                type="text"
+                value={draft.exemptWalletIds}
+                onChange={(e) => setDraft({ ...draft, exemptWalletIds: e.target.value })}
+                className={`${inputClassName} mt-2 font-mono`}
+              />
+            </label>
+          </div>
+
+          {/* Effective Date */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="text-sm font-medium text-[#800000]">
+              Takes effect
+              <input
+                type="datetime-local"
+                value={draft.effectiveFrom}
+                onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+                className={`${inputClassName} mt-2`}
+              />
+              <span className="block text-xs text-gray-500 mt-1">Leave empty to apply it immediately</span>
+            </label>
+            <label className="text-sm font-medium text-[#800000]">
+              Note (optional)
+              <input
+                type="text"
+                value={draft.note}
+                maxLength={200}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                className={`${inputClassName} mt-2`}
+              />
+            </label>
+          </div>
+
+          {/* Live Preview */}
+          <div className="border border-gray-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-[#800000] mb-2">Preview</p>
+            <div className="flex flex-wrap items-end gap-3 mb-3">
+              <label className="text-xs text-gray-600">
+                Amount ({currency})
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={previewAmount}
+                  onChange={(e) => setPreviewAmount(e.target.value)}
+                  className={`${inputClassName} w-36`}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Paid by
+                <select
+                  value={previewRole}
+                  onChange={(e) => setPreviewRole(e.target.value)}
+                  className={`${inputClassName} w-40 bg-white`}
+                >
+                  {roleOptions.map((role) => (
+                    <option key={role.name} value={role.name}>
+                      {role.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {draftError ? (
+              <p className="text-sm text-red-700">{draftError}</p>
+            ) : (
+              draftQuote && (
+                <p className="text-sm text-gray-700">
+                  Fee with these changes:{" "}
+                  <span className="font-semibold text-[#800000]">{formatCents(draftQuote.feeCents)}</span>
+                  {draftQuote.exempt && " (exempt)"}
+                  {currentQuote && (
+                    <span className="text-gray-500"> · currently {formatCents(currentQuote.feeCents)}</span>
+                  )}
+                </p>
+              )
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={saving || draftError !== null}
+              className="px-6 py-2 bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : draft.effectiveFrom ? "Schedule Change" : "Apply Now"}
+            </button>
+          </div>
+
+          {/* History */}
+          {selected && selected.history.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-[#800000] mb-2">History</p>
+              <ul className="text-sm text-gray-700 divide-y divide-gray-100">
+                {selected.history.map((schedule) => (
+                  <li key={schedule._id} className="py-2">
+                    <span className="font-medium">{formatDateWithTime(schedule.effectiveFrom)}</span>:{" "}
+                    {describeBands(schedule.bands)}
+                    {schedule.note && <span className="text-gray-500"> · {schedule.note}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeeScheduleEditor;
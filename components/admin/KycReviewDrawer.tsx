@@ -4,6 +4,8 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { getAllKycApplications, approveKyc, rejectKyc } from "@/lib/server-actions/admin";
 import { markApplicationAsViewed } from "@/lib/utils/kycNotifications";
+import { DEFAULT_KYC_TIER, KYC_TIERS, KYC_TIER_LABELS } from "@/lib/limit-profile";
+import type { KycTier } from "@/lib/db/models";
 
 interface KYCApplication {
   _id: string;
@@ -14,6 +16,7 @@ interface KYCApplication {
   phone: string;
   address: string;
   status: "pending" | "approved" | "rejected";
+  tier?: KycTier;
   submittedAt: string;
   reviewedAt?: string;
   rejectionReason?: string;
@@ -38,6 +41,7 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
   const [isRejectModalOpen, setIsRejectModalOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState("");
   const [processing, setProcessing] = useState(false);
+  const [approvalTier, setApprovalTier] = useState<KycTier>(DEFAULT_KYC_TIER);
 
   useEffect(() => {
     const loadApplications = async () => {
@@ -69,6 +73,7 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
    */
   const handleReview = (application: KYCApplication) => {
     setSelectedApp(application);
+    setApprovalTier(DEFAULT_KYC_TIER);
     setIsDrawerOpen(true);
     
     // Mark application as viewed when admin opens it for review
@@ -87,7 +92,7 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
 
     setProcessing(true);
     try {
-      const result = await approveKyc(selectedApp._id, user.id);
+      const result = await approveKyc(selectedApp._id, approvalTier);
       if (result.success) {
         // Reload applications
         const apps = await getAllKycApplications();
@@ -117,7 +122,7 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
 
     setProcessing(true);
     try {
-      const result = await rejectKyc(selectedApp._id, rejectReason, user.id);
+      const result = await rejectKyc(selectedApp._id, rejectReason);
       if (result.success) {
         // Reload applications
         const apps = await getAllKycApplications();
@@ -481,6 +486,13 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
                     </div>
                   </div>
 
+                  {selectedApp.status === "approved" && selectedApp.tier && (
+                    <div>
+                      <h4 className="text-sm font-medium text-[#800000] mb-2">KYC Tier</h4>
+                      <p className="text-sm text-[#800000]">{KYC_TIER_LABELS[selectedApp.tier]}</p>
+                    </div>
+                  )}
+
                   {selectedApp.status === "rejected" && selectedApp.rejectionReason && (
                     <div>
                       <h4 className="text-sm font-medium text-[#800000] mb-2">
@@ -496,23 +508,44 @@ const KycReviewDrawer = ({ onNotificationRefresh }: KycReviewDrawerProps) => {
 
               {/* Footer Actions */}
               {selectedApp.status === "pending" && (
-                <div className="border-t p-6 flex gap-3">
-                  <button
-                    onClick={handleRejectClick}
-                    disabled={processing}
-                    className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-                    tabIndex={0}
-                  >
-                    Reject
-                  </button>
-                  <button
-                    onClick={handleApprove}
-                    disabled={processing}
-                    className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-                    tabIndex={0}
-                  >
-                    {processing ? "Processing..." : "Approve"}
-                  </button>
+                <div className="border-t p-6 space-y-4">
+                  <div>
+                    <label htmlFor="kyc-approval-tier" className="block text-sm font-medium text-[#800000] mb-1">
+                      KYC tier on approval
+                    </label>
+                    <select
+                      id="kyc-approval-tier"
+                      value={approvalTier}
+                      onChange={(e) => setApprovalTier(e.target.value as KycTier)}
+                      disabled={processing}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-[#800000] focus:outline-none focus:ring-2 focus:ring-[#800000]"
+                    >
+                      {KYC_TIERS.map((tier) => (
+                        <option key={tier} value={tier}>
+                          {KYC_TIER_LABELS[tier]}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-[#800000]/70">Sets the wallet&apos;s transaction and balance limits</p>
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleRejectClick}
+                      disabled={processing}
+                      className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      tabIndex={0}
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={handleApprove}
+                      disabled={processing}
+                      className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      tabIndex={0}
+                    >
+                      {processing ? "Processing..." : "Approve"}
+                    </button>
+                  </div>
                 </div>
               )}
             </div>
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { KycTier } from "@/lib/db/models";
+import { KYC_TIERS, KYC_TIER_LABELS, validateWalletLimits } from "@/lib/limit-profile";
+import { getLimitProfiles, saveLimitProfile } from "@/lib/server-actions/limits";
+import { formatDateWithTime } from "@/lib/format";
+import WalletLimitsFields, { draftToLimits, limitsToDraft } from "@/components/admin/WalletLimitsFields";
+import type { WalletLimitsDraft } from "@/components/admin/WalletLimitsFields";
+
+type LimitProfileSummary = NonNullable<Awaited<ReturnType<typeof getLimitProfiles>>["profiles"]>[number];
+
+interface LimitProfileEditorProps {
+  currency: string;
+}
+
+/**
+ * Limit profile editor for the Control tab
+ * Edits the limits of one KYC tier at a time; wallets with an override set from the
+ * Wallets tab keep their own limits.
+ */
+const LimitProfileEditor = ({ currency }: LimitProfileEditorProps) => {
+  const [profiles, setProfiles] = useState<LimitProfileSummary[]>([]);
+  const [tier, setTier] = useState<KycTier>("basic");
+  const [draft, setDraft] = useState<WalletLimitsDraft>(limitsToDraft(null));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const selected = profiles.find((profile) => profile.tier === tier);
+
+  const loadProfiles = async () => {
+    try {
+      const result = await getLimitProfiles();
+      if (result.success) {
+        setProfiles(result.profiles ?? []);
+      } else {
+        setError(result.error || "Failed to load limit profiles");
+      }
+    } catch (err) {
+      console.error("Error loading limit profiles:", err);
+      setError("Failed to load limit profiles");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  // Start editing from the saved profile whenever the tier changes or reloads
+  useEffect(() => {
+    const profile = profiles.find((candidate) => candidate.tier === tier);
+    setDraft(limitsToDraft(profile?.limits));
+  }, [tier, profiles]);
+
+  const draftLimits = draftToLimits(draft);
+  const draftError = typeof draftLimits === "string" ? draftLimits : validateWalletLimits(draftLimits);
+
+  const handleSave = async () => {
+    if (typeof draftLimits === "string" || draftError) return;
+
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const result = await saveLimitProfile(tier, draftLimits);
+      if (result.success) {
+        setSuccess(`${KYC_TIER_LABELS[tier]} tier limits saved`);
+        await loadProfiles();
+      } else {
+        setError(result.error || "Failed to save limit profile");
+      }
+    } catch (err) {
+      console.error("Error saving limit profile:", err);
+      setError("Failed to save limit profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h4 className="text-lg font-semibold text-[#800000] mb-1">Wallet Limits</h4>
+      <p className="text-sm text-gray-600 mb-4">
+        Limits apply to every wallet whose holder has the KYC tier. Leave a field blank for no limit; a tier
+        without saved limits is unlimited.
+      </p>
+
+      {/* Tier Tabs */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {KYC_TIERS.map((kycTier) => (
+          <button
+            key={kycTier}
+            onClick={() => setTier(kycTier)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg border transition-colors ${
+              tier === kycTier
+                ? "bg-[#800000] text-white border-[#800000]"
+                : "text-[#800000] border-[#800000] hover:bg-[#800000]/10"
+            }`}
+            aria-pressed={tier === kycTier}
+          >
+            {KYC_TIER_LABELS[kycTier]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-700 mb-3">{error}</p>}
+      {success && <p className="text-sm text-green-700 mb-3">{success}</p>}
+
+      {loading ? (
+        <div className="py-6 text-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#800000] mx-auto"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-gray-600">
+            {selected?.updatedAt
+              ? `Last changed ${formatDateWithTime(selected.updatedAt)}`
+              : "No limits saved for this tier yet"}
+          </p>
+
+          <WalletLimitsFields
+            idPrefix={`limit-profile-${tier}`}
+            draft={draft}
+            onChange={setDraft}
+            currency={currency}
+            disabled={saving}
+          />
+
+          {draftError && <p className="text-sm text-red-700">{draftError}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={saving || draftError !== null}
+              className="px-6 py-2 bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Limits"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LimitProfileEditor;
@@ -3,15 +3,19 @@
 /**
  * Permission Management Component
  * 
- * This component provides functionality for managing event approvals and rejections.
- * Admins can view pending events with price and ticket information, and approve or reject them.
+ * This component provides functionality for managing roles and event approvals.
+ * - Users with roles.manage can create, edit and delete roles (see RoleManager)
+ * - Users with events.moderate can view pending events with price and ticket
+ *   information, and approve or reject them
  */
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/rbac";
 import { getPendingEvents, approveEvent, rejectEvent } from "@/lib/server-actions/events";
 import { formatCurrency, formatDateTime } from "@/lib/format";
 import Image from "next/image";
+import RoleManager from "./RoleManager";
 
 interface PendingEvent {
   id: string;
@@ -33,7 +37,7 @@ interface PermissionProps {
   onNotificationRefresh?: () => void; // Optional callback to refresh notification badge
 }
 
-const Permission = ({ onNotificationRefresh }: PermissionProps) => {
+const EventApprovals = ({ onNotificationRefresh }: PermissionProps) => {
   const { user } = useAuth();
   const [events, setEvents] = useState<PendingEvent[]>([]);
   const [loading, setLoading] = useState(true);
@@ -77,7 +81,7 @@ const Permission = ({ onNotificationRefresh }: PermissionProps) => {
     setSuccess("");
 
     try {
-      const result = await approveEvent(eventId, user.id);
+      const result = await approveEvent(eventId);
       if (result.success) {
         setSuccess(result.message || "Event approved successfully");
         // Reload events
@@ -122,7 +126,7 @@ const Permission = ({ onNotificationRefresh }: PermissionProps) => {
     setSuccess("");
 
     try {
-      const result = await rejectEvent(selectedEvent.id, user.id, rejectReason);
+      const result = await rejectEvent(selectedEvent.id, rejectReason);
       if (result.success) {
         setSuccess(result.message || "Event rejected successfully");
         setIsRejectModalOpen(false);
@@ -468,4 +472,17 @@ const Permission = ({ onNotificationRefresh }: PermissionProps) => {
   );
 };
 
+const Permission = ({ onNotificationRefresh }: PermissionProps) => {
+  const { user } = useAuth();
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {can(user?.permissions, "roles.manage") && <RoleManager />}
+      {can(user?.permissions, "events.moderate") && (
+        <EventApprovals onNotificationRefresh={onNotificationRefresh} />
+      )}
+    </div>
+  );
+};
+
 export default Permission;
@@ -0,0 +1,486 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  activateRedeemBatch,
+  assignRedeemBatch,
+  createRedeemBatch,
+  getRedeemBatches,
+  printRedeemBatch,
+  voidRedeemBatch,
+} from "@/lib/server-actions/redeem-batches";
+import { formatRedeemSerial } from "@/lib/redeem-code-format";
+import ConfirmationModal from "@/components/ui/ConfirmationModal";
+import toast from "react-hot-toast";
+
+type RedeemBatch = NonNullable<Awaited<ReturnType<typeof getRedeemBatches>>["batches"]>[number];
+
+const STATUS_STYLES: Record<RedeemBatch["status"], string> = {
+  created: "bg-gray-100 text-gray-800",
+  printed: "bg-blue-100 text-blue-800",
+  activated: "bg-green-100 text-green-800",
+  assigned: "bg-purple-100 text-purple-800",
+  voided: "bg-red-100 text-red-800",
+};
+
+const formatDollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+/**
+ * RedeemBatches Component
+ *
+ * Batches of scratch-card codes in the admin redeem tab: create a batch, print it
+ * (downloads the codes and PINs as CSV for the print shop), activate it, record
+ * who it was handed to, and void it or single codes. Each batch shows the
+ * liability it still carries.
+ */
+const RedeemBatches = () => {
+  const [batches, setBatches] = useState<RedeemBatch[]>([]);
+  const [outstandingCents, setOutstandingCents] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [label, setLabel] = useState("");
+  const [amount, setAmount] = useState("");
+  const [count, setCount] = useState("100");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [printBatch, setPrintBatch] = useState<RedeemBatch | null>(null);
+  const [voidBatch, setVoidBatch] = useState<RedeemBatch | null>(null);
+  const [assignBatch, setAssignBatch] = useState<RedeemBatch | null>(null);
+  const [distributor, setDistributor] = useState("");
+  const [voidCodeBatch, setVoidCodeBatch] = useState<RedeemBatch | null>(null);
+  const [voidSerial, setVoidSerial] = useState("");
+
+  const loadBatches = async () => {
+    try {
+      const result = await getRedeemBatches();
+      if (result.success) {
+        setBatches(result.batches ?? []);
+        setOutstandingCents(result.outstandingCents ?? 0);
+      } else {
+        setError(result.error || "Failed to load redeem batches");
+      }
+    } catch (err) {
+      console.error("Error loading redeem batches:", err);
+      setError("Failed to load redeem batches");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const amountNum = parseFloat(amount);
+    if (!amount || isNaN(amountNum) || amountNum <= 0) {
+      setError("Please enter a valid face value");
+      return;
+    }
+    const countNum = parseInt(count);
+    if (!count || isNaN(countNum) || countNum <= 0) {
+      setError("Please enter how many codes the batch holds");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const result = await createRedeemBatch({
+        label: label || undefined,
+        count: countNum,
+        amount: amountNum,
+        expiresAt: expiryDate ? new Date(expiryDate).toISOString() : undefined,
+      });
+      if (result.success) {
+        toast.success(result.message || "Batch created");
+        setLabel("");
+        setAmount("");
+        setCount("100");
+        setExpiryDate("");
+        await loadBatches();
+      } else {
+        setError(result.error || "Failed to create batch");
+      }
+    } catch (err) {
+      console.error("Error creating redeem batch:", err);
+      setError("Failed to create batch");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Runs a batch action and reloads the list; the action reports its own message
+  const runAction = async (
+    batchId: string,
+    action: () => Promise<{ success: boolean; message?: string; error?: string }>
+  ): Promise<boolean> => {
+    setProcessingId(batchId);
+    setError("");
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(result.message || "Batch updated");
+        await loadBatches();
+        return true;
+      }
+      setError(result.error || "Failed to update batch");
+      return false;
+    } catch (err) {
+      console.error("Error updating redeem batch:", err);
+      setError("Failed to update batch");
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePrint = async (batch: RedeemBatch) => {
+    setPrintBatch(null);
+    setProcessingId(batch._id);
+    setError("");
+    try {
+      const result = await printRedeemBatch(batch._id);
+      if (!result.success || !result.codes) {
+        setError(result.error || "Failed to print batch");
+        return;
+      }
+
+      // The print file is the only copy of the codes and PINs
+      const rows = [
+        "serial,code,pin,amount,expires",
+        ...result.codes.map((code) =>
+          [
+            formatRedeemSerial(code.serial),
+            code.code,
+            code.pin,
+            ((result.amount ?? 0) / 100).toFixed(2),
+            result.expiresAt ? result.expiresAt.slice(0, 10) : "",
+          ].join(",")
+        ),
+      ];
+      const { saveAs } = await import("file-saver");
+      saveAs(new Blob([rows.join("\n")], { type: "text/csv;charset=utf-8" }), `redeem-batch-${result.serials}.csv`);
+
+      toast.success(`Batch ${result.serials} sent to print`);
+      await loadBatches();
+    } catch (err) {
+      console.error("Error printing redeem batch:", err);
+      setError("Failed to print batch");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">{error}</div>
+      )}
+
+      {/* Create Batch */}
+      <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+        <div>
+          <label htmlFor="batch-label" className="block text-sm font-medium text-[#800000] mb-1">
+            Label
+          </label>
+          <input
+            id="batch-label"
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Optional"
+            disabled={creating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-[#800000]"
+          />
+        </div>
+        <div>
+          <label htmlFor="batch-amount" className="block text-sm font-medium text-[#800000] mb-1">
+            Face value ($)
+          </label>
+          <input
+            id="batch-amount"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={creating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-[#800000]"
+          />
+        </div>
+        <div>
+          <label htmlFor="batch-count" className="block text-sm font-medium text-[#800000] mb-1">
+            Codes
+          </label>
+          <input
+            id="batch-count"
+            type="number"
+            min="1"
+            step="1"
+            value={count}
+            onChange={(e) => setCount(e.target.value)}
+            disabled={creating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-[#800000]"
+          />
+        </div>
+        <div>
+          <label htmlFor="batch-expiry" className="block text-sm font-medium text-[#800000] mb-1">
+            Expires
+          </label>
+          <input
+            id="batch-expiry"
+            type="date"
+            value={expiryDate}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            min={new Date().toISOString().split("T")[0]}
+            disabled={creating}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-[#800000]"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={creating}
+          className="px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {creating ? "Creating..." : "Create Batch"}
+        </button>
+      </form>
+
+      {/* Liability */}
+      <div className="p-4 bg-gray-50 rounded-lg flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-[#800000]">Outstanding liability across all batches</p>
+        <p className="text-xl font-semibold text-[#800000]">{formatDollars(outstandingCents)}</p>
+      </div>
+
+      {/* Batches */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : batches.length === 0 ? (
+        <p className="text-center py-8 text-[#800000]">No batches yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Serials", "Face Value", "Codes", "Redeemed", "Voided", "Outstanding", "Status", "Distributor", "Actions"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {batches.map((batch) => {
+                const busy = processingId === batch._id;
+                return (
+                  <tr key={batch._id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-[#800000]">
+                      {formatRedeemSerial(batch.serialStart)}–{formatRedeemSerial(batch.serialEnd)}
+                      {batch.label && <span className="block text-xs font-sans text-gray-500">{batch.label}</span>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">
+                      {formatDollars(batch.amount)}
+                      {batch.expiresAt && (
+                        <span className="block text-xs text-gray-500">
+                          Expires {new Date(batch.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{batch.count}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{batch.redeemed}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{batch.voided}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">
+                      {batch.outstanding}
+                      <span className="block text-xs font-semibold">{formatDollars(batch.outstandingCents)}</span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${STATUS_STYLES[batch.status]}`}
+                      >
+                        {batch.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{batch.distributor || "—"}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium">
+                      <div className="flex flex-wrap gap-3">
+                        {(batch.status === "created" || batch.status === "printed") && (
+                          <button
+                            onClick={() => (batch.status === "printed" ? setPrintBatch(batch) : handlePrint(batch))}
+                            disabled={busy}
+                            className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            {batch.status === "printed" ? "Reprint" : "Print"}
+                          </button>
+                        )}
+                        {batch.status === "printed" && (
+                          <button
+                            onClick={() => runAction(batch._id, () => activateRedeemBatch(batch._id))}
+                            disabled={busy}
+                            className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                          >
+                            Activate
+                          </button>
+                        )}
+                        {(batch.status === "activated" || batch.status === "assigned") && (
+                          <button
+                            onClick={() => {
+                              setDistributor(batch.distributor ?? "");
+                              setAssignBatch(batch);
+                            }}
+                            disabled={busy}
+                            className="text-purple-600 hover:text-purple-900 disabled:opacity-50"
+                          >
+                            {batch.status === "assigned" ? "Reassign" : "Assign"}
+                          </button>
+                        )}
+                        {batch.status !== "voided" && (
+                          <>
+                            <button
+                              onClick={() => {
+                                setVoidSerial("");
+                                setVoidCodeBatch(batch);
+                              }}
+                              disabled={busy}
+                              className="text-yellow-600 hover:text-yellow-900 disabled:opacity-50"
+                            >
+                              Void Code
+                            </button>
+                            <button
+                              onClick={() => setVoidBatch(batch)}
+                              disabled={busy}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              Void Batch
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={printBatch !== null}
+        onClose={() => setPrintBatch(null)}
+        onConfirm={() => printBatch && handlePrint(printBatch)}
+        title="Reprint Batch"
+        message="Printing again issues new codes and PINs for every unused card in this batch. Cards from the earlier print run will stop working. Continue?"
+        confirmText="Reprint"
+        confirmButtonColor="blue"
+        isLoading={printBatch !== null && processingId === printBatch._id}
+      />
+
+      <ConfirmationModal
+        isOpen={voidBatch !== null}
+        onClose={() => setVoidBatch(null)}
+        onConfirm={async () => {
+          if (!voidBatch) return;
+          const voided = await runAction(voidBatch._id, () => voidRedeemBatch(voidBatch._id));
+          if (voided) setVoidBatch(null);
+        }}
+        title="Void Batch"
+        message={
+          voidBatch
+            ? `Void every unused code in batch ${formatRedeemSerial(voidBatch.serialStart)}–${formatRedeemSerial(voidBatch.serialEnd)}? ${voidBatch.outstanding} code${voidBatch.outstanding === 1 ? "" : "s"} worth ${formatDollars(voidBatch.outstandingCents)} will stop working. This cannot be undone.`
+            : ""
+        }
+        confirmText="Void Batch"
+        isLoading={voidBatch !== null && processingId === voidBatch._id}
+      />
+
+      {/* Assign / Void Code Modal */}
+      {(assignBatch || voidCodeBatch) && (
+        <div className="fixed inset-0 z-50 overflow-hidden">
+          <div
+            className="absolute inset-0 bg-black bg-opacity-50"
+            onClick={() => {
+              setAssignBatch(null);
+              setVoidCodeBatch(null);
+            }}
+            aria-hidden="true"
+          ></div>
+          <div className="absolute inset-0 flex items-center justify-center p-4">
+            <form
+              onSubmit={async (e) => {
+                e.preventDefault();
+                if (assignBatch) {
+                  const assigned = await runAction(assignBatch._id, () => assignRedeemBatch(assignBatch._id, distributor));
+                  if (assigned) setAssignBatch(null);
+                } else if (voidCodeBatch) {
+                  const voided = await runAction(voidCodeBatch._id, () =>
+                    voidRedeemBatch(voidCodeBatch._id, parseInt(voidSerial, 10))
+                  );
+                  if (voided) setVoidCodeBatch(null);
+                }
+              }}
+              className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
+              role="dialog"
+              aria-modal="true"
+            >
+              <h3 className="text-lg font-semibold text-[#800000] mb-4">
+                {assignBatch ? "Assign Batch" : "Void Code"}
+              </h3>
+              <label htmlFor="batch-modal-input" className="block text-sm font-medium text-[#800000] mb-1">
+                {assignBatch ? "Distributor or agent" : "Serial number on the card"}
+              </label>
+              <input
+                id="batch-modal-input"
+                type={assignBatch ? "text" : "number"}
+                value={assignBatch ? distributor : voidSerial}
+                onChange={(e) => (assignBatch ? setDistributor(e.target.value) : setVoidSerial(e.target.value))}
+                min={voidCodeBatch?.serialStart}
+                max={voidCodeBatch?.serialEnd}
+                required
+                autoFocus
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-[#800000]"
+              />
+              {voidCodeBatch && (
+                <p className="mt-1 text-xs text-gray-600">
+                  Between {formatRedeemSerial(voidCodeBatch.serialStart)} and {formatRedeemSerial(voidCodeBatch.serialEnd)}.
+                  The code stops working and no longer counts as owed.
+                </p>
+              )}
+              <div className="flex gap-3 mt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAssignBatch(null);
+                    setVoidCodeBatch(null);
+                  }}
+                  className="flex-1 px-4 py-2 bg-gray-200 text-[#800000] rounded-md font-medium hover:bg-gray-300 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={processingId !== null}
+                  className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {processingId !== null ? "Saving..." : assignBatch ? "Assign" : "Void Code"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedeemBatches;
@@ -5,16 +5,22 @@ import { useAuth } from "@/contexts/AuthContext";
 import { generateRedeemCode, getAllRedeemCodes, deleteRedeemCodes, generateCardsFromRedeemCodes, getAllRedeemCards, deleteRedeemCard, getUsers } from "@/lib/server-actions/admin";
 import { sendMessageToUser } from "@/lib/server-actions/user-messages";
 import { uploadImageToCloudinary } from "@/lib/server-actions/cloudinary";
+import { printRedeemCards } from "@/lib/server-actions/redeem-print";
+import { REDEEM_SHEET_SIZES, getRedeemSheetLayout } from "@/lib/redeem-sheet-layout";
+import type { RedeemSheetSize } from "@/lib/db/models";
 import ConfirmationModal from "@/components/ui/ConfirmationModal";
+import RedeemBatches from "@/components/admin/RedeemBatches";
+import RedeemPrintRuns from "@/components/admin/RedeemPrintRuns";
 import toast from "react-hot-toast";
 
 interface RedeemCode {
   _id?: string;
-  code: string;
-  pin: string;
+  code: string; // Full code right after generation, masked in the list
+  pin?: string; // Only known right after generation; stored hashed
   amount: number;
   createdAt: string;
   used: boolean;
+  locked?: boolean; // Locked after too many wrong PINs
   usedBy?: string;
   usedByWalletId?: string;
   usedAt?: string;
@@ -33,7 +39,7 @@ interface RedeemCard {
 
 const RedeemGeneratorForm = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<"generate" | "redeemNumbers" | "cards">("generate");
+  const [activeTab, setActiveTab] = useState<"generate" | "redeemNumbers" | "cards" | "batches">("generate");
   const [amount, setAmount] = useState<string>("");
   const [quantity, setQuantity] = useState<string>("1");
   const [expiryDate, setExpiryDate] = useState<string>("");
@@ -59,6 +65,11 @@ const RedeemGeneratorForm = () => {
   const [users, setUsers] = useState<Array<{ id: string; email: string }>>([]);
   const [selectedUserId, setSelectedUserId] = useState<string>("");
   const [sendingCard, setSendingCard] = useState(false);
+  const [selectedCards, setSelectedCards] = useState<Set<string>>(new Set());
+  const [sheetSize, setSheetSize] = useState<RedeemSheetSize>("a4");
+  const [printModalOpen, setPrintModalOpen] = useState(false);
+  const [printingCards, setPrintingCards] = useState(false);
+  const [printRunsKey, setPrintRunsKey] = useState(0);
   const cardRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
   // Load existing redeem codes on mount
@@ -111,7 +122,7 @@ const RedeemGeneratorForm = () => {
       // Generate multiple codes
       for (let i = 0; i < quantityNum; i++) {
         try {
-          const result = await generateRedeemCode(amountNum, user.id, expiry);
+          const result = await generateRedeemCode(amountNum, expiry);
 
           if (result.success) {
             const newCode: RedeemCode = {
@@ -150,10 +161,8 @@ const RedeemGeneratorForm = () => {
         setRedeemCodes(codes);
         setCurrentPage(1); // Reset to first page after generating new codes
 
-        setTimeout(() => {
-          setSuccess("");
-          setGeneratedCodes([]);
-        }, 30000); // Show for 30 seconds so admin can copy all codes
+        // The codes stay on screen until the next generation: they can't be fetched again
+        setTimeout(() => setSuccess(""), 30000);
       } else {
         setError(`Failed to generate any redeem codes. ${errorCount > 0 ? `${errorCount} error(s) occurred.` : ""}`);
       }
@@ -165,6 +174,41 @@ const RedeemGeneratorForm = () => {
     }
   };
 
+  const handlePrintCards = async () => {
+    setPrintingCards(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await printRedeemCards(Array.from(selectedCards), sheetSize);
+      if (!result.success || !result.pdf) {
+        setError(result.error || "Failed to print cards");
+        setTimeout(() => setError(""), 5000);
+        return;
+      }
+
+      // The PDF is the only copy of the new codes and PINs
+      const bytes = Uint8Array.from(atob(result.pdf), (char) => char.charCodeAt(0));
+      const { saveAs } = await import("file-saver");
+      saveAs(new Blob([bytes], { type: "application/pdf" }), `redeem-cards-${result.printRunId}.pdf`);
+
+      toast.success(`Printed ${selectedCards.size} card${selectedCards.size > 1 ? "s" : ""} on ${result.sheets} sheet${result.sheets === 1 ? "" : "s"}`);
+      setSelectedCards(new Set());
+      setPrintRunsKey((key) => key + 1);
+
+      // Reprinted cards carry new last four digits
+      const cards = await getAllRedeemCards();
+      setRedeemCards(cards);
+    } catch (err) {
+      console.error("Error printing cards:", err);
+      setError("Failed to print cards");
+      setTimeout(() => setError(""), 5000);
+    } finally {
+      setPrintingCards(false);
+      setPrintModalOpen(false);
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 h-full flex flex-col overflow-hidden">
       <h3 className="text-xl font-semibold text-[#800000] mb-4 sm:mb-6 flex-shrink-0">
@@ -253,6 +297,21 @@ const RedeemGeneratorForm = () => {
           >
             Cards
           </button>
+          <button
+            onClick={() => setActiveTab("batches")}
+            className={`
+              py-3 px-1 border-b-2 font-medium text-sm transition-colors
+              ${
+                activeTab === "batches"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-[#800000] hover:text-[#800000] hover:border-gray-300"
+              }
+            `}
+            tabIndex={0}
+            aria-label="Switch to Batches tab"
+          >
+            Batches
+          </button>
         </nav>
       </div>
 
@@ -305,7 +364,7 @@ const RedeemGeneratorForm = () => {
             </table>
           </div>
           <p className="text-xs text-[#800000] mt-3">
-            Save this information. Each code can only be used once.
+            Save this information now. Only a hash of each code and PIN is kept, so they won&apos;t be shown again. Each code can only be used once.
           </p>
         </div>
       )}
@@ -444,7 +503,7 @@ const RedeemGeneratorForm = () => {
 
                     try {
                       const codeIds = Array.from(selectedCodes);
-                      const result = await generateCardsFromRedeemCodes(codeIds, user.id);
+                      const result = await generateCardsFromRedeemCodes(codeIds);
 
                       if (result.success) {
                         setSuccess(result.message || "Cards generated successfully");
@@ -520,9 +579,6 @@ const RedeemGeneratorForm = () => {
                   <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">
                     Code
                   </th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">
-                    PIN
-                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">
                     Amount
                   </th>
@@ -545,7 +601,7 @@ const RedeemGeneratorForm = () => {
                   .slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
                   .map((code) => {
                   const isExpired = code.expiresAt && new Date(code.expiresAt) < new Date();
-                  const status = code.used ? "Used" : isExpired ? "Expired" : "Active";
+                  const status = code.used ? "Used" : isExpired ? "Expired" : code.locked ? "Locked" : "Active";
                   
                   const codeId = code._id || "";
                   const isSelected = selectedCodes.has(codeId);
@@ -573,9 +629,6 @@ const RedeemGeneratorForm = () => {
                       <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-[#800000]">
                         {code.code}
                       </td>
-                      <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-[#800000]">
-                        {code.pin}
-                      </td>
                       <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">
                         ${(code.amount / 100).toFixed(2)}
                       </td>
@@ -586,6 +639,8 @@ const RedeemGeneratorForm = () => {
                               ? "bg-gray-100 text-[#800000]"
                               : isExpired
                               ? "bg-red-100 text-red-800"
+                              : code.locked
+                              ? "bg-yellow-100 text-yellow-800"
                               : "bg-green-100 text-green-800"
                           }`}
                         >
@@ -706,7 +761,7 @@ const RedeemGeneratorForm = () => {
 
             try {
               const codeIds = Array.from(selectedCodes);
-              const result = await deleteRedeemCodes(codeIds, user.id);
+              const result = await deleteRedeemCodes(codeIds);
 
               if (result.success) {
                 setSuccess(result.message || "Redeem codes deleted successfully");
@@ -744,6 +799,8 @@ const RedeemGeneratorForm = () => {
         </div>
       )}
 
+      {activeTab === "batches" && <RedeemBatches />}
+
       {activeTab === "cards" && (
         <div>
           <h4 className="text-lg font-semibold text-[#800000] mb-4">
@@ -775,10 +832,63 @@ const RedeemGeneratorForm = () => {
             </div>
           ) : (
             <>
-              <div className="mb-4 flex items-center justify-between">
-                <div className="text-sm text-[#800000]">
-                  Showing {((currentPage - 1) * itemsPerPage) + 1} to {Math.min(currentPage * itemsPerPage, redeemCards.length)} of {redeemCards.length} cards
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3 text-sm text-[#800000]">
+                  <input
+                    type="checkbox"
+                    checked={
+                      redeemCards
+                        .slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
+                        .every((card) => card._id && selectedCards.has(card._id))
+                    }
+                    onChange={(e) => {
+                      const newSelected = new Set(selectedCards);
+                      redeemCards
+                        .slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
+                        .forEach((card) => {
+                          if (!card._id) return;
+                          if (e.target.checked) {
+                            newSelected.add(card._id);
+                          } else {
+                            newSelected.delete(card._id);
+                          }
+                        });
+                      setSelectedCards(newSelected);
+                    }}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    aria-label="Select all cards on this page"
+                    tabIndex={0}
+                  />
+                  <span>
+                    Showing {((currentPage - 1) * itemsPerPage) + 1} to {Math.min(currentPage * itemsPerPage, redeemCards.length)} of {redeemCards.length} cards
+                  </span>
                 </div>
+                {selectedCards.size > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={sheetSize}
+                      onChange={(e) => setSheetSize(e.target.value as RedeemSheetSize)}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] text-sm text-[#800000]"
+                      disabled={printingCards}
+                      aria-label="Sheet size"
+                    >
+                      {(Object.keys(REDEEM_SHEET_SIZES) as RedeemSheetSize[]).map((size) => (
+                        <option key={size} value={size}>
+                          {REDEEM_SHEET_SIZES[size].label} – {getRedeemSheetLayout(size).perSheet} per sheet
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setPrintModalOpen(true)}
+                      disabled={printingCards}
+                      className="px-4 py-2 bg-[#800000] text-white text-sm font-medium rounded-md hover:bg-[#600000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      tabIndex={0}
+                      aria-label={`Print ${selectedCards.size} selected card${selectedCards.size > 1 ? "s" : ""}`}
+                    >
+                      {printingCards ? "Printing..." : `Print Sheet (${selectedCards.size})`}
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Cards Grid - Master Card Style */}
@@ -795,6 +905,24 @@ const RedeemGeneratorForm = () => {
 
                     return (
                       <div key={card._id || card.cardNumber} className="relative">
+                        {/* Selection for printing */}
+                        <input
+                          type="checkbox"
+                          checked={!!card._id && selectedCards.has(card._id)}
+                          onChange={(e) => {
+                            const newSelected = new Set(selectedCards);
+                            if (e.target.checked && card._id) {
+                              newSelected.add(card._id);
+                            } else if (card._id) {
+                              newSelected.delete(card._id);
+                            }
+                            setSelectedCards(newSelected);
+                          }}
+                          className="absolute top-3 left-3 z-20 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          aria-label={`Select card ${card.cardNumber} for printing`}
+                          tabIndex={0}
+                        />
+
                         {/* Action Buttons - On top of card */}
                         <div className="absolute top-2 right-2 z-20 flex gap-1">
                           {/* Download Button */}
@@ -961,7 +1089,7 @@ const RedeemGeneratorForm = () => {
 
                                 // Generate and download
                                 const blob = await Packer.toBlob(doc);
-                                saveAs(blob, `card-${card.cardNumber}.docx`);
+                                saveAs(blob, `card-${card.cardNumber.slice(-4)}-${card._id}.docx`);
                                 
                                 toast.success("Card downloaded as DOC successfully!", { id: "download-toast" });
                               } catch (err) {
@@ -1178,6 +1306,20 @@ const RedeemGeneratorForm = () => {
             </>
           )}
 
+          <RedeemPrintRuns refreshKey={printRunsKey} />
+
+          {/* Print Cards Confirmation Modal */}
+          <ConfirmationModal
+            isOpen={printModalOpen}
+            onClose={() => setPrintModalOpen(false)}
+            onConfirm={handlePrintCards}
+            title="Print Cards"
+            message={`Printing issues a new code and PIN for each of the ${selectedCards.size} selected card${selectedCards.size > 1 ? "s" : ""}. Earlier prints of these cards, and any code shown before, will stop working. Keep the PDF safe: it can't be downloaded again.`}
+            confirmText="Print"
+            confirmButtonColor="blue"
+            isLoading={printingCards}
+          />
+
           {/* Delete Card Confirmation Modal */}
           <ConfirmationModal
             isOpen={deleteCardModalOpen}
@@ -1195,7 +1337,7 @@ const RedeemGeneratorForm = () => {
               setSuccess("");
 
               try {
-                const result = await deleteRedeemCard(cardToDelete, user.id);
+                const result = await deleteRedeemCard(cardToDelete);
 
                 if (result.success) {
                   setSuccess(result.message || "Card deleted successfully");
@@ -1323,8 +1465,6 @@ const RedeemGeneratorForm = () => {
                         // Send message with card image
                         const result = await sendMessageToUser({
                           userId: selectedUserId,
-                          senderId: user.id,
-                          senderEmail: user.email,
                           subject: `Redeem Card - ${cardToSend.cardNumber}`,
                           message: `You have received a redeem card!\n\nCard Number: ${cardToSend.cardNumber}\nAmount: $${(cardToSend.amount / 100).toFixed(2)}\n\nCard Image: ${uploadResult.url}`,
                         });
@@ -1382,7 +1522,7 @@ const RedeemGeneratorForm = () => {
 
           try {
             const codeIds = Array.from(selectedCodes);
-            const result = await deleteRedeemCodes(codeIds, user.id);
+            const result = await deleteRedeemCodes(codeIds);
 
             if (result.success) {
               setSuccess(result.message || "Redeem codes deleted successfully");
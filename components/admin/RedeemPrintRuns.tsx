@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getRedeemPrintRuns } from "@/lib/server-actions/redeem-print";
+import { REDEEM_SHEET_SIZES } from "@/lib/redeem-sheet-layout";
+
+type RedeemPrintRun = NonNullable<Awaited<ReturnType<typeof getRedeemPrintRuns>>["runs"]>[number];
+
+interface RedeemPrintRunsProps {
+  refreshKey?: number; // Bump to reload after a print
+}
+
+/**
+ * RedeemPrintRuns Component
+ *
+ * The most recent print runs of redeem cards and batches, so reprints can be
+ * traced. Every run issued new codes and PINs, which made the earlier prints of
+ * its reprinted codes stop working.
+ */
+const RedeemPrintRuns = ({ refreshKey = 0 }: RedeemPrintRunsProps) => {
+  const [runs, setRuns] = useState<RedeemPrintRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadRuns = async () => {
+      try {
+        const result = await getRedeemPrintRuns();
+        if (result.success) {
+          setRuns(result.runs ?? []);
+          setError("");
+        } else {
+          setError(result.error || "Failed to load print runs");
+        }
+      } catch (err) {
+        console.error("Error loading print runs:", err);
+        setError("Failed to load print runs");
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRuns();
+  }, [refreshKey]);
+
+  return (
+    <div className="mt-8">
+      <h5 className="text-md font-semibold text-[#800000] mb-3">Print Runs</h5>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-[#800000]">Nothing has been printed yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Printed", "By", "Format", "Codes", "Reprinted", "Run"].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {runs.map((run) => (
+                <tr key={run._id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">
+                    {new Date(run.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{run.createdByEmail || "—"}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">
+                    {run.format === "sheet" && run.sheetSize
+                      ? `${REDEEM_SHEET_SIZES[run.sheetSize].label}, ${run.sheets} sheet${run.sheets === 1 ? "" : "s"}`
+                      : "Batch CSV"}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-[#800000]">{run.codes}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    {run.reprinted > 0 ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                        {run.reprinted}
+                      </span>
+                    ) : (
+                      <span className="text-[#800000]">0</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-gray-500">{run._id}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedeemPrintRuns;
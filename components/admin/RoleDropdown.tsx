@@ -1,10 +1,17 @@
 "use client";
 
 import { useState } from "react";
-import { Role } from "@/lib/rbac";
+import { Role, roleRequiresWallet } from "@/lib/rbac";
+
+// Roles come from the roles collection (built-in and custom), see getRoles
+export interface RoleOption {
+  name: Role;
+  label: string;
+}
 
 interface RoleDropdownProps {
   currentRole: Role;
+  roles: RoleOption[];
   userId: string;
   hasWallet: boolean;
   onRoleChange: (userId: string, newRole: Role) => void;
@@ -12,20 +19,16 @@ interface RoleDropdownProps {
 
 const RoleDropdown = ({
   currentRole,
+  roles,
   userId,
   hasWallet,
   onRoleChange,
 }: RoleDropdownProps) => {
   const [isOpen, setIsOpen] = useState(false);
 
-  const roles: Role[] = ["user", "journalist", "finance", "employee", "admin"];
-  
-  // Roles that require a wallet
-  const rolesRequiringWallet: Role[] = ["admin", "journalist", "finance", "employee"];
-
   const handleRoleSelect = (newRole: Role) => {
     // Prevent selecting roles that require a wallet if user doesn't have one
-    if (rolesRequiringWallet.includes(newRole) && !hasWallet) {
+    if (roleRequiresWallet(newRole) && !hasWallet) {
       return; // Don't allow selection
     }
     
@@ -54,10 +57,10 @@ const RoleDropdown = ({
             onClick={() => setIsOpen(false)}
             aria-hidden="true"
           ></div>
-          <div className="absolute right-0 z-20 mt-2 w-48 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5">
+          <div className="absolute right-0 z-20 mt-2 w-48 max-h-72 overflow-y-auto bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5">
             <div className="py-1" role="menu">
-              {roles.map((role) => {
-                const requiresWallet = rolesRequiringWallet.includes(role);
+              {roles.map(({ name: role, label }) => {
+                const requiresWallet = roleRequiresWallet(role);
                 const isDisabled = requiresWallet && !hasWallet;
                 
                 return (
@@ -84,7 +87,7 @@ const RoleDropdown = ({
                     }
                   >
                     {role === currentRole && "✓ "}
-                    {role.charAt(0).toUpperCase() + role.slice(1)}
+                    {label}
                     {isDisabled && " (requires wallet)"}
                   </button>
                 );
@@ -0,0 +1,434 @@
+"use client";
+
+/**
+ * Role Manager Component
+ *
+ * Lets admins create, edit and delete roles. A role is a named bundle of the
+ * permissions listed in lib/rbac.ts; users are assigned roles from the Users tab.
+ * The five built-in roles can be edited but not deleted, and the admin role
+ * always keeps every permission.
+ */
+
+import { useState, useEffect } from "react";
+import { getRoles, createRole, updateRole, deleteRole } from "@/lib/server-actions/roles";
+import { PERMISSIONS, ALL_PERMISSIONS, Permission } from "@/lib/rbac";
+import ConfirmationModal from "@/components/ui/ConfirmationModal";
+
+interface RoleRow {
+  id: string;
+  name: string;
+  label: string;
+  description: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  userCount: number;
+}
+
+interface RoleForm {
+  name: string;
+  label: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const EMPTY_FORM: RoleForm = { name: "", label: "", description: "", permissions: [] };
+
+// Group permissions by their prefix ("kyc.review" → "kyc") for the editor
+const PERMISSION_GROUPS = ALL_PERMISSIONS.reduce<Record<string, Permission[]>>((groups, permission) => {
+  const group = permission.split(".")[0];
+  groups[group] = [...(groups[group] || []), permission];
+  return groups;
+}, {});
+
+const RoleManager = () => {
+  const [roles, setRoles] = useState<RoleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleRow | null>(null);
+  const [form, setForm] = useState<RoleForm>(EMPTY_FORM);
+  const [roleToDelete, setRoleToDelete] = useState<RoleRow | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadRoles = async () => {
+    try {
+      setLoading(true);
+      const result = await getRoles();
+      if (result.success) {
+        setRoles(result.roles);
+      } else {
+        setError(result.error || "Failed to load roles");
+      }
+    } catch (err) {
+      console.error("Error loading roles:", err);
+      setError("Failed to load roles");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const isAdminRole = editingRole?.name === "admin";
+
+  const handleCreateClick = () => {
+    setEditingRole(null);
+    setForm(EMPTY_FORM);
+    setError("");
+    setEditorOpen(true);
+  };
+
+  const handleEditClick = (role: RoleRow) => {
+    setEditingRole(role);
+    setForm({
+      name: role.name,
+      label: role.label,
+      description: role.description,
+      permissions: role.permissions,
+    });
+    setError("");
+    setEditorOpen(true);
+  };
+
+  const handleCloseEditor = () => {
+    if (!saving) {
+      setEditorOpen(false);
+      setEditingRole(null);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setForm((prev) => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter((p) => p !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = editingRole
+        ? await updateRole(editingRole.name, {
+            label: form.label,
+            description: form.description,
+            permissions: form.permissions,
+          })
+        : await createRole(form);
+
+      if (result.success) {
+        setSuccess(result.message || "Role saved");
+        setEditorOpen(false);
+        setEditingRole(null);
+        setForm(EMPTY_FORM);
+        await loadRoles();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setError(result.error || "Failed to save role");
+      }
+    } catch (err) {
+      console.error("Error saving role:", err);
+      setError("Failed to save role");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!roleToDelete) return;
+
+    setDeleting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await deleteRole(roleToDelete.name);
+      if (result.success) {
+        setSuccess(result.message || "Role deleted");
+        await loadRoles();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setError(result.error || "Failed to delete role");
+      }
+    } catch (err) {
+      console.error("Error deleting role:", err);
+      setError("Failed to delete role");
+    } finally {
+      setDeleting(false);
+      setRoleToDelete(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-semibold text-[#800000] mb-2">
+            Roles &amp; Permissions
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600">
+            Each role is a bundle of permissions. Assign roles to users from the Users tab.
+          </p>
+        </div>
+        <button
+          onClick={handleCreateClick}
+          className="px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#6b0000] transition-colors whitespace-nowrap"
+          tabIndex={0}
+          type="button"
+        >
+          New Role
+        </button>
+      </div>
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-green-800 text-sm">
+          {success}
+        </div>
+      )}
+
+      {error && !editorOpen && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-800 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#800000]"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Permissions</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Users</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-[#800000] uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {roles.map((role) => (
+                <tr key={role.name} className="hover:bg-gray-50">
+                  <td className="px-4 py-4 align-top">
+                    <div className="text-sm font-medium text-[#800000]">
+                      {role.label}
+                      {role.builtIn && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                          built-in
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 font-mono">{role.name}</div>
+                    {role.description && (
+                      <div className="text-xs text-gray-600 mt-1">{role.description}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 align-top">
+                    {role.permissions.length === 0 ? (
+                      <span className="text-xs text-gray-500">No staff permissions</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.map((permission) => (
+                          <span
+                            key={permission}
+                            className="px-2 py-0.5 text-xs font-mono rounded bg-[#800000]/10 text-[#800000]"
+                            title={PERMISSIONS[permission]}
+                          >
+                            {permission}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 align-top text-sm text-[#800000]">{role.userCount}</td>
+                  <td className="px-4 py-4 align-top whitespace-nowrap text-sm font-medium">
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => handleEditClick(role)}
+                        className="text-blue-600 hover:text-blue-900"
+                        tabIndex={0}
+                        aria-label={`Edit role ${role.label}`}
+                        type="button"
+                      >
+                        Edit
+                      </button>
+                      {!role.builtIn && (
+                        <button
+                          onClick={() => setRoleToDelete(role)}
+                          disabled={role.userCount > 0}
+                          className="text-red-600 hover:text-red-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                          tabIndex={0}
+                          aria-label={`Delete role ${role.label}`}
+                          title={role.userCount > 0 ? "Reassign this role's users before deleting it" : undefined}
+                          type="button"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Role Editor Modal */}
+      {editorOpen && (
+        <div className="fixed inset-0 z-[60] overflow-hidden">
+          <div
+            className="absolute inset-0 bg-black bg-opacity-50"
+            onClick={handleCloseEditor}
+            aria-hidden="true"
+          ></div>
+          <div className="absolute inset-0 flex items-center justify-center p-4">
+            <div className="rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col bg-[#d6d6c2]">
+              {/* Header */}
+              <div className="flex items-center justify-between p-6 border-b border-gray-300">
+                <h3 className="text-xl font-semibold text-[#800000]">
+                  {editingRole ? `Edit Role: ${editingRole.label}` : "New Role"}
+                </h3>
+              </div>
+
+              {/* Content */}
+              <div className="p-6 space-y-4 overflow-y-auto">
+                {!editingRole && (
+                  <div>
+                    <label htmlFor="role-name" className="block text-sm font-medium text-[#800000] mb-1">
+                      Name
+                    </label>
+                    <input
+                      id="role-name"
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value.toLowerCase() })}
+                      placeholder="kyc-reviewer"
+                      className="w-full p-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent"
+                      disabled={saving}
+                    />
+                    <p className="mt-1 text-xs text-[#800000]/70">
+                      Lowercase letters, digits and dashes. Can&apos;t be changed later.
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="role-label" className="block text-sm font-medium text-[#800000] mb-1">
+                    Label
+                  </label>
+                  <input
+                    id="role-label"
+                    type="text"
+                    value={form.label}
+                    onChange={(e) => setForm({ ...form, label: e.target.value })}
+                    placeholder="KYC Reviewer"
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent"
+                    disabled={saving}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="role-description" className="block text-sm font-medium text-[#800000] mb-1">
+                    Description
+                  </label>
+                  <input
+                    id="role-description"
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent"
+                    disabled={saving}
+                  />
+                </div>
+
+                <fieldset>
+                  <legend className="block text-sm font-medium text-[#800000] mb-2">Permissions</legend>
+                  {isAdminRole && (
+                    <p className="mb-2 text-xs text-[#800000]/70">
+                      The admin role always has every permission.
+                    </p>
+                  )}
+                  <div className="space-y-3">
+                    {Object.entries(PERMISSION_GROUPS).map(([group, permissions]) => (
+                      <div key={group} className="rounded-md bg-[#ebebe0] p-3">
+                        <div className="text-xs font-semibold uppercase tracking-wider text-[#800000] mb-2">
+                          {group}
+                        </div>
+                        <div className="space-y-2">
+                          {permissions.map((permission) => (
+                            <label key={permission} className="flex items-start gap-2 text-sm text-[#800000]">
+                              <input
+                                type="checkbox"
+                                checked={isAdminRole || form.permissions.includes(permission)}
+                                onChange={() => togglePermission(permission)}
+                                disabled={saving || isAdminRole}
+                                className="mt-0.5 accent-[#800000]"
+                              />
+                              <span>
+                                <span className="font-mono">{permission}</span>
+                                <span className="block text-xs text-[#800000]/70">{PERMISSIONS[permission]}</span>
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </div>
+
+              {/* Footer Actions */}
+              <div className="border-t border-gray-300 p-6 flex gap-3 justify-end">
+                <button
+                  onClick={handleCloseEditor}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[100px] bg-[#ebebeb] text-[#800000] hover:bg-[#d4d4d4]"
+                  tabIndex={0}
+                  type="button"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !form.label.trim() || (!editingRole && !form.name.trim())}
+                  className="px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed min-w-[100px] text-white bg-[#800000] hover:bg-[#6b0000]"
+                  tabIndex={0}
+                  type="button"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!roleToDelete}
+        onClose={() => setRoleToDelete(null)}
+        onConfirm={handleDeleteConfirm}
+        title="Delete Role"
+        message={`Delete the role "${roleToDelete?.label}"? This can't be undone.`}
+        confirmText="Delete"
+        isLoading={deleting}
+      />
+    </div>
+  );
+};
+
+export default RoleManager;
@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react";
 import { sendMessageToUser } from "@/lib/server-actions/user-messages";
 import { getUsers } from "@/lib/server-actions/admin";
-import { useAuth } from "@/contexts/AuthContext";
 import toast from "react-hot-toast";
 import ConfirmationModal from "@/components/ui/ConfirmationModal";
 
@@ -20,7 +19,6 @@ interface SendMessageModalProps {
 }
 
 const SendMessageModal = ({ isOpen, onClose, onSuccess, preselectedUserId }: SendMessageModalProps) => {
-  const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string>(preselectedUserId || "");
@@ -86,8 +84,6 @@ const SendMessageModal = ({ isOpen, onClose, onSuccess, preselectedUserId }: Sen
     try {
       const result = await sendMessageToUser({
         userId: selectedUserId,
-        senderId: currentUser?.id,
-        senderEmail: currentUser?.email,
         subject: subject.trim(),
         message: message.trim(),
       });
@@ -20,6 +20,9 @@ interface Statistics {
   totalAmountInPoolCents: number;
   totalDepositedFees: number;
   totalDepositedFeesCents: number;
+  undepositedFeesCents: number;
+  redeemLiabilityCents: number;
+  ticketSalesPayableCents: number;
 }
 
 const Statistics = () => {
@@ -303,6 +306,84 @@ const Statistics = () => {
       bgColor: "bg-teal-50",
       textColor: "text-teal-600",
     },
+    {
+      title: "Undeposited Fees",
+      value: `SSP ${((statistics.undepositedFeesCents || 0) / 100).toLocaleString("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`,
+      icon: (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-8 w-8"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+      ),
+      color: "bg-lime-500",
+      bgColor: "bg-lime-50",
+      textColor: "text-lime-600",
+    },
+    {
+      title: "Outstanding Redeem Codes",
+      value: `SSP ${((statistics.redeemLiabilityCents || 0) / 100).toLocaleString("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`,
+      icon: (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-8 w-8"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+      ),
+      color: "bg-sky-500",
+      bgColor: "bg-sky-50",
+      textColor: "text-sky-600",
+    },
+    {
+      title: "Undeposited Ticket Revenue",
+      value: `SSP ${((statistics.ticketSalesPayableCents || 0) / 100).toLocaleString("en-US", {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`,
+      icon: (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-8 w-8"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+          />
+        </svg>
+      ),
+      color: "bg-violet-500",
+      bgColor: "bg-violet-50",
+      textColor: "text-violet-600",
+    },
   ];
 
   return (
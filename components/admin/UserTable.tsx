@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from "react";
 import { Role } from "@/lib/rbac";
-import RoleDropdown from "./RoleDropdown";
-import { deleteUser, getUsers, updateUserRole } from "@/lib/server-actions/admin";
+import RoleDropdown, { RoleOption } from "./RoleDropdown";
+import { deleteUser, getUsers, updateUserRole, getPasswordHashReport } from "@/lib/server-actions/admin";
+import { getRoles } from "@/lib/server-actions/roles";
 import { getSystemSettings } from "@/lib/server-actions/system-settings";
+import { resetUserTwoFactor } from "@/lib/server-actions/two-factor";
 import ConfirmationModal from "@/components/ui/ConfirmationModal";
 import { useAuth } from "@/contexts/AuthContext";
 
@@ -13,6 +15,7 @@ interface User {
   email: string;
   role: Role;
   hasWallet?: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: string;
 }
 
@@ -28,14 +31,42 @@ const UserTable = () => {
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<User | null>(null);
+  const [resettingTwoFactor, setResettingTwoFactor] = useState(false);
   const [maxBalanceForDeletion, setMaxBalanceForDeletion] = useState(0);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [passwordHashReport, setPasswordHashReport] = useState<{ total: number; legacy: number; outdated: number } | null>(null);
   const { user: currentUser } = useAuth();
 
   useEffect(() => {
     loadUsers();
     loadDeletionSettings();
+    loadRoles();
+    loadPasswordHashReport();
   }, []);
 
+  const loadPasswordHashReport = async () => {
+    try {
+      const result = await getPasswordHashReport();
+      if (result.success && result.report) {
+        setPasswordHashReport(result.report);
+      }
+    } catch (err) {
+      console.error("Error loading password hash report:", err);
+    }
+  };
+
+  const loadRoles = async () => {
+    try {
+      const result = await getRoles();
+      if (result.success) {
+        setRoles(result.roles.map((role) => ({ name: role.name, label: role.label })));
+      }
+    } catch (err) {
+      console.error("Error loading roles:", err);
+    }
+  };
+
   const loadDeletionSettings = async () => {
     try {
       const result = await getSystemSettings();
@@ -59,6 +90,7 @@ const UserTable = () => {
           email: u.email,
           role: u.role,
           hasWallet: u.hasWallet || false,
+          twoFactorEnabled: u.twoFactorEnabled || false,
           createdAt: u.createdAt || new Date().toISOString(),
         }));
         setUsers(formattedUsers);
@@ -111,7 +143,7 @@ const UserTable = () => {
     setSuccess("");
 
     try {
-      const result = await deleteUser(userToDelete.id, currentUser.id);
+      const result = await deleteUser(userToDelete.id);
       
       if (result.success) {
         setSuccess(result.message || "User deleted successfully");
@@ -138,6 +170,36 @@ const UserTable = () => {
     setUserToDelete(null);
   };
 
+  const handleResetTwoFactorConfirm = async () => {
+    if (!userToResetTwoFactor) {
+      return;
+    }
+
+    setResettingTwoFactor(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const result = await resetUserTwoFactor(userToResetTwoFactor.id);
+
+      if (result.success) {
+        setSuccess(result.message || "Two-factor authentication reset");
+        setUserToResetTwoFactor(null);
+        await loadUsers();
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setError(result.error || "Failed to reset two-factor authentication");
+        setTimeout(() => setError(""), 5000);
+      }
+    } catch (err) {
+      console.error("Error resetting two-factor authentication:", err);
+      setError("Failed to reset two-factor authentication");
+      setTimeout(() => setError(""), 5000);
+    } finally {
+      setResettingTwoFactor(false);
+    }
+  };
+
   const getRoleBadgeColor = (role: Role) => {
     switch (role) {
       case "admin":
@@ -264,6 +326,15 @@ const UserTable = () => {
             {success}
           </div>
         )}
+
+        {/* Accounts still waiting for the password hash upgrade on next sign in */}
+        {passwordHashReport && passwordHashReport.legacy + passwordHashReport.outdated > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+            {passwordHashReport.legacy + passwordHashReport.outdated} of {passwordHashReport.total} accounts
+            still use an older password hash format ({passwordHashReport.legacy} legacy,{" "}
+            {passwordHashReport.outdated} outdated). They are upgraded automatically the next time each user signs in.
+          </div>
+        )}
       </div>
 
       <div className="flex-1 min-h-0 overflow-hidden flex flex-col">
@@ -324,6 +395,11 @@ const UserTable = () => {
                       >
                         {user.role}
                       </span>
+                      {user.twoFactorEnabled && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          2FA
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[#800000]">
                       {new Date(user.createdAt).toLocaleDateString()}
@@ -332,6 +408,7 @@ const UserTable = () => {
                       <div className="flex items-center gap-3">
                         <RoleDropdown
                           currentRole={user.role}
+                          roles={roles}
                           userId={user.id}
                           hasWallet={user.hasWallet || false}
                           onRoleChange={handleRoleChange}
@@ -346,6 +423,18 @@ const UserTable = () => {
                         >
                           Delete
                         </button>
+                        {user.twoFactorEnabled && (
+                          <button
+                            onClick={() => setUserToResetTwoFactor(user)}
+                            className="px-3 py-1.5 bg-gray-200 text-[#800000] text-xs font-medium rounded-md hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            tabIndex={0}
+                            aria-label={`Reset two-factor authentication for ${user.email}`}
+                            disabled={user.id === currentUser?.id}
+                            title={user.id === currentUser?.id ? "Manage your own 2FA from Settings" : "Reset two-factor authentication (e.g. lost phone)"}
+                          >
+                            Reset 2FA
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -460,6 +549,22 @@ const UserTable = () => {
         cancelText="Cancel"
         isLoading={deleting}
       />
+
+      {/* Reset 2FA Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={userToResetTwoFactor !== null}
+        onClose={() => setUserToResetTwoFactor(null)}
+        onConfirm={handleResetTwoFactorConfirm}
+        title="Reset Two-Factor Authentication"
+        message={
+          userToResetTwoFactor
+            ? `Reset two-factor authentication for "${userToResetTwoFactor.email}"? Their authenticator app and recovery codes will stop working. If their role requires 2FA they'll be asked to set it up again on their next sign in. The reset is recorded in the audit log and the user is notified.`
+            : ""
+        }
+        confirmText="Reset 2FA"
+        cancelText="Cancel"
+        isLoading={resettingTwoFactor}
+      />
     </div>
   );
 };
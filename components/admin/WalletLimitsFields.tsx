@@ -0,0 +1,89 @@
+"use client";
+
+import type { WalletLimitsModel } from "@/lib/db/models";
+import { WALLET_LIMIT_FIELDS, WALLET_LIMIT_LABELS } from "@/lib/limit-profile";
+
+// Limits as typed into the form: amounts in the main currency unit, blank for no limit
+export type WalletLimitsDraft = Record<keyof WalletLimitsModel, string>;
+
+export const limitsToDraft = (limits: WalletLimitsModel | null | undefined): WalletLimitsDraft =>
+  Object.fromEntries(
+    WALLET_LIMIT_FIELDS.map((field) => {
+      const cents = limits?.[field];
+      return [field, cents === undefined ? "" : (cents / 100).toString()];
+    })
+  ) as WalletLimitsDraft;
+
+/**
+ * Convert the form back to cents
+ *
+ * @returns The limits, or an error message when an amount isn't a number
+ */
+export const draftToLimits = (draft: WalletLimitsDraft): WalletLimitsModel | string => {
+  const limits: WalletLimitsModel = {};
+  for (const field of WALLET_LIMIT_FIELDS) {
+    const value = draft[field].trim();
+    if (!value) continue;
+
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return `${WALLET_LIMIT_LABELS[field]}: enter an amount, or leave it blank for no limit`;
+    }
+    limits[field] = Math.round(amount * 100);
+  }
+  return limits;
+};
+
+/**
+ * Describe a set of limits in one line, e.g. for the limits a wallet inherits
+ */
+export const describeLimits = (limits: WalletLimitsModel | null | undefined, currency: string): string => {
+  const parts = WALLET_LIMIT_FIELDS.filter((field) => limits?.[field] !== undefined).map(
+    (field) => `${WALLET_LIMIT_LABELS[field]} ${currency} ${((limits?.[field] ?? 0) / 100).toFixed(2)}`
+  );
+  return parts.length > 0 ? parts.join(" · ") : "No limits";
+};
+
+interface WalletLimitsFieldsProps {
+  /** Prefix for the input ids, so several forms can be on one page */
+  idPrefix: string;
+  draft: WalletLimitsDraft;
+  onChange: (draft: WalletLimitsDraft) => void;
+  currency: string;
+  disabled?: boolean;
+}
+
+/**
+ * WalletLimitsFields Component
+ *
+ * The four limit inputs shared by the limit profile editor and the wallet limits
+ * modal. A blank field means that cap doesn't apply.
+ *
+ * @param props - Component props
+ */
+const WalletLimitsFields = ({ idPrefix, draft, onChange, currency, disabled }: WalletLimitsFieldsProps) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {WALLET_LIMIT_FIELDS.map((field) => (
+        <div key={field}>
+          <label htmlFor={`${idPrefix}-${field}`} className="block text-xs text-gray-600 mb-1">
+            {WALLET_LIMIT_LABELS[field]} ({currency})
+          </label>
+          <input
+            id={`${idPrefix}-${field}`}
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft[field]}
+            onChange={(e) => onChange({ ...draft, [field]: e.target.value })}
+            disabled={disabled}
+            placeholder="No limit"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm text-[#800000] disabled:bg-gray-100"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WalletLimitsFields;
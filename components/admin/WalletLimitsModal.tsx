@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { KycTier } from "@/lib/db/models";
+import { KYC_TIERS, KYC_TIER_LABELS, validateWalletLimits } from "@/lib/limit-profile";
+import { getWalletLimitSettings, setWalletKycTier, setWalletLimitOverride } from "@/lib/server-actions/limits";
+import WalletLimitsFields, { describeLimits, draftToLimits, limitsToDraft } from "@/components/admin/WalletLimitsFields";
+import type { WalletLimitsDraft } from "@/components/admin/WalletLimitsFields";
+
+type WalletLimitSettings = NonNullable<Awaited<ReturnType<typeof getWalletLimitSettings>>["settings"]>;
+
+interface WalletLimitsModalProps {
+  /** Wallet being edited; the modal is closed when null */
+  walletId: string | null;
+  onClose: () => void;
+  currency?: string;
+}
+
+/**
+ * WalletLimitsModal Component
+ *
+ * Shows a wallet's KYC tier, the limits it inherits from that tier and what it has
+ * used today and this month, and lets an admin change the tier or override the
+ * limits for this wallet alone.
+ *
+ * @param props - Component props
+ */
+const WalletLimitsModal = ({ walletId, onClose, currency = "SSP" }: WalletLimitsModalProps) => {
+  const [settings, setSettings] = useState<WalletLimitSettings | null>(null);
+  const [tier, setTier] = useState<KycTier>("basic");
+  const [overriding, setOverriding] = useState(false);
+  const [draft, setDraft] = useState<WalletLimitsDraft>(limitsToDraft(null));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const loadSettings = async (id: string) => {
+    setLoading(true);
+    setError("");
+    try {
+      const result = await getWalletLimitSettings(id);
+      if (result.success && result.settings) {
+        setSettings(result.settings);
+        setTier(result.settings.tier);
+        setOverriding(result.settings.override !== null);
+        setDraft(limitsToDraft(result.settings.override ?? result.settings.tierLimits));
+      } else {
+        setError(result.error || "Failed to load wallet limits");
+      }
+    } catch (err) {
+      console.error("Error loading wallet limits:", err);
+      setError("Failed to load wallet limits");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSettings(null);
+    setSuccess("");
+    if (walletId) {
+      loadSettings(walletId);
+    }
+  }, [walletId]);
+
+  if (!walletId) return null;
+
+  const draftLimits = draftToLimits(draft);
+  const draftError = !overriding
+    ? null
+    : typeof draftLimits === "string"
+    ? draftLimits
+    : validateWalletLimits(draftLimits);
+
+  const formatCents = (cents: number) => `${currency} ${(cents / 100).toFixed(2)}`;
+
+  const handleSaveTier = async () => {
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const result = await setWalletKycTier(walletId, tier);
+      if (result.success) {
+        setSuccess(result.message || "KYC tier updated");
+        await loadSettings(walletId);
+      } else {
+        setError(result.error || "Failed to set KYC tier");
+      }
+    } catch (err) {
+      console.error("Error setting KYC tier:", err);
+      setError("Failed to set KYC tier");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveLimits = async () => {
+    if (overriding && (typeof draftLimits === "string" || draftError)) return;
+
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      const result = await setWalletLimitOverride(
+        walletId,
+        overriding && typeof draftLimits !== "string" ? draftLimits : null
+      );
+      if (result.success) {
+        setSuccess(result.message || "Wallet limits saved");
+        await loadSettings(walletId);
+      } else {
+        setError(result.error || "Failed to save wallet limits");
+      }
+    } catch (err) {
+      console.error("Error saving wallet limits:", err);
+      setError("Failed to save wallet limits");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-hidden">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} aria-hidden="true"></div>
+      <div className="absolute inset-0 flex items-center justify-center p-4">
+        <div
+          className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="wallet-limits-title"
+        >
+          <h3 id="wallet-limits-title" className="text-lg font-semibold text-[#800000] mb-4">
+            Limits for {walletId}
+          </h3>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">{error}</div>
+          )}
+          {success && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+              {success}
+            </div>
+          )}
+
+          {loading || !settings ? (
+            <div className="py-6 text-center">
+              {loading && <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#800000] mx-auto"></div>}
+            </div>
+          ) : (
+            <div className="space-y-5">
+              {/* Usage */}
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="rounded-md bg-gray-50 p-3">
+                  <p className="text-xs text-gray-600">Sent today</p>
+                  <p className="font-semibold text-[#800000]">{formatCents(settings.usage.dailyCents)}</p>
+                </div>
+                <div className="rounded-md bg-gray-50 p-3">
+                  <p className="text-xs text-gray-600">Sent this month</p>
+                  <p className="font-semibold text-[#800000]">{formatCents(settings.usage.monthlyCents)}</p>
+                </div>
+              </div>
+
+              {/* KYC Tier */}
+              <div>
+                <label htmlFor="wallet-kyc-tier" className="block text-sm font-medium text-[#800000] mb-1">
+                  KYC tier
+                </label>
+                {settings.hasApprovedKyc ? (
+                  <div className="flex gap-2">
+                    <select
+                      id="wallet-kyc-tier"
+                      value={tier}
+                      onChange={(e) => setTier(e.target.value as KycTier)}
+                      disabled={saving}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-[#800000] focus:outline-none focus:ring-2 focus:ring-[#800000]"
+                    >
+                      {KYC_TIERS.map((kycTier) => (
+                        <option key={kycTier} value={kycTier}>
+                          {KYC_TIER_LABELS[kycTier]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleSaveTier}
+                      disabled={saving || tier === settings.tier}
+                      className="px-4 py-2 bg-[#800000] text-white rounded-md text-sm font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Change Tier
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {KYC_TIER_LABELS[settings.tier]} (no approved KYC application, so the tier can&apos;t be changed)
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-600">
+                  Tier limits: {describeLimits(settings.tierLimits, currency)}
+                </p>
+              </div>
+
+              {/* Override */}
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-[#800000]">
+                  <input
+                    type="checkbox"
+                    checked={overriding}
+                    onChange={(e) => {
+                      setOverriding(e.target.checked);
+                      if (e.target.checked && !settings.override) {
+                        setDraft(limitsToDraft(settings.tierLimits));
+                      }
+                    }}
+                    disabled={saving}
+                  />
+                  Override the tier&apos;s limits for this wallet
+                </label>
+
+                {overriding && (
+                  <WalletLimitsFields
+                    idPrefix="wallet-limit-override"
+                    draft={draft}
+                    onChange={setDraft}
+                    currency={currency}
+                    disabled={saving}
+                  />
+                )}
+
+                {draftError && <p className="text-sm text-red-700">{draftError}</p>}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3 mt-6">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-gray-200 text-[#800000] rounded-md font-medium hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              tabIndex={0}
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSaveLimits}
+              disabled={saving || loading || !settings || draftError !== null}
+              className="flex-1 px-4 py-2 bg-[#800000] text-white rounded-md font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              tabIndex={0}
+            >
+              {saving ? "Saving..." : overriding ? "Save Override" : "Use Tier Limits"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalletLimitsModal;
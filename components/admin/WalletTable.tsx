@@ -1,10 +1,13 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/rbac";
 import { getAllWallets, getWalletTransactions } from "@/lib/server-actions/wallet";
 import { suspendWallet, reactivateWallet, deleteWallet } from "@/lib/server-actions/admin";
 import { formatDate, formatDateWithTime } from "@/lib/format";
+import WalletLimitsModal from "@/components/admin/WalletLimitsModal";
 
 interface Wallet {
   _id: string;
@@ -42,6 +45,7 @@ const WalletTable = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loadingTransactions, setLoadingTransactions] = useState(false);
   const [processingAction, setProcessingAction] = useState<string | null>(null);
+  const [limitsWalletId, setLimitsWalletId] = useState<string | null>(null);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
     type: "suspend" | "reactivate" | "delete" | null;
@@ -133,11 +137,11 @@ const WalletTable = () => {
     try {
       let result;
       if (confirmModal.type === "suspend") {
-        result = await suspendWallet(confirmModal.walletId, user.id);
+        result = await suspendWallet(confirmModal.walletId);
       } else if (confirmModal.type === "reactivate") {
-        result = await reactivateWallet(confirmModal.walletId, user.id);
+        result = await reactivateWallet(confirmModal.walletId);
       } else if (confirmModal.type === "delete") {
-        result = await deleteWallet(confirmModal.walletId, user.id);
+        result = await deleteWallet(confirmModal.walletId);
       }
 
       if (result?.success) {
@@ -270,6 +274,22 @@ const WalletTable = () => {
               <>Total Wallets: {wallets.length}</>
             )}
           </span>
+          <Link
+            href="/admin/wallets/reconciliation"
+            className="px-4 py-2 text-sm font-medium text-[#800000] border border-[#800000] rounded-lg hover:bg-[#800000] hover:text-white transition-colors whitespace-nowrap"
+            aria-label="View balance reconciliation"
+          >
+            Reconciliation
+          </Link>
+          {can(user?.permissions, "refunds.approve") && (
+            <Link
+              href="/admin/wallets/refunds"
+              className="px-4 py-2 text-sm font-medium text-[#800000] border border-[#800000] rounded-lg hover:bg-[#800000] hover:text-white transition-colors whitespace-nowrap"
+              aria-label="Review refund requests"
+            >
+              Refunds
+            </Link>
+          )}
         </div>
       </div>
 
@@ -355,7 +375,17 @@ const WalletTable = () => {
                         >
                           {selectedWallet === wallet.walletId ? "Hide Details" : "View Details"}
                         </button>
-                        {user?.role === "admin" && (
+                        {can(user?.permissions, "limits.manage") && (
+                          <button
+                            onClick={() => setLimitsWalletId(wallet.walletId)}
+                            className="text-[#800000] hover:text-[#900000]"
+                            aria-label={`Limits for wallet ${wallet.walletId}`}
+                            tabIndex={0}
+                          >
+                            Limits
+                          </button>
+                        )}
+                        {can(user?.permissions, "wallet.suspend") && (
                           <>
                             {wallet.status === "suspended" ? (
                               <button
@@ -576,6 +606,9 @@ const WalletTable = () => {
         </>
       )}
 
+      {/* Wallet Limits Modal */}
+      <WalletLimitsModal walletId={limitsWalletId} onClose={() => setLimitsWalletId(null)} />
+
       {/* Confirmation Modal */}
       {confirmModal.isOpen && (
         <div className="fixed inset-0 z-50 overflow-hidden">
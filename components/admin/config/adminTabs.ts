@@ -8,8 +8,11 @@
  * - id: Unique identifier for the tab (used for routing and state management)
  * - label: Display name shown in the tab navigation
  * - icon: Emoji icon displayed next to the label
+ * - permissions: The tab is shown to users holding any of these permissions
  */
 
+import { Permission } from "@/lib/rbac";
+
 export type AdminTabId = "statistics" | "users" | "wallets" | "fees" | "redeem" | "kyc" | "control" | "permission" | "messages";
 
 export interface AdminTab {
@@ -17,6 +20,7 @@ export interface AdminTab {
   label: string;
   icon: string;
   description?: string; // Optional description for accessibility and tooltips
+  permissions: Permission[];
 }
 
 /**
@@ -29,54 +33,63 @@ export const ADMIN_TABS: AdminTab[] = [
     label: "Statistics",
     icon: "📊",
     description: "View platform statistics and metrics",
+    permissions: ["stats.view"],
   },
   {
     id: "users",
     label: "Users",
     icon: "👥",
     description: "Manage user accounts and roles",
+    permissions: ["users.manage"],
   },
   {
     id: "wallets",
     label: "Wallets",
     icon: "💳",
     description: "View and manage wallet accounts",
+    permissions: ["wallet.view"],
   },
   {
     id: "fees",
     label: "Fee Ledger",
     icon: "💰",
     description: "Track all system fees and revenue",
+    permissions: ["fees.view"],
   },
   {
     id: "redeem",
     label: "Redeem Generator",
     icon: "🎫",
     description: "Generate deposit codes for wallet top-ups",
+    permissions: ["redeem.generate"],
   },
   {
     id: "kyc",
     label: "KYC Review",
     icon: "📋",
     description: "Review and approve KYC applications",
+    permissions: ["kyc.review"],
   },
   {
     id: "control",
     label: "Control",
     icon: "⚙️",
     description: "System settings and controls",
+    permissions: ["settings.edit", "fees.edit"],
   },
   {
     id: "permission",
     label: "Permission",
     icon: "🔐",
     description: "Manage user permissions and access control",
+    permissions: ["roles.manage", "events.moderate"],
   },
   {
     id: "messages",
     label: "Contact Messages",
     icon: "📧",
     description: "View and manage contact form messages",
+    permissions: ["messages.manage"],
   },
 ];
 
@@ -85,3 +98,11 @@ export const ADMIN_TABS: AdminTab[] = [
  */
 export const DEFAULT_TAB: AdminTabId = "statistics";
 
+/**
+ * Tabs the user's permissions give access to
+ * An empty list means the user can't use the admin dashboard at all
+ */
+export const getAdminTabsFor = (permissions: readonly Permission[] | undefined): AdminTab[] => {
+  return ADMIN_TABS.filter((tab) => tab.permissions.some((permission) => permissions?.includes(permission)));
+};
+
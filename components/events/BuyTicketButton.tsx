@@ -62,8 +62,6 @@ const BuyTicketButton = ({
         eventTitle={eventTitle}
         ticketPriceCents={ticketPriceCents}
         ticketQuantity={ticketQuantity}
-        userId={user.id}
-        userEmail={user.email}
       />
     </>
   );
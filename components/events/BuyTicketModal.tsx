@@ -3,7 +3,12 @@
 import { useState, useEffect } from "react";
 import { purchaseTicket } from "@/lib/server-actions/events";
 import { getBalance } from "@/lib/server-actions/wallet";
+import { quotePayment } from "@/lib/server-actions/payment-quotes";
 import { formatCurrency } from "@/lib/format";
+import { useTransactionPin } from "@/components/hooks/useTransactionPin";
+import { useIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
+import TransactionPinPrompt from "@/components/wallet/TransactionPinPrompt";
+import PaymentQuoteBreakdown, { type PaymentQuote } from "@/components/wallet/PaymentQuoteBreakdown";
 
 interface BuyTicketModalProps {
   isOpen: boolean;
@@ -13,8 +18,6 @@ interface BuyTicketModalProps {
   eventTitle: string;
   ticketPriceCents: number;
   ticketQuantity: number;
-  userId: string;
-  userEmail?: string;
 }
 
 const BuyTicketModal = ({
@@ -25,25 +28,27 @@ const BuyTicketModal = ({
   eventTitle,
   ticketPriceCents,
   ticketQuantity,
-  userId,
-  userEmail,
 }: BuyTicketModalProps) => {
   const [quantity, setQuantity] = useState("1");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [balance, setBalance] = useState<number | null>(null);
   const [loadingBalance, setLoadingBalance] = useState(true);
+  const [step, setStep] = useState<"form" | "confirmation">("form");
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
+  const transactionPin = useTransactionPin();
+  const idempotencyKey = useIdempotencyKey();
 
   useEffect(() => {
-    if (isOpen && userId) {
+    if (isOpen) {
       loadBalance();
     }
-  }, [isOpen, userId]);
+  }, [isOpen]);
 
   const loadBalance = async () => {
     setLoadingBalance(true);
     try {
-      const result = await getBalance(userId, userEmail);
+      const result = await getBalance();
       if (result.success) {
         setBalance(result.balance);
       } else {
@@ -81,15 +86,40 @@ const BuyTicketModal = ({
     setLoading(true);
 
     try {
-      const result = await purchaseTicket(eventId, userId, qty, userEmail);
+      const quoteResult = await quotePayment({ kind: "ticket", eventId, quantity: qty });
+      if (quoteResult.success && quoteResult.quote) {
+        setQuote(quoteResult.quote);
+        setStep("confirmation");
+      } else {
+        setError(quoteResult.error || "Failed to calculate the total");
+      }
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+      console.error("Error quoting tickets:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmPurchase = async () => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const result = await purchaseTicket(idempotencyKey.current(), eventId, parseInt(quantity), transactionPin.confirmation);
 
       if (result.success) {
         setQuantity("1");
         setError("");
+        setQuote(null);
+        setStep("form");
+        transactionPin.reset();
+        idempotencyKey.reset();
         onSuccess();
         onClose();
       } else {
         setError(result.error || "Failed to purchase tickets");
+        transactionPin.handleResult(result);
       }
     } catch (err) {
       setError("An error occurred. Please try again.");
@@ -99,9 +129,21 @@ const BuyTicketModal = ({
     }
   };
 
+  const handleCancelConfirmation = () => {
+    setStep("form");
+    setQuote(null);
+    setError("");
+    transactionPin.reset();
+    idempotencyKey.reset();
+  };
+
   const handleClose = () => {
     setQuantity("1");
     setError("");
+    setQuote(null);
+    setStep("form");
+    transactionPin.reset();
+    idempotencyKey.reset();
     onClose();
   };
 
@@ -149,7 +191,7 @@ const BuyTicketModal = ({
         </button>
 
         <h2 id="buy-ticket-modal-title" className="text-2xl font-bold mb-6" style={{ color: '#800000' }}>
-          Buy Tickets
+          {step === "form" ? "Buy Tickets" : "Confirm Purchase"}
         </h2>
 
         {error && (
@@ -158,6 +200,7 @@ const BuyTicketModal = ({
           </div>
         )}
 
+        {step === "form" ? (
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Event Title */}
           <div>
@@ -220,6 +263,7 @@ const BuyTicketModal = ({
                 const val = e.target.value;
                 if (val === "" || (parseInt(val) > 0 && parseInt(val) <= ticketQuantity)) {
                   setQuantity(val);
+                  idempotencyKey.reset();
                   if (error) setError("");
                 }
               }}
@@ -276,10 +320,59 @@ const BuyTicketModal = ({
               onMouseEnter={(e) => !loading && !loadingBalance && (e.currentTarget.style.backgroundColor = '#6b0000')}
               onMouseLeave={(e) => !loading && !loadingBalance && (e.currentTarget.style.backgroundColor = '#800000')}
             >
-              {loading ? "Processing..." : "Buy Tickets"}
+              {loading ? "Calculating..." : "Continue"}
             </button>
           </div>
         </form>
+        ) : (
+          <div className="space-y-6">
+            {/* Confirmation Details */}
+            <div className="rounded-lg p-6 space-y-3" style={{ backgroundColor: '#ebebe0' }}>
+              <div className="flex justify-between items-center gap-4">
+                <span className="text-sm font-medium" style={{ color: '#800000' }}>Event:</span>
+                <span className="text-sm font-semibold text-right" style={{ color: '#800000' }}>{eventTitle}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium" style={{ color: '#800000' }}>Tickets:</span>
+                <span className="text-sm font-semibold" style={{ color: '#800000' }}>
+                  {quantityNum} × {formatCurrency(pricePerTicket)}
+                </span>
+              </div>
+            </div>
+
+            {quote && (
+              <PaymentQuoteBreakdown quote={quote} amountLabel="Ticket Total" formatAmount={(value) => formatCurrency(value)} />
+            )}
+
+            <TransactionPinPrompt pinState={transactionPin} disabled={loading} />
+
+            {/* Footer Buttons */}
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={handleCancelConfirmation}
+                disabled={loading}
+                className="flex-1 px-4 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: '#ebebeb', color: '#800000' }}
+                onMouseEnter={(e) => !loading && (e.currentTarget.style.backgroundColor = '#d4d4d4')}
+                onMouseLeave={(e) => !loading && (e.currentTarget.style.backgroundColor = '#ebebeb')}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmPurchase}
+                disabled={loading || transactionPin.blocked || !quote?.sufficientFunds}
+                className="flex-1 px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ backgroundColor: '#800000' }}
+                onMouseEnter={(e) => !loading && (e.currentTarget.style.backgroundColor = '#6b0000')}
+                onMouseLeave={(e) => !loading && (e.currentTarget.style.backgroundColor = '#800000')}
+              >
+                {loading ? "Processing..." : "Buy Tickets"}
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
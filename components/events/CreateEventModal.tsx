@@ -8,10 +8,9 @@ interface CreateEventModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  userId: string;
 }
 
-const CreateEventModal = ({ isOpen, onClose, onSuccess, userId }: CreateEventModalProps) => {
+const CreateEventModal = ({ isOpen, onClose, onSuccess }: CreateEventModalProps) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [startTime, setStartTime] = useState("");
@@ -187,7 +186,6 @@ const CreateEventModal = ({ isOpen, onClose, onSuccess, userId }: CreateEventMod
       }
 
       const result = await createEvent({
-        creatorUserId: userId,
         title: title.trim(),
         description: description.trim(),
         startTime: startDateTime.toISOString(),
@@ -0,0 +1,33 @@
+/**
+ * Custom Hook for idempotency keys
+ *
+ * Money-moving actions take a key identifying one submission (see
+ * lib/idempotency.ts). `current()` creates the key on first use and keeps
+ * returning it, so a retried request (dropped connection, or the retry after the
+ * PIN step) is recognised by the server instead of paying twice. Call `reset()`
+ * once the payment went through, the modal closes or the details change, so the
+ * next payment gets a fresh key.
+ */
+
+import { useRef, useCallback } from "react";
+
+// crypto.randomUUID() is only available on HTTPS pages, getRandomValues() everywhere
+export const createIdempotencyKey = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const useIdempotencyKey = () => {
+  const keyRef = useRef<string | null>(null);
+
+  const current = useCallback((): string => {
+    if (!keyRef.current) {
+      keyRef.current = createIdempotencyKey();
+    }
+    return keyRef.current;
+  }, []);
+
+  const reset = useCallback(() => {
+    keyRef.current = null;
+  }, []);
+
+  return { current, reset };
+};
@@ -42,8 +42,8 @@ export const useNotifications = () => {
     try {
       setLoading(true);
       const [notificationsResult, countResult] = await Promise.all([
-        getUserNotifications(user.id),
-        getUnreadNotificationCount(user.id),
+        getUserNotifications(),
+        getUnreadNotificationCount(),
       ]);
 
       if (notificationsResult.success) {
@@ -70,7 +70,7 @@ export const useNotifications = () => {
       if (!user?.id) return;
 
       try {
-        const result = await markNotificationAsRead(notificationId, user.id);
+        const result = await markNotificationAsRead(notificationId);
         if (result.success) {
           // Update local state
           setNotifications((prev) =>
@@ -94,7 +94,7 @@ export const useNotifications = () => {
     if (!user?.id) return;
 
     try {
-      const result = await markAllNotificationsAsRead(user.id);
+      const result = await markAllNotificationsAsRead();
       if (result.success) {
         // Update local state
         setNotifications((prev) => prev.map((notif) => ({ ...notif, read: true })));
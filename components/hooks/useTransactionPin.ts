@@ -0,0 +1,72 @@
+/**
+ * Custom Hook for the Transaction PIN step
+ *
+ * Payment modals call their action without a PIN first. If the server asks for
+ * one (see lib/transaction-pin.ts) the hook records why, and the modal shows
+ * <TransactionPinPrompt /> and retries with `confirmation`:
+ * - required: the PIN must be entered (untrusted device or large amount)
+ * - setupRequired: the wallet has no PIN yet and one must be set first
+ * - locked: too many wrong PINs; payments are paused until the lock expires
+ */
+
+import { useState, useCallback } from "react";
+import type { TransactionConfirmation } from "@/lib/transaction-pin";
+
+interface PinAwareResult {
+  success: boolean;
+  pinRequired?: boolean;
+  pinSetupRequired?: boolean;
+  pinLocked?: boolean;
+}
+
+export const useTransactionPin = () => {
+  const [pin, setPin] = useState("");
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [required, setRequired] = useState(false);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [locked, setLocked] = useState(false);
+
+  /**
+   * Update the PIN step from an action result
+   * Returns true if the result was a PIN challenge (so callers can skip their error toast)
+   */
+  const handleResult = useCallback((result: PinAwareResult): boolean => {
+    if (!result.pinRequired) {
+      return false;
+    }
+
+    setRequired(true);
+    setSetupRequired(!!result.pinSetupRequired);
+    setLocked(!!result.pinLocked);
+    setPin("");
+    return true;
+  }, []);
+
+  const reset = useCallback(() => {
+    setPin("");
+    setTrustDevice(false);
+    setRequired(false);
+    setSetupRequired(false);
+    setLocked(false);
+  }, []);
+
+  const confirmation: TransactionConfirmation | undefined = required && pin ? { pin, trustDevice } : undefined;
+
+  return {
+    pin,
+    setPin,
+    trustDevice,
+    setTrustDevice,
+    required,
+    setupRequired,
+    locked,
+    onPinSet: () => setSetupRequired(false),
+    handleResult,
+    reset,
+    confirmation,
+    // Disable the confirm button while a PIN is needed but not entered yet
+    blocked: required && (setupRequired || locked || !pin),
+  };
+};
+
+export type TransactionPinState = ReturnType<typeof useTransactionPin>;
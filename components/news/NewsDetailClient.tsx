@@ -107,7 +107,6 @@ const NewsDetailClient = ({ postId, initialLikes, author }: NewsDetailClientProp
     try {
       const result = await addComment({
         postId,
-        authorUserId: user.id,
         content: comment.trim(),
       });
 
@@ -147,7 +146,6 @@ const NewsDetailClient = ({ postId, initialLikes, author }: NewsDetailClientProp
       const result = await replyToComment({
         postId,
         parentCommentId,
-        authorUserId: user.id,
         content: replyText,
       });
 
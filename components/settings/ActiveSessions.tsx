@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { getMySessions, revokeMySession, revokeOtherSessions } from "@/lib/server-actions/sessions";
+import { formatDateWithTime, formatDeviceName, formatRelativeTime } from "@/lib/format";
+import ConfirmationModal from "@/components/ui/ConfirmationModal";
+
+interface ActiveSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * ActiveSessions Component
+ *
+ * Active sessions section of Settings → Security. Lists every browser the user is
+ * signed in on (device, IP address, when it signed in and when it was last used) and
+ * lets them sign out any other session, or all of them at once.
+ */
+const ActiveSessions = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+  const [revokingAll, setRevokingAll] = useState(false);
+
+  const loadSessions = async () => {
+    try {
+      const result = await getMySessions();
+      if (result.success && result.sessions) {
+        setSessions(result.sessions);
+        setError("");
+      } else {
+        setError(result.error || "Failed to load sessions");
+      }
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      setError("Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      const result = await revokeMySession(sessionId);
+      if (result.success) {
+        toast.success(result.message || "Session signed out");
+        await loadSessions();
+      } else {
+        toast.error(result.error || "Failed to sign out session");
+      }
+    } catch (err) {
+      console.error("Error revoking session:", err);
+      toast.error("Failed to sign out session");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setRevokingAll(true);
+    try {
+      const result = await revokeOtherSessions();
+      if (result.success) {
+        toast.success(result.message || "Other sessions signed out");
+        setConfirmRevokeAll(false);
+        await loadSessions();
+      } else {
+        toast.error(result.error || "Failed to sign out other sessions");
+      }
+    } catch (err) {
+      console.error("Error revoking other sessions:", err);
+      toast.error("Failed to sign out other sessions");
+    } finally {
+      setRevokingAll(false);
+    }
+  };
+
+  const otherSessionCount = sessions.filter((session) => !session.current).length;
+
+  return (
+    <div>
+      <h4 className="text-base font-medium text-[#800000] mb-3">Active Sessions</h4>
+      <p className="text-base text-[#800000] mb-4">
+        These devices are signed in to your account. Sign out any you don&apos;t recognize, then change your password.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-[#800000]/70">Loading...</p>
+      ) : (
+        sessions.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-[#800000] truncate" title={session.userAgent}>
+                    {formatDeviceName(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-[#800000]/70">
+                    {session.ipAddress || "Unknown IP"} · Signed in {formatDateWithTime(session.createdAt)} · Last
+                    active {session.current ? "now" : formatRelativeTime(session.lastSeenAt)}
+                  </p>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokingId === session.id || revokingAll}
+                    className="px-4 py-2 text-sm bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revokingId === session.id ? "Signing out..." : "Sign out"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {otherSessionCount > 0 && (
+        <button
+          onClick={() => setConfirmRevokeAll(true)}
+          disabled={revokingAll}
+          className="px-6 py-3 text-base bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Sign out all other sessions
+        </button>
+      )}
+
+      <ConfirmationModal
+        isOpen={confirmRevokeAll}
+        onClose={() => setConfirmRevokeAll(false)}
+        onConfirm={handleRevokeAll}
+        title="Sign out other sessions"
+        message={`This signs out ${otherSessionCount} other session${otherSessionCount === 1 ? "" : "s"}. You'll stay signed in on this device.`}
+        confirmText="Sign out all"
+        confirmButtonColor="red"
+        isLoading={revokingAll}
+      />
+    </div>
+  );
+};
+
+export default ActiveSessions;
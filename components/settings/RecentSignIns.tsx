@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getRecentSignIns } from "@/lib/server-actions/login-activity";
+import type { LoginEventOutcome } from "@/lib/db/models";
+import { formatDateWithTime, formatDeviceName } from "@/lib/format";
+
+interface SignInEvent {
+  id: string;
+  outcome: LoginEventOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+const OUTCOME_LABELS: Record<LoginEventOutcome, { label: string; className: string }> = {
+  success: { label: "Signed in", className: "bg-green-100 text-green-800" },
+  two_factor_required: { label: "Password accepted, 2FA pending", className: "bg-yellow-100 text-yellow-800" },
+  invalid_password: { label: "Wrong password", className: "bg-red-100 text-red-800" },
+  two_factor_failed: { label: "Wrong 2FA code", className: "bg-red-100 text-red-800" },
+  throttled: { label: "Blocked (too many attempts)", className: "bg-red-100 text-red-800" },
+  unknown_email: { label: "Unknown account", className: "bg-gray-100 text-gray-800" },
+};
+
+/**
+ * RecentSignIns Component
+ *
+ * Sign-in history section of Settings → Security. Lists the latest sign-in attempts
+ * on the account (successful or not) with time, device and IP address, so users can
+ * spot access that isn't theirs.
+ */
+const RecentSignIns = () => {
+  const [events, setEvents] = useState<SignInEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        const result = await getRecentSignIns();
+        if (result.success && result.events) {
+          setEvents(result.events);
+        } else {
+          setError(result.error || "Failed to load recent sign-ins");
+        }
+      } catch (err) {
+        console.error("Error loading recent sign-ins:", err);
+        setError("Failed to load recent sign-ins");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, []);
+
+  return (
+    <div>
+      <h4 className="text-base font-medium text-[#800000] mb-3">Recent Sign-ins</h4>
+      <p className="text-base text-[#800000] mb-4">
+        If you see a sign-in you don&apos;t recognize, change your password and turn on two-factor authentication.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-[#800000]/70">Loading...</p>
+      ) : events.length === 0 ? (
+        !error && <p className="text-sm text-[#800000]/70">No sign-ins recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {events.map((event) => {
+            const outcome = OUTCOME_LABELS[event.outcome] ?? OUTCOME_LABELS.success;
+            return (
+              <li key={event.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-[#800000] truncate" title={event.userAgent}>
+                    {formatDeviceName(event.userAgent)}
+                  </p>
+                  <p className="text-xs text-[#800000]/70">
+                    {formatDateWithTime(event.createdAt)}
+                    {event.ipAddress ? ` · ${event.ipAddress}` : ""}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${outcome.className}`}>
+                  {outcome.label}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecentSignIns;
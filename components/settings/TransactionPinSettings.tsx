@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  getTransactionPinStatus,
+  setTransactionPin,
+  resetTransactionPin,
+  forgetTrustedDevices,
+} from "@/lib/server-actions/transaction-pin";
+
+interface PinStatus {
+  hasPin: boolean;
+  lockedUntil?: string;
+  trustedDevice: boolean;
+  trustedDeviceCount: number;
+  alwaysRequiredAboveCents: number;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent text-base text-[#800000]";
+
+/**
+ * TransactionPinSettings Component
+ *
+ * Transaction PIN section of Settings → Security (only shown to users with a wallet):
+ * - Set a first PIN with the account password, or change it with the current one
+ * - Reset a forgotten PIN with the account password (also lifts a lockout)
+ * - Stop trusting all devices so every payment asks for the PIN again
+ */
+const TransactionPinSettings = () => {
+  const [status, setStatus] = useState<PinStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [mode, setMode] = useState<"idle" | "set" | "reset">("idle");
+  const [form, setForm] = useState({ currentPin: "", newPin: "", confirmPin: "", password: "" });
+
+  const loadStatus = async () => {
+    try {
+      const result = await getTransactionPinStatus();
+      if (result.success && result.hasPin !== undefined) {
+        setStatus({
+          hasPin: result.hasPin,
+          lockedUntil: result.lockedUntil,
+          trustedDevice: result.trustedDevice,
+          trustedDeviceCount: result.trustedDeviceCount,
+          alwaysRequiredAboveCents: result.alwaysRequiredAboveCents,
+        });
+      } else {
+        // No wallet yet: nothing to protect
+        setStatus(null);
+      }
+    } catch (err) {
+      console.error("Error loading PIN status:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForm = () => {
+    setMode("idle");
+    setForm({ currentPin: "", newPin: "", confirmPin: "", password: "" });
+    setError("");
+  };
+
+  const handleDigitsChange = (field: "currentPin" | "newPin" | "confirmPin", value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value.replace(/\D/g, "") }));
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!/^\d{4,6}$/.test(form.newPin)) {
+      setError("PIN must be 4 to 6 digits");
+      return;
+    }
+    if (form.newPin !== form.confirmPin) {
+      setError("PINs don't match");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result =
+        mode === "reset"
+          ? await resetTransactionPin(form.password, form.newPin)
+          : await setTransactionPin(form.newPin, form.currentPin || undefined, form.password || undefined);
+
+      if (result.success) {
+        toast.success(result.message || "Transaction PIN saved");
+        resetForm();
+        await loadStatus();
+      } else {
+        setError(result.error || "Failed to save PIN");
+      }
+    } catch (err) {
+      console.error("Error saving transaction PIN:", err);
+      setError("Failed to save PIN");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleForgetDevices = async () => {
+    setSubmitting(true);
+    try {
+      const result = await forgetTrustedDevices();
+      if (result.success) {
+        toast.success(result.message || "Trusted devices cleared");
+        await loadStatus();
+      } else {
+        toast.error(result.error || "Failed to clear trusted devices");
+      }
+    } catch (err) {
+      console.error("Error clearing trusted devices:", err);
+      toast.error("Failed to clear trusted devices");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || !status) return null;
+
+  return (
+    <div>
+      <h4 className="text-base font-medium text-[#800000] mb-3">Transaction PIN</h4>
+      <p className="text-base text-[#800000] mb-2">
+        {status.hasPin
+          ? "Your wallet PIN confirms transfers, withdrawals, invoice payments and ticket purchases."
+          : "Set a PIN to confirm transfers, withdrawals, invoice payments and ticket purchases. Payments from your wallet need one."}
+      </p>
+      <p className="text-sm text-[#800000]/80 mb-6">
+        {status.trustedDevice ? "This device is trusted. " : ""}
+        Payments above ${(status.alwaysRequiredAboveCents / 100).toFixed(2)} always ask for the PIN.
+      </p>
+
+      {status.lockedUntil && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          Payments are paused until {new Date(status.lockedUntil).toLocaleTimeString()} after too many wrong PINs.
+          Reset your PIN with your password to unlock now.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {mode === "idle" ? (
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => setMode("set")}
+            className="px-6 py-3 text-base bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors"
+          >
+            {status.hasPin ? "Change PIN" : "Set PIN"}
+          </button>
+          {status.hasPin && (
+            <button
+              onClick={() => setMode("reset")}
+              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Forgot PIN?
+            </button>
+          )}
+          {status.trustedDeviceCount > 0 && (
+            <button
+              onClick={handleForgetDevices}
+              disabled={submitting}
+              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Forget trusted devices ({status.trustedDeviceCount})
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 max-w-md">
+          {mode === "set" && status.hasPin && (
+            <input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={form.currentPin}
+              onChange={(e) => handleDigitsChange("currentPin", e.target.value)}
+              className={inputClassName}
+              placeholder="Current PIN"
+              aria-label="Current PIN"
+              autoComplete="off"
+              required
+            />
+          )}
+          {(mode === "reset" || !status.hasPin) && (
+            <input
+              type="password"
+              value={form.password}
+              onChange={(e) => setForm((prev) => ({ ...prev, password: e.target.value }))}
+              className={inputClassName}
+              placeholder="Account password"
+              aria-label="Account password"
+              autoComplete="current-password"
+              required
+            />
+          )}
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            value={form.newPin}
+            onChange={(e) => handleDigitsChange("newPin", e.target.value)}
+            className={inputClassName}
+            placeholder="New PIN (4-6 digits)"
+            aria-label="New PIN"
+            autoComplete="new-password"
+            required
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            value={form.confirmPin}
+            onChange={(e) => handleDigitsChange("confirmPin", e.target.value)}
+            className={inputClassName}
+            placeholder="Confirm new PIN"
+            aria-label="Confirm new PIN"
+            autoComplete="new-password"
+            required
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-6 py-3 text-base bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Saving..." : mode === "reset" ? "Reset PIN" : "Save PIN"}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={submitting}
+              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TransactionPinSettings;
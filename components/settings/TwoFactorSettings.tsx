@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import toast from "react-hot-toast";
+import {
+  getTwoFactorStatus,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "@/lib/server-actions/two-factor";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * TwoFactorSettings Component
+ *
+ * Two-factor authentication section of Settings → Security:
+ * - Not enabled: "Enable 2FA" shows a QR code for an authenticator app and asks for a code
+ * - Enabled: shows how many recovery codes are left, and lets the user generate new ones or
+ *   turn 2FA off (both need a current code; turning off isn't offered if the role requires 2FA)
+ * New recovery codes are shown once, right after they're created.
+ */
+const TwoFactorSettings = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  // Which form is open below the status
+  const [mode, setMode] = useState<"idle" | "enroll" | "disable" | "regenerate">("idle");
+  const [setupData, setSetupData] = useState<{ qrCodeDataUrl: string; secret: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const loadStatus = async () => {
+    try {
+      const result = await getTwoFactorStatus();
+      if (result.success && result.enabled !== undefined) {
+        setStatus({
+          enabled: result.enabled,
+          required: result.required,
+          recoveryCodesRemaining: result.recoveryCodesRemaining,
+        });
+      } else {
+        setError(result.error || "Failed to load two-factor status");
+      }
+    } catch (err) {
+      console.error("Error loading two-factor status:", err);
+      setError("Failed to load two-factor status");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForm = () => {
+    setMode("idle");
+    setSetupData(null);
+    setCode("");
+    setError("");
+  };
+
+  const handleStartEnrollment = async () => {
+    setSubmitting(true);
+    setError("");
+    setRecoveryCodes([]);
+    try {
+      const result = await startTwoFactorEnrollment();
+      if (result.success && result.qrCodeDataUrl && result.secret) {
+        setSetupData({ qrCodeDataUrl: result.qrCodeDataUrl, secret: result.secret });
+        setMode("enroll");
+      } else {
+        setError(result.error || "Failed to start two-factor setup");
+      }
+    } catch (err) {
+      console.error("Error starting two-factor setup:", err);
+      setError("Failed to start two-factor setup");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError("");
+    try {
+      const result: { success: boolean; error?: string; message?: string; recoveryCodes?: string[] } =
+        mode === "enroll"
+          ? await confirmTwoFactorEnrollment(code)
+          : mode === "regenerate"
+            ? await regenerateRecoveryCodes(code)
+            : await disableTwoFactor(code);
+
+      if (!result.success) {
+        setError(result.error || "Invalid authentication code");
+        setCode("");
+        return;
+      }
+
+      toast.success(result.message || "Saved");
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      }
+      resetForm();
+      await loadStatus();
+    } catch (err) {
+      console.error("Error updating two-factor authentication:", err);
+      setError("Failed to update two-factor authentication");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-base text-[#800000]">Loading two-factor status...</p>;
+  }
+
+  return (
+    <div>
+      <h4 className="text-base font-medium text-[#800000] mb-3">Two-Factor Authentication</h4>
+
+      {status?.enabled ? (
+        <p className="text-base text-[#800000] mb-6">
+          Two-factor authentication is <span className="font-semibold text-green-700">on</span>. You have{" "}
+          {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+          {status.required && " Your role requires two-factor authentication, so it can't be turned off."}
+        </p>
+      ) : (
+        <p className="text-base text-[#800000] mb-6">
+          Protect your account with a 6-digit code from an authenticator app on your phone in addition to
+          your password.
+          {status?.required && " Your role requires two-factor authentication."}
+        </p>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Recovery codes are only ever shown here, right after they're created */}
+      {recoveryCodes.length > 0 && (
+        <div className="mb-6 rounded-lg border border-yellow-300 bg-yellow-50 p-4">
+          <p className="text-sm font-medium text-[#800000] mb-3">
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+            your phone, and they won&apos;t be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-[#800000] mb-3">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes([])}
+            className="text-sm font-medium text-[#800000] hover:text-[#900000]"
+          >
+            I&apos;ve saved them
+          </button>
+        </div>
+      )}
+
+      {mode === "idle" ? (
+        <div className="flex flex-wrap gap-3">
+          {!status?.enabled && (
+            <button
+              onClick={handleStartEnrollment}
+              disabled={submitting}
+              className="px-6 py-3 text-base bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Starting..." : "Enable 2FA"}
+            </button>
+          )}
+          {status?.enabled && (
+            <button
+              onClick={() => setMode("regenerate")}
+              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              New recovery codes
+            </button>
+          )}
+          {status?.enabled && !status.required && (
+            <button
+              onClick={() => setMode("disable")}
+              className="px-6 py-3 text-base bg-red-100 text-red-700 rounded-lg font-medium hover:bg-red-200 transition-colors"
+            >
+              Turn off 2FA
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmitCode} className="space-y-4 max-w-md">
+          {mode === "enroll" && setupData && (
+            <div className="space-y-3">
+              <p className="text-sm text-[#800000]">
+                Scan this QR code with an authenticator app (Google Authenticator, Authy, 1Password...),
+                then enter the 6-digit code it shows.
+              </p>
+              <Image
+                src={setupData.qrCodeDataUrl}
+                alt="Two-factor authentication QR code"
+                width={200}
+                height={200}
+                unoptimized
+                className="rounded-md border border-gray-200"
+              />
+              <p className="text-xs text-[#800000]/80 break-all">
+                Can&apos;t scan it? Enter this key instead: <span className="font-mono">{setupData.secret}</span>
+              </p>
+            </div>
+          )}
+          {mode !== "enroll" && (
+            <p className="text-sm text-[#800000]">
+              Enter a code from your authenticator app (or a recovery code) to confirm.
+            </p>
+          )}
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] focus:border-transparent text-base text-[#800000] tracking-widest"
+            placeholder="123456"
+            autoComplete="one-time-code"
+            aria-label="Authentication code"
+            required
+            disabled={submitting}
+          />
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={submitting || !code.trim()}
+              className="px-6 py-3 text-base bg-[#800000] text-white rounded-lg font-medium hover:bg-[#900000] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting
+                ? "Checking..."
+                : mode === "enroll"
+                  ? "Turn on 2FA"
+                  : mode === "regenerate"
+                    ? "Generate codes"
+                    : "Turn off 2FA"}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={submitting}
+              className="px-6 py-3 text-base bg-gray-200 text-[#800000] rounded-lg font-medium hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,23 +1,25 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { redeemCode } from "@/lib/server-actions/wallet";
+import { formatRedeemCode } from "@/lib/redeem-code-format";
 import toast from "react-hot-toast";
+import { useIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
 
 interface DepositModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  userId: string;
-  userEmail?: string;
 }
 
-const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: DepositModalProps) => {
+const DepositModal = ({ isOpen, onClose, onSuccess }: DepositModalProps) => {
   const [code, setCode] = useState("");
   const [pin, setPin] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  const idempotencyKey = useIdempotencyKey();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,12 +28,13 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
     setLoading(true);
 
     try {
-      const result = await redeemCode(userId, code, pin, userEmail);
+      const result = await redeemCode(idempotencyKey.current(), code, pin);
 
       if (result.success) {
         toast.success(result.message || "Deposit successful!");
         setCode("");
         setPin("");
+        idempotencyKey.reset();
         setSuccess(result.message || "Deposit successful!");
         onSuccess();
         setTimeout(() => {
@@ -53,6 +56,7 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
   const handleClose = () => {
     setCode("");
     setPin("");
+    idempotencyKey.reset();
     setError("");
     setSuccess("");
     onClose();
@@ -123,7 +127,8 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
               type="text"
               value={code}
               onChange={(e) => {
-                setCode(e.target.value.toUpperCase());
+                setCode(formatRedeemCode(e.target.value));
+                idempotencyKey.reset();
                 if (error) setError("");
               }}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-center text-base sm:text-lg font-mono tracking-widest placeholder:text-[#800000] touch-manipulation"
@@ -131,7 +136,7 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
               placeholder="Enter redeem code (e.g., 7646-6789-7865-5000)"
               required
               autoComplete="off"
-              inputMode="text"
+              inputMode="numeric"
             />
           </div>
           <div>
@@ -144,6 +149,7 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
               value={pin}
               onChange={(e) => {
                 setPin(e.target.value.replace(/\D/g, "").slice(0, 4));
+                idempotencyKey.reset();
                 if (error) setError("");
               }}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-center text-base sm:text-lg font-mono tracking-widest placeholder:text-[#800000] touch-manipulation"
@@ -155,7 +161,11 @@ const DepositModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Deposit
               inputMode="numeric"
             />
             <p className="mt-2 text-sm" style={{ color: '#800000' }}>
-              Enter both the redeem code and 4-digit PIN to add funds to your wallet.
+              Enter both the redeem code and 4-digit PIN to add funds to your wallet. Have a printed card?{" "}
+              <Link href="/wallet/redeem" className="underline font-medium">
+                Scan its QR code
+              </Link>
+              .
             </p>
           </div>
 
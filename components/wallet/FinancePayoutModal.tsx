@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { processCashPayout, getPendingWithdrawalByRef } from "@/lib/server-actions/wallet";
-import { canHandleFinance } from "@/lib/rbac";
+import { Permission, can } from "@/lib/rbac";
 import { formatDateWithTime } from "@/lib/format";
 import toast from "react-hot-toast";
 
@@ -10,16 +10,14 @@ interface FinancePayoutModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  financeUserId: string;
-  userRole: string;
+  permissions: Permission[];
 }
 
 const FinancePayoutModal = ({
   isOpen,
   onClose,
   onSuccess,
-  financeUserId,
-  userRole,
+  permissions,
 }: FinancePayoutModalProps) => {
   const [referenceNumber, setReferenceNumber] = useState("");
   const [loading, setLoading] = useState(false);
@@ -74,7 +72,7 @@ const FinancePayoutModal = ({
     setProcessing(true);
 
     try {
-      const result = await processCashPayout(financeUserId, referenceNumber.trim());
+      const result = await processCashPayout(referenceNumber.trim());
 
       if (result.success) {
         toast.success(result.message || "Cash payout processed successfully!");
@@ -110,7 +108,7 @@ const FinancePayoutModal = ({
   if (!isOpen) return null;
 
   // Check if user has finance permissions
-  if (!canHandleFinance(userRole as any)) {
+  if (!can(permissions, "cash.payout")) {
     return null;
   }
 
@@ -385,15 +383,15 @@ const FinancePayoutModal = ({
                         </span>
                       </div>
                       <div className="flex justify-between items-center">
-                        <span className="text-sm font-semibold" style={{ color: '#800000' }}>5% System Fee:</span>
+                        <span className="text-sm font-semibold" style={{ color: '#800000' }}>System Fee:</span>
                         <span className="text-sm font-bold text-red-600">
-                          -${(withdrawalData.withdrawal.amount * 0.05).toFixed(2)}
+                          -${withdrawalData.withdrawal.fee.toFixed(2)}
                         </span>
                       </div>
                       <div className="flex justify-between items-center pt-2 border-t border-gray-300">
                         <span className="text-sm font-semibold" style={{ color: '#800000' }}>Amount User Will Receive:</span>
                         <span className="text-base font-bold text-green-600">
-                          ${(withdrawalData.withdrawal.amount * 0.95).toFixed(2)}
+                          ${withdrawalData.withdrawal.payoutAmount.toFixed(2)}
                         </span>
                       </div>
                     </div>
@@ -402,8 +400,8 @@ const FinancePayoutModal = ({
                   <div className="mt-4 pt-4 border-t border-gray-300">
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                       <p className="text-sm text-blue-800">
-                        <strong>Note:</strong> The user will receive ${(withdrawalData.withdrawal.amount * 0.95).toFixed(2)} after the 5% system fee deduction. 
-                        The 5% fee (${(withdrawalData.withdrawal.amount * 0.05).toFixed(2)}) will be recorded in the Fee Ledger as "cash out fee" and must be manually deposited to the admin wallet.
+                        <strong>Note:</strong> The user will receive ${withdrawalData.withdrawal.payoutAmount.toFixed(2)} after the system fee deduction. 
+                        The fee (${withdrawalData.withdrawal.fee.toFixed(2)}) will be recorded in the Fee Ledger as "cash out fee" and must be manually deposited to the admin wallet.
                       </p>
                     </div>
                   </div>
@@ -3,21 +3,16 @@
 import { useState } from "react";
 import { createInvoice } from "@/lib/server-actions/invoices";
 import { getRecipientInfoByWalletId } from "@/lib/server-actions/wallet";
+import { checkWalletId, WALLET_ID_EXAMPLE, WALLET_ID_LENGTH } from "@/lib/wallet-id-format";
 import { useRouter } from "next/navigation";
 
-interface InvoiceFormProps {
-  userId: string;
-  userEmail?: string;
-}
-
 interface RecipientInfo {
   walletId: string;
-  firstName: string;
-  lastName: string;
-  email: string;
+  maskedName: string; // e.g. "J*** S****"
+  legacyWalletId: boolean; // Older ID without a check character
 }
 
-const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
+const InvoiceForm = () => {
   const router = useRouter();
   const [recipientWalletId, setRecipientWalletId] = useState("");
   const [itemDescription, setItemDescription] = useState("");
@@ -40,6 +35,10 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
 
   const total = calculateTotal();
 
+  // Flags a mistyped ID as soon as all of it is typed
+  const typedWalletIdCheck = recipientWalletId.length === WALLET_ID_LENGTH ? checkWalletId(recipientWalletId) : null;
+  const walletIdTypo = typedWalletIdCheck && !typedWalletIdCheck.valid ? typedWalletIdCheck.error : "";
+
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -47,10 +46,10 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
     setLoadingRecipient(true);
 
     try {
-      // Validate wallet ID format (3 letters + 3 digits)
-      const walletIdPattern = /^[A-Z]{3}\d{3}$/i;
-      if (!walletIdPattern.test(recipientWalletId.trim())) {
-        setError("Invalid Wallet ID format. Please enter a valid Wallet ID (e.g., VXE445)");
+      // Validate wallet ID format and check character, so a typo is caught before the lookup
+      const walletIdCheck = checkWalletId(recipientWalletId);
+      if (!walletIdCheck.valid) {
+        setError(walletIdCheck.error);
         setLoadingRecipient(false);
         return;
       }
@@ -76,7 +75,7 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
       }
 
       // Get recipient information
-      const recipientResult = await getRecipientInfoByWalletId(recipientWalletId.trim().toUpperCase());
+      const recipientResult = await getRecipientInfoByWalletId(walletIdCheck.walletId);
       
       if (recipientResult.success && recipientResult.recipient) {
         setRecipientInfo(recipientResult.recipient);
@@ -103,13 +102,11 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
       const quantityNum = quantity ? parseFloat(quantity) : undefined;
 
       const result = await createInvoice(
-        userId,
         recipientInfo.walletId,
         itemDescription.trim(),
         amountNum,
         quantityNum,
-        note.trim() || undefined,
-        userEmail
+        note.trim() || undefined
       );
 
       if (result.success) {
@@ -186,21 +183,24 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
               type="text"
               value={recipientWalletId}
               onChange={(e) => {
-                setRecipientWalletId(e.target.value.toUpperCase());
+                setRecipientWalletId(e.target.value.replace(/[\s-]/g, "").toUpperCase());
                 if (error) setError("");
               }}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all font-mono text-center text-base sm:text-lg tracking-wider placeholder:text-[#800000] touch-manipulation"
               style={{ color: '#800000', backgroundColor: '#ebebe0' }}
-              placeholder="VXE445"
-              pattern="[A-Z]{3}\d{3}"
-              maxLength={6}
+              placeholder={WALLET_ID_EXAMPLE}
+              maxLength={WALLET_ID_LENGTH}
               required
               autoComplete="off"
               inputMode="text"
             />
-            <p className="mt-1 text-xs" style={{ color: '#800000' }}>
-              Enter the recipient's Wallet ID (e.g., VXE445)
-            </p>
+            {walletIdTypo ? (
+              <p className="mt-1 text-xs text-red-700">{walletIdTypo}</p>
+            ) : (
+              <p className="mt-1 text-xs" style={{ color: '#800000' }}>
+                Enter the recipient's Wallet ID (e.g., {WALLET_ID_EXAMPLE})
+              </p>
+            )}
           </div>
 
           <div>
@@ -338,8 +338,13 @@ const InvoiceForm = ({ userId, userEmail }: InvoiceFormProps) => {
               <div>
                 <p className="text-sm" style={{ color: '#800000' }}>Recipient Name</p>
                 <p className="text-base font-semibold" style={{ color: '#800000' }}>
-                  {recipientInfo?.firstName} {recipientInfo?.lastName}
+                  {recipientInfo?.maskedName || "Not available"}
                 </p>
+                {recipientInfo?.legacyWalletId && (
+                  <p className="mt-1 text-xs text-yellow-800">
+                    This is an older Wallet ID without a check character, so typos can&apos;t be detected. Make sure the name matches.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -2,24 +2,31 @@
 
 import { useState } from "react";
 import { getInvoiceByRef, payInvoiceByRef } from "@/lib/server-actions/invoices";
+import { quotePayment } from "@/lib/server-actions/payment-quotes";
 import toast from "react-hot-toast";
+import { useTransactionPin } from "@/components/hooks/useTransactionPin";
+import { useIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
+import TransactionPinPrompt from "./TransactionPinPrompt";
+import PaymentQuoteBreakdown, { type PaymentQuote } from "./PaymentQuoteBreakdown";
 
 interface PayModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  userId: string;
-  userEmail?: string;
+  initialReference?: string; // Prefill the lookup (e.g. when an inline "Pay" needs the PIN)
 }
 
-const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalProps) => {
-  const [referenceNumber, setReferenceNumber] = useState("");
+const PayModal = ({ isOpen, onClose, onSuccess, initialReference }: PayModalProps) => {
+  const [referenceNumber, setReferenceNumber] = useState(initialReference || "");
   const [loading, setLoading] = useState(false);
   const [lookupLoading, setLookupLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [invoice, setInvoice] = useState<any | null>(null);
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
   const [step, setStep] = useState<"lookup" | "review" | "success">("lookup");
+  const transactionPin = useTransactionPin();
+  const idempotencyKey = useIdempotencyKey();
 
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,9 +50,15 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
           return;
         }
 
-        // Check if invoice is for this user's wallet
-        // Note: We'll verify this in the payment step, but we can show a warning
+        // The quote also checks the invoice is addressed to this user's wallet
+        const quoteResult = await quotePayment({ kind: "invoice", referenceNumber: referenceNumber.trim() });
+        if (!quoteResult.success || !quoteResult.quote) {
+          setError(quoteResult.error || "Failed to calculate the fee");
+          return;
+        }
+
         setInvoice(result.invoice);
+        setQuote(quoteResult.quote);
         setStep("review");
       } else {
         setError(result.error || "Invoice not found with this reference number");
@@ -65,7 +78,7 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
     setLoading(true);
 
     try {
-      const result = await payInvoiceByRef(referenceNumber.trim(), userId, userEmail);
+      const result = await payInvoiceByRef(idempotencyKey.current(), referenceNumber.trim(), transactionPin.confirmation);
 
       if (result.success) {
         const successMsg = `Invoice paid successfully! Amount: $${result.amount?.toFixed(2)}`;
@@ -81,7 +94,9 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
       } else {
         const errorMsg = result.error || "Failed to process payment";
         setError(errorMsg);
-        toast.error(errorMsg);
+        if (!transactionPin.handleResult(result)) {
+          toast.error(errorMsg);
+        }
       }
     } catch (err) {
       setError("An error occurred. Please try again.");
@@ -96,22 +111,24 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
     setError("");
     setSuccess("");
     setInvoice(null);
+    setQuote(null);
     setStep("lookup");
+    transactionPin.reset();
+    idempotencyKey.reset();
     onClose();
   };
 
   const handleBack = () => {
     setInvoice(null);
+    setQuote(null);
     setStep("lookup");
     setError("");
+    transactionPin.reset();
+    idempotencyKey.reset();
   };
 
   if (!isOpen) return null;
 
-  // Calculate fee if invoice exists
-  const feeAmount = invoice ? invoice.amount * 0.05 : 0;
-  const totalDeducted = invoice ? invoice.amount + feeAmount : 0;
-
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
@@ -345,28 +362,9 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
                 </div>
 
                 {/* Fee Breakdown */}
-                <div className="border-2 border-gray-200 rounded-lg p-4 space-y-2" style={{ backgroundColor: '#ebebe0' }}>
-                  <div className="flex justify-between items-center text-sm">
-                    <span style={{ color: '#800000' }}>Invoice Amount:</span>
-                    <span className="font-semibold" style={{ color: '#800000' }}>
-                      ${invoice.amount.toFixed(2)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center text-sm">
-                    <span style={{ color: '#800000' }}>System Fee (5%):</span>
-                    <span className="font-semibold" style={{ color: '#800000' }}>
-                      ${feeAmount.toFixed(2)}
-                    </span>
-                  </div>
-                  <div className="border-t border-gray-300 pt-2 mt-2">
-                    <div className="flex justify-between items-center">
-                      <span className="font-semibold" style={{ color: '#800000' }}>Total Deducted:</span>
-                      <span className="font-bold text-lg" style={{ color: '#800000' }}>
-                        ${totalDeducted.toFixed(2)}
-                      </span>
-                    </div>
-                  </div>
-                </div>
+                {quote && <PaymentQuoteBreakdown quote={quote} amountLabel="Invoice Amount" />}
+
+                <TransactionPinPrompt pinState={transactionPin} disabled={loading} />
 
                 <div className="flex gap-3 pt-4">
                   <button
@@ -384,7 +382,7 @@ const PayModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: PayModalPro
                   <button
                     type="button"
                     onClick={handlePay}
-                    disabled={loading}
+                    disabled={loading || transactionPin.blocked || !quote?.sufficientFunds}
                     className="flex-1 px-4 py-3 text-white rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg disabled:shadow-none flex items-center justify-center gap-2"
                     style={{ backgroundColor: '#800000' }}
                     onMouseEnter={(e) => !loading && (e.currentTarget.style.backgroundColor = '#6b0000')}
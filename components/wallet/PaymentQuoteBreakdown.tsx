@@ -0,0 +1,72 @@
+"use client";
+
+import type { quotePayment } from "@/lib/server-actions/payment-quotes";
+
+export type PaymentQuote = NonNullable<Awaited<ReturnType<typeof quotePayment>>["quote"]>;
+
+interface PaymentQuoteBreakdownProps {
+  /** Quote from quotePayment() */
+  quote: PaymentQuote;
+  /** Label of the amount row (e.g. "Invoice Amount") */
+  amountLabel?: string;
+  /** Format an amount in dollars; defaults to a plain dollar amount */
+  formatAmount?: (amount: number) => string;
+}
+
+const defaultFormatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * PaymentQuoteBreakdown Component
+ *
+ * Fee breakdown shown in the confirmation step of the payment modals: the amount,
+ * the fee, what leaves the wallet and the balance left afterwards.
+ *
+ * @param props - Component props
+ */
+const PaymentQuoteBreakdown = ({
+  quote,
+  amountLabel = "Amount",
+  formatAmount = defaultFormatAmount,
+}: PaymentQuoteBreakdownProps) => {
+  return (
+    <div className="border-2 border-gray-200 rounded-lg p-4 space-y-2" style={{ backgroundColor: '#ebebe0' }}>
+      <div className="flex justify-between items-center text-sm">
+        <span style={{ color: '#800000' }}>{amountLabel}:</span>
+        <span className="font-semibold" style={{ color: '#800000' }}>{formatAmount(quote.amount)}</span>
+      </div>
+      <div className="flex justify-between items-center text-sm">
+        <span style={{ color: '#800000' }}>
+          {quote.feeDeducted ? "Withdrawal Fee (deducted at payout):" : "System Fee:"}
+        </span>
+        <span className="font-semibold" style={{ color: '#800000' }}>
+          {quote.fee > 0 ? formatAmount(quote.fee) : "None"}
+        </span>
+      </div>
+      {quote.feeDeducted && (
+        <div className="flex justify-between items-center text-sm">
+          <span style={{ color: '#800000' }}>Cash You Receive:</span>
+          <span className="font-semibold" style={{ color: '#800000' }}>{formatAmount(quote.received)}</span>
+        </div>
+      )}
+      <div className="border-t border-gray-300 pt-2 mt-2 space-y-1">
+        <div className="flex justify-between items-center">
+          <span className="font-semibold" style={{ color: '#800000' }}>Total Deducted:</span>
+          <span className="font-bold text-lg" style={{ color: '#800000' }}>{formatAmount(quote.totalDebit)}</span>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <span style={{ color: '#800000' }}>Balance After:</span>
+          <span className={`font-semibold ${quote.sufficientFunds ? "text-green-600" : "text-red-600"}`}>
+            {formatAmount(quote.balanceAfter)}
+          </span>
+        </div>
+      </div>
+      {!quote.sufficientFunds && (
+        <p className="text-xs text-red-600 pt-1">
+          Your balance of {formatAmount(quote.balance)} doesn&apos;t cover this payment.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PaymentQuoteBreakdown;
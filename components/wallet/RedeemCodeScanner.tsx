@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import toast from "react-hot-toast";
+import { parseScannedRedeemCode } from "@/lib/redeem-code-format";
+
+interface RedeemCodeScannerProps {
+  onScan: (code: string) => void;
+  disabled?: boolean;
+}
+
+// Frames and photos are scaled down to this before decoding, which keeps it fast
+const MAX_DECODE_SIZE = 1024;
+
+const decodeQrCode = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  canvas: HTMLCanvasElement,
+  inversionAttempts: "dontInvert" | "attemptBoth"
+): string | null => {
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(imageData.data, canvas.width, canvas.height, { inversionAttempts })?.data ?? null;
+};
+
+/**
+ * RedeemCodeScanner Component
+ *
+ * Reads the code from the QR code on a printed redeem card, either live from the
+ * camera or from an uploaded photo, and hands it to `onScan` as ####-####-####-####.
+ * QR codes that don't hold a redeem code are ignored.
+ */
+const RedeemCodeScanner = ({ onScan, disabled = false }: RedeemCodeScannerProps) => {
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [cameraError, setCameraError] = useState("");
+  const [wrongQrCode, setWrongQrCode] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Kept in a ref so a new callback from the parent doesn't restart the camera
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!cameraOpen) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState >= video.HAVE_ENOUGH_DATA) {
+        const text = decodeQrCode(video, video.videoWidth, video.videoHeight, canvas, "dontInvert");
+        if (text) {
+          const code = parseScannedRedeemCode(text);
+          if (code) {
+            onScanRef.current(code);
+            setCameraOpen(false);
+            return;
+          }
+          setWrongQrCode(true);
+        }
+      }
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Your browser can't use the camera here. Upload a photo of the QR code instead.");
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(scanFrame);
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        setCameraError(
+          err instanceof DOMException && err.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in your browser, or upload a photo of the QR code instead."
+            : "Couldn't start the camera. Upload a photo of the QR code instead."
+        );
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraOpen]);
+
+  const handleOpenCamera = () => {
+    setCameraError("");
+    setWrongQrCode(false);
+    setCameraOpen(true);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !canvasRef.current) return;
+
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+
+      const text = decodeQrCode(image, image.naturalWidth, image.naturalHeight, canvasRef.current, "attemptBoth");
+      const code = text ? parseScannedRedeemCode(text) : null;
+      if (code) {
+        onScan(code);
+      } else {
+        toast.error(text ? "This QR code isn't from a redeem card" : "No QR code found in this image");
+      }
+    } catch (err) {
+      console.error("Error reading QR image:", err);
+      toast.error("Couldn't read this image");
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          type="button"
+          onClick={handleOpenCamera}
+          disabled={disabled}
+          className="px-4 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: '#ebebeb', color: '#800000' }}
+          aria-label="Scan the QR code on the card with your camera"
+        >
+          Scan QR Code
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="px-4 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: '#ebebeb', color: '#800000' }}
+          aria-label="Upload a photo of the QR code on the card"
+        >
+          Upload QR Image
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="image/*" onChange={handleUpload} className="hidden" />
+      <canvas ref={canvasRef} className="hidden" />
+
+      {cameraOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+          onClick={() => setCameraOpen(false)}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="redeem-scanner-title"
+        >
+          <div
+            className="relative w-full max-w-md rounded-2xl p-6 shadow-2xl m-3 sm:m-0"
+            style={{ backgroundColor: '#d6d6c2' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 id="redeem-scanner-title" className="text-xl font-bold mb-4" style={{ color: '#800000' }}>
+              Scan Redeem Card
+            </h2>
+
+            {cameraError ? (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {cameraError}
+              </div>
+            ) : (
+              <>
+                <video ref={videoRef} className="w-full rounded-lg bg-black aspect-square object-cover" muted playsInline />
+                <p className="mt-3 text-sm" style={{ color: '#800000' }}>
+                  {wrongQrCode
+                    ? "That QR code isn't from a redeem card. Point the camera at the QR code on your card."
+                    : "Point the camera at the QR code on your card."}
+                </p>
+              </>
+            )}
+
+            <button
+              type="button"
+              onClick={() => setCameraOpen(false)}
+              className="mt-4 w-full px-4 py-3 rounded-lg font-medium transition-colors"
+              style={{ backgroundColor: '#ebebeb', color: '#800000' }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RedeemCodeScanner;
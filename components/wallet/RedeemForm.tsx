@@ -1,9 +1,207 @@
-export default function RedeemForm() {
+"use client";
+
+import { useCallback, useState } from "react";
+import { previewRedeemCode, redeemCode } from "@/lib/server-actions/wallet";
+import { formatRedeemCode, formatRedeemSerial, normalizeRedeemCode } from "@/lib/redeem-code-format";
+import { formatDate } from "@/lib/format";
+import RedeemCodeScanner from "@/components/wallet/RedeemCodeScanner";
+import { useIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
+import toast from "react-hot-toast";
+
+interface RedeemPreview {
+  amount: number; // In cents
+  expiresAt?: string;
+  maskedCode: string;
+  serial?: number;
+}
+
+interface RedeemFormProps {
+  /** Code to start with, e.g. from the QR link on a printed card */
+  initialCode?: string;
+  /** Called after a code was redeemed */
+  onRedeemed?: () => void;
+}
+
+/**
+ * RedeemForm Component
+ *
+ * Redeems a code in two steps: the code (typed, or scanned from the card's QR
+ * code) and PIN are checked first, so the user sees the card's value and expiry,
+ * and only then redeemed into the wallet.
+ *
+ * @param props - Component props
+ */
+const RedeemForm = ({ initialCode = "", onRedeemed }: RedeemFormProps) => {
+  const [code, setCode] = useState(() => formatRedeemCode(initialCode));
+  const [pin, setPin] = useState("");
+  const [preview, setPreview] = useState<RedeemPreview | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [redeeming, setRedeeming] = useState(false);
+  const [error, setError] = useState("");
+  const idempotencyKey = useIdempotencyKey();
+
+  const handleScan = useCallback((scannedCode: string) => {
+    setCode(scannedCode);
+    setPreview(null);
+    setError("");
+    toast.success("Code scanned. Enter the PIN from under the scratch area.");
+  }, []);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setChecking(true);
+
+    try {
+      const result = await previewRedeemCode(code, pin);
+      if (result.success && result.amount !== undefined && result.maskedCode) {
+        setPreview({
+          amount: result.amount,
+          expiresAt: result.expiresAt,
+          maskedCode: result.maskedCode,
+          serial: result.serial,
+        });
+        idempotencyKey.reset();
+      } else {
+        setError(result.error || "Failed to check redeem code");
+      }
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+      console.error("Error checking redeem code:", err);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    setError("");
+    setRedeeming(true);
+
+    try {
+      const result = await redeemCode(idempotencyKey.current(), code, pin);
+      if (result.success) {
+        toast.success(result.message || "Code redeemed");
+        setCode("");
+        setPin("");
+        setPreview(null);
+        idempotencyKey.reset();
+        onRedeemed?.();
+      } else {
+        setError(result.error || "Failed to redeem code");
+        setPreview(null);
+      }
+    } catch (err) {
+      setError("An error occurred. Please try again.");
+      console.error("Error redeeming code:", err);
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
-      <h3 className="text-lg font-semibold mb-2">Redeem Form</h3>
-      <p className="text-[#800000]">Redeem form component coming soon...</p>
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {preview ? (
+        <div className="space-y-4">
+          <div className="rounded-lg p-5 text-white" style={{ backgroundColor: '#800000' }}>
+            <p className="text-sm text-white/80">Card value</p>
+            <p className="text-3xl font-bold mb-3">${(preview.amount / 100).toFixed(2)}</p>
+            <p className="font-mono tracking-wider">{preview.maskedCode}</p>
+            <div className="mt-3 flex justify-between text-sm text-white/80">
+              <span>{preview.expiresAt ? `Valid until ${formatDate(preview.expiresAt)}` : "No expiry"}</span>
+              {preview.serial !== undefined && <span>Serial {formatRedeemSerial(preview.serial)}</span>}
+            </div>
+          </div>
+          <p className="text-sm" style={{ color: '#800000' }}>
+            The full value is added to your wallet and the code can&apos;t be used again.
+          </p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setPreview(null)}
+              disabled={redeeming}
+              className="flex-1 px-4 py-3 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: '#ebebeb', color: '#800000' }}
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleRedeem}
+              disabled={redeeming}
+              className="flex-1 px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ backgroundColor: '#800000' }}
+            >
+              {redeeming ? "Redeeming..." : `Redeem $${(preview.amount / 100).toFixed(2)}`}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form onSubmit={handleCheck} className="space-y-4">
+          <RedeemCodeScanner onScan={handleScan} disabled={checking} />
+
+          <div>
+            <label htmlFor="redeem-code" className="block text-sm font-medium mb-2" style={{ color: '#800000' }}>
+              Redeem Code
+            </label>
+            <input
+              id="redeem-code"
+              type="text"
+              value={code}
+              onChange={(e) => {
+                setCode(formatRedeemCode(e.target.value));
+                if (error) setError("");
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-center text-base sm:text-lg font-mono tracking-widest placeholder:text-[#800000]/50 touch-manipulation"
+              style={{ color: '#800000', backgroundColor: '#ebebe0' }}
+              placeholder="####-####-####-####"
+              required
+              autoComplete="off"
+              inputMode="numeric"
+            />
+          </div>
+          <div>
+            <label htmlFor="redeem-pin" className="block text-sm font-medium mb-2" style={{ color: '#800000' }}>
+              4-Digit PIN
+            </label>
+            <input
+              id="redeem-pin"
+              type="password"
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value.replace(/\D/g, "").slice(0, 4));
+                if (error) setError("");
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-center text-base sm:text-lg font-mono tracking-widest placeholder:text-[#800000]/50 touch-manipulation"
+              style={{ color: '#800000', backgroundColor: '#ebebe0' }}
+              placeholder="PIN"
+              maxLength={4}
+              required
+              autoComplete="off"
+              inputMode="numeric"
+            />
+            <p className="mt-2 text-sm" style={{ color: '#800000' }}>
+              The PIN is under the scratch area on the card.
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={checking || !normalizeRedeemCode(code) || pin.length !== 4}
+            className="w-full px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            style={{ backgroundColor: '#800000' }}
+          >
+            {checking ? "Checking..." : "Check Card"}
+          </button>
+        </form>
+      )}
     </div>
   );
-}
+};
 
+export default RedeemForm;
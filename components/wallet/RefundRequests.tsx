@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  getMyRefundRequests,
+  respondToRefundRequest,
+  cancelRefundRequest,
+} from "@/lib/server-actions/refunds";
+import { formatDateWithTime } from "@/lib/format";
+
+type RefundRequest = NonNullable<Awaited<ReturnType<typeof getMyRefundRequests>>["incoming"]>[number];
+
+interface RefundRequestsProps {
+  onBalanceChange: () => void;
+}
+
+const STATUS_BADGES: Record<RefundRequest["status"], { label: string; className: string }> = {
+  pending: { label: "Waiting for approval", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Refunded", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Declined", className: "bg-red-100 text-red-800" },
+  cancelled: { label: "Cancelled", className: "bg-gray-100 text-gray-800" },
+};
+
+/**
+ * Refund requests for the current user
+ * Lists requests waiting for the user's approval (transfers they received) and the
+ * requests they filed themselves. Renders nothing when there are none.
+ */
+const RefundRequests = ({ onBalanceChange }: RefundRequestsProps) => {
+  const [incoming, setIncoming] = useState<RefundRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<RefundRequest[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const result = await getMyRefundRequests();
+      if (result.success) {
+        setIncoming(result.incoming ?? []);
+        setOutgoing(result.outgoing ?? []);
+      }
+    } catch (err) {
+      console.error("Error fetching refund requests:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleRespond = async (request: RefundRequest, approve: boolean) => {
+    if (
+      approve &&
+      !confirm(`Return $${request.amount.toFixed(2)} to ${request.senderWalletId}? This can't be undone.`)
+    ) {
+      return;
+    }
+
+    setBusyId(request._id);
+    try {
+      const result = await respondToRefundRequest(request._id, approve);
+      if (result.success) {
+        toast.success(result.message || (approve ? "Refund sent" : "Refund declined"));
+        if (approve) {
+          onBalanceChange();
+        }
+      } else {
+        toast.error(result.error || "Failed to respond to refund request");
+      }
+      await fetchRequests();
+    } catch (err) {
+      toast.error("An error occurred. Please try again.");
+      console.error("Error responding to refund request:", err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (request: RefundRequest) => {
+    setBusyId(request._id);
+    try {
+      const result = await cancelRefundRequest(request._id);
+      if (result.success) {
+        toast.success(result.message || "Refund request cancelled");
+      } else {
+        toast.error(result.error || "Failed to cancel refund request");
+      }
+      await fetchRequests();
+    } catch (err) {
+      toast.error("An error occurred. Please try again.");
+      console.error("Error cancelling refund request:", err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (incoming.length === 0 && outgoing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 sm:p-4 md:p-6 lg:p-8 mb-4 sm:mb-6">
+      <h3 className="text-lg sm:text-xl md:text-2xl font-bold mb-4" style={{ color: '#800000' }}>
+        Refund Requests
+      </h3>
+
+      {incoming.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm font-semibold mb-2" style={{ color: '#800000' }}>
+            Waiting for your approval
+          </p>
+          <div className="space-y-2">
+            {incoming.map((request) => (
+              <div
+                key={request._id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 sm:p-4 bg-gray-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm sm:text-base" style={{ color: '#800000' }}>
+                    ${request.amount.toFixed(2)} from transfer {request.ref}
+                  </p>
+                  <p className="text-xs sm:text-sm" style={{ color: '#800000' }}>
+                    {request.senderWalletId} · {formatDateWithTime(request.createdAt)}
+                  </p>
+                  <p className="text-sm text-gray-700 mt-1 break-words">&ldquo;{request.reason}&rdquo;</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleRespond(request, false)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => handleRespond(request, true)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 text-sm font-medium text-white rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                    style={{ backgroundColor: '#800000' }}
+                  >
+                    {busyId === request._id ? "Working..." : "Approve"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {outgoing.length > 0 && (
+        <div>
+          <p className="text-sm font-semibold mb-2" style={{ color: '#800000' }}>
+            Your requests
+          </p>
+          <div className="space-y-2">
+            {outgoing.map((request) => (
+              <div
+                key={request._id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 sm:p-4 bg-gray-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm sm:text-base" style={{ color: '#800000' }}>
+                    ${request.amount.toFixed(2)} to {request.recipientWalletId}
+                  </p>
+                  <p className="text-xs sm:text-sm" style={{ color: '#800000' }}>
+                    Transfer {request.ref} · {formatDateWithTime(request.createdAt)}
+                  </p>
+                  {request.decisionNote && (
+                    <p className="text-sm text-gray-700 mt-1 break-words">{request.decisionNote}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_BADGES[request.status].className}`}>
+                    {STATUS_BADGES[request.status].label}
+                  </span>
+                  {request.status === "pending" && (
+                    <button
+                      onClick={() => handleCancel(request)}
+                      disabled={busyId !== null}
+                      className="px-3 py-1 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {busyId === request._id ? "Cancelling..." : "Cancel"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefundRequests;
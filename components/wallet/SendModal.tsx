@@ -2,24 +2,27 @@
 
 import { useState } from "react";
 import { sendMoney, getRecipientInfoByWalletId } from "@/lib/server-actions/wallet";
+import { checkWalletId, WALLET_ID_EXAMPLE, WALLET_ID_LENGTH } from "@/lib/wallet-id-format";
+import { quotePayment } from "@/lib/server-actions/payment-quotes";
 import toast from "react-hot-toast";
+import { useTransactionPin } from "@/components/hooks/useTransactionPin";
+import { useIdempotencyKey } from "@/components/hooks/useIdempotencyKey";
+import TransactionPinPrompt from "./TransactionPinPrompt";
+import PaymentQuoteBreakdown, { type PaymentQuote } from "./PaymentQuoteBreakdown";
 
 interface SendModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  userId: string;
-  userEmail?: string;
 }
 
 interface RecipientInfo {
   walletId: string;
-  firstName: string;
-  lastName: string;
-  email: string;
+  maskedName: string; // e.g. "J*** S****"
+  legacyWalletId: boolean; // Older ID without a check character
 }
 
-const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalProps) => {
+const SendModal = ({ isOpen, onClose, onSuccess }: SendModalProps) => {
   const [recipientWalletId, setRecipientWalletId] = useState("");
   const [amount, setAmount] = useState("");
   const [note, setNote] = useState("");
@@ -27,7 +30,14 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
   const [error, setError] = useState("");
   const [step, setStep] = useState<"form" | "confirmation">("form");
   const [recipientInfo, setRecipientInfo] = useState<RecipientInfo | null>(null);
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
   const [loadingRecipient, setLoadingRecipient] = useState(false);
+  const transactionPin = useTransactionPin();
+  const idempotencyKey = useIdempotencyKey();
+
+  // Flags a mistyped ID as soon as all of it is typed
+  const typedWalletIdCheck = recipientWalletId.length === WALLET_ID_LENGTH ? checkWalletId(recipientWalletId) : null;
+  const walletIdTypo = typedWalletIdCheck && !typedWalletIdCheck.valid ? typedWalletIdCheck.error : "";
 
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,10 +45,10 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
     setLoadingRecipient(true);
 
     try {
-      // Validate wallet ID format (3 letters + 3 digits)
-      const walletIdPattern = /^[A-Z]{3}\d{3}$/i;
-      if (!walletIdPattern.test(recipientWalletId.trim())) {
-        setError("Invalid Wallet ID format. Please enter a valid Wallet ID (e.g., VXE445)");
+      // Validate wallet ID format and check character, so a typo is caught before the lookup
+      const walletIdCheck = checkWalletId(recipientWalletId);
+      if (!walletIdCheck.valid) {
+        setError(walletIdCheck.error);
         setLoadingRecipient(false);
         return;
       }
@@ -50,14 +60,21 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
         return;
       }
 
-      // Get recipient information
-      const recipientResult = await getRecipientInfoByWalletId(recipientWalletId.trim().toUpperCase());
+      // Get recipient information and the fee quote for the confirmation step
+      const normalizedWalletId = walletIdCheck.walletId;
+      const [recipientResult, quoteResult] = await Promise.all([
+        getRecipientInfoByWalletId(normalizedWalletId),
+        quotePayment({ kind: "send", recipientWalletId: normalizedWalletId, amount: amountNum }),
+      ]);
       
-      if (recipientResult.success && recipientResult.recipient) {
+      if (!recipientResult.success || !recipientResult.recipient) {
+        setError(recipientResult.error || "Failed to get recipient information");
+      } else if (!quoteResult.success || !quoteResult.quote) {
+        setError(quoteResult.error || "Failed to calculate the fee");
+      } else {
         setRecipientInfo(recipientResult.recipient);
+        setQuote(quoteResult.quote);
         setStep("confirmation");
-      } else {
-        setError(recipientResult.error || "Failed to get recipient information");
       }
     } catch (err) {
       setError("An error occurred. Please try again.");
@@ -76,11 +93,11 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
     try {
       const amountNum = parseFloat(amount);
       const result = await sendMoney(
-        userId,
+        idempotencyKey.current(),
         recipientInfo.walletId,
         amountNum,
         note || undefined,
-        userEmail
+        transactionPin.confirmation
       );
 
       if (result.success) {
@@ -89,13 +106,18 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
         setAmount("");
         setNote("");
         setRecipientInfo(null);
+        setQuote(null);
         setStep("form");
+        transactionPin.reset();
+        idempotencyKey.reset();
         onSuccess();
         onClose();
       } else {
         const errorMsg = result.error || "Failed to send money";
         setError(errorMsg);
-        toast.error(errorMsg);
+        if (!transactionPin.handleResult(result)) {
+          toast.error(errorMsg);
+        }
       }
     } catch (err) {
       setError("An error occurred. Please try again.");
@@ -108,7 +130,10 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
   const handleCancelConfirmation = () => {
     setStep("form");
     setRecipientInfo(null);
+    setQuote(null);
     setError("");
+    transactionPin.reset();
+    idempotencyKey.reset();
   };
 
   const handleClose = () => {
@@ -118,6 +143,9 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
     setError("");
     setStep("form");
     setRecipientInfo(null);
+    setQuote(null);
+    transactionPin.reset();
+    idempotencyKey.reset();
     onClose();
   };
 
@@ -181,21 +209,24 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
               type="text"
               value={recipientWalletId}
               onChange={(e) => {
-                setRecipientWalletId(e.target.value.toUpperCase());
+                setRecipientWalletId(e.target.value.replace(/[\s-]/g, "").toUpperCase());
                 if (error) setError("");
               }}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all font-mono text-center text-base sm:text-lg tracking-wider placeholder:text-[#800000] touch-manipulation"
               style={{ color: '#800000', backgroundColor: '#ebebe0' }}
-              placeholder="VXE445"
-              pattern="[A-Z]{3}\d{3}"
-              maxLength={6}
+              placeholder={WALLET_ID_EXAMPLE}
+              maxLength={WALLET_ID_LENGTH}
               required
               autoComplete="off"
               inputMode="text"
             />
-            <p className="mt-1 text-xs" style={{ color: '#800000' }}>
-              Enter the recipient's Wallet ID (e.g., VXE445)
-            </p>
+            {walletIdTypo ? (
+              <p className="mt-1 text-xs text-red-700">{walletIdTypo}</p>
+            ) : (
+              <p className="mt-1 text-xs" style={{ color: '#800000' }}>
+                Enter the recipient's Wallet ID (e.g., {WALLET_ID_EXAMPLE})
+              </p>
+            )}
           </div>
 
           <div>
@@ -274,11 +305,6 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
               <h3 className="text-lg font-semibold mb-4" style={{ color: '#800000' }}>Transaction Details</h3>
               
               <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="text-sm font-medium" style={{ color: '#800000' }}>Amount:</span>
-                  <span className="text-lg font-bold" style={{ color: '#800000' }}>${parseFloat(amount || "0").toFixed(2)}</span>
-                </div>
-                
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium" style={{ color: '#800000' }}>Recipient Wallet ID:</span>
                   <span className="text-sm font-mono font-semibold" style={{ color: '#800000' }}>{recipientInfo?.walletId}</span>
@@ -287,9 +313,15 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium" style={{ color: '#800000' }}>Recipient Name:</span>
                   <span className="text-sm font-semibold" style={{ color: '#800000' }}>
-                    {recipientInfo?.firstName} {recipientInfo?.lastName}
+                    {recipientInfo?.maskedName || "Not available"}
                   </span>
                 </div>
+
+                {recipientInfo?.legacyWalletId && (
+                  <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                    This is an older Wallet ID without a check character, so typos can&apos;t be detected. Make sure the name matches before you send.
+                  </p>
+                )}
                 
                 {note && (
                   <div className="pt-3 border-t border-gray-200">
@@ -300,6 +332,10 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
               </div>
             </div>
 
+            {quote && <PaymentQuoteBreakdown quote={quote} />}
+
+            <TransactionPinPrompt pinState={transactionPin} disabled={loading} />
+
             {/* Footer Buttons */}
             <div className="flex gap-3 pt-4">
               <button
@@ -316,7 +352,7 @@ const SendModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: SendModalP
               <button
                 type="button"
                 onClick={handleConfirmSend}
-                disabled={loading}
+                disabled={loading || transactionPin.blocked || !quote?.sufficientFunds}
                 className="flex-1 px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 style={{ backgroundColor: '#800000' }}
                 onMouseEnter={(e) => !loading && (e.currentTarget.style.backgroundColor = '#6b0000')}
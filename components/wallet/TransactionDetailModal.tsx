@@ -1,31 +1,32 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { deleteTransaction } from "@/lib/server-actions/wallet";
+import { hideTransaction } from "@/lib/server-actions/wallet";
+import { requestRefund } from "@/lib/server-actions/refunds";
 import ConfirmationModal from "@/components/ui/ConfirmationModal";
 import QRCode from "qrcode";
+import toast from "react-hot-toast";
 
 interface TransactionDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   transaction: any;
-  userId: string;
-  userEmail?: string;
-  onDelete: () => void;
+  onHide: () => void;
 }
 
 const TransactionDetailModal = ({
   isOpen,
   onClose,
   transaction,
-  userId,
-  userEmail,
-  onDelete,
+  onHide,
 }: TransactionDetailModalProps) => {
-  const [deleting, setDeleting] = useState(false);
+  const [hiding, setHiding] = useState(false);
   const [error, setError] = useState<string>("");
   const [downloading, setDownloading] = useState(false);
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showHideConfirm, setShowHideConfirm] = useState(false);
+  const [showRefundForm, setShowRefundForm] = useState(false);
+  const [refundReason, setRefundReason] = useState("");
+  const [requestingRefund, setRequestingRefund] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>("");
 
   // Generate QR code for reference number when transaction has a ref
@@ -50,47 +51,81 @@ const TransactionDetailModal = ({
     generateQRCode();
   }, [transaction?.ref]);
 
+  // Start with a closed refund form for every transaction
+  useEffect(() => {
+    setShowRefundForm(false);
+    setRefundReason("");
+  }, [transaction?._id]);
+
   if (!isOpen || !transaction) return null;
 
+  /**
+   * Whether money left the wallet (withdrawals, sends, cash payouts, and returning a
+   * transfer you received)
+   */
+  const isOutgoing = (tx: { type: string; isSent?: boolean }): boolean =>
+    tx.type === "send" ||
+    tx.type === "request" ||
+    tx.type === "cash_payout" ||
+    (tx.type === "reversal" && tx.isSent === true);
+
   /**
    * Get transaction amount color based on type
    * Green for deposits/received, Red for withdrawals/sent
    */
   const getTransactionAmountColor = (tx: any): string => {
-    // Red for outgoing transactions (withdrawals, sends, cash payouts)
-    if (
-      tx.type === "send" ||
-      tx.type === "request" ||
-      tx.type === "cash_payout"
-    ) {
-      return "text-red-600";
-    }
-    // Green for incoming transactions (deposits, received)
-    return "text-green-600";
+    return isOutgoing(tx) ? "text-red-600" : "text-green-600";
   };
 
-  const handleDeleteClick = () => {
-    setShowDeleteConfirm(true);
+  const canRequestRefund = transaction.type === "send" && transaction.status === "success";
+
+  const handleHideClick = () => {
+    setShowHideConfirm(true);
   };
 
-  const handleDeleteConfirm = async () => {
-    setDeleting(true);
+  const handleHideConfirm = async () => {
+    setHiding(true);
     setError("");
-    setShowDeleteConfirm(false);
+    setShowHideConfirm(false);
     
     try {
-      const result = await deleteTransaction(transaction._id, userId, userEmail);
+      const result = await hideTransaction(transaction._id);
       if (result.success) {
-        onDelete();
+        onHide();
         onClose();
       } else {
-        setError(result.error || "Failed to delete transaction");
+        setError(result.error || "Failed to hide transaction");
       }
     } catch (err) {
-      console.error("Error deleting transaction:", err);
-      setError("Failed to delete transaction");
+      console.error("Error hiding transaction:", err);
+      setError("Failed to hide transaction");
     } finally {
-      setDeleting(false);
+      setHiding(false);
+    }
+  };
+
+  const handleRequestRefund = async () => {
+    if (!refundReason.trim()) {
+      setError("Please say why you want a refund");
+      return;
+    }
+
+    setRequestingRefund(true);
+    setError("");
+    try {
+      const result = await requestRefund(transaction.ref, refundReason);
+      if (result.success) {
+        toast.success(result.message || "Refund requested");
+        setShowRefundForm(false);
+        setRefundReason("");
+      } else {
+        setError(result.error || "Failed to request refund");
+      }
+    } catch (err) {
+      console.error("Error requesting refund:", err);
+      setError("Failed to request refund");
+    } finally {
+      setRequestingRefund(false);
     }
   };
 
@@ -282,7 +317,7 @@ const TransactionDetailModal = ({
   <div class="amount-box">
     <div class="amount-label">${tx.type === "cash_payout" && tx.note === "paid cash" ? "Payout Amount (Paid to User)" : "Transaction Amount"}</div>
     <div class="amount-value">
-      ${tx.type === "send" || tx.type === "request" ? "-" : "+"}
+      ${isOutgoing(tx) ? "-" : "+"}
       $${tx.amount.toFixed(2)}
     </div>
   </div>
@@ -378,6 +413,8 @@ const TransactionDetailModal = ({
       case "deposit":
       case "redeem":
         return "bg-green-100";
+      case "reversal":
+        return "bg-yellow-100";
       default:
         return "bg-blue-100";
     }
@@ -464,11 +501,7 @@ const TransactionDetailModal = ({
               <p
                 className={`text-4xl font-bold ${getTransactionAmountColor(transaction)}`}
               >
-                {transaction.type === "send" || 
-                 transaction.type === "request" || 
-                 transaction.type === "cash_payout"
-                  ? "-"
-                  : "+"}
+                {isOutgoing(transaction) ? "-" : "+"}
                 ${transaction.amount.toLocaleString("en-US", {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
@@ -520,7 +553,7 @@ const TransactionDetailModal = ({
                 </div>
               )}
 
-              {/* Show 5% fee for paid cash transactions */}
+              {/* Show the withdrawal fee for paid cash transactions */}
               {transaction.type === "cash_payout" && transaction.note === "paid cash" && (
                 <div className="space-y-2">
                   <div>
@@ -529,18 +562,23 @@ const TransactionDetailModal = ({
                       ${transaction.amount.toFixed(2)}
                     </p>
                   </div>
-                  <div>
-                    <p className="text-sm mb-1" style={{ color: '#800000' }}>5% System Fee</p>
-                    <p className="text-sm font-semibold text-red-600">
-                      ${(transaction.amount / 19).toFixed(2)}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-sm mb-1" style={{ color: '#800000' }}>Original Withdrawal Amount</p>
-                    <p className="text-sm font-semibold" style={{ color: '#800000' }}>
-                      ${(transaction.amount / 0.95).toFixed(2)}
-                    </p>
-                  </div>
+                  {/* Older payouts didn't record their fee */}
+                  {transaction.feeCents !== undefined && (
+                    <>
+                      <div>
+                        <p className="text-sm mb-1" style={{ color: '#800000' }}>System Fee</p>
+                        <p className="text-sm font-semibold text-red-600">
+                          ${transaction.feeCents.toFixed(2)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm mb-1" style={{ color: '#800000' }}>Original Withdrawal Amount</p>
+                        <p className="text-sm font-semibold" style={{ color: '#800000' }}>
+                          ${(transaction.amount + transaction.feeCents).toFixed(2)}
+                        </p>
+                      </div>
+                    </>
+                  )}
                 </div>
               )}
 
@@ -560,6 +598,45 @@ const TransactionDetailModal = ({
                 </div>
               )}
 
+              {/* Refund request for transfers you sent */}
+              {canRequestRefund && showRefundForm && (
+                <div className="pt-4 border-t border-gray-300 space-y-3">
+                  <label htmlFor="refund-reason" className="block text-sm font-medium" style={{ color: '#800000' }}>
+                    Why should {transaction.toWalletId} return this transfer?
+                  </label>
+                  <textarea
+                    id="refund-reason"
+                    value={refundReason}
+                    onChange={(e) => setRefundReason(e.target.value)}
+                    maxLength={500}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#800000] text-[#800000] bg-white"
+                    placeholder="e.g. Sent to the wrong wallet"
+                    disabled={requestingRefund}
+                  />
+                  <p className="text-xs" style={{ color: '#800000' }}>
+                    The recipient is asked to approve the refund. Fees are only returned if an administrator approves it.
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setShowRefundForm(false)}
+                      disabled={requestingRefund}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-[#800000] font-medium hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleRequestRefund}
+                      disabled={requestingRefund}
+                      className="flex-1 px-4 py-2 text-white rounded-md font-medium disabled:bg-gray-400 disabled:cursor-not-allowed"
+                      style={{ backgroundColor: '#800000' }}
+                    >
+                      {requestingRefund ? "Requesting..." : "Send Refund Request"}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* QR Code Display for Reference Number */}
               {transaction.ref && qrCodeDataUrl && (
                 <div className="mt-6 pt-6 border-t border-gray-300">
@@ -621,19 +698,28 @@ const TransactionDetailModal = ({
                 </>
               )}
             </button>
+            {canRequestRefund && !showRefundForm && (
+              <button
+                onClick={() => setShowRefundForm(true)}
+                className="flex-1 px-4 py-2 border border-[#800000] text-[#800000] rounded-md font-medium hover:bg-white/40 transition-colors"
+                tabIndex={0}
+              >
+                Request Refund
+              </button>
+            )}
             <button
-              onClick={handleDeleteClick}
-              disabled={deleting}
+              onClick={handleHideClick}
+              disabled={hiding}
               className="flex-1 px-4 py-2 text-white rounded-md font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               style={{ backgroundColor: '#800000' }}
-              onMouseEnter={(e) => !deleting && (e.currentTarget.style.backgroundColor = '#6b0000')}
-              onMouseLeave={(e) => !deleting && (e.currentTarget.style.backgroundColor = '#800000')}
+              onMouseEnter={(e) => !hiding && (e.currentTarget.style.backgroundColor = '#6b0000')}
+              onMouseLeave={(e) => !hiding && (e.currentTarget.style.backgroundColor = '#800000')}
               tabIndex={0}
             >
-              {deleting ? (
+              {hiding ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  Deleting...
+                  Hiding...
                 </>
               ) : (
                 <>
@@ -647,10 +733,10 @@ const TransactionDetailModal = ({
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
                     />
                   </svg>
-                  Delete Transaction
+                  Hide from History
                 </>
               )}
             </button>
@@ -660,15 +746,15 @@ const TransactionDetailModal = ({
 
       {/* Confirmation Modal */}
       <ConfirmationModal
-        isOpen={showDeleteConfirm}
-        onClose={() => setShowDeleteConfirm(false)}
-        onConfirm={handleDeleteConfirm}
-        title="Delete Transaction"
-        message="Are you sure you want to delete this transaction? This action cannot be undone."
-        confirmText="Delete"
+        isOpen={showHideConfirm}
+        onClose={() => setShowHideConfirm(false)}
+        onConfirm={handleHideConfirm}
+        title="Hide Transaction"
+        message="Hide this transaction from your history? It stays on record and in your balance. To get money back from a transfer, request a refund instead."
+        confirmText="Hide"
         cancelText="Cancel"
         confirmButtonColor="red"
-        isLoading={deleting}
+        isLoading={hiding}
       />
     </div>
   );
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { setTransactionPin } from "@/lib/server-actions/transaction-pin";
+import type { TransactionPinState } from "@/components/hooks/useTransactionPin";
+
+interface TransactionPinPromptProps {
+  /** PIN step state from useTransactionPin() */
+  pinState: TransactionPinState;
+  /** Disable the inputs while the payment is being submitted */
+  disabled?: boolean;
+}
+
+const inputClassName =
+  "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-base tracking-[0.5em] touch-manipulation";
+
+/**
+ * TransactionPinPrompt Component
+ *
+ * Shown in the confirmation step of the payment modals once the server asks for the
+ * wallet's transaction PIN. If the wallet has no PIN yet it asks the user to create one
+ * first; if the PIN is locked it only explains why payments are paused.
+ *
+ * @param props - Component props
+ */
+const TransactionPinPrompt = ({ pinState, disabled }: TransactionPinPromptProps) => {
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [setupError, setSetupError] = useState("");
+
+  if (!pinState.required) return null;
+
+  if (pinState.locked) {
+    return (
+      <div className="rounded-lg p-4 bg-red-50 border border-red-200 text-sm text-red-700">
+        Payments from your wallet are paused after too many wrong PINs. Try again later, or reset your
+        PIN with your account password in Settings → Security.
+      </div>
+    );
+  }
+
+  const handleSetPin = async () => {
+    setSetupError("");
+    if (!/^\d{4,6}$/.test(newPin)) {
+      setSetupError("PIN must be 4 to 6 digits");
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setSetupError("PINs don't match");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await setTransactionPin(newPin, undefined, password);
+      if (result.success) {
+        toast.success(result.message || "Transaction PIN set");
+        pinState.onPinSet();
+        pinState.setPin(newPin);
+        setNewPin("");
+        setConfirmPin("");
+        setPassword("");
+      } else {
+        setSetupError(result.error || "Failed to set PIN");
+      }
+    } catch (err) {
+      console.error("Error setting transaction PIN:", err);
+      setSetupError("Failed to set PIN");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (pinState.setupRequired) {
+    return (
+      <div className="rounded-lg p-4 space-y-3" style={{ backgroundColor: '#ebebe0' }}>
+        <p className="text-sm font-medium" style={{ color: '#800000' }}>
+          Create a transaction PIN
+        </p>
+        <p className="text-xs" style={{ color: '#800000' }}>
+          Your wallet needs a 4-6 digit PIN before it can make payments. You&apos;ll use it to confirm
+          transfers, withdrawals and purchases. Enter your account password to create it.
+        </p>
+        {setupError && <p className="text-xs text-red-700">{setupError}</p>}
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          maxLength={6}
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ""))}
+          className={inputClassName}
+          style={{ color: '#800000', backgroundColor: '#ffffff' }}
+          placeholder="New PIN"
+          aria-label="New transaction PIN"
+          disabled={saving || disabled}
+        />
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          maxLength={6}
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+          className={inputClassName}
+          style={{ color: '#800000', backgroundColor: '#ffffff' }}
+          placeholder="Confirm PIN"
+          aria-label="Confirm transaction PIN"
+          disabled={saving || disabled}
+        />
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#800000] focus:border-[#800000] outline-none transition-all text-base touch-manipulation"
+          style={{ color: '#800000', backgroundColor: '#ffffff' }}
+          placeholder="Account password"
+          aria-label="Account password"
+          disabled={saving || disabled}
+        />
+        <button
+          type="button"
+          onClick={handleSetPin}
+          disabled={saving || disabled || !newPin || !confirmPin || !password}
+          className="w-full px-4 py-2 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ backgroundColor: '#800000' }}
+        >
+          {saving ? "Saving..." : "Set PIN"}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg p-4 space-y-3" style={{ backgroundColor: '#ebebe0' }}>
+      <label htmlFor="transaction-pin" className="block text-sm font-medium" style={{ color: '#800000' }}>
+        Transaction PIN
+      </label>
+      <input
+        id="transaction-pin"
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={6}
+        value={pinState.pin}
+        onChange={(e) => pinState.setPin(e.target.value.replace(/\D/g, ""))}
+        className={inputClassName}
+        style={{ color: '#800000', backgroundColor: '#ffffff' }}
+        placeholder="••••"
+        disabled={disabled}
+        autoFocus
+      />
+      <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: '#800000' }}>
+        <input
+          type="checkbox"
+          checked={pinState.trustDevice}
+          onChange={(e) => pinState.setTrustDevice(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300"
+          disabled={disabled}
+        />
+        Trust this device for smaller payments (large payments always need the PIN)
+      </label>
+    </div>
+  );
+};
+
+export default TransactionPinPrompt;
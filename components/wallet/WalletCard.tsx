@@ -1,6 +1,7 @@
 "use client";
 
 import { useRouter } from "next/navigation";
+import type { WalletAllowance } from "@/lib/limit-profile";
 
 /**
  * Props for WalletCard component
@@ -28,8 +29,14 @@ interface WalletCardProps {
   kycRejectionReason: string | null;
   /** User email (fallback for cardholder name) */
   userEmail?: string;
+  /** What is left of the wallet's limits, in cents (null or uncapped fields aren't shown) */
+  allowance?: WalletAllowance | null;
 }
 
+// Card amounts are shown in SSP like the balance
+const formatAllowance = (cents: number) =>
+  `SSP ${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 /**
  * WalletCard Component
  * 
@@ -39,6 +46,7 @@ interface WalletCardProps {
  * - Current balance
  * - Cardholder name (from KYC or email)
  * - Expiry date and Mastercard logo
+ * - Remaining daily/monthly allowance and receive room when the wallet has limits
  * - Handles different states: loading, suspended, terminated, errors
  * 
  * @param props - Component props
@@ -55,9 +63,19 @@ const WalletCard = ({
   kycStatus,
   kycRejectionReason,
   userEmail,
+  allowance,
 }: WalletCardProps) => {
   const router = useRouter();
 
+  const allowanceItems = allowance
+    ? [
+        { label: "Left today", cents: allowance.dailyCents },
+        { label: "This month", cents: allowance.monthlyCents },
+        { label: "Per payment", cents: allowance.perTransactionCents },
+        { label: "Can receive", cents: allowance.receiveCents },
+      ].filter((item): item is { label: string; cents: number } => item.cents !== undefined)
+    : [];
+
   // Only show card if wallet exists (walletStatus is not null)
   if (walletStatus === null) {
     return null;
@@ -277,6 +295,17 @@ const WalletCard = ({
                 SSP {balance.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </h2>
             </div>
+
+            {/* Remaining Allowance - Only when the wallet has limits */}
+            {allowanceItems.length > 0 && (
+              <div className="mb-0.5 sm:mb-1 flex flex-wrap gap-x-3 gap-y-0.5" aria-label="Remaining wallet limits">
+                {allowanceItems.map((item) => (
+                  <p key={item.label} className="text-white/90 text-[10px] sm:text-xs font-medium drop-shadow">
+                    {item.label}: <span className="font-semibold">{formatAllowance(item.cents)}</span>
+                  </p>
+                ))}
+              </div>
+            )}
           </>
         )}
 
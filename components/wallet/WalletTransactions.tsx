@@ -127,21 +127,22 @@ const WalletTransactions = ({
     }
   };
 
+  /**
+   * Whether money left the wallet (withdrawals, sends, cash payouts, and returning a
+   * transfer you received)
+   */
+  const isOutgoing = (transaction: Transaction): boolean =>
+    transaction.type === "send" ||
+    transaction.type === "request" ||
+    transaction.type === "cash_payout" ||
+    (transaction.type === "reversal" && transaction.isSent === true);
+
   /**
    * Get transaction amount color based on type
    * Green for deposits/received, Red for withdrawals/sent
    */
   const getTransactionAmountColor = (transaction: Transaction): string => {
-    // Red for outgoing transactions (withdrawals, sends, cash payouts)
-    if (
-      transaction.type === "send" ||
-      transaction.type === "request" ||
-      transaction.type === "cash_payout"
-    ) {
-      return "text-red-600";
-    }
-    // Green for incoming transactions (deposits, received)
-    return "text-green-600";
+    return isOutgoing(transaction) ? "text-red-600" : "text-green-600";
   };
 
   /**
@@ -359,10 +360,7 @@ const WalletTransactions = ({
                 {/* Transaction Amount and Status */}
                 <div className="text-right flex-shrink-0">
                   <p className={`font-bold text-base sm:text-lg ${getTransactionAmountColor(transaction)}`}>
-                    {transaction.type === "send" || 
-                     transaction.type === "request" || 
-                     transaction.type === "cash_payout"
-                     ? "-" : "+"}
+                    {isOutgoing(transaction) ? "-" : "+"}
                     SSP {transaction.amount.toLocaleString("en-US", {
                       minimumFractionDigits: 2,
                       maximumFractionDigits: 2,
@@ -1,22 +1,28 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { requestCash } from "@/lib/server-actions/wallet";
+import { quotePayment } from "@/lib/server-actions/payment-quotes";
 import toast from "react-hot-toast";
+import { useTransactionPin } from "@/components/hooks/useTransactionPin";
+import TransactionPinPrompt from "./TransactionPinPrompt";
+import PaymentQuoteBreakdown, { type PaymentQuote } from "./PaymentQuoteBreakdown";
 
 interface WithdrawModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  userId: string;
-  userEmail?: string;
 }
 
-const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: WithdrawModalProps) => {
+const WithdrawModal = ({ isOpen, onClose, onSuccess }: WithdrawModalProps) => {
   const [amount, setAmount] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [step, setStep] = useState<"form" | "confirmation">("form");
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const transactionPin = useTransactionPin();
 
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,11 +35,21 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
         return;
       }
 
+      setQuoting(true);
+      const quoteResult = await quotePayment({ kind: "cash", amount: amountNum });
+      if (!quoteResult.success || !quoteResult.quote) {
+        setError(quoteResult.error || "Failed to calculate the fee");
+        return;
+      }
+
       // Move to confirmation step
+      setQuote(quoteResult.quote);
       setStep("confirmation");
     } catch (err) {
       setError("An error occurred. Please try again.");
-      console.error("Error validating amount:", err);
+      console.error("Error quoting withdrawal:", err);
+    } finally {
+      setQuoting(false);
     }
   };
 
@@ -43,18 +59,22 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
 
     try {
       const amountNum = parseFloat(amount);
-      const result = await requestCash(userId, amountNum, userEmail);
+      const result = await requestCash(amountNum, transactionPin.confirmation);
 
       if (result.success) {
         toast.success(result.message || `Withdrawal request submitted successfully! Reference: ${result.ref || "N/A"}`);
         setAmount("");
+        setQuote(null);
         setStep("form");
+        transactionPin.reset();
         onSuccess();
         onClose();
       } else {
         const errorMsg = result.error || "Failed to request withdrawal";
         setError(errorMsg);
-        toast.error(errorMsg);
+        if (!transactionPin.handleResult(result)) {
+          toast.error(errorMsg);
+        }
       }
     } catch (err) {
       setError("An error occurred. Please try again.");
@@ -66,13 +86,17 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
 
   const handleCancelConfirmation = () => {
     setStep("form");
+    setQuote(null);
     setError("");
+    transactionPin.reset();
   };
 
   const handleClose = () => {
     setAmount("");
     setError("");
     setStep("form");
+    setQuote(null);
+    transactionPin.reset();
     onClose();
   };
 
@@ -173,12 +197,13 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
             </button>
             <button
               type="submit"
+              disabled={quoting}
               className="flex-1 px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               style={{ backgroundColor: '#800000' }}
               onMouseEnter={(e) => !e.currentTarget.disabled && (e.currentTarget.style.backgroundColor = '#6b0000')}
               onMouseLeave={(e) => !e.currentTarget.disabled && (e.currentTarget.style.backgroundColor = '#800000')}
             >
-              Continue
+              {quoting ? "Calculating..." : "Continue"}
             </button>
           </div>
         </form>
@@ -189,10 +214,7 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
               <h3 className="text-lg font-semibold mb-4" style={{ color: '#800000' }}>Withdrawal Details</h3>
               
               <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="text-sm font-medium" style={{ color: '#800000' }}>Withdrawal Amount:</span>
-                  <span className="text-lg font-bold" style={{ color: '#800000' }}>${parseFloat(amount || "0").toFixed(2)}</span>
-                </div>
+                {quote && <PaymentQuoteBreakdown quote={quote} amountLabel="Withdrawal Amount" />}
                 
                 <div className="pt-3 border-t border-gray-200">
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -213,7 +235,11 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
                       <div className="flex-1">
                         <p className="text-sm font-medium text-blue-900 mb-1">Important Notice</p>
                         <p className="text-xs text-blue-700 leading-relaxed">
-                          If your withdrawal request is not processed within 24 hours, the money will automatically be returned to your wallet account.
+                          The fee is charged when the cash is paid out, at the rate in effect then. If your withdrawal request is not processed within 24 hours, the money will automatically be returned to your wallet account. You can also cancel it early from{" "}
+                          <Link href="/wallet/request-cash" className="underline font-medium">
+                            Request Cash
+                          </Link>
+                          .
                         </p>
                       </div>
                     </div>
@@ -222,6 +248,8 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
               </div>
             </div>
 
+            <TransactionPinPrompt pinState={transactionPin} disabled={loading} />
+
             {/* Footer Buttons */}
             <div className="flex gap-3 pt-4">
               <button
@@ -238,7 +266,7 @@ const WithdrawModal = ({ isOpen, onClose, onSuccess, userId, userEmail }: Withdr
               <button
                 type="button"
                 onClick={handleConfirmWithdraw}
-                disabled={loading}
+                disabled={loading || transactionPin.blocked || !quote?.sufficientFunds}
                 className="flex-1 px-4 py-3 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 style={{ backgroundColor: '#800000' }}
                 onMouseEnter={(e) => !loading && (e.currentTarget.style.backgroundColor = '#6b0000')}
@@ -3,14 +3,35 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
-import { User, getSession, signIn, signUp, signOut as authSignOut } from "@/lib/auth";
+import {
+  User,
+  AuthResponse,
+  getSession,
+  signIn,
+  signUp,
+  signOut as authSignOut,
+  verifyTwoFactor,
+  startTwoFactorSetup,
+  completeTwoFactorSetup,
+} from "@/lib/auth";
+
+type SignInResult = Pick<AuthResponse, "success" | "message" | "twoFactor" | "challengeToken">;
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<{ success: boolean; message?: string }>;
+  // May ask for a second step: `twoFactor` is then set along with a challenge token
+  signIn: (email: string, password: string) => Promise<SignInResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<SignInResult>;
+  startTwoFactorSetup: typeof startTwoFactorSetup;
+  completeTwoFactorSetup: (
+    challengeToken: string,
+    code: string
+  ) => Promise<SignInResult & { recoveryCodes?: string[] }>;
   signUp: (email: string, password: string) => Promise<{ success: boolean; message?: string }>;
-  signOut: () => void;
+  signOut: () => Promise<void>;
+  // Reload the signed-in user from the server (e.g. after verifying the email address)
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -37,17 +58,54 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     loadSession();
   }, []);
 
-  const handleSignIn = async (
-    email: string,
-    password: string
-  ): Promise<{ success: boolean; message?: string }> => {
+  const handleSignIn = async (email: string, password: string): Promise<SignInResult> => {
     const result = await signIn(email, password);
     if (result.success && result.user) {
       setUser(result.user);
       toast.success("Signed in successfully!");
       router.push("/dashboard");
     }
-    return { success: result.success, message: result.message };
+    return {
+      success: result.success,
+      message: result.message,
+      twoFactor: result.twoFactor,
+      challengeToken: result.challengeToken,
+    };
+  };
+
+  const handleVerifyTwoFactor = async (challengeToken: string, code: string): Promise<SignInResult> => {
+    const result = await verifyTwoFactor(challengeToken, code);
+    if (result.success && result.user) {
+      setUser(result.user);
+      toast.success(result.message || "Signed in successfully!");
+      router.push("/dashboard");
+    }
+    return {
+      success: result.success,
+      message: result.message,
+      twoFactor: result.twoFactor,
+      challengeToken: result.challengeToken,
+    };
+  };
+
+  const handleCompleteTwoFactorSetup = async (
+    challengeToken: string,
+    code: string
+  ): Promise<SignInResult & { recoveryCodes?: string[] }> => {
+    const result = await completeTwoFactorSetup(challengeToken, code);
+    if (result.success && result.user) {
+      // The login modal stays open to show the recovery codes
+      setUser(result.user);
+      toast.success("Two-factor authentication enabled");
+      router.push("/dashboard");
+    }
+    return {
+      success: result.success,
+      message: result.message,
+      twoFactor: result.twoFactor,
+      challengeToken: result.challengeToken,
+      recoveryCodes: result.recoveryCodes,
+    };
   };
 
   const handleSignUp = async (
@@ -62,8 +120,16 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return { success: result.success, message: result.message };
   };
 
-  const handleSignOut = () => {
-    authSignOut();
+  const handleRefreshUser = async () => {
+    try {
+      setUser(await getSession());
+    } catch (error) {
+      console.error("Error refreshing session:", error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await authSignOut();
     setUser(null);
     toast.success("Signed out successfully!");
     // Navigate to home page after sign out
@@ -76,8 +142,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         user,
         loading,
         signIn: handleSignIn,
+        verifyTwoFactor: handleVerifyTwoFactor,
+        startTwoFactorSetup,
+        completeTwoFactorSetup: handleCompleteTwoFactorSetup,
         signUp: handleSignUp,
         signOut: handleSignOut,
+        refreshUser: handleRefreshUser,
         isAuthenticated: !!user,
       }}
     >
@@ -0,0 +1,122 @@
+// First-admin bootstrap (used by scripts/create-admin.ts)
+//
+// Admins are never created over HTTP. The CLI talks to the database directly,
+// refuses to run once an admin exists (unless forced), and can hand out a
+// one-time setup link instead of putting a password on the command line. The
+// link is an ordinary password reset token (see resetPassword in
+// lib/server-actions/auth.ts) with a longer expiry.
+//
+// This module is deliberately not a server action: nothing here may be
+// reachable from the browser.
+
+import crypto from "crypto";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { PasswordResetTokenModel, UserModel } from "./db/models";
+import { createUser, getUserByEmail } from "./db/utils";
+import { hashPassword } from "./password";
+
+// Setup links stay valid for 24 hours
+const SETUP_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const hasAdminUser = async (): Promise<boolean> => {
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  return (await usersCollection.countDocuments({ role: "admin" }, { limit: 1 })) > 0;
+};
+
+/**
+ * Create a new admin account
+ * Without a password the account gets a random one nobody knows, so it can only
+ * be used through a setup link
+ */
+export const createAdminUser = async (email: string, password?: string): Promise<UserModel> => {
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalizedEmail)) {
+    throw new Error("Invalid email format");
+  }
+
+  if (password !== undefined && (password.length < 8 || password.length > 25)) {
+    throw new Error("Password must be 8 to 25 characters");
+  }
+
+  if (await getUserByEmail(normalizedEmail)) {
+    throw new Error("A user with this email already exists (use --promote to make them an admin)");
+  }
+
+  return createUser({
+    email: normalizedEmail,
+    password: await hashPassword(password ?? crypto.randomBytes(32).toString("base64url")),
+    role: "admin",
+    // Whoever runs the bootstrap vouches for the address
+    emailVerified: true,
+    emailVerifiedAt: new Date(),
+  });
+};
+
+/**
+ * Give an existing user the admin role
+ * Their email is marked verified, as it is for an admin created here
+ */
+export const promoteUserToAdmin = async (email: string): Promise<UserModel> => {
+  const user = await getUserByEmail(email.trim().toLowerCase());
+  if (!user || !user._id) {
+    throw new Error("No user found with this email");
+  }
+
+  if (user.role === "admin" && user.emailVerified) {
+    return user;
+  }
+
+  const now = new Date();
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  const updated = await usersCollection.findOneAndUpdate(
+    { _id: user._id },
+    {
+      $set: {
+        role: "admin",
+        // Whoever runs the bootstrap vouches for the address
+        emailVerified: true,
+        emailVerifiedAt: user.emailVerifiedAt ?? now,
+        updatedAt: now,
+      },
+    },
+    { returnDocument: "after" }
+  );
+
+  if (!updated) {
+    throw new Error("Failed to promote user");
+  }
+
+  return updated;
+};
+
+/**
+ * Create a one-time link the admin uses to choose their password
+ * Any earlier unused reset or setup links for the user stop working
+ */
+export const createAdminSetupLink = async (user: UserModel): Promise<{ url: string; expiresAt: Date }> => {
+  if (!user._id) {
+    throw new Error("User ID not found");
+  }
+
+  const tokensCollection = await getCollection<PasswordResetTokenModel>(COLLECTIONS.PASSWORD_RESET_TOKENS);
+  await tokensCollection.updateMany({ userId: user._id, used: false }, { $set: { used: true } });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SETUP_LINK_TTL_MS);
+  await tokensCollection.insertOne({
+    userId: user._id,
+    token,
+    expiresAt,
+    used: false,
+    createdAt: now,
+  });
+
+  return {
+    url: `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/reset-password?token=${token}`,
+    expiresAt,
+  };
+};
@@ -0,0 +1,22 @@
+// Audit log for security-relevant admin actions
+//
+// Entries are append-only records in the `audit_logs` collection of who did
+// what to whom, e.g. an admin resetting another user's two-factor authentication.
+
+import type { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { AuditLogModel } from "./db/models";
+
+/**
+ * Record an audit log entry
+ */
+export const recordAuditEvent = async (entry: {
+  action: string;
+  actorUserId: ObjectId;
+  targetUserId?: ObjectId;
+  details?: Record<string, unknown>;
+}): Promise<void> => {
+  const auditCollection = await getCollection<AuditLogModel>(COLLECTIONS.AUDIT_LOGS);
+  await auditCollection.insertOne({ ...entry, createdAt: new Date() });
+};
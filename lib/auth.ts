@@ -1,11 +1,21 @@
 // Client-side authentication utilities using MongoDB
-import { Role } from "./rbac";
-import { signUp as serverSignUp, signIn as serverSignIn, getUserById } from "./server-actions/auth";
+import { Role, Permission } from "./rbac";
+import {
+  signUp as serverSignUp,
+  signIn as serverSignIn,
+  signOut as serverSignOut,
+  getSessionUser,
+  completeTwoFactorSignIn,
+  startTwoFactorSetupSignIn,
+  completeTwoFactorSetupSignIn,
+} from "./server-actions/auth";
 
 export interface User {
   email: string;
   id: string; // MongoDB ObjectId as string
   role: Role;
+  permissions: Permission[];
+  emailVerified: boolean;
   createdAt: string;
 }
 
@@ -13,47 +23,27 @@ export interface AuthResponse {
   success: boolean;
   message?: string;
   user?: User;
+  // Second sign-in step required (see lib/two-factor.ts)
+  twoFactor?: "verify" | "setup";
+  challengeToken?: string;
+  recoveryCodes?: string[];
 }
 
-const SESSION_KEY = "madeenajuba_session";
+// Sessions live in an HTTP-only cookie managed by the server (see lib/session.ts).
+// The client never stores the user ID; it asks the server who is signed in.
 
-// Get current session from localStorage
+// Get current session from the server
 export const getSession = async (): Promise<User | null> => {
   if (typeof window === "undefined") return null;
-  
-  const sessionJson = localStorage.getItem(SESSION_KEY);
-  if (!sessionJson) return null;
-  
+
   try {
-    const session = JSON.parse(sessionJson);
-    if (!session.userId) return null;
-    
-    // Fetch user from MongoDB using server action
-    const result = await getUserById(session.userId);
+    const result = await getSessionUser();
     if (result.success && result.user) {
       return result.user as User;
     }
-    
-    // If user not found, clear session
-    localStorage.removeItem(SESSION_KEY);
     return null;
   } catch (error) {
     console.error("Error getting session:", error);
-    localStorage.removeItem(SESSION_KEY);
-    return null;
-  }
-};
-
-// Get current session synchronously (for initial render)
-// This returns cached data from localStorage
-export const getSessionSync = (): { userId: string } | null => {
-  if (typeof window === "undefined") return null;
-  const sessionJson = localStorage.getItem(SESSION_KEY);
-  if (!sessionJson) return null;
-  
-  try {
-    return JSON.parse(sessionJson);
-  } catch {
     return null;
   }
 };
@@ -68,8 +58,7 @@ export const signUp = async (email: string, password: string): Promise<AuthRespo
   const result = await serverSignUp(email, password);
   
   if (result.success && result.user) {
-    // Store session in localStorage
-    localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: result.user.id }));
+    // Session cookie is set by the server action
     return { success: true, user: result.user as User };
   }
   
@@ -86,35 +75,63 @@ export const signIn = async (email: string, password: string): Promise<AuthRespo
   const result = await serverSignIn(email, password);
   
   if (result.success && result.user) {
-    // Store session in localStorage
-    localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: result.user.id }));
+    // Session cookie is set by the server action
     return { success: true, user: result.user as User };
   }
   
-  return { success: false, message: result.message };
+  return {
+    success: false,
+    message: result.message,
+    twoFactor: result.twoFactor,
+    challengeToken: result.challengeToken,
+  };
+};
+
+// Finish signing in with a TOTP or recovery code
+export const verifyTwoFactor = async (challengeToken: string, code: string): Promise<AuthResponse> => {
+  const result = await completeTwoFactorSignIn(challengeToken, code);
+
+  if (result.success && result.user) {
+    return { success: true, message: result.message, user: result.user as User };
+  }
+
+  return { success: false, message: result.message, twoFactor: result.twoFactor, challengeToken: result.challengeToken };
+};
+
+// Start the 2FA setup required by the user's role during sign in
+export const startTwoFactorSetup = async (
+  challengeToken: string
+): Promise<{ success: boolean; message?: string; qrCodeDataUrl?: string; secret?: string }> => {
+  return startTwoFactorSetupSignIn(challengeToken);
+};
+
+// Confirm the 2FA setup and sign in; returns the one-time recovery codes
+export const completeTwoFactorSetup = async (challengeToken: string, code: string): Promise<AuthResponse> => {
+  const result = await completeTwoFactorSetupSignIn(challengeToken, code);
+
+  if (result.success && result.user) {
+    return { success: true, user: result.user as User, recoveryCodes: result.recoveryCodes };
+  }
+
+  return { success: false, message: result.message, twoFactor: result.twoFactor, challengeToken: result.challengeToken };
 };
 
 // Sign out the current user
-export const signOut = (): AuthResponse => {
+export const signOut = async (): Promise<AuthResponse> => {
   if (typeof window === "undefined") {
     return { success: false, message: "Client-side only function" };
   }
 
-  localStorage.removeItem(SESSION_KEY);
-  return { success: true };
+  const result = await serverSignOut();
+  return { success: result.success, message: result.message };
 };
 
-// Check if user is authenticated (async version)
+// Check if user is authenticated
 export const isAuthenticated = async (): Promise<boolean> => {
   const session = await getSession();
   return session !== null;
 };
 
-// Check if user is authenticated (sync version - checks localStorage only)
-export const isAuthenticatedSync = (): boolean => {
-  return getSessionSync() !== null;
-};
-
 // Note: Deprecated functions have been removed.
 // Please use server actions from lib/server-actions/admin.ts instead:
 // - updateUserRole() → use updateUserRole() from @/lib/server-actions/admin
@@ -0,0 +1,599 @@
+// Action × role matrix for the authorization guards
+//
+// Every exported server action has to appear in ACTION_POLICIES with the guard
+// it is expected to declare, so adding an action (or changing a guard) without
+// updating the table fails here. Each guarded action is then run through its
+// guard for every built-in role, signed out, and with and without 2FA for the
+// roles that require it. Denied calls also run the real action and must not
+// reach the database.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ObjectId } from "mongodb";
+import type { UserModel } from "./db/models";
+import { getCollection, withTransaction } from "./db";
+import { getCurrentUser } from "./session";
+import { getRolePermissions } from "./roles";
+import {
+  getActionPolicy,
+  isForbidden,
+  requireAnyPermission,
+  requirePermission,
+  requireRole,
+  requireUser,
+  type AccessPolicy,
+} from "./authz";
+import { DEFAULT_ROLES, type BuiltInRole, type Permission } from "./rbac";
+import * as adminActions from "./server-actions/admin";
+import * as authActions from "./server-actions/auth";
+import * as cloudinaryActions from "./server-actions/cloudinary";
+import * as contactActions from "./server-actions/contact";
+import * as dashboardActions from "./server-actions/dashboard";
+import * as eventsActions from "./server-actions/events";
+import * as feeSchedulesActions from "./server-actions/fee-schedules";
+import * as invoicesActions from "./server-actions/invoices";
+import * as kycActions from "./server-actions/kyc";
+import * as limitsActions from "./server-actions/limits";
+import * as loginActivityActions from "./server-actions/login-activity";
+import * as notificationsActions from "./server-actions/notifications";
+import * as paymentQuotesActions from "./server-actions/payment-quotes";
+import * as postsActions from "./server-actions/posts";
+import * as redeemBatchesActions from "./server-actions/redeem-batches";
+import * as redeemPrintActions from "./server-actions/redeem-print";
+import * as refundsActions from "./server-actions/refunds";
+import * as rolesActions from "./server-actions/roles";
+import * as sessionsActions from "./server-actions/sessions";
+import * as systemSettingsActions from "./server-actions/system-settings";
+import * as transactionPinActions from "./server-actions/transaction-pin";
+import * as twoFactorActions from "./server-actions/two-factor";
+import * as userMessagesActions from "./server-actions/user-messages";
+import * as walletActions from "./server-actions/wallet";
+
+vi.mock("./db", async (importOriginal) => {
+  const unavailable = () => {
+    throw new Error("The database isn't available in this test");
+  };
+  return {
+    ...(await importOriginal<typeof import("./db")>()),
+    default: vi.fn(unavailable),
+    getDb: vi.fn(unavailable),
+    getCollection: vi.fn(unavailable),
+    withTransaction: vi.fn(unavailable),
+  };
+});
+
+vi.mock("./session", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./session")>()),
+  getCurrentUser: vi.fn(),
+}));
+
+// Built-in roles resolve to their default permissions, as on a fresh database
+vi.mock("./roles", async (importOriginal) => {
+  const { DEFAULT_ROLES: roles, isBuiltInRole } = await import("./rbac");
+  return {
+    ...(await importOriginal<typeof import("./roles")>()),
+    getRolePermissions: vi.fn(async (role: string) => (isBuiltInRole(role) ? roles[role].permissions : [])),
+  };
+});
+
+// The default system setting: admin and finance must use 2FA
+vi.mock("./two-factor", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./two-factor")>();
+  return {
+    ...actual,
+    isTwoFactorRequiredForRole: vi.fn(async (role: string) => actual.DEFAULT_TWO_FACTOR_REQUIRED_ROLES.includes(role)),
+  };
+});
+
+// "public" actions are deliberately unguarded; "user" means any signed-in user;
+// a list of permissions means any one of them
+type ExpectedPolicy = "public" | "user" | Permission | Permission[];
+
+const ACTION_POLICIES: Record<string, Record<string, ExpectedPolicy>> = {
+  "admin": {
+    updateUserRole: "users.manage",
+    approveKyc: "kyc.review",
+    createWalletForUser: "wallet.create",
+    rejectKyc: "kyc.review",
+    generateRedeemCode: "redeem.generate",
+    getAllRedeemCodes: "redeem.generate",
+    deleteRedeemCodes: "redeem.generate",
+    generateCardsFromRedeemCodes: "redeem.generate",
+    getAllRedeemCards: "redeem.generate",
+    deleteRedeemCard: "redeem.generate",
+    getUsers: "users.manage",
+    getPasswordHashReport: "users.manage",
+    getAllKycApplications: "kyc.review",
+    getDepositedTicketFees: "fees.view",
+    getDepositedFeesByPeriod: "fees.view",
+    getAllFees: "fees.view",
+    getFeeRevenueBalance: "fees.view",
+    getLatestBalanceReconciliation: "wallet.view",
+    runBalanceReconciliation: "wallet.view",
+    suspendWallet: "wallet.suspend",
+    reactivateWallet: "wallet.suspend",
+    deleteWallet: "wallet.suspend",
+    depositTotalFees: "fees.deposit",
+    getPlatformStatistics: "stats.view",
+    getPendingWithdrawalPoolDetails: "fees.view",
+    getCashPayoutDetails: "fees.view",
+    deleteUser: "users.manage",
+  },
+  "auth": {
+    signUp: "public",
+    signIn: "public",
+    completeTwoFactorSignIn: "public",
+    startTwoFactorSetupSignIn: "public",
+    completeTwoFactorSetupSignIn: "public",
+    signOut: "public",
+    getSessionUser: "public",
+    requestPasswordReset: "public",
+    verifyPasswordResetToken: "public",
+    resetPassword: "public",
+    verifyEmail: "public",
+    resendVerificationEmail: "public",
+  },
+  "cloudinary": {
+    uploadImageToCloudinary: "user",
+    uploadImageFileToCloudinary: "user",
+  },
+  "contact": {
+    getUserContactInfo: "user",
+    submitContactMessage: "public",
+    getAllContactMessages: "messages.manage",
+    updateMessageStatus: "messages.manage",
+    deleteContactMessage: "messages.manage",
+  },
+  "dashboard": {
+    getDashboardStats: "user",
+  },
+  "events": {
+    createEvent: "user",
+    getEvents: "public",
+    getUserEvents: "user",
+    getEvent: "public",
+    getPendingEvents: "events.moderate",
+    approveEvent: "events.moderate",
+    rejectEvent: "events.moderate",
+    purchaseTicket: "user",
+    getUserEventTickets: "user",
+    getUserPurchasedTickets: "user",
+    deleteTicket: "user",
+    getUserEventTicketSales: "user",
+    depositTicketSales: "user",
+    stopSellingTickets: "user",
+    deleteEvent: "user",
+  },
+  "fee-schedules": {
+    getFeeSchedules: "fees.edit",
+    saveFeeSchedule: "fees.edit",
+  },
+  "invoices": {
+    getInvoiceByRef: "user",
+    payInvoiceByRef: "user",
+    createInvoice: "user",
+    deleteInvoice: "user",
+    getUserInvoices: "user",
+  },
+  "kyc": {
+    submitKycApplication: "user",
+    getKycStatus: "user",
+    getKycUserInfo: "user",
+  },
+  "limits": {
+    getMyWalletLimits: "user",
+    getLimitProfiles: "limits.manage",
+    saveLimitProfile: "limits.manage",
+    getWalletLimitSettings: "limits.manage",
+    setWalletLimitOverride: "limits.manage",
+    setWalletKycTier: "limits.manage",
+  },
+  "login-activity": {
+    getRecentSignIns: "user",
+  },
+  "notifications": {
+    getUserNotifications: "user",
+    getUnreadNotificationCount: "user",
+    markNotificationAsRead: "user",
+    markAllNotificationsAsRead: "user",
+  },
+  "payment-quotes": {
+    quotePayment: "user",
+  },
+  "posts": {
+    createPost: "news.publish",
+    getAllPosts: "public",
+    getPostById: "public",
+    likePost: "public",
+    addComment: "user",
+    getPostComments: "public",
+    getUserPosts: "user",
+    getAllPostsForAdmin: "news.moderate",
+    deletePost: ["news.publish", "news.moderate"],
+    replyToComment: "user",
+    getPostCommentsWithReplies: "public",
+  },
+  "redeem-batches": {
+    getRedeemBatches: "redeem.generate",
+    createRedeemBatch: "redeem.generate",
+    printRedeemBatch: "redeem.generate",
+    activateRedeemBatch: "redeem.generate",
+    assignRedeemBatch: "redeem.generate",
+    voidRedeemBatch: "redeem.generate",
+  },
+  "redeem-print": {
+    printRedeemCards: "redeem.generate",
+    getRedeemPrintRuns: "redeem.generate",
+  },
+  "refunds": {
+    requestRefund: "user",
+    getMyRefundRequests: "user",
+    respondToRefundRequest: "user",
+    cancelRefundRequest: "user",
+    getPendingRefundRequests: "refunds.approve",
+    decideRefundRequest: "refunds.approve",
+  },
+  "roles": {
+    getRoles: "users.manage",
+    createRole: "roles.manage",
+    updateRole: "roles.manage",
+    deleteRole: "roles.manage",
+  },
+  "sessions": {
+    getMySessions: "user",
+    revokeMySession: "user",
+    revokeOtherSessions: "user",
+  },
+  "system-settings": {
+    getSystemSettings: "public",
+    updateSystemSettings: ["fees.edit", "settings.edit"],
+  },
+  "transaction-pin": {
+    getTransactionPinStatus: "user",
+    setTransactionPin: "user",
+    resetTransactionPin: "user",
+    forgetTrustedDevices: "user",
+  },
+  "two-factor": {
+    getTwoFactorStatus: "user",
+    startTwoFactorEnrollment: "user",
+    confirmTwoFactorEnrollment: "user",
+    disableTwoFactor: "user",
+    regenerateRecoveryCodes: "user",
+    resetUserTwoFactor: "users.manage",
+  },
+  "user-messages": {
+    sendMessageToUser: "messages.manage",
+    userHasMessages: "user",
+    getUserMessages: "user",
+    getAllUserMessages: "messages.manage",
+    markMessageAsRead: "user",
+    deleteMessageByUser: "user",
+    deleteMessageByAdmin: "messages.manage",
+  },
+  "wallet": {
+    sendMoney: "user",
+    previewRedeemCode: "user",
+    redeemCode: "user",
+    getMyRedemptions: "user",
+    requestCash: "user",
+    getMyCashWithdrawals: "user",
+    cancelCashWithdrawal: "user",
+    getBalance: "user",
+    getTransactions: "user",
+    findUserByEmail: "users.manage",
+    getPendingWithdrawalByRef: "cash.payout",
+    processCashPayout: "cash.payout",
+    getRecipientInfoByWalletId: "user",
+    getAllWallets: "wallet.view",
+    getAllPendingWithdrawals: "cash.payout",
+    hideTransaction: "user",
+    getWalletTransactions: "wallet.view",
+  },
+};
+
+const ACTION_MODULES: Record<string, Record<string, unknown>> = {
+  "admin": adminActions,
+  "auth": authActions,
+  "cloudinary": cloudinaryActions,
+  "contact": contactActions,
+  "dashboard": dashboardActions,
+  "events": eventsActions,
+  "fee-schedules": feeSchedulesActions,
+  "invoices": invoicesActions,
+  "kyc": kycActions,
+  "limits": limitsActions,
+  "login-activity": loginActivityActions,
+  "notifications": notificationsActions,
+  "payment-quotes": paymentQuotesActions,
+  "posts": postsActions,
+  "redeem-batches": redeemBatchesActions,
+  "redeem-print": redeemPrintActions,
+  "refunds": refundsActions,
+  "roles": rolesActions,
+  "sessions": sessionsActions,
+  "system-settings": systemSettingsActions,
+  "transaction-pin": transactionPinActions,
+  "two-factor": twoFactorActions,
+  "user-messages": userMessagesActions,
+  "wallet": walletActions,
+};
+
+// The built-in roles holding each permission (admin holds all of them)
+const ROLES_WITH_PERMISSION: Record<Permission, BuiltInRole[]> = {
+  "users.manage": ["admin"],
+  "roles.manage": ["admin"],
+  "stats.view": ["admin"],
+  "wallet.view": ["admin"],
+  "wallet.create": ["admin"],
+  "wallet.suspend": ["admin"],
+  "kyc.review": ["employee", "admin"],
+  "limits.manage": ["admin"],
+  "fees.view": ["admin"],
+  "fees.edit": ["admin"],
+  "fees.deposit": ["admin"],
+  "redeem.generate": ["admin"],
+  "cash.payout": ["finance", "admin"],
+  "refunds.approve": ["admin"],
+  "events.moderate": ["admin"],
+  "news.publish": ["employee", "journalist", "admin"],
+  "news.moderate": ["admin"],
+  "messages.manage": ["admin"],
+  "settings.edit": ["admin"],
+};
+
+const TWO_FACTOR_REQUIRED_ROLES: BuiltInRole[] = ["admin", "finance"];
+
+const ROLES = Object.keys(DEFAULT_ROLES) as BuiltInRole[];
+
+const toExpectedPolicy = (policy: AccessPolicy | undefined): ExpectedPolicy | AccessPolicy => {
+  if (!policy) return "public";
+  if (policy.kind === "user") return "user";
+  if (policy.kind === "permission") return policy.permission;
+  if (policy.kind === "anyPermission") return policy.permissions;
+  return policy;
+};
+
+// A stand-in action behind the same guard, so a call shows whether the guard let it through
+const guardProbe = (policy: AccessPolicy, probe: () => Promise<{ success: true }>) => {
+  switch (policy.kind) {
+    case "user":
+      return requireUser(probe);
+    case "role":
+      return requireRole(policy.roles, probe);
+    case "permission":
+      return requirePermission(policy.permission, probe);
+    case "anyPermission":
+      return requireAnyPermission(policy.permissions, probe);
+  }
+};
+
+const signInAs = (role: BuiltInRole | null, twoFactorEnabled = false) => {
+  const user: UserModel | null = role
+    ? {
+        _id: new ObjectId(),
+        email: `${role}@example.com`,
+        role,
+        twoFactor: { enabled: twoFactorEnabled },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as UserModel
+    : null;
+  vi.mocked(getCurrentUser).mockResolvedValue(user);
+};
+
+const isAllowed = (expected: Exclude<ExpectedPolicy, "public">, role: BuiltInRole, twoFactorEnabled: boolean): boolean => {
+  if (expected === "user") return true;
+  if (TWO_FACTOR_REQUIRED_ROLES.includes(role) && !twoFactorEnabled) return false;
+  const permissions = Array.isArray(expected) ? expected : [expected];
+  return permissions.some((permission) => ROLES_WITH_PERMISSION[permission].includes(role));
+};
+
+const guardedActions = Object.entries(ACTION_POLICIES).flatMap(([moduleName, actions]) =>
+  Object.entries(actions)
+    .filter(([, expected]) => expected !== "public")
+    .map(([actionName, expected]) => ({
+      name: `${moduleName}.${actionName}`,
+      action: ACTION_MODULES[moduleName][actionName] as (...args: unknown[]) => Promise<unknown>,
+      expected: expected as Exclude<ExpectedPolicy, "public">,
+    }))
+);
+
+describe("server action guards", () => {
+  it.each(Object.keys(ACTION_MODULES))("%s declares the guards in the table", (moduleName) => {
+    const declared = Object.fromEntries(
+      Object.entries(ACTION_MODULES[moduleName])
+        .filter(([, value]) => typeof value === "function")
+        .map(([actionName, action]) => [actionName, toExpectedPolicy(getActionPolicy(action))])
+    );
+    expect(declared).toEqual(ACTION_POLICIES[moduleName]);
+  });
+
+  it("lists every permission in the role matrix", () => {
+    for (const role of ROLES) {
+      const granted = Object.entries(ROLES_WITH_PERMISSION)
+        .filter(([, roles]) => roles.includes(role))
+        .map(([permission]) => permission);
+      expect([...DEFAULT_ROLES[role].permissions].sort()).toEqual(granted.sort());
+    }
+  });
+});
+
+describe.each(guardedActions)("$name", ({ action, expected }) => {
+  const policy = getActionPolicy(action)!;
+
+  beforeEach(() => {
+    vi.mocked(getCollection).mockClear();
+    vi.mocked(withTransaction).mockClear();
+  });
+
+  afterEach(() => {
+    vi.mocked(getCurrentUser).mockReset();
+  });
+
+  it("is denied when signed out", async () => {
+    signInAs(null);
+    const probe = vi.fn(async () => ({ success: true as const }));
+    const result = await guardProbe(policy, probe)();
+    expect(probe).not.toHaveBeenCalled();
+    expect(isForbidden(result) && result.reason).toBe("unauthenticated");
+  });
+
+  describe.each(ROLES)("as %s", (role) => {
+    const twoFactorStates = TWO_FACTOR_REQUIRED_ROLES.includes(role) ? [true, false] : [false];
+
+    it.each(twoFactorStates)("with 2FA enabled: %s", async (twoFactorEnabled) => {
+      signInAs(role, twoFactorEnabled);
+      const allowed = isAllowed(expected, role, twoFactorEnabled);
+
+      const probe = vi.fn(async () => ({ success: true as const }));
+      const result = await guardProbe(policy, probe)();
+      expect(probe).toHaveBeenCalledTimes(allowed ? 1 : 0);
+      expect(isForbidden(result)).toBe(!allowed);
+
+      if (!allowed) {
+        // The real action must stop at its guard too
+        const actionResult = await action();
+        expect(isForbidden(actionResult) || (Array.isArray(actionResult) && actionResult.length === 0)).toBe(true);
+        expect(getCollection).not.toHaveBeenCalled();
+        expect(withTransaction).not.toHaveBeenCalled();
+      }
+    });
+  });
+});
+
+describe("system-settings.updateSystemSettings", () => {
+  beforeEach(() => {
+    vi.mocked(getCollection).mockClear();
+  });
+
+  afterEach(() => {
+    vi.mocked(getCurrentUser).mockReset();
+  });
+
+  it("refuses a call that changes nothing, without writing the settings", async () => {
+    signInAs("admin", true);
+    const result = await systemSettingsActions.updateSystemSettings({});
+    expect(result).toEqual({ success: false, error: "No settings to update" });
+    expect(getCollection).not.toHaveBeenCalled();
+  });
+});
+
+// A custom role an admin could hand users.manage to
+const SUPPORT_ROLE = "support";
+const SUPPORT_PERMISSIONS: Permission[] = ["users.manage"];
+
+describe.each([
+  {
+    name: "admin.deleteUser",
+    action: adminActions.deleteUser,
+    refusal: "You can't delete a user with permissions you don't have",
+    selfRefusal: "You cannot delete your own account",
+  },
+  {
+    name: "two-factor.resetUserTwoFactor",
+    action: twoFactorActions.resetUserTwoFactor,
+    refusal: "You can't reset two-factor authentication for a user with permissions you don't have",
+    selfRefusal: "You can't reset your own two-factor authentication here",
+  },
+])("$name on another account", ({ action, refusal, selfRefusal }) => {
+  const defaultRolePermissions = vi.mocked(getRolePermissions).getMockImplementation()!;
+  const usersCollection = { findOne: vi.fn(), updateOne: vi.fn(), deleteOne: vi.fn() };
+
+  const signInAsSupport = () => {
+    const user = {
+      _id: new ObjectId(),
+      email: "support@example.com",
+      role: SUPPORT_ROLE,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as UserModel;
+    vi.mocked(getCurrentUser).mockResolvedValue(user);
+    return user;
+  };
+
+  const withTarget = (role: BuiltInRole) => {
+    const target = {
+      _id: new ObjectId(),
+      email: `${role}-target@example.com`,
+      role,
+      twoFactor: { enabled: true },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as UserModel;
+    usersCollection.findOne.mockResolvedValueOnce(target);
+    vi.mocked(getCollection).mockResolvedValueOnce(usersCollection as never);
+    return target._id!.toString();
+  };
+
+  beforeEach(() => {
+    vi.mocked(getCollection).mockClear();
+    vi.mocked(getRolePermissions).mockImplementation(async (role) =>
+      role === SUPPORT_ROLE ? SUPPORT_PERMISSIONS : defaultRolePermissions(role)
+    );
+  });
+
+  afterEach(() => {
+    vi.mocked(getCurrentUser).mockReset();
+    vi.mocked(getRolePermissions).mockImplementation(defaultRolePermissions);
+    usersCollection.findOne.mockReset();
+    usersCollection.updateOne.mockReset();
+    usersCollection.deleteOne.mockReset();
+  });
+
+  it("refuses the caller's own account", async () => {
+    const user = signInAsSupport();
+    const result = await action(user._id!.toString());
+    expect(result).toMatchObject({ success: false, error: selfRefusal });
+    expect(getCollection).not.toHaveBeenCalled();
+  });
+
+  it.each(["admin", "finance", "employee"] as BuiltInRole[])(
+    "is refused for a delegated users.manage on a %s",
+    async (targetRole) => {
+      signInAsSupport();
+      const result = await action(withTarget(targetRole));
+      expect(result).toEqual({ success: false, error: refusal });
+      expect(usersCollection.updateOne).not.toHaveBeenCalled();
+      expect(usersCollection.deleteOne).not.toHaveBeenCalled();
+    }
+  );
+
+  it("gets past the check for a delegated users.manage on a plain user", async () => {
+    signInAsSupport();
+    const result = await action(withTarget("user"));
+    expect(result).not.toEqual({ success: false, error: refusal });
+  });
+
+  it("gets past the check for an admin on another admin", async () => {
+    signInAs("admin", true);
+    const result = await action(withTarget("admin"));
+    expect(result).not.toEqual({ success: false, error: refusal });
+  });
+});
+
+describe("two-factor.resetUserTwoFactor", () => {
+  afterEach(() => {
+    vi.mocked(getCurrentUser).mockReset();
+  });
+
+  it("ends every session of the user whose 2FA was reset", async () => {
+    signInAs("admin", true);
+    const targetId = new ObjectId();
+    const usersCollection = {
+      findOne: vi.fn(async () => ({ _id: targetId, email: "target@example.com", role: "user", twoFactor: { enabled: true } })),
+      updateOne: vi.fn(),
+    };
+    const sessionsCollection = { updateMany: vi.fn(async () => ({ modifiedCount: 2 })) };
+    vi.mocked(getCollection)
+      .mockResolvedValueOnce(usersCollection as never)
+      .mockResolvedValueOnce(sessionsCollection as never);
+
+    await twoFactorActions.resetUserTwoFactor(targetId.toString());
+
+    expect(usersCollection.updateOne).toHaveBeenCalled();
+    expect(sessionsCollection.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: targetId }),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,170 @@
+// Declarative authorization guards for server actions
+//
+// Server actions are wrapped with requireUser / requireRole / requirePermission
+// instead of re-checking roles by hand in every function body. The wrapper
+// resolves the caller from the session (see lib/session.ts), resolves the
+// permissions granted by their role (see lib/roles.ts), checks the policy and
+// only then runs the action, passing the signed-in user as the first argument.
+// Unauthorized calls never reach the action and get a typed ForbiddenResult back.
+// Role and permission guards also refuse roles that require 2FA (see
+// lib/two-factor.ts) until the caller has enabled it.
+//
+// Example:
+//   export const depositTotalFees = requirePermission("fees.deposit", async (admin) => { ... });
+
+import type { ObjectId } from "mongodb";
+import type { UserModel } from "./db/models";
+import { getCurrentUser } from "./session";
+import { getRolePermissions } from "./roles";
+import { isTwoFactorRequiredForRole } from "./two-factor";
+import type { Permission, Role } from "./rbac";
+
+export type { Permission } from "./rbac";
+
+export interface ForbiddenResult {
+  success: false;
+  error: string;
+  forbidden: true;
+  reason: "unauthenticated" | "forbidden";
+}
+
+// The signed-in user handed to a guarded action (always has an _id), together
+// with the permissions their role grants for finer checks inside the action
+export type AuthorizedUser = UserModel & { _id: ObjectId; permissions: Permission[] };
+
+// ForbiddenResult widened with the action's own result keys (all undefined) so
+// callers can keep reading e.g. `result.message` without narrowing first
+export type Guarded<R> =
+  | R
+  | (ForbiddenResult & { [K in Exclude<R extends unknown ? keyof R : never, keyof ForbiddenResult>]?: undefined });
+
+type Action<Args extends unknown[], R> = (user: AuthorizedUser, ...args: Args) => Promise<R>;
+
+export type AccessPolicy =
+  | { kind: "user" }
+  | { kind: "role"; roles: Role[] }
+  | { kind: "permission"; permission: Permission }
+  | { kind: "anyPermission"; permissions: Permission[] };
+
+/**
+ * Check whether a role and the permissions it grants satisfy an access policy
+ * Pure function so the action × role matrix can be checked without a database
+ */
+export function isAuthorized(role: Role, permissions: readonly Permission[], policy: AccessPolicy): boolean {
+  switch (policy.kind) {
+    case "user":
+      return true;
+    case "role":
+      return policy.roles.includes(role);
+    case "permission":
+      return permissions.includes(policy.permission);
+    case "anyPermission":
+      return policy.permissions.some((permission) => permissions.includes(permission));
+  }
+}
+
+export function isForbidden(result: unknown): result is ForbiddenResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as ForbiddenResult).forbidden === true
+  );
+}
+
+function forbidden(reason: ForbiddenResult["reason"], error: string): ForbiddenResult {
+  return { success: false, error, forbidden: true, reason };
+}
+
+// Read actions that return a plain list pass `denied` to keep returning one
+// (usually empty) instead of a ForbiddenResult, matching their error behaviour
+type Denied<R> = (result: ForbiddenResult) => R;
+
+// Policy of every guarded action, so the action × role matrix can be tested
+// against the guards the actions actually declare
+const actionPolicies = new WeakMap<object, AccessPolicy>();
+
+/**
+ * Access policy a server action was wrapped with, or undefined for unguarded functions
+ */
+export function getActionPolicy(action: unknown): AccessPolicy | undefined {
+  return typeof action === "function" ? actionPolicies.get(action) : undefined;
+}
+
+function withPolicy<Args extends unknown[], R>(
+  policy: AccessPolicy,
+  action: Action<Args, R>,
+  denied?: Denied<R>
+) {
+  const guarded = async (...args: Args): Promise<Guarded<R>> => {
+    const user = await getCurrentUser();
+
+    let result: ForbiddenResult | null = null;
+    let permissions: Permission[] = [];
+    if (!user?._id) {
+      result = forbidden("unauthenticated", "You must be signed in to do this");
+    } else {
+      permissions = await getRolePermissions(user.role);
+      if (!isAuthorized(user.role, permissions, policy)) {
+        result = forbidden("forbidden", "You don't have permission to do this");
+      } else if (
+        policy.kind !== "user" &&
+        !user.twoFactor?.enabled &&
+        (await isTwoFactorRequiredForRole(user.role))
+      ) {
+        // Sessions from before 2FA became mandatory for the role (or before a
+        // role change) keep working for everyday actions but not privileged ones
+        result = forbidden(
+          "forbidden",
+          "Your role requires two-factor authentication. Turn it on in Settings → Security first."
+        );
+      }
+    }
+
+    if (result) {
+      return denied ? denied(result) : (result as Guarded<R>);
+    }
+
+    return action({ ...user, permissions } as AuthorizedUser, ...args);
+  };
+  actionPolicies.set(guarded, policy);
+  return guarded;
+}
+
+/**
+ * Wrap a server action so it only runs for a signed-in user
+ */
+export function requireUser<Args extends unknown[], R>(action: Action<Args, R>): (...args: Args) => Promise<Guarded<R>>;
+export function requireUser<Args extends unknown[], R>(action: Action<Args, R>, denied: Denied<R>): (...args: Args) => Promise<R>;
+export function requireUser<Args extends unknown[], R>(action: Action<Args, R>, denied?: Denied<R>) {
+  return withPolicy({ kind: "user" }, action, denied);
+}
+
+/**
+ * Wrap a server action so it only runs for users with one of the given roles
+ */
+export function requireRole<Args extends unknown[], R>(roles: Role | Role[], action: Action<Args, R>): (...args: Args) => Promise<Guarded<R>>;
+export function requireRole<Args extends unknown[], R>(roles: Role | Role[], action: Action<Args, R>, denied: Denied<R>): (...args: Args) => Promise<R>;
+export function requireRole<Args extends unknown[], R>(roles: Role | Role[], action: Action<Args, R>, denied?: Denied<R>) {
+  return withPolicy({ kind: "role", roles: Array.isArray(roles) ? roles : [roles] }, action, denied);
+}
+
+/**
+ * Wrap a server action so it only runs for users whose role grants the permission
+ */
+export function requirePermission<Args extends unknown[], R>(permission: Permission, action: Action<Args, R>): (...args: Args) => Promise<Guarded<R>>;
+export function requirePermission<Args extends unknown[], R>(permission: Permission, action: Action<Args, R>, denied: Denied<R>): (...args: Args) => Promise<R>;
+export function requirePermission<Args extends unknown[], R>(permission: Permission, action: Action<Args, R>, denied?: Denied<R>) {
+  return withPolicy({ kind: "permission", permission }, action, denied);
+}
+
+/**
+ * Wrap a server action so it only runs for users whose role grants at least one
+ * of the permissions
+ * For actions that check which of them the caller holds themselves (e.g. system
+ * settings, where fees and everything else are edited under different permissions)
+ */
+export function requireAnyPermission<Args extends unknown[], R>(permissions: Permission[], action: Action<Args, R>): (...args: Args) => Promise<Guarded<R>>;
+export function requireAnyPermission<Args extends unknown[], R>(permissions: Permission[], action: Action<Args, R>, denied: Denied<R>): (...args: Args) => Promise<R>;
+export function requireAnyPermission<Args extends unknown[], R>(permissions: Permission[], action: Action<Args, R>, denied?: Denied<R>) {
+  return withPolicy({ kind: "anyPermission", permissions }, action, denied);
+}
@@ -0,0 +1,140 @@
+// Expiry and cancellation of cash withdrawals
+//
+// requestCash moves the amount from the wallet into the cash payout pool and gives
+// the request 24 hours to be paid out at the counter. A request that isn't paid out
+// in time is expired and refunded in full: the pool entry is marked "expired", the
+// amount goes back to the wallet, the user's cash_payout transaction is marked
+// "failed" and the user is notified. Cancelling a request early does the same with
+// the status "cancelled". A request paid out at the counter (processCashPayout) is
+// marked "processed", so every request stays in the user's history.
+//
+// expireCashWithdrawals() sweeps every overdue request. It runs whenever the pool
+// or a user's requests are looked at, and scripts/expire-cash-withdrawals.ts runs
+// it from a scheduler so nothing waits for a page view.
+
+import type { ObjectId } from "mongodb";
+import { getCollection, withTransaction } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { PendingWithdrawalModel, TransactionModel } from "./db/models";
+import { postJournalEntry, debit, credit, walletAccount, CASH_PAYOUT_POOL_ACCOUNT } from "./ledger";
+import { releaseOutgoingLimits } from "./limits";
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
+      await pendingWithdrawalsCollection.createIndex({ status: 1, expiresAt: 1 });
+      await pendingWithdrawalsCollection.createIndex({ userId: 1, createdAt: -1 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+/**
+ * Close a pending withdrawal and return the full amount to the wallet
+ * Only one caller can close a request: the status update is conditional on it still
+ * being pending, so a payout and an expiry (or two expiries) racing for the same
+ * request can't both go through. Returns false when it was already closed.
+ */
+export const refundCashWithdrawal = async (
+  withdrawal: PendingWithdrawalModel,
+  outcome: "expired" | "cancelled",
+  closedBy?: ObjectId
+): Promise<boolean> => {
+  if (!withdrawal._id) {
+    return false;
+  }
+  const withdrawalId = withdrawal._id;
+
+  const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
+  const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+  const { createNotification } = await import("./notifications");
+
+  return withTransaction(async (session) => {
+    const now = new Date();
+    const closed = await pendingWithdrawalsCollection.updateOne(
+      { _id: withdrawalId, status: "pending" },
+      { $set: { status: outcome, processedAt: now, ...(closedBy ? { processedBy: closedBy } : {}) } },
+      { session }
+    );
+    if (closed.modifiedCount === 0) {
+      return false;
+    }
+
+    // Return the full amount (no fee is charged on a withdrawal that wasn't paid out)
+    await postJournalEntry(session, {
+      kind: "cash_refund",
+      ref: withdrawal.ref,
+      postings: [
+        debit(CASH_PAYOUT_POOL_ACCOUNT, withdrawal.amount),
+        credit(walletAccount(withdrawal.walletId), withdrawal.amount),
+      ],
+      createdBy: closedBy,
+      note: outcome === "expired" ? "Cash withdrawal expired" : "Cash withdrawal cancelled",
+    });
+
+    const transaction = await transactionsCollection.findOneAndUpdate(
+      { ref: withdrawal.ref, userId: withdrawal.userId, type: "cash_payout", status: "pending" },
+      { $set: { status: "failed" } },
+      { session }
+    );
+
+    // A refunded request no longer counts towards the wallet's daily and monthly limits
+    await releaseOutgoingLimits(session, withdrawal.walletId, withdrawal.amount, withdrawal.createdAt);
+
+    const amount = (withdrawal.amount / 100).toFixed(2);
+    await createNotification({
+      userId: withdrawal.userId.toString(),
+      type: "transaction",
+      title: outcome === "expired" ? "Cash Withdrawal Expired" : "Cash Withdrawal Cancelled",
+      message:
+        outcome === "expired"
+          ? `Your cash withdrawal ${withdrawal.ref} wasn't collected within 24 hours. ${amount} has been returned to your wallet.`
+          : `You cancelled cash withdrawal ${withdrawal.ref}. ${amount} has been returned to your wallet.`,
+      link: "/wallet",
+      meta: {
+        transactionId: transaction?._id?.toString(),
+      },
+    }, { session });
+
+    return true;
+  });
+};
+
+/**
+ * Expire and refund every pending withdrawal past its expiry time
+ * Pass a userId to only sweep that user's requests.
+ *
+ * @returns Number of withdrawals refunded
+ */
+export const expireCashWithdrawals = async (options: { userId?: ObjectId } = {}): Promise<number> => {
+  await ensureIndexes();
+
+  const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
+  const overdue = await pendingWithdrawalsCollection
+    .find({
+      status: "pending",
+      expiresAt: { $lte: new Date() },
+      ...(options.userId ? { userId: options.userId } : {}),
+    })
+    .toArray();
+
+  let refunded = 0;
+  for (const withdrawal of overdue) {
+    try {
+      if (await refundCashWithdrawal(withdrawal, "expired")) {
+        refunded += 1;
+      }
+    } catch (error) {
+      // Leave it pending; the next sweep retries it
+      console.error(`Error expiring cash withdrawal ${withdrawal.ref}:`, error);
+    }
+  }
+  return refunded;
+};
@@ -1,4 +1,4 @@
-import { MongoClient, Db, MongoClientOptions, Document, Collection } from "mongodb";
+import { MongoClient, Db, MongoClientOptions, Document, Collection, ClientSession } from "mongodb";
 
 // Lazy initialization function to get MongoDB URI
 const getMongoUri = (): string => {
@@ -92,3 +92,19 @@ export const getCollection = async <T extends Document = Document>(collectionNam
   return db.collection<T>(collectionName);
 };
 
+
+// Run a unit of work as one multi-document transaction
+// Every read and write inside `work` must pass `{ session }`, otherwise it runs outside
+// the transaction. If `work` throws, all of its writes are rolled back together; the
+// driver may call `work` again on transient errors, so it must not have side effects
+// outside the database. Transactions need a replica set (MongoDB Atlas, or a local
+// mongod started with --replSet).
+export const withTransaction = async <T>(work: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const client = await getClientPromise();
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(() => work(session));
+  } finally {
+    await session.endSession();
+  }
+};
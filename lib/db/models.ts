@@ -1,5 +1,5 @@
 import { ObjectId } from "mongodb";
-import { Role } from "../rbac";
+import { Role, Permission } from "../rbac";
 
 // User Model
 export interface UserModel {
@@ -7,26 +7,67 @@ export interface UserModel {
   email: string;
   password: string; // Should be hashed in production
   role: Role;
+  emailVerified?: boolean; // Set once the address is confirmed through /verify-email
+  emailVerifiedAt?: Date;
+  twoFactor?: UserTwoFactor; // TOTP two-factor authentication (see lib/two-factor.ts)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Two-factor authentication state stored on the user
+export interface UserTwoFactor {
+  enabled: boolean;
+  secret?: string; // Base32 TOTP secret (set once enrollment is confirmed)
+  pendingSecret?: string; // Secret shown during enrollment, until the first code is confirmed
+  recoveryCodeHashes: string[]; // SHA-256 hashes of the unused one-time recovery codes
+  lastUsedStep?: number; // TOTP time step of the last accepted code (blocks replays)
+  enabledAt?: Date;
+}
+
 // Wallet Model
 export interface WalletModel {
   _id?: ObjectId;
   userId: ObjectId;
-  walletId: string; // Format: 3 letters + 3 digits (e.g., VXE445, HUY444, ASF789)
+  walletId: string; // 8 characters ending in a check character (e.g., 7K3M9QX1), or legacy 3 letters + 3 digits (e.g., VXE445); see lib/wallet-id-format.ts
   balance: number; // Stored in cents
   status: "active" | "suspended" | "terminated";
+  pinHash?: string; // Transaction PIN hashed like a password (see lib/transaction-pin.ts)
+  pinFailedAttempts?: number; // Wrong PIN entries since the last correct one
+  pinLockedUntil?: Date; // Money can't leave the wallet until then after too many wrong PINs
+  pinUpdatedAt?: Date;
+  trustedDevices?: WalletTrustedDevice[]; // Devices that may skip the PIN below the threshold
+  redeemFailedAttempts?: number; // Failed redeem code attempts since the last successful one
+  redeemLockedUntil?: Date; // Codes can't be redeemed into the wallet until then (see lib/redeem-codes.ts)
+  limitOverride?: WalletLimitsModel; // Replaces the limit profile of the holder's KYC tier (see lib/limits.ts)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A browser the wallet owner chose to trust after entering their PIN
+export interface WalletTrustedDevice {
+  tokenHash: string; // SHA-256 hash of the token in the trusted-device cookie
+  userAgent?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// Wallet Limits
+// Every cap is in cents and optional: a cap that isn't set doesn't apply
+export interface WalletLimitsModel {
+  perTransactionCents?: number; // Largest single send, invoice payment or cash request
+  dailyCents?: number; // Outgoing volume since the start of the day
+  monthlyCents?: number; // Outgoing volume since the start of the month
+  maxBalanceCents?: number; // Money received can't take the balance above this
+}
+
 // Transaction Model
+// Rows are never edited or deleted once written, apart from settling a pending
+// status; mistakes are undone with compensating "reversal" rows (see
+// lib/refunds.ts) and users can only hide rows from their own history.
 export interface TransactionModel {
   _id?: ObjectId;
   userId?: ObjectId;
-  type: "send" | "receive" | "fee" | "deposit" | "ticket_payout" | "invoice_payment" | "cash_payout" | "redeem";
+  type: "send" | "receive" | "fee" | "deposit" | "ticket_payout" | "invoice_payment" | "cash_payout" | "redeem" | "reversal";
   amount: number; // Amount in cents
   feeCents?: number; // Fee amount in cents
   fromWalletId?: string; // Sender's wallet ID
@@ -40,7 +81,10 @@ export interface TransactionModel {
     eventId?: ObjectId;
     invoiceId?: ObjectId;
     redeemId?: ObjectId;
+    reversalOf?: ObjectId; // Transaction a "reversal" row compensates
+    refundRequestId?: ObjectId; // Refund request that led to the reversal
   };
+  hiddenAt?: Date; // Set when the owner hides the row from their own history
   createdAt: Date;
 }
 
@@ -61,9 +105,22 @@ export interface InvoiceModel {
 // Redeem Code Model
 export interface RedeemCodeModel {
   _id?: ObjectId;
-  code: string; // Format: ####-####-####-#### (e.g., 7646-6789-7865-5000)
-  pin: string; // 4-digit PIN (e.g., 8966)
+  codeHash: string; // Keyed lookup hash of the 16 code digits (see lib/redeem-codes.ts)
+  codeLast4: string; // Last four digits, for telling codes apart in the admin list
+  pinHash: string; // Keyed hash of the 4-digit PIN, bound to the code
+  code?: string; // Plaintext code of codes created before hashing; removed by scripts/hash-redeem-codes.ts
+  pin?: string; // Plaintext PIN of codes created before hashing; removed by scripts/hash-redeem-codes.ts
   amount: number; // Amount in cents
+  failedAttempts?: number; // Wrong PINs entered for this code
+  lockedUntil?: Date; // Set after too many wrong PINs; the code can't be redeemed until then
+  batchId?: ObjectId; // Batch the code was issued in; only redeemable once the batch is activated
+  serial?: number; // Serial number printed on the card (batch codes only)
+  voided?: boolean; // Cancelled before use; can't be redeemed and no longer counts as owed
+  voidedAt?: Date;
+  voidedBy?: ObjectId;
+  printCount?: number; // Times the code was issued for printing (see lib/redeem-print.ts)
+  lastPrintedAt?: Date;
+  lastPrintRunId?: ObjectId;
   used: boolean;
   usedBy?: ObjectId;
   usedByWalletId?: string; // Wallet ID that used the code
@@ -77,13 +134,55 @@ export interface RedeemCodeModel {
 export interface RedeemCardModel {
   _id?: ObjectId;
   redeemCodeId: ObjectId; // Reference to the redeem code
-  cardNumber: string; // 16-digit card number (e.g., 1234567890123456)
+  cardNumber: string; // Masked redeem code (e.g., •••• •••• •••• 3456); the full code is only shown once, when generated
   amount: number; // Amount in cents (copied from redeem code)
   expiresAt?: Date; // Expiration date (copied from redeem code)
   createdAt: Date;
   createdBy: ObjectId; // Admin who generated the card
 }
 
+// Redeem Batch Model
+// A run of codes for physical scratch cards, moved through its lifecycle by an admin
+export interface RedeemBatchModel {
+  _id?: ObjectId;
+  label?: string;
+  serialStart: number; // First and last serial number of the batch's codes
+  serialEnd: number;
+  count: number;
+  amount: number; // Face value of each code in cents
+  expiresAt?: Date;
+  status: RedeemBatchStatus;
+  distributor?: string; // Distributor or agent the cards were handed to
+  createdBy: ObjectId;
+  createdAt: Date;
+  printedAt?: Date;
+  activatedAt?: Date;
+  assignedAt?: Date;
+  voidedAt?: Date;
+  updatedAt: Date;
+}
+
+// created → printed → activated (redeemable) → assigned; voided from any of them
+export type RedeemBatchStatus = "created" | "printed" | "activated" | "assigned" | "voided";
+
+// Redeem Print Run Model
+// One print file of redeem codes; printing re-keys the codes, so earlier prints stop working
+export interface RedeemPrintRunModel {
+  _id?: ObjectId;
+  format: "sheet" | "csv"; // PDF card sheet, or the batch CSV for a print shop
+  sheetSize?: RedeemSheetSize; // Sheet prints only
+  cardsPerSheet?: number;
+  sheets?: number;
+  cardIds: ObjectId[]; // Cards on the sheet (sheet prints only)
+  batchId?: ObjectId; // Batch prints only
+  redeemCodeIds: ObjectId[];
+  reprintedCodeIds: ObjectId[]; // Codes that had been printed before this run
+  createdBy: ObjectId;
+  createdAt: Date;
+}
+
+export type RedeemSheetSize = "a4" | "letter" | "sra3" | "12x18";
+
 // KYC Model
 export interface KycModel {
   _id?: ObjectId;
@@ -93,6 +192,7 @@ export interface KycModel {
   phone: string;
   address: string;
   status: "pending" | "approved" | "rejected";
+  tier?: KycTier; // Set on approval; applications approved before tiers existed count as "basic"
   documents: Array<{
     type: string;
     url: string;
@@ -104,6 +204,33 @@ export interface KycModel {
   rejectionReason?: string;
 }
 
+// KYC tier of an approved applicant; selects the limit profile of their wallet
+export type KycTier = "basic" | "standard" | "enhanced";
+
+// Limit Profile Model
+// The limits of every wallet whose holder has the tier, unless the wallet has its
+// own override. A tier without a profile has no limits (see lib/limits.ts)
+export interface LimitProfileModel {
+  _id?: ObjectId;
+  tier: KycTier;
+  limits: WalletLimitsModel;
+  updatedBy?: ObjectId;
+  updatedAt: Date;
+}
+
+// Limit Counter Model
+// Money that left a wallet in one day or month, counted as each payment is made so
+// the daily and monthly caps are enforced with one conditional update (see lib/limits.ts)
+export interface LimitCounterModel {
+  _id?: ObjectId;
+  walletId: string;
+  period: "day" | "month";
+  periodStart: Date;
+  usedCents: number;
+  updatedAt: Date;
+  expiresAt: Date; // Dropped once the period is over (TTL index)
+}
+
 // Fee Model
 export interface FeeModel {
   _id?: ObjectId;
@@ -112,11 +239,37 @@ export interface FeeModel {
   percentage?: number;
   userId?: ObjectId;
   transactionId?: ObjectId;
+  scheduleId?: ObjectId; // Fee schedule the fee was quoted from (see lib/fees.ts)
   deposited?: boolean; // Marks if fee has been deposited to admin wallet
   depositedAt?: Date; // Timestamp when fee was deposited
   createdAt: Date;
 }
 
+// Fee Schedule Model
+// Schedules are append-only: a change is saved as a new schedule with its own
+// effectiveFrom date, and the newest one already in effect applies (see lib/fees.ts)
+export type FeeKind = "p2p" | "ticket" | "invoice" | "withdrawal";
+
+export interface FeeBandModel {
+  upToCents?: number; // Band applies to amounts up to and including this; omitted on the last band
+  percentage: number; // Percent of the amount (0-100)
+  flatCents: number; // Flat fee added on top of the percentage
+  minFeeCents?: number; // Fee is never lower than this
+  maxFeeCents?: number; // Fee is never higher than this
+}
+
+export interface FeeScheduleModel {
+  _id?: ObjectId;
+  kind: FeeKind;
+  bands: FeeBandModel[]; // Ordered by upToCents; the first band that fits the amount applies
+  exemptRoles: string[]; // Payers with one of these roles pay no fee
+  exemptWalletIds: string[]; // Payers with one of these wallets pay no fee
+  effectiveFrom: Date;
+  note?: string;
+  createdBy?: ObjectId;
+  createdAt: Date;
+}
+
 // Pending Withdrawal Model
 export interface PendingWithdrawalModel {
   _id?: ObjectId;
@@ -129,13 +282,14 @@ export interface PendingWithdrawalModel {
   createdAt: Date;
   processedAt?: Date;
   processedBy?: ObjectId; // Finance user who processed it
-  feeCents?: number; // 5% system fee deducted from pool amount (in cents)
-  payoutAmountCents?: number; // Amount paid to user after 5% fee deduction (in cents)
+  feeCents?: number; // System fee deducted from pool amount (in cents)
+  payoutAmountCents?: number; // Amount paid to user after the fee deduction (in cents)
 }
 
 // System Settings Model
 export interface SystemSettingsModel {
   _id?: ObjectId;
+  // Legacy flat fees, only charged until the first fee schedule of the kind is saved
   p2pFeePercentage: number; // P2P transaction fee percentage (default: 5)
   ticketFeePercentage: number; // Ticket sales fee percentage (default: 10)
   invoiceFeePercentage: number; // Invoice payment fee percentage (default: 5)
@@ -147,6 +301,8 @@ export interface SystemSettingsModel {
   heroHeadline?: string; // Hero section headline text
   heroSubheadline?: string; // Hero section subheadline text
   heroBackgroundImageUrl?: string; // Hero section background image URL (Cloudinary)
+  twoFactorRequiredRoles?: string[]; // Roles that must use two-factor authentication (default: admin, finance)
+  pinAlwaysRequiredAboveCents?: number; // Payments above this amount (in cents) need the PIN even on a trusted device
   updatedAt: Date;
   updatedBy?: ObjectId; // Admin who last updated the settings
 }
@@ -179,8 +335,8 @@ export interface TicketModel {
   buyerUserId: ObjectId; // User who purchased the ticket
   qty: number; // Number of tickets purchased (legacy, kept for backward compatibility)
   totalPaidCents: number; // Total amount paid by buyer (in cents)
-  feeCents: number; // System fee deducted (10% of total, in cents)
-  netCents: number; // Net amount received by seller (90% of total, in cents)
+  feeCents: number; // Ticket fee deducted (in cents)
+  netCents: number; // Net amount received by seller (price minus the ticket fee, in cents)
   deposited?: boolean; // Whether the seller has deposited this revenue
   depositedAt?: Date; // Timestamp when revenue was deposited
   serialNumber?: string; // Unique serial number for this individual ticket
@@ -220,7 +376,7 @@ export interface CommentModel {
 export interface NotificationModel {
   _id?: ObjectId;
   userId: ObjectId; // User who receives the notification
-  type: "transaction" | "post" | "event_approval" | "message" | "contact_message";
+  type: "transaction" | "post" | "event_approval" | "message" | "contact_message" | "security";
   title: string; // Notification title
   message: string; // Notification message
   read: boolean; // Whether the notification has been read
@@ -277,6 +433,228 @@ export interface PasswordResetTokenModel {
   createdAt: Date;
 }
 
+// Email Verification Token Model (confirms a user owns their email address)
+export interface EmailVerificationTokenModel {
+  _id?: ObjectId;
+  userId: ObjectId; // User whose address is being verified
+  email: string; // Address the token was sent to (the token is void if the email changes)
+  token: string; // Unique verification token
+  expiresAt: Date; // Token expiration time (24 hours)
+  used: boolean; // Whether the token has been used
+  usedAt?: Date; // When the token was used
+  createdAt: Date;
+}
+
+// Session Model (server-side sessions backing the HTTP-only session cookie)
+export interface SessionModel {
+  _id?: ObjectId;
+  userId: ObjectId; // User the session belongs to
+  tokenHash: string; // SHA-256 hash of the session token (raw token only lives in the cookie)
+  userAgent?: string; // Browser/device that created the session
+  ipAddress?: string; // IP address that created the session
+  createdAt: Date;
+  lastSeenAt: Date; // Last time the session was used
+  expiresAt: Date; // Session expiration time (sliding, 7 days after last use)
+  revokedAt?: Date; // Set when the user signs out or the session is revoked
+}
+
+// Two-Factor Challenge Model (a sign-in waiting for its second step)
+export interface TwoFactorChallengeModel {
+  _id?: ObjectId;
+  userId: ObjectId; // User whose password has been verified
+  tokenHash: string; // SHA-256 hash of the challenge token handed to the browser
+  purpose: "verify" | "setup"; // Enter a code, or enroll first because the role requires 2FA
+  attempts: number; // Failed code attempts (the challenge is dropped after too many)
+  expiresAt: Date; // Challenges are short-lived (5 minutes)
+  createdAt: Date;
+}
+
+// Audit Log Model (security-relevant admin actions)
+export interface AuditLogModel {
+  _id?: ObjectId;
+  action: string; // What happened, e.g. "two_factor.reset"
+  actorUserId: ObjectId; // Admin who performed the action
+  targetUserId?: ObjectId; // User the action was performed on
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// Role Model (a named bundle of permissions, see lib/rbac.ts)
+export interface RoleModel {
+  _id?: ObjectId;
+  name: string; // Unique role name stored on UserModel.role (e.g. "finance", "kyc-reviewer")
+  label: string; // Display name shown in the admin dashboard
+  description?: string;
+  permissions: Permission[]; // Permissions granted to every user with this role
+  builtIn: boolean; // Seeded default roles can be edited but not deleted
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy?: ObjectId; // Admin who last changed the role
+}
+
+// Login Attempt Model (throttling counters for sign-in and password reset, see lib/login-throttle.ts)
+export interface LoginAttemptModel {
+  _id?: ObjectId;
+  key: string; // Scope plus email or IP, e.g. "sign_in:email:jane@example.com"
+  count: number; // Failed sign-ins (or reset requests) since the counter was last idle
+  lockedUntil?: Date; // Attempts are refused until this time
+  lastAttemptAt: Date;
+  expiresAt: Date; // Counter is forgotten after a quiet period (TTL index)
+}
+
+// Login Event Model (sign-in history shown to the user in Settings)
+export type LoginEventOutcome =
+  | "success"
+  | "invalid_password"
+  | "unknown_email"
+  | "throttled"
+  | "two_factor_required"
+  | "two_factor_failed";
+
+export interface LoginEventModel {
+  _id?: ObjectId;
+  userId?: ObjectId; // Set when the email belongs to an account
+  email: string; // Email as entered (lowercased)
+  outcome: LoginEventOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date; // Events are kept for 90 days (TTL index)
+}
+
+// Ledger account kinds. Every account is credit-normal (balance = credits - debits):
+// wallets and the system accounts hold money owed to someone, while external_cash is
+// the counter-account for money entering or leaving the platform, so its balance is
+// minus the cash the platform holds
+export type LedgerAccountType =
+  | "wallet" // A user's wallet (one account per walletId)
+  | "fee_revenue" // Fees charged but not yet deposited to the admin wallet
+  | "cash_payout_pool" // Cash withdrawals requested but not yet paid out or refunded
+  | "redeem_liability" // Face value of issued redeem codes not yet redeemed
+  | "ticket_sales_payable" // Ticket revenue held until the event creator deposits it
+  | "external_cash"; // Cash handed over the counter (redeem code sales, cash payouts)
+
+export type JournalEntryKind =
+  | "p2p_transfer"
+  | "invoice_payment"
+  | "ticket_purchase"
+  | "ticket_sales_deposit"
+  | "redeem_issue"
+  | "redeem_void"
+  | "redeem"
+  | "cash_request"
+  | "cash_payout"
+  | "cash_refund"
+  | "fee_deposit"
+  | "manual_credit"
+  | "wallet_closure"
+  | "opening_balance"
+  | "reversal";
+
+// Journal Posting (one side of a journal entry; exactly one of debit/credit is set)
+export interface JournalPostingModel {
+  account: string; // Account code, e.g. "wallet:STR456" or "fee_revenue"
+  accountType: LedgerAccountType;
+  walletId?: string; // Set for wallet accounts
+  debit: number; // Amount in cents (0 when this is a credit)
+  credit: number; // Amount in cents (0 when this is a debit)
+}
+
+// Journal Entry Model (double-entry ledger; debits always equal credits)
+export interface JournalEntryModel {
+  _id?: ObjectId;
+  kind: JournalEntryKind;
+  ref?: string; // Reference number of the user-facing transaction(s)
+  postings: JournalPostingModel[];
+  transactionIds?: ObjectId[]; // Transaction rows this entry backs
+  createdBy?: ObjectId; // User who initiated the movement
+  note?: string;
+  createdAt: Date;
+}
+
+// Ledger Account Model (cached balance of a system account; wallet balances are
+// cached on the wallet document itself)
+export interface LedgerAccountModel {
+  _id?: ObjectId;
+  code: string; // Same as JournalPostingModel.account
+  type: LedgerAccountType;
+  balance: number; // Credits minus debits, in cents
+  updatedAt: Date;
+}
+
+// Idempotency Key Model (outcome of a money-moving action, replayed on retries)
+export type IdempotentAction = "sendMoney" | "payInvoiceByRef" | "purchaseTicket" | "redeemCode";
+
+export interface IdempotencyKeyModel {
+  _id?: ObjectId;
+  userId: ObjectId; // Keys are scoped to the user who sent them
+  action: IdempotentAction;
+  key: string; // Generated by the client once per submission
+  argsHash: string; // SHA-256 of the request's arguments; a reused key must match it
+  status: "pending" | "completed"; // Pending while the first request is still running
+  result?: unknown; // The action's successful result, returned again on replay
+  createdAt: Date;
+  expiresAt: Date; // Keys are forgotten after 24 hours (TTL index)
+}
+
+// Refund Request Model (a sender asking for a P2P transfer to be reversed)
+export interface RefundRequestModel {
+  _id?: ObjectId;
+  ref: string; // Reference number of the original transfer
+  transactionId: ObjectId; // The sender's "send" row
+  senderUserId: ObjectId; // User who asked for the refund
+  senderWalletId: string;
+  recipientUserId: ObjectId; // Recipient, who can approve the refund
+  recipientWalletId: string;
+  amount: number; // Amount to return, in cents
+  feeCents: number; // Fee the sender paid on the transfer, in cents
+  reason: string;
+  status: "pending" | "approved" | "rejected" | "cancelled";
+  feeRefunded?: boolean; // Whether the approved reversal also returned the fee
+  decidedBy?: ObjectId; // Recipient or admin who approved or rejected it
+  decidedAt?: Date;
+  decisionNote?: string;
+  reversalRef?: string; // Reference number of the reversal rows
+  createdAt: Date;
+}
+
+// Balance drift found by a reconciliation run on one wallet
+export interface WalletDriftModel {
+  walletId: string;
+  userId: ObjectId;
+  status: WalletModel["status"];
+  storedCents: number; // WalletModel.balance
+  ledgerCents: number; // Sum of the wallet's journal postings
+  replayedCents: number; // Balance rebuilt from the wallet's transaction history
+  transactionCount: number;
+}
+
+// Platform-wide check: money held on the platform against money that came in
+export interface ReconciliationTotalsModel {
+  walletBalancesCents: number; // Stored wallet balances
+  pendingWithdrawalsCents: number; // Cash requests not yet paid out or refunded
+  undepositedFeesCents: number;
+  undepositedTicketRevenueCents: number;
+  unredeemedCodesCents: number;
+  heldCents: number; // Sum of the five figures above
+  issuedRedeemCents: number; // Redeem codes issued, minus voided ones
+  cashPaidOutCents: number; // Cash handed out by cash payouts
+  otherNetInflowCents: number; // Manual credits and opening balances, minus wallet closures
+  expectedCents: number; // issuedRedeemCents - cashPaidOutCents + otherNetInflowCents
+}
+
+// Reconciliation Run Model (see lib/reconciliation.ts)
+export interface ReconciliationRunModel {
+  _id?: ObjectId;
+  trigger: "admin" | "cli";
+  triggeredBy?: ObjectId; // Admin who started the run from /admin/wallets/reconciliation
+  walletCount: number;
+  drift: WalletDriftModel[]; // Only wallets whose balances disagree
+  totals: ReconciliationTotalsModel;
+  totalsMatch: boolean;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
 // Collection names constants
 export const COLLECTIONS = {
   USERS: "users",
@@ -286,6 +664,7 @@ export const COLLECTIONS = {
   REDEEM_CODES: "redeem_codes",
   KYC: "kyc",
   FEES: "fees",
+  FEE_SCHEDULES: "fee_schedules",
   PENDING_WITHDRAWALS: "pending_withdrawals",
   SYSTEM_SETTINGS: "system_settings",
   EVENTS: "events",
@@ -296,6 +675,22 @@ export const COLLECTIONS = {
   CONTACT_MESSAGES: "contact_messages",
   USER_MESSAGES: "user_messages",
   PASSWORD_RESET_TOKENS: "password_reset_tokens",
+  EMAIL_VERIFICATION_TOKENS: "email_verification_tokens",
   REDEEM_CARDS: "redeem_cards",
+  REDEEM_BATCHES: "redeem_batches",
+  REDEEM_PRINT_RUNS: "redeem_print_runs",
+  SESSIONS: "sessions",
+  ROLES: "roles",
+  TWO_FACTOR_CHALLENGES: "two_factor_challenges",
+  AUDIT_LOGS: "audit_logs",
+  LOGIN_ATTEMPTS: "login_attempts",
+  LOGIN_EVENTS: "login_events",
+  JOURNAL_ENTRIES: "journal_entries",
+  LEDGER_ACCOUNTS: "ledger_accounts",
+  IDEMPOTENCY_KEYS: "idempotency_keys",
+  RECONCILIATION_RUNS: "reconciliation_runs",
+  REFUND_REQUESTS: "refund_requests",
+  LIMIT_PROFILES: "limit_profiles",
+  LIMIT_COUNTERS: "limit_counters",
 } as const;
 
@@ -1,7 +1,9 @@
-import { ObjectId } from "mongodb";
+import { ObjectId, type ClientSession } from "mongodb";
 import { getCollection } from "../db";
 import { COLLECTIONS } from "./models";
 import type { UserModel, WalletModel } from "./models";
+import { ensureWalletIndexes, generateWalletId } from "../wallet-ids";
+import { normalizeWalletId } from "../wallet-id-format";
 
 // Helper function to validate if a string is a valid MongoDB ObjectId
 const isValidObjectId = (id: string): boolean => {
@@ -45,7 +47,8 @@ export const updateUser = async (id: string | ObjectId, updates: Partial<UserMod
 };
 
 // Wallet utilities
-export const getWalletByUserId = async (userId: string | ObjectId) => {
+// Pass `session` to read or write as part of a transaction (see withTransaction in lib/db.ts)
+export const getWalletByUserId = async (userId: string | ObjectId, session?: ClientSession) => {
   const collection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
   
   let userObjectId: ObjectId;
@@ -58,117 +61,38 @@ export const getWalletByUserId = async (userId: string | ObjectId) => {
     userObjectId = userId;
   }
   
-  return collection.findOne({ userId: userObjectId });
+  return collection.findOne({ userId: userObjectId }, { session });
 };
 
+// Accepts the ID as typed (see normalizeWalletId in lib/wallet-id-format.ts)
 export const getWalletByWalletId = async (walletId: string) => {
   const collection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
-  return collection.findOne({ walletId: walletId.toUpperCase() });
+  return collection.findOne({ walletId: normalizeWalletId(walletId) });
 };
 
-// Helper function to generate wallet ID (3 letters + 3 digits format, e.g., VXE445)
-const generateWalletId = (): string => {
-  // Generate 3 random uppercase letters
-  const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-  const randomLetters = Array.from({ length: 3 }, () => 
-    letters[Math.floor(Math.random() * letters.length)]
-  ).join("");
-  
-  // Generate 3 random digits
-  const randomDigits = Math.floor(Math.random() * 1000)
-    .toString()
-    .padStart(3, "0");
-  
-  return `${randomLetters}${randomDigits}`;
-};
-
-export const createWallet = async (userId: string | ObjectId, initialBalance: number = 0) => {
+// New wallets start empty; money only arrives through ledger postings (lib/ledger.ts)
+export const createWallet = async (userId: string | ObjectId, session?: ClientSession) => {
   const collection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
   const userObjectId = typeof userId === "string" ? new ObjectId(userId) : userId;
   const now = new Date();
   
-  // Generate unique wallet ID
-  let walletId = generateWalletId();
-  let existingWallet = await collection.findOne({ walletId });
-  
-  // Ensure uniqueness
-  while (existingWallet) {
-    walletId = generateWalletId();
-    existingWallet = await collection.findOne({ walletId });
+  // Checksummed ID that no wallet has yet; the unique index catches a race.
+  // The index isn't built from inside a transaction, where it would wait on the
+  // transaction's own locks (scripts/check-wallet-ids.ts builds it on deploy)
+  if (!session) {
+    await ensureWalletIndexes();
   }
+  const walletId = await generateWalletId(session);
   
   const newWallet: WalletModel = {
     userId: userObjectId,
     walletId: walletId,
-    balance: initialBalance,
+    balance: 0,
     status: "active",
     createdAt: now,
     updatedAt: now,
   };
-  const result = await collection.insertOne(newWallet);
+  const result = await collection.insertOne(newWallet, { session });
   return { ...newWallet, _id: result.insertedId };
 };
 
-export const updateWalletBalance = async (
-  userId: string | ObjectId,
-  amount: number,
-  operation: "add" | "subtract" | "set" = "set"
-) => {
-  const collection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
-  const userObjectId = typeof userId === "string" ? new ObjectId(userId) : userId;
-  
-  // For subtract operation, check if balance would go negative
-  if (operation === "subtract") {
-    const wallet = await collection.findOne({ userId: userObjectId });
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
-    
-    // Prevent negative balance
-    if (wallet.balance < amount) {
-      throw new Error(`Insufficient balance. Cannot subtract ${amount} from balance of ${wallet.balance}. Balance cannot go negative.`);
-    }
-  }
-  
-  // For set operation, ensure balance is not negative
-  if (operation === "set" && amount < 0) {
-    throw new Error("Balance cannot be set to a negative value");
-  }
-  
-  let updateQuery: any;
-  if (operation === "add") {
-    updateQuery = { $inc: { balance: amount } };
-  } else if (operation === "subtract") {
-    updateQuery = { $inc: { balance: -amount } };
-  } else {
-    updateQuery = { $set: { balance: amount } };
-  }
-  
-  updateQuery.$set = { ...updateQuery.$set, updatedAt: new Date() };
-  
-  const result = await collection.findOneAndUpdate(
-    { userId: userObjectId },
-    updateQuery,
-    { returnDocument: "after" }
-  );
-  
-  // Final safety check: ensure result balance is not negative
-  if (result && result.balance < 0) {
-    // Rollback: restore previous balance
-    const previousBalance = operation === "subtract" 
-      ? result.balance + amount 
-      : operation === "add" 
-        ? result.balance - amount 
-        : 0;
-    
-    await collection.updateOne(
-      { userId: userObjectId },
-      { $set: { balance: Math.max(0, previousBalance), updatedAt: new Date() } }
-    );
-    
-    throw new Error("Balance cannot go negative. Transaction prevented.");
-  }
-  
-  return result;
-};
-
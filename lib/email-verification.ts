@@ -0,0 +1,100 @@
+// Email address verification
+//
+// New accounts start with `emailVerified: false` and get a one-time link to
+// /verify-email (the token flow mirrors password reset tokens). Until the
+// address is confirmed the user can browse and sign in, but can't submit KYC
+// or be given a wallet, so password resets and wallet notices only ever go to
+// an address the user actually controls. Accounts created before verification
+// existed have no flag and are treated as unverified.
+
+import crypto from "crypto";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { EmailVerificationTokenModel, UserModel } from "./db/models";
+
+// Verification links stay valid for 24 hours
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const EMAIL_NOT_VERIFIED_ERROR =
+  "Please verify your email address first. Check your inbox for the verification link, or request a new one in Settings.";
+
+export const isEmailVerified = (user: Pick<UserModel, "emailVerified">): boolean => {
+  return user.emailVerified === true;
+};
+
+/**
+ * Create a verification token for the user's current address and email the link
+ * Any earlier unused links for the user stop working
+ */
+export const sendEmailVerification = async (user: UserModel): Promise<void> => {
+  if (!user._id) {
+    throw new Error("User ID not found");
+  }
+
+  const tokensCollection = await getCollection<EmailVerificationTokenModel>(
+    COLLECTIONS.EMAIL_VERIFICATION_TOKENS
+  );
+  await tokensCollection.updateMany({ userId: user._id, used: false }, { $set: { used: true } });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const now = new Date();
+  await tokensCollection.insertOne({
+    userId: user._id,
+    email: user.email,
+    token,
+    expiresAt: new Date(now.getTime() + VERIFICATION_TOKEN_TTL_MS),
+    used: false,
+    createdAt: now,
+  });
+
+  const verifyUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/verify-email?token=${token}`;
+
+  // Import email utility dynamically to avoid issues if email is not configured
+  try {
+    const { sendVerificationEmail } = await import("./utils/email");
+    await sendVerificationEmail(user.email, verifyUrl);
+  } catch (emailError) {
+    console.error("Error sending verification email:", emailError);
+    if (process.env.NODE_ENV === "development") {
+      console.log("Email verification URL (dev only):", verifyUrl);
+    }
+  }
+};
+
+/**
+ * Use a verification token and mark the user's address as verified
+ */
+export const consumeEmailVerificationToken = async (
+  token: string
+): Promise<{ success: boolean; message?: string }> => {
+  const tokensCollection = await getCollection<EmailVerificationTokenModel>(
+    COLLECTIONS.EMAIL_VERIFICATION_TOKENS
+  );
+
+  // Mark the token used in the same step as finding it so a link can't be used twice
+  const verificationToken = await tokensCollection.findOneAndUpdate(
+    { token: token.trim(), used: false },
+    { $set: { used: true, usedAt: new Date() } }
+  );
+
+  if (!verificationToken) {
+    return { success: false, message: "Invalid or already used verification link" };
+  }
+
+  if (new Date() > verificationToken.expiresAt) {
+    return { success: false, message: "Verification link has expired. Please request a new one." };
+  }
+
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  const result = await usersCollection.updateOne(
+    // The link only confirms the address it was sent to
+    { _id: verificationToken.userId, email: verificationToken.email },
+    { $set: { emailVerified: true, emailVerifiedAt: new Date(), updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    return { success: false, message: "This verification link no longer matches your account's email address" };
+  }
+
+  return { success: true, message: "Your email address has been verified" };
+};
@@ -0,0 +1,138 @@
+// Fee schedule rules
+//
+// A fee schedule prices one kind of payment. Its bands split amounts into ranges,
+// and each band charges a percentage plus a flat fee, optionally clamped to a
+// minimum and maximum fee. Payers whose role or wallet is listed as exempt pay
+// nothing.
+//
+// These functions have no server dependencies, so the fee editor in the admin
+// Control tab previews fees with exactly the rules the server charges with
+// (see lib/fees.ts for loading the schedule in effect).
+
+import type { FeeBandModel, FeeKind, FeeScheduleModel } from "./db/models";
+
+export const FEE_KIND_LABELS: Record<FeeKind, string> = {
+  p2p: "P2P Transfers",
+  ticket: "Ticket Sales",
+  invoice: "Invoice Payments",
+  withdrawal: "Cash Withdrawals",
+};
+
+export const FEE_KINDS = Object.keys(FEE_KIND_LABELS) as FeeKind[];
+
+// Who is charged, and how: ticket and withdrawal fees come out of the amount (the
+// seller or the withdrawer receives less), so they can never exceed it
+export const FEE_PAYER_DESCRIPTIONS: Record<FeeKind, string> = {
+  p2p: "Added on top of the transfer and paid by the sender",
+  ticket: "Deducted from each ticket sold and paid by the event creator",
+  invoice: "Added on top of the invoice and paid by the payer",
+  withdrawal: "Deducted from the cash paid out to the withdrawer",
+};
+
+const DEDUCTED_FEE_KINDS: readonly FeeKind[] = ["ticket", "withdrawal"];
+
+const MAX_BANDS = 10;
+
+export type FeeScheduleRules = Pick<FeeScheduleModel, "kind" | "bands" | "exemptRoles" | "exemptWalletIds">;
+
+export interface FeePayer {
+  role?: string;
+  walletId?: string;
+}
+
+export interface FeeQuote {
+  kind: FeeKind;
+  amountCents: number;
+  feeCents: number;
+  percentage: number; // Percentage of the band that applied (0 when exempt)
+  flatCents: number; // Flat fee of the band that applied (0 when exempt)
+  exempt: boolean;
+}
+
+/**
+ * Find the band that prices an amount: the first one whose upper limit covers it
+ */
+export const findFeeBand = (bands: FeeBandModel[], amountCents: number): FeeBandModel | undefined =>
+  bands.find((band) => band.upToCents === undefined || amountCents <= band.upToCents);
+
+/**
+ * Fee for an amount (in cents) under a schedule
+ */
+export const calculateFee = (schedule: FeeScheduleRules, amountCents: number, payer: FeePayer): FeeQuote => {
+  const exempt =
+    (payer.role !== undefined && schedule.exemptRoles.includes(payer.role)) ||
+    (payer.walletId !== undefined && schedule.exemptWalletIds.includes(payer.walletId));
+  const band = findFeeBand(schedule.bands, amountCents);
+
+  if (exempt || !band || amountCents <= 0) {
+    return { kind: schedule.kind, amountCents, feeCents: 0, percentage: 0, flatCents: 0, exempt };
+  }
+
+  let feeCents = Math.round(amountCents * (band.percentage / 100)) + band.flatCents;
+  if (band.minFeeCents !== undefined) {
+    feeCents = Math.max(feeCents, band.minFeeCents);
+  }
+  if (band.maxFeeCents !== undefined) {
+    feeCents = Math.min(feeCents, band.maxFeeCents);
+  }
+  if (DEDUCTED_FEE_KINDS.includes(schedule.kind)) {
+    feeCents = Math.min(feeCents, amountCents);
+  }
+
+  return {
+    kind: schedule.kind,
+    amountCents,
+    feeCents,
+    percentage: band.percentage,
+    flatCents: band.flatCents,
+    exempt: false,
+  };
+};
+
+const isWholeCents = (value: number | undefined) =>
+  value === undefined || (Number.isInteger(value) && value >= 0);
+
+/**
+ * Check a schedule's bands before it is saved
+ *
+ * @returns An error message, or null when the schedule is valid
+ */
+export const validateFeeSchedule = (schedule: FeeScheduleRules): string | null => {
+  if (!FEE_KINDS.includes(schedule.kind)) {
+    return "Unknown fee kind";
+  }
+  if (schedule.bands.length === 0) {
+    return "A fee schedule needs at least one band";
+  }
+  if (schedule.bands.length > MAX_BANDS) {
+    return `A fee schedule can have at most ${MAX_BANDS} bands`;
+  }
+
+  let previousUpTo = 0;
+  for (const [index, band] of schedule.bands.entries()) {
+    const name = `Band ${index + 1}`;
+    const isLast = index === schedule.bands.length - 1;
+
+    if (!Number.isFinite(band.percentage) || band.percentage < 0 || band.percentage > 100) {
+      return `${name}: the percentage must be between 0 and 100`;
+    }
+    if (!isWholeCents(band.flatCents) || !isWholeCents(band.minFeeCents) || !isWholeCents(band.maxFeeCents)) {
+      return `${name}: fees can't be negative`;
+    }
+    if (band.minFeeCents !== undefined && band.maxFeeCents !== undefined && band.minFeeCents > band.maxFeeCents) {
+      return `${name}: the minimum fee is higher than the maximum fee`;
+    }
+    if (isLast) {
+      if (band.upToCents !== undefined) {
+        return "The last band must cover every amount above the previous band";
+      }
+    } else {
+      if (band.upToCents === undefined || !isWholeCents(band.upToCents) || band.upToCents <= previousUpTo) {
+        return `${name}: each band must end above the previous one`;
+      }
+      previousUpTo = band.upToCents;
+    }
+  }
+
+  return null;
+};
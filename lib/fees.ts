@@ -0,0 +1,148 @@
+// Fee engine
+//
+// Every payment that charges a fee prices it with quoteFee(): sendMoney (p2p),
+// payInvoiceByRef (invoice), purchaseTicket (ticket, per ticket) and
+// processCashPayout (withdrawal). The fee comes from the schedule of that kind in
+// effect at the time (see lib/fee-schedule.ts for how a schedule prices an amount).
+//
+// Schedules are never edited or deleted. Saving a change inserts a new schedule
+// with an effectiveFrom date, which may be in the future; the newest schedule that
+// is already in effect applies, so the collection is also the history of every fee
+// that was ever charged. Each fee ledger entry records the schedule it came from.
+//
+// Until the first schedule of a kind is saved, the legacy flat percentage from the
+// system settings applies, with admins exempt as before (except on ticket sales).
+
+import type { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { FeeKind, FeeScheduleModel, SystemSettingsModel } from "./db/models";
+import { calculateFee, validateFeeSchedule } from "./fee-schedule";
+import type { FeePayer, FeeQuote, FeeScheduleRules } from "./fee-schedule";
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const feeSchedulesCollection = await getCollection<FeeScheduleModel>(COLLECTIONS.FEE_SCHEDULES);
+      await feeSchedulesCollection.createIndex({ kind: 1, effectiveFrom: -1, createdAt: -1 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+const LEGACY_FEE_PERCENTAGES: Record<FeeKind, { setting: keyof SystemSettingsModel; fallback: number }> = {
+  p2p: { setting: "p2pFeePercentage", fallback: 5 },
+  ticket: { setting: "ticketFeePercentage", fallback: 10 },
+  invoice: { setting: "invoiceFeePercentage", fallback: 5 },
+  withdrawal: { setting: "withdrawalFeePercentage", fallback: 5 },
+};
+
+/**
+ * The flat percentage fee charged before any schedule of the kind was saved
+ */
+export const getLegacyFeeSchedule = async (kind: FeeKind): Promise<FeeScheduleRules> => {
+  const settingsCollection = await getCollection<SystemSettingsModel>(COLLECTIONS.SYSTEM_SETTINGS);
+  const settings = await settingsCollection.findOne({});
+  const { setting, fallback } = LEGACY_FEE_PERCENTAGES[kind];
+  const percentage = settings?.[setting];
+
+  return {
+    kind,
+    bands: [{ percentage: typeof percentage === "number" ? percentage : fallback, flatCents: 0 }],
+    exemptRoles: kind === "ticket" ? [] : ["admin"],
+    exemptWalletIds: [],
+  };
+};
+
+/**
+ * The schedule of a kind in effect at a point in time, or null before the first one
+ */
+export const getFeeScheduleInEffect = async (kind: FeeKind, at: Date = new Date()): Promise<FeeScheduleModel | null> => {
+  await ensureIndexes();
+  const feeSchedulesCollection = await getCollection<FeeScheduleModel>(COLLECTIONS.FEE_SCHEDULES);
+  return feeSchedulesCollection.findOne(
+    { kind, effectiveFrom: { $lte: at } },
+    { sort: { effectiveFrom: -1, createdAt: -1 } }
+  );
+};
+
+/**
+ * Price the fee on a payment
+ *
+ * @param kind - Kind of payment
+ * @param amountCents - Amount the fee is charged on, in cents
+ * @param payer - Role and wallet of whoever pays the fee (for exemptions)
+ */
+export const quoteFee = async (
+  kind: FeeKind,
+  amountCents: number,
+  payer: FeePayer
+): Promise<FeeQuote & { scheduleId?: ObjectId }> => {
+  const schedule = await getFeeScheduleInEffect(kind);
+  const rules = schedule ?? (await getLegacyFeeSchedule(kind));
+  return { ...calculateFee(rules, amountCents, payer), scheduleId: schedule?._id };
+};
+
+/**
+ * Schedules of a kind, newest effective date first (including ones not in effect yet)
+ */
+export const getFeeScheduleHistory = async (kind: FeeKind, limit = 20): Promise<FeeScheduleModel[]> => {
+  await ensureIndexes();
+  const feeSchedulesCollection = await getCollection<FeeScheduleModel>(COLLECTIONS.FEE_SCHEDULES);
+  return feeSchedulesCollection
+    .find({ kind })
+    .sort({ effectiveFrom: -1, createdAt: -1 })
+    .limit(limit)
+    .toArray();
+};
+
+/**
+ * Save a new schedule
+ * An effective date in the past (or none) means now: fees already charged keep the
+ * schedule they were quoted from.
+ */
+export const saveFeeSchedule = async (
+  schedule: FeeScheduleRules & { effectiveFrom?: Date; note?: string },
+  createdBy: ObjectId
+): Promise<FeeScheduleModel> => {
+  const rules: FeeScheduleRules = {
+    kind: schedule.kind,
+    bands: schedule.bands.map((band) => ({
+      ...(band.upToCents !== undefined && { upToCents: band.upToCents }),
+      percentage: band.percentage,
+      flatCents: band.flatCents,
+      ...(band.minFeeCents !== undefined && { minFeeCents: band.minFeeCents }),
+      ...(band.maxFeeCents !== undefined && { maxFeeCents: band.maxFeeCents }),
+    })),
+    exemptRoles: [...new Set(schedule.exemptRoles.map((role) => role.trim()).filter(Boolean))],
+    exemptWalletIds: [
+      ...new Set(schedule.exemptWalletIds.map((walletId) => walletId.trim().toUpperCase()).filter(Boolean)),
+    ],
+  };
+
+  const validationError = validateFeeSchedule(rules);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  await ensureIndexes();
+
+  const now = new Date();
+  const newSchedule: FeeScheduleModel = {
+    ...rules,
+    effectiveFrom: schedule.effectiveFrom && schedule.effectiveFrom > now ? schedule.effectiveFrom : now,
+    note: schedule.note?.trim() || undefined,
+    createdBy,
+    createdAt: now,
+  };
+
+  const feeSchedulesCollection = await getCollection<FeeScheduleModel>(COLLECTIONS.FEE_SCHEDULES);
+  const result = await feeSchedulesCollection.insertOne(newSchedule);
+  return { ...newSchedule, _id: result.insertedId };
+};
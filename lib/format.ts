@@ -128,3 +128,39 @@ export function formatDateWithTime(date: Date | string): string {
   });
 }
 
+
+/**
+ * Rough "Browser on OS" description of a user agent string
+ * Format: "Chrome on Windows"
+ *
+ * @param userAgent - User agent recorded with a session or sign-in
+ * @returns Short device description
+ */
+export function formatDeviceName(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+      ? "Opera"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : "Browser";
+  const os = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "unknown OS";
+
+  return `${browser} on ${os}`;
+}
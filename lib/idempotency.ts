@@ -0,0 +1,144 @@
+// Idempotency keys for money-moving server actions
+//
+// A flaky mobile connection can make the browser send the same payment twice. The
+// wallet modals generate a key once per submission (see
+// components/hooks/useIdempotencyKey.ts) and pass it as the first argument of
+// sendMoney, payInvoiceByRef, purchaseTicket and redeemCode, which are wrapped with
+// idempotent():
+//
+// - First request with a key: claims it, runs the action and stores a successful
+//   result with the key for 24 hours
+// - A key reused for a different request (other recipient, amount, ...): refused,
+//   nothing runs. Each key is stored with a hash of the arguments that identify the
+//   request; PINs are left out of it, and secrets like redeem codes go in hashed.
+// - Replay of a completed key: returns the stored result without running the action
+// - Replay while the first request is still running: refused, nothing moves
+// - The action fails (or asks for the PIN): the key is released, so the same
+//   submission can be retried. Failed actions never move money (see lib/ledger.ts).
+//
+// Keys are scoped per user and action. Calls without a key run as before.
+//
+// Example:
+//   export const sendMoney = requireUser(idempotent("sendMoney", async (currentUser, ...) => { ... },
+//     ([recipientWalletId, amount, note]) => [recipientWalletId, amount, note]));
+
+import crypto from "crypto";
+import type { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { IdempotencyKeyModel, IdempotentAction } from "./db/models";
+
+const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export interface IdempotencyErrorResult {
+  success: false;
+  error: string;
+  inProgress?: boolean; // The first request with this key hasn't finished yet
+}
+
+// IdempotencyErrorResult widened with the action's own result keys (all undefined),
+// like Guarded in lib/authz.ts
+type WithIdempotency<R> =
+  | R
+  | (IdempotencyErrorResult & { [K in Exclude<R extends unknown ? keyof R : never, keyof IdempotencyErrorResult>]?: undefined });
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const keysCollection = await getCollection<IdempotencyKeyModel>(COLLECTIONS.IDEMPOTENCY_KEYS);
+      await keysCollection.createIndex({ userId: 1, action: 1, key: 1 }, { unique: true });
+      await keysCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+function refused<R>(error: string, inProgress?: true): WithIdempotency<R> {
+  const result: IdempotencyErrorResult = inProgress ? { success: false, error, inProgress } : { success: false, error };
+  return result as WithIdempotency<R>;
+}
+
+const hashArgs = (args: unknown[]): string => {
+  return crypto.createHash("sha256").update(JSON.stringify(args)).digest("hex");
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === 11000;
+
+/**
+ * Make a guarded action idempotent
+ * The returned action takes the idempotency key as its first argument after the
+ * user; wrap it with requireUser (or another guard from lib/authz.ts).
+ * requestArgs picks the arguments that identify the request, without any PIN.
+ */
+export function idempotent<User extends { _id: ObjectId }, Args extends unknown[], R extends { success: boolean }>(
+  action: IdempotentAction,
+  handler: (user: User, ...args: Args) => Promise<R>,
+  requestArgs: (args: NoInfer<Args>) => unknown[]
+): (user: User, idempotencyKey: string | undefined, ...args: Args) => Promise<WithIdempotency<R>> {
+  return async (user, idempotencyKey, ...args) => {
+    if (idempotencyKey === undefined) {
+      return handler(user, ...args);
+    }
+
+    if (!KEY_PATTERN.test(idempotencyKey)) {
+      return refused<R>("Invalid idempotency key");
+    }
+
+    await ensureIndexes();
+    const keysCollection = await getCollection<IdempotencyKeyModel>(COLLECTIONS.IDEMPOTENCY_KEYS);
+    const filter = { userId: user._id, action, key: idempotencyKey };
+    const argsHash = hashArgs(requestArgs(args));
+    const now = new Date();
+
+    try {
+      await keysCollection.insertOne({
+        ...filter,
+        argsHash,
+        status: "pending",
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_SECONDS * 1000),
+      });
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+
+      const existing = await keysCollection.findOne(filter);
+      if (existing && existing.argsHash !== argsHash) {
+        return refused<R>("This idempotency key was already used for a different request");
+      }
+      if (existing?.status === "completed") {
+        return existing.result as R;
+      }
+      return refused<R>(
+        "This request is already being processed. Check your transactions before trying again.",
+        true
+      );
+    }
+
+    let result: R;
+    try {
+      result = await handler(user, ...args);
+    } catch (error) {
+      await keysCollection.deleteOne({ ...filter, status: "pending" });
+      throw error;
+    }
+
+    if (result.success) {
+      await keysCollection.updateOne(filter, { $set: { status: "completed", result } });
+    } else {
+      await keysCollection.deleteOne({ ...filter, status: "pending" });
+    }
+
+    return result;
+  };
+}
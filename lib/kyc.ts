@@ -0,0 +1,40 @@
+// KYC name lookups for server code
+//
+// The legal names on a KYC application are only ever returned to their owner
+// (getKycUserInfo in lib/server-actions/kyc.ts). Server code that shows one
+// user's name to someone else reads it through here; anything public gets the
+// masked form only.
+
+import type { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { KycModel } from "./db/models";
+import { maskHolderName } from "./wallet-ids";
+
+/**
+ * First and last name from the user's KYC application
+ *
+ * @returns The names, or null when the user hasn't applied
+ */
+export const getKycName = async (userId: ObjectId): Promise<{ firstName: string; lastName: string } | null> => {
+  const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
+  const kycApplication = await kycCollection.findOne(
+    { userId },
+    { projection: { firstName: 1, lastName: 1 } }
+  );
+  if (!kycApplication?.firstName || !kycApplication.lastName) {
+    return null;
+  }
+  return { firstName: kycApplication.firstName, lastName: kycApplication.lastName };
+};
+
+/**
+ * KYC name with all but the first letters hidden (e.g. "J*** S****"), for pages
+ * anyone can open
+ *
+ * @returns The masked name, or null when the user hasn't applied
+ */
+export const getMaskedKycName = async (userId: ObjectId): Promise<string | null> => {
+  const name = await getKycName(userId);
+  return name ? maskHolderName(name.firstName, name.lastName) : null;
+};
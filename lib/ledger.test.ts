@@ -0,0 +1,255 @@
+// Parallel debits against a real MongoDB, since the guarantees come from its
+// transactions and conditional updates. Transactions need a replica set, so a
+// single-node one is started with mongodb-memory-server (the mongod binary is
+// downloaded on the first run). Set MONGODB_TEST_URI to use an existing replica
+// set instead; each run works in its own database and drops it afterwards.
+// Without either (e.g. the download is blocked) the tests are skipped with a warning.
+//
+// sendMoney runs for real, with only the session and the request's cookies mocked.
+
+import crypto from "crypto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ObjectId } from "mongodb";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { cookies } from "next/headers";
+import type { JournalEntryModel, UserModel, WalletModel } from "./db/models";
+
+const TRANSFERS = 20;
+const AMOUNT_CENTS = 100;
+
+// The sender's browser is a trusted device, so small payments skip the PIN
+const TRUSTED_DEVICE_TOKEN = "ledger-test-trusted-device";
+
+vi.mock("./session", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./session")>()),
+  getCurrentUser: vi.fn(),
+}));
+
+vi.mock("next/headers", () => ({
+  cookies: vi.fn(),
+  headers: vi.fn(async () => new Headers()),
+}));
+
+const startReplicaSet = async (): Promise<MongoMemoryReplSet | undefined> => {
+  try {
+    return await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } });
+  } catch (error) {
+    console.warn(
+      "Skipping lib/ledger.test.ts: no MongoDB replica set could be started " +
+        `(${error instanceof Error ? error.message : String(error)}). ` +
+        "Set MONGODB_TEST_URI to run it against an existing replica set."
+    );
+    return undefined;
+  }
+};
+
+const replSet = process.env.MONGODB_TEST_URI ? undefined : await startReplicaSet();
+const mongoUri = process.env.MONGODB_TEST_URI || replSet?.getUri();
+const describeWithDb = describe.skipIf(!mongoUri);
+
+let db: typeof import("./db");
+let ledger: typeof import("./ledger");
+let limits: typeof import("./limits");
+let models: typeof import("./db/models");
+let createWallet: typeof import("./db/utils").createWallet;
+let getCurrentUser: typeof import("./session").getCurrentUser;
+let transactionPin: typeof import("./transaction-pin");
+let fees: typeof import("./fees");
+let walletActions: typeof import("./server-actions/wallet");
+
+beforeAll(async () => {
+  if (!mongoUri) {
+    return;
+  }
+  process.env.MONGODB_URI = mongoUri;
+  process.env.MONGODB_DB_NAME = `ledger_test_${new ObjectId().toHexString()}`;
+
+  // lib/db reads the URI when it first connects, so import it once it is set
+  db = await import("./db");
+  ledger = await import("./ledger");
+  limits = await import("./limits");
+  models = await import("./db/models");
+  ({ createWallet } = await import("./db/utils"));
+  ({ getCurrentUser } = await import("./session"));
+  transactionPin = await import("./transaction-pin");
+  fees = await import("./fees");
+  walletActions = await import("./server-actions/wallet");
+}, 120_000);
+
+afterAll(async () => {
+  if (db) {
+    await (await db.getDb()).dropDatabase();
+    await (await db.default()).close();
+  }
+  await replSet?.stop();
+});
+
+// Two fresh wallets, the sender funded from external cash
+const createFundedWallets = async (startingBalance: number) => {
+  const sender = await createWallet(new ObjectId());
+  const recipient = await createWallet(new ObjectId());
+  await db.withTransaction((session) =>
+    ledger.postJournalEntry(session, {
+      kind: "manual_credit",
+      postings: [
+        ledger.debit(ledger.EXTERNAL_CASH_ACCOUNT, startingBalance),
+        ledger.credit(ledger.walletAccount(sender.walletId), startingBalance),
+      ],
+    })
+  );
+  return { sender, recipient };
+};
+
+const getBalance = async (walletId: string): Promise<number | undefined> => {
+  const walletsCollection = await db.getCollection<WalletModel>(models.COLLECTIONS.WALLETS);
+  return (await walletsCollection.findOne({ walletId }))?.balance;
+};
+
+// Balance of a wallet account as the postings have it
+const getPostedBalance = async (walletId: string): Promise<number> => {
+  const journalCollection = await db.getCollection<JournalEntryModel>(models.COLLECTIONS.JOURNAL_ENTRIES);
+  const [row] = await journalCollection
+    .aggregate<{ balance: number }>([
+      { $unwind: "$postings" },
+      { $match: { "postings.walletId": walletId } },
+      { $group: { _id: null, balance: { $sum: { $subtract: ["$postings.credit", "$postings.debit"] } } } },
+    ])
+    .toArray();
+  return row?.balance ?? 0;
+};
+
+// Every journal entry is balanced, so all accounts together always net to zero
+const expectLedgerBalanced = async (walletIds: string[]) => {
+  const balancesByType = await ledger.getLedgerBalancesByType();
+  expect(Object.values(balancesByType).reduce((sum, balance) => sum + balance, 0)).toBe(0);
+
+  for (const walletId of walletIds) {
+    expect(await getBalance(walletId)).toBe(await getPostedBalance(walletId));
+  }
+};
+
+const settle = (transfers: (() => Promise<unknown>)[]) => Promise.allSettled(transfers.map((transfer) => transfer()));
+
+const rejectionMessages = (results: PromiseSettledResult<unknown>[]) =>
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+    .map((result) => (result.reason instanceof Error ? result.reason.message : String(result.reason)));
+
+describeWithDb("parallel wallet debits", () => {
+  it("never overdraw the paying wallet", async () => {
+    const expectedSuccesses = TRANSFERS / 2;
+    const startingBalance = expectedSuccesses * AMOUNT_CENTS;
+    const { sender, recipient } = await createFundedWallets(startingBalance);
+
+    const results = await settle(
+      Array.from({ length: TRANSFERS }, () => () =>
+        db.withTransaction((session) =>
+          ledger.postJournalEntry(session, {
+            kind: "p2p_transfer",
+            postings: [
+              ledger.debit(ledger.walletAccount(sender.walletId), AMOUNT_CENTS),
+              ledger.credit(ledger.walletAccount(recipient.walletId), AMOUNT_CENTS),
+            ],
+          })
+        )
+      )
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(expectedSuccesses);
+    expect(new Set(rejectionMessages(results))).toEqual(new Set([ledger.INSUFFICIENT_FUNDS_ERROR]));
+    expect(await getBalance(sender.walletId)).toBe(0);
+    expect(await getBalance(recipient.walletId)).toBe(startingBalance);
+    await expectLedgerBalanced([sender.walletId, recipient.walletId]);
+  }, 60_000);
+
+  it("can't add up to more than the sender's daily limit", async () => {
+    const dailyCents = 5 * AMOUNT_CENTS;
+    const { sender, recipient } = await createFundedWallets(TRANSFERS * AMOUNT_CENTS);
+    const walletsCollection = await db.getCollection<WalletModel>(models.COLLECTIONS.WALLETS);
+    await walletsCollection.updateOne({ walletId: sender.walletId }, { $set: { limitOverride: { dailyCents } } });
+    const limitedSender = { ...sender, limitOverride: { dailyCents } };
+
+    const results = await settle(
+      Array.from({ length: TRANSFERS }, () => () =>
+        db.withTransaction(async (session) => {
+          const limitError = await limits.reserveOutgoingLimits(session, limitedSender, AMOUNT_CENTS);
+          if (limitError) {
+            throw new Error(limitError);
+          }
+          await ledger.postJournalEntry(session, {
+            kind: "p2p_transfer",
+            postings: [
+              ledger.debit(ledger.walletAccount(sender.walletId), AMOUNT_CENTS),
+              ledger.credit(ledger.walletAccount(recipient.walletId), AMOUNT_CENTS),
+            ],
+          });
+        })
+      )
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(dailyCents / AMOUNT_CENTS);
+    expect(rejectionMessages(results).every((message) => message.includes("daily limit"))).toBe(true);
+    expect(await getBalance(recipient.walletId)).toBe(dailyCents);
+    await expectLedgerBalanced([sender.walletId, recipient.walletId]);
+  }, 60_000);
+});
+
+describeWithDb("parallel sendMoney", () => {
+  it("never overdraws the sender, fee included", async () => {
+    const expectedSuccesses = TRANSFERS / 2;
+    const { feeCents } = await fees.quoteFee("p2p", AMOUNT_CENTS, { role: "user" });
+    const startingBalance = expectedSuccesses * (AMOUNT_CENTS + feeCents);
+    const { sender, recipient } = await createFundedWallets(startingBalance);
+
+    // No limits, a PIN, and this browser trusted to pay without it
+    const walletsCollection = await db.getCollection<WalletModel>(models.COLLECTIONS.WALLETS);
+    await walletsCollection.updateMany(
+      { walletId: { $in: [sender.walletId, recipient.walletId] } },
+      { $set: { limitOverride: {} } }
+    );
+    await walletsCollection.updateOne(
+      { walletId: sender.walletId },
+      {
+        $set: {
+          pinHash: "not-checked-on-a-trusted-device",
+          trustedDevices: [
+            {
+              tokenHash: crypto.createHash("sha256").update(TRUSTED_DEVICE_TOKEN).digest("hex"),
+              createdAt: new Date(),
+              expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            },
+          ],
+        },
+      }
+    );
+
+    const senderUser: UserModel = {
+      _id: sender.userId,
+      email: `ledger-test-${sender.userId.toHexString()}@example.com`,
+      password: "not-used",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    vi.mocked(getCurrentUser).mockResolvedValue(senderUser);
+    vi.mocked(cookies).mockResolvedValue({
+      get: (name: string) =>
+        name === transactionPin.TRUSTED_DEVICE_COOKIE_NAME ? { name, value: TRUSTED_DEVICE_TOKEN } : undefined,
+      set: vi.fn(),
+      delete: vi.fn(),
+    } as unknown as Awaited<ReturnType<typeof cookies>>);
+
+    const results = await Promise.all(
+      Array.from({ length: TRANSFERS }, () =>
+        walletActions.sendMoney(new ObjectId().toHexString(), recipient.walletId, AMOUNT_CENTS / 100, "ledger test")
+      )
+    );
+
+    const failures = results.filter((result) => !result.success);
+    expect(results.filter((result) => result.success)).toHaveLength(expectedSuccesses);
+    expect(failures.every((result) => result.error?.startsWith("Insufficient"))).toBe(true);
+    expect(await getBalance(sender.walletId)).toBe(0);
+    expect(await getBalance(recipient.walletId)).toBe(expectedSuccesses * AMOUNT_CENTS);
+    await expectLedgerBalanced([sender.walletId, recipient.walletId]);
+  }, 60_000);
+});
@@ -0,0 +1,329 @@
+// Double-entry ledger
+//
+// Every movement of money is one journal entry: a set of debit and credit postings
+// whose debits equal its credits. The accounts are:
+//
+// - wallet:<walletId>      what the platform owes each wallet holder
+// - fee_revenue            fees charged and not yet deposited to the admin wallet
+// - cash_payout_pool       cash withdrawals waiting to be paid out at the counter
+// - redeem_liability       face value of redeem codes that haven't been redeemed
+// - ticket_sales_payable   ticket revenue waiting for the event creator to deposit it
+// - external_cash          counter-account for cash entering or leaving the platform
+//
+// postJournalEntry() writes the entry and updates the cached balances (the wallet
+// document's `balance`, and ledger_accounts for the system accounts) inside the
+// caller's MongoDB transaction. Nothing else may change a balance, so the caches can
+// always be rebuilt from the postings.
+
+import type { ClientSession, ObjectId } from "mongodb";
+import { getCollection, withTransaction } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type {
+  FeeModel,
+  JournalEntryKind,
+  JournalEntryModel,
+  JournalPostingModel,
+  LedgerAccountModel,
+  LedgerAccountType,
+  PendingWithdrawalModel,
+  RedeemCodeModel,
+  TicketModel,
+  WalletModel,
+} from "./db/models";
+
+// Reported when a wallet debit matches no wallet: the balance is too low, or the
+// wallet isn't active (the snapshot a caller checked earlier may be stale by then)
+export const INSUFFICIENT_FUNDS_ERROR = "Insufficient funds";
+
+export interface LedgerAccountRef {
+  account: string;
+  accountType: LedgerAccountType;
+  walletId?: string;
+}
+
+export const walletAccount = (walletId: string): LedgerAccountRef => ({
+  account: `wallet:${walletId}`,
+  accountType: "wallet",
+  walletId,
+});
+
+const systemAccount = (type: Exclude<LedgerAccountType, "wallet">): LedgerAccountRef => ({
+  account: type,
+  accountType: type,
+});
+
+export const FEE_REVENUE_ACCOUNT = systemAccount("fee_revenue");
+export const CASH_PAYOUT_POOL_ACCOUNT = systemAccount("cash_payout_pool");
+export const REDEEM_LIABILITY_ACCOUNT = systemAccount("redeem_liability");
+export const TICKET_SALES_PAYABLE_ACCOUNT = systemAccount("ticket_sales_payable");
+export const EXTERNAL_CASH_ACCOUNT = systemAccount("external_cash");
+
+export const debit = (account: LedgerAccountRef, amount: number): JournalPostingModel => ({
+  ...account,
+  debit: amount,
+  credit: 0,
+});
+
+export const credit = (account: LedgerAccountRef, amount: number): JournalPostingModel => ({
+  ...account,
+  debit: 0,
+  credit: amount,
+});
+
+export interface JournalEntryInput {
+  kind: JournalEntryKind;
+  ref?: string;
+  postings: JournalPostingModel[];
+  transactionIds?: ObjectId[];
+  createdBy?: ObjectId;
+  note?: string;
+}
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const accountsCollection = await getCollection<LedgerAccountModel>(COLLECTIONS.LEDGER_ACCOUNTS);
+      await accountsCollection.createIndex({ code: 1 }, { unique: true });
+
+      const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+      await journalCollection.createIndex({ "postings.account": 1, createdAt: -1 });
+      await journalCollection.createIndex({ ref: 1 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+// Reject anything that isn't a well-formed, balanced set of postings
+const validatePostings = (postings: JournalPostingModel[]): void => {
+  for (const posting of postings) {
+    const amounts = [posting.debit, posting.credit];
+    if (amounts.some((amount) => !Number.isSafeInteger(amount) || amount < 0) || (posting.debit > 0 && posting.credit > 0)) {
+      throw new Error(`Invalid ledger posting for ${posting.account}`);
+    }
+  }
+
+  const totalDebits = postings.reduce((sum, posting) => sum + posting.debit, 0);
+  const totalCredits = postings.reduce((sum, posting) => sum + posting.credit, 0);
+  if (postings.length < 2 || totalDebits !== totalCredits) {
+    throw new Error("Journal entry is not balanced");
+  }
+};
+
+/**
+ * Record a movement of money and apply it to the cached balances
+ * Must run inside withTransaction (lib/db.ts). Wallet debits are a single
+ * conditional update on an active wallet with enough funds; when none matches the
+ * entry fails with INSUFFICIENT_FUNDS_ERROR and the transaction rolls back.
+ * Zero-amount postings (e.g. the fee on a fee-exempt payment) are dropped.
+ */
+export const postJournalEntry = async (
+  session: ClientSession,
+  entry: JournalEntryInput
+): Promise<JournalEntryModel> => {
+  await ensureIndexes();
+
+  const postings = entry.postings.filter((posting) => posting.debit !== 0 || posting.credit !== 0);
+  validatePostings(postings);
+
+  // Net movement per account (credits minus debits)
+  const netByAccount = new Map<string, { account: LedgerAccountRef; net: number }>();
+  for (const posting of postings) {
+    const current = netByAccount.get(posting.account);
+    const net = (current?.net ?? 0) + posting.credit - posting.debit;
+    netByAccount.set(posting.account, {
+      account: { account: posting.account, accountType: posting.accountType, walletId: posting.walletId },
+      net,
+    });
+  }
+
+  const now = new Date();
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const accountsCollection = await getCollection<LedgerAccountModel>(COLLECTIONS.LEDGER_ACCOUNTS);
+
+  for (const { account, net } of netByAccount.values()) {
+    if (net === 0) {
+      continue;
+    }
+
+    if (account.accountType === "wallet") {
+      if (net < 0) {
+        // Funds and status checks and the decrement happen in one update, so
+        // concurrent payments can't overdraw a wallet. Closing a wallet is the only
+        // debit allowed on one that isn't active.
+        const debited = await walletsCollection.updateOne(
+          {
+            walletId: account.walletId,
+            balance: { $gte: -net },
+            ...(entry.kind === "wallet_closure" ? {} : { status: "active" as const }),
+          },
+          { $inc: { balance: net }, $set: { updatedAt: now } },
+          { session }
+        );
+        if (debited.matchedCount === 0) {
+          throw new Error(INSUFFICIENT_FUNDS_ERROR);
+        }
+      } else {
+        const credited = await walletsCollection.updateOne(
+          { walletId: account.walletId },
+          { $inc: { balance: net }, $set: { updatedAt: now } },
+          { session }
+        );
+        if (credited.matchedCount === 0) {
+          throw new Error(`Wallet ${account.walletId} not found`);
+        }
+      }
+    } else {
+      await accountsCollection.updateOne(
+        { code: account.account },
+        { $inc: { balance: net }, $set: { updatedAt: now }, $setOnInsert: { type: account.accountType } },
+        { upsert: true, session }
+      );
+    }
+  }
+
+  const journalEntry: JournalEntryModel = {
+    kind: entry.kind,
+    ref: entry.ref,
+    postings,
+    transactionIds: entry.transactionIds,
+    createdBy: entry.createdBy,
+    note: entry.note,
+    createdAt: now,
+  };
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  await journalCollection.insertOne(journalEntry, { session });
+
+  return journalEntry;
+};
+
+/**
+ * Balance of every account type, derived from the postings (not the caches)
+ */
+export const getLedgerBalancesByType = async (): Promise<Record<LedgerAccountType, number>> => {
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  const rows = await journalCollection
+    .aggregate<{ _id: LedgerAccountType; balance: number }>([
+      { $unwind: "$postings" },
+      {
+        $group: {
+          _id: "$postings.accountType",
+          balance: { $sum: { $subtract: ["$postings.credit", "$postings.debit"] } },
+        },
+      },
+    ])
+    .toArray();
+
+  const balances: Record<LedgerAccountType, number> = {
+    wallet: 0,
+    fee_revenue: 0,
+    cash_payout_pool: 0,
+    redeem_liability: 0,
+    ticket_sales_payable: 0,
+    external_cash: 0,
+  };
+  for (const row of rows) {
+    balances[row._id] = row.balance;
+  }
+  return balances;
+};
+
+/**
+ * Total debited (or credited) to one kind of account by one kind of entry,
+ * e.g. all cash handed out by cash payouts
+ */
+export const getPostingTotal = async (
+  kind: JournalEntryKind,
+  accountType: LedgerAccountType,
+  side: "debit" | "credit"
+): Promise<number> => {
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  const [row] = await journalCollection
+    .aggregate<{ total: number }>([
+      { $match: { kind } },
+      { $unwind: "$postings" },
+      { $match: { "postings.accountType": accountType } },
+      { $group: { _id: null, total: { $sum: `$postings.${side}` } } },
+    ])
+    .toArray();
+  return row?.total ?? 0;
+};
+
+/**
+ * One-off migration for data created before the ledger existed
+ * Posts a single opening entry crediting every wallet with its current balance and
+ * each system account with what it held implicitly (pending withdrawals, undeposited
+ * fees, unused redeem codes, undeposited ticket revenue) against external_cash.
+ * Wallet balances are already correct, so only the system account caches are set.
+ * Refuses to run once the journal has any entries.
+ */
+export const postOpeningBalances = async (): Promise<JournalEntryModel> => {
+  await ensureIndexes();
+
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  if ((await journalCollection.countDocuments({}, { limit: 1 })) > 0) {
+    throw new Error("The ledger already has entries; opening balances can only be posted once");
+  }
+
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const wallets = await walletsCollection.find({ balance: { $gt: 0 } }).toArray();
+
+  const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
+  const pendingWithdrawals = await pendingWithdrawalsCollection.find({ status: "pending" }).toArray();
+
+  const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+  const undepositedFees = await feesCollection.find({ deposited: { $ne: true } }).toArray();
+
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  const unusedCodes = await redeemCodesCollection.find({ used: false, voided: { $ne: true } }).toArray();
+
+  const ticketsCollection = await getCollection<TicketModel>(COLLECTIONS.TICKETS);
+  const undepositedTickets = await ticketsCollection
+    .find({ deposited: { $ne: true }, qty: 1, serialNumber: { $exists: true } })
+    .toArray();
+
+  const systemBalances = new Map<LedgerAccountRef, number>([
+    [CASH_PAYOUT_POOL_ACCOUNT, pendingWithdrawals.reduce((sum, withdrawal) => sum + withdrawal.amount, 0)],
+    [FEE_REVENUE_ACCOUNT, undepositedFees.reduce((sum, fee) => sum + fee.amount, 0)],
+    [REDEEM_LIABILITY_ACCOUNT, unusedCodes.reduce((sum, code) => sum + code.amount, 0)],
+    [TICKET_SALES_PAYABLE_ACCOUNT, undepositedTickets.reduce((sum, ticket) => sum + ticket.netCents, 0)],
+  ]);
+
+  const postings = [
+    ...wallets.map((wallet) => credit(walletAccount(wallet.walletId), wallet.balance)),
+    ...Array.from(systemBalances, ([account, balance]) => credit(account, balance)),
+  ].filter((posting) => posting.credit > 0);
+  const total = postings.reduce((sum, posting) => sum + posting.credit, 0);
+  if (total === 0) {
+    throw new Error("There are no balances to carry over");
+  }
+  postings.push(debit(EXTERNAL_CASH_ACCOUNT, total));
+  validatePostings(postings);
+
+  const now = new Date();
+  const journalEntry: JournalEntryModel = {
+    kind: "opening_balance",
+    postings,
+    note: "Balances carried over from before the ledger",
+    createdAt: now,
+  };
+
+  await withTransaction(async (session) => {
+    const accountsCollection = await getCollection<LedgerAccountModel>(COLLECTIONS.LEDGER_ACCOUNTS);
+    for (const [account, balance] of [...systemBalances, [EXTERNAL_CASH_ACCOUNT, -total] as const]) {
+      await accountsCollection.updateOne(
+        { code: account.account },
+        { $set: { type: account.accountType, balance, updatedAt: now } },
+        { upsert: true, session }
+      );
+    }
+    await journalCollection.insertOne(journalEntry, { session });
+  });
+
+  return journalEntry;
+};
@@ -0,0 +1,97 @@
+// Wallet limit rules
+//
+// A wallet's limits cap single payments, the money leaving it each day and each
+// month, and the balance money received can take it to. They come from the limit
+// profile of the holder's KYC tier, or from an override set on the wallet itself.
+//
+// These helpers have no server dependencies, so the admin limit editors and the
+// wallet card work out allowances exactly as the server enforces them (see
+// lib/limits.ts for loading a wallet's limits and usage).
+
+import type { KycTier, WalletLimitsModel } from "./db/models";
+
+export const KYC_TIER_LABELS: Record<KycTier, string> = {
+  basic: "Basic",
+  standard: "Standard",
+  enhanced: "Enhanced",
+};
+
+export const KYC_TIERS = Object.keys(KYC_TIER_LABELS) as KycTier[];
+
+export const DEFAULT_KYC_TIER: KycTier = "basic";
+
+export const WALLET_LIMIT_LABELS: Record<keyof WalletLimitsModel, string> = {
+  perTransactionCents: "Per transaction",
+  dailyCents: "Daily outgoing",
+  monthlyCents: "Monthly outgoing",
+  maxBalanceCents: "Maximum balance",
+};
+
+export const WALLET_LIMIT_FIELDS = Object.keys(WALLET_LIMIT_LABELS) as (keyof WalletLimitsModel)[];
+
+// Money that left the wallet in the current day and month, in cents
+export interface WalletLimitUsage {
+  dailyCents: number;
+  monthlyCents: number;
+}
+
+// What is left of each cap, in cents; undefined means there is no cap
+export interface WalletAllowance {
+  perTransactionCents?: number;
+  dailyCents?: number;
+  monthlyCents?: number;
+  receiveCents?: number; // Room left under the maximum balance
+}
+
+/**
+ * Work out what a wallet can still send and receive
+ */
+export const getWalletAllowance = (
+  limits: WalletLimitsModel,
+  usage: WalletLimitUsage,
+  balanceCents: number
+): WalletAllowance => {
+  const remaining = (cap: number | undefined, used: number) =>
+    cap === undefined ? undefined : Math.max(cap - used, 0);
+
+  return {
+    perTransactionCents: limits.perTransactionCents,
+    dailyCents: remaining(limits.dailyCents, usage.dailyCents),
+    monthlyCents: remaining(limits.monthlyCents, usage.monthlyCents),
+    receiveCents: remaining(limits.maxBalanceCents, balanceCents),
+  };
+};
+
+/**
+ * Largest payment a wallet can make right now under its limits (undefined when uncapped)
+ */
+export const getMaxOutgoingCents = (allowance: WalletAllowance): number | undefined => {
+  const caps = [allowance.perTransactionCents, allowance.dailyCents, allowance.monthlyCents].filter(
+    (cap): cap is number => cap !== undefined
+  );
+  return caps.length > 0 ? Math.min(...caps) : undefined;
+};
+
+/**
+ * Check a set of limits before it is saved
+ *
+ * @returns An error message, or null when the limits are valid
+ */
+export const validateWalletLimits = (limits: WalletLimitsModel): string | null => {
+  for (const field of WALLET_LIMIT_FIELDS) {
+    const value = limits[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `${WALLET_LIMIT_LABELS[field]}: the limit can't be negative`;
+    }
+  }
+
+  const { perTransactionCents, dailyCents, monthlyCents } = limits;
+  if (perTransactionCents !== undefined && dailyCents !== undefined && perTransactionCents > dailyCents) {
+    return "The per-transaction limit can't be higher than the daily limit";
+  }
+  if (dailyCents !== undefined && monthlyCents !== undefined && dailyCents > monthlyCents) {
+    return "The daily limit can't be higher than the monthly limit";
+  }
+
+  return null;
+};
@@ -0,0 +1,377 @@
+// Wallet limits
+//
+// Money leaving a wallet (sendMoney, payInvoiceByRef, requestCash) is checked
+// against the wallet's per-transaction, daily and monthly caps with
+// checkOutgoingLimits(); money arriving (a transfer, an invoice payment or a
+// redeemed code) is checked against the receiving wallet's maximum balance with
+// checkIncomingLimit(). Both run before the payment, like the balance check, so
+// the user hears about a limit before being asked for their PIN.
+//
+// The payment itself enforces the limits inside its MongoDB transaction, the way
+// postJournalEntry() guards debits (lib/ledger.ts):
+//
+// - reserveOutgoingLimits() adds the amount to the wallet's day and month counters
+//   (`limit_counters`) with a conditional $inc, so parallel payments can't
+//   together go over a cap. A counter starts from the wallet's transactions when
+//   it is created, and refunded cash requests give their amount back with
+//   releaseOutgoingLimits()
+// - reserveIncomingLimit() writes the receiving wallet only if its balance leaves
+//   room for the amount, so parallel credits conflict and are retried against
+//   the new balance
+//
+// Limits come from the limit profile of the holder's KYC tier unless the wallet has
+// an override. Until a profile is saved for a tier, wallets at that tier have no
+// limits, so wallets opened before limits existed keep working as before.
+
+import type { ClientSession, ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type {
+  KycModel,
+  KycTier,
+  LimitCounterModel,
+  LimitProfileModel,
+  TransactionModel,
+  WalletLimitsModel,
+  WalletModel,
+} from "./db/models";
+import { DEFAULT_KYC_TIER, KYC_TIERS, validateWalletLimits, WALLET_LIMIT_FIELDS } from "./limit-profile";
+import type { WalletLimitUsage } from "./limit-profile";
+
+// Transactions that move money out of the holder's wallet
+const OUTGOING_TRANSACTION_TYPES: TransactionModel["type"][] = ["send", "invoice_payment", "cash_payout"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const limitProfilesCollection = await getCollection<LimitProfileModel>(COLLECTIONS.LIMIT_PROFILES);
+      await limitProfilesCollection.createIndex({ tier: 1 }, { unique: true });
+
+      const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+      await transactionsCollection.createIndex({ userId: 1, type: 1, createdAt: -1 });
+
+      const countersCollection = await getCollection<LimitCounterModel>(COLLECTIONS.LIMIT_COUNTERS);
+      await countersCollection.createIndex({ walletId: 1, period: 1, periodStart: 1 }, { unique: true });
+      await countersCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+const formatCents = (cents: number) => (cents / 100).toFixed(2);
+
+// Start of the day and of the month that `at` falls in (server time)
+const getPeriodStarts = (at: Date): { startOfDay: Date; startOfMonth: Date } => {
+  const startOfDay = new Date(at);
+  startOfDay.setHours(0, 0, 0, 0);
+  const startOfMonth = new Date(startOfDay);
+  startOfMonth.setDate(1);
+  return { startOfDay, startOfMonth };
+};
+
+/**
+ * KYC tier of a user (basic when they have no approved application with a tier)
+ */
+export const getKycTier = async (userId: ObjectId): Promise<KycTier> => {
+  const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
+  const kyc = await kycCollection.findOne({ userId, status: "approved" }, { projection: { tier: 1 } });
+  return kyc?.tier && KYC_TIERS.includes(kyc.tier) ? kyc.tier : DEFAULT_KYC_TIER;
+};
+
+/**
+ * Limit profile of every tier that has one
+ */
+export const getLimitProfiles = async (): Promise<LimitProfileModel[]> => {
+  await ensureIndexes();
+  const limitProfilesCollection = await getCollection<LimitProfileModel>(COLLECTIONS.LIMIT_PROFILES);
+  return limitProfilesCollection.find({}).toArray();
+};
+
+/**
+ * Limit profile of a tier, or null when the tier has none (no limits)
+ */
+export const getLimitProfile = async (tier: KycTier): Promise<LimitProfileModel | null> => {
+  await ensureIndexes();
+  const limitProfilesCollection = await getCollection<LimitProfileModel>(COLLECTIONS.LIMIT_PROFILES);
+  return limitProfilesCollection.findOne({ tier });
+};
+
+/**
+ * Limits that apply to a wallet, and where they come from
+ */
+export const getWalletLimits = async (
+  wallet: WalletModel
+): Promise<{ tier: KycTier; limits: WalletLimitsModel; source: "override" | "tier" }> => {
+  const tier = await getKycTier(wallet.userId);
+  if (wallet.limitOverride) {
+    return { tier, limits: wallet.limitOverride, source: "override" };
+  }
+
+  const profile = await getLimitProfile(tier);
+  return { tier, limits: profile?.limits ?? {}, source: "tier" };
+};
+
+/**
+ * Money that left a wallet since the start of the day and of the month
+ * Refunded cash requests are marked failed and don't count; the cashier's
+ * "paid cash" rows are not money leaving their own wallet.
+ */
+export const getWalletLimitUsage = async (
+  wallet: WalletModel,
+  at: Date = new Date(),
+  session?: ClientSession
+): Promise<WalletLimitUsage> => {
+  await ensureIndexes();
+
+  const { startOfDay, startOfMonth } = getPeriodStarts(at);
+
+  const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+  const [usage] = await transactionsCollection
+    .aggregate<WalletLimitUsage>([
+      {
+        $match: {
+          userId: wallet.userId,
+          type: { $in: OUTGOING_TRANSACTION_TYPES },
+          fromWalletId: wallet.walletId,
+          status: { $ne: "failed" },
+          note: { $ne: "paid cash" },
+          createdAt: { $gte: startOfMonth },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          monthlyCents: { $sum: "$amount" },
+          dailyCents: { $sum: { $cond: [{ $gte: ["$createdAt", startOfDay] }, "$amount", 0] } },
+        },
+      },
+    ], { session })
+    .toArray();
+
+  return { dailyCents: usage?.dailyCents ?? 0, monthlyCents: usage?.monthlyCents ?? 0 };
+};
+
+/**
+ * Check a payment of `amountCents` leaving a wallet against its limits
+ *
+ * @returns An error message for the payer, or null when the payment is allowed
+ */
+export const checkOutgoingLimits = async (wallet: WalletModel, amountCents: number): Promise<string | null> => {
+  const { limits } = await getWalletLimits(wallet);
+  if (limits.perTransactionCents === undefined && limits.dailyCents === undefined && limits.monthlyCents === undefined) {
+    return null;
+  }
+
+  if (limits.perTransactionCents !== undefined && amountCents > limits.perTransactionCents) {
+    return `This is above your limit of ${formatCents(limits.perTransactionCents)} per transaction`;
+  }
+
+  const usage = await getWalletLimitUsage(wallet);
+  if (limits.dailyCents !== undefined && usage.dailyCents + amountCents > limits.dailyCents) {
+    const left = Math.max(limits.dailyCents - usage.dailyCents, 0);
+    return `This would exceed your daily limit of ${formatCents(limits.dailyCents)} (${formatCents(left)} left today)`;
+  }
+  if (limits.monthlyCents !== undefined && usage.monthlyCents + amountCents > limits.monthlyCents) {
+    const left = Math.max(limits.monthlyCents - usage.monthlyCents, 0);
+    return `This would exceed your monthly limit of ${formatCents(limits.monthlyCents)} (${formatCents(left)} left this month)`;
+  }
+
+  return null;
+};
+
+/**
+ * Check `amountCents` arriving in a wallet against its maximum balance
+ *
+ * @returns The amount the wallet can still receive, or null when it can take the payment
+ */
+export const checkIncomingLimit = async (wallet: WalletModel, amountCents: number): Promise<number | null> => {
+  const { limits } = await getWalletLimits(wallet);
+  if (limits.maxBalanceCents === undefined || wallet.balance + amountCents <= limits.maxBalanceCents) {
+    return null;
+  }
+  return Math.max(limits.maxBalanceCents - wallet.balance, 0);
+};
+
+/**
+ * Count a payment of `amountCents` leaving a wallet against its limits, inside the
+ * payment's transaction
+ * The day and month counters are only increased while they stay within their
+ * caps, so the transaction has to be aborted (by throwing) when a message is
+ * returned, which also undoes a counter that was already increased. Call it
+ * before the payment's transaction rows are written, since a new counter starts
+ * from them.
+ *
+ * @returns An error message for the payer, or null when the payment is allowed
+ */
+export const reserveOutgoingLimits = async (
+  session: ClientSession,
+  wallet: WalletModel,
+  amountCents: number
+): Promise<string | null> => {
+  await ensureIndexes();
+
+  const { limits } = await getWalletLimits(wallet);
+  if (limits.perTransactionCents !== undefined && amountCents > limits.perTransactionCents) {
+    return `This is above your limit of ${formatCents(limits.perTransactionCents)} per transaction`;
+  }
+
+  const now = new Date();
+  const { startOfDay, startOfMonth } = getPeriodStarts(now);
+  const periods = [
+    { period: "day" as const, periodStart: startOfDay, capCents: limits.dailyCents, ttlMs: 2 * DAY_MS },
+    { period: "month" as const, periodStart: startOfMonth, capCents: limits.monthlyCents, ttlMs: 32 * DAY_MS },
+  ];
+
+  const countersCollection = await getCollection<LimitCounterModel>(COLLECTIONS.LIMIT_COUNTERS);
+  for (const { period, periodStart, capCents, ttlMs } of periods) {
+    const key = { walletId: wallet.walletId, period, periodStart };
+
+    // Every payment is counted, capped or not, so a cap set later in the period
+    // starts from the right total. A new counter starts from the transactions.
+    if (!(await countersCollection.findOne(key, { projection: { _id: 1 }, session }))) {
+      const usage = await getWalletLimitUsage(wallet, now, session);
+      await countersCollection.updateOne(
+        key,
+        {
+          $setOnInsert: {
+            usedCents: period === "day" ? usage.dailyCents : usage.monthlyCents,
+            updatedAt: now,
+            expiresAt: new Date(periodStart.getTime() + ttlMs),
+          },
+        },
+        { upsert: true, session }
+      );
+    }
+
+    const counted = await countersCollection.updateOne(
+      { ...key, ...(capCents !== undefined && { usedCents: { $lte: capCents - amountCents } }) },
+      { $inc: { usedCents: amountCents }, $set: { updatedAt: now } },
+      { session }
+    );
+    if (counted.matchedCount === 0 && capCents !== undefined) {
+      const counter = await countersCollection.findOne(key, { projection: { usedCents: 1 }, session });
+      const left = formatCents(Math.max(capCents - (counter?.usedCents ?? 0), 0));
+      return period === "day"
+        ? `This would exceed your daily limit of ${formatCents(capCents)} (${left} left today)`
+        : `This would exceed your monthly limit of ${formatCents(capCents)} (${left} left this month)`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Give back what a payment counted against the wallet's limits when it is
+ * refunded (inside the refund's transaction)
+ *
+ * @param at - When the payment was made, which picks the day and month counters
+ */
+export const releaseOutgoingLimits = async (
+  session: ClientSession,
+  walletId: string,
+  amountCents: number,
+  at: Date
+): Promise<void> => {
+  const { startOfDay, startOfMonth } = getPeriodStarts(at);
+  const countersCollection = await getCollection<LimitCounterModel>(COLLECTIONS.LIMIT_COUNTERS);
+  await countersCollection.updateMany(
+    {
+      walletId,
+      $or: [
+        { period: "day", periodStart: startOfDay },
+        { period: "month", periodStart: startOfMonth },
+      ],
+    },
+    { $inc: { usedCents: -amountCents }, $set: { updatedAt: new Date() } },
+    { session }
+  );
+};
+
+/**
+ * Check `amountCents` arriving in a wallet against its maximum balance, inside the
+ * payment's transaction
+ * The wallet is written only when its balance leaves room for the amount, so a
+ * parallel credit to the same wallet conflicts and is retried against the new
+ * balance. Call it before the credit is posted.
+ *
+ * @returns The amount the wallet can still receive, or null when it can take the payment
+ */
+export const reserveIncomingLimit = async (
+  session: ClientSession,
+  wallet: WalletModel,
+  amountCents: number
+): Promise<number | null> => {
+  const { limits } = await getWalletLimits(wallet);
+  if (limits.maxBalanceCents === undefined) {
+    return null;
+  }
+
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const guarded = await walletsCollection.updateOne(
+    { walletId: wallet.walletId, balance: { $lte: limits.maxBalanceCents - amountCents } },
+    { $set: { updatedAt: new Date() } },
+    { session }
+  );
+  if (guarded.matchedCount > 0) {
+    return null;
+  }
+
+  const current = await walletsCollection.findOne(
+    { walletId: wallet.walletId },
+    { projection: { balance: 1 }, session }
+  );
+  return Math.max(limits.maxBalanceCents - (current?.balance ?? 0), 0);
+};
+
+/**
+ * Drop caps that weren't set (an empty field means "no limit") and validate the rest
+ */
+export const normalizeWalletLimits = (limits: WalletLimitsModel): WalletLimitsModel => {
+  const normalized: WalletLimitsModel = {};
+  for (const field of WALLET_LIMIT_FIELDS) {
+    const value = limits[field];
+    if (value !== undefined && value !== null) {
+      normalized[field] = value;
+    }
+  }
+
+  const validationError = validateWalletLimits(normalized);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  return normalized;
+};
+
+/**
+ * Save the limit profile of a KYC tier (replaces the current one)
+ */
+export const saveLimitProfile = async (
+  tier: KycTier,
+  limits: WalletLimitsModel,
+  updatedBy: ObjectId
+): Promise<LimitProfileModel> => {
+  if (!KYC_TIERS.includes(tier)) {
+    throw new Error("Unknown KYC tier");
+  }
+
+  await ensureIndexes();
+
+  const profile: LimitProfileModel = {
+    tier,
+    limits: normalizeWalletLimits(limits),
+    updatedBy,
+    updatedAt: new Date(),
+  };
+
+  const limitProfilesCollection = await getCollection<LimitProfileModel>(COLLECTIONS.LIMIT_PROFILES);
+  await limitProfilesCollection.updateOne({ tier }, { $set: profile }, { upsert: true });
+  return profile;
+};
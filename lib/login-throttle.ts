@@ -0,0 +1,197 @@
+// Sign-in and password reset throttling
+//
+// Attempts are counted in the `login_attempts` collection, once per email and
+// once per IP address, so guessing one account's password and spraying many
+// accounts from one address are both slowed down. Each counter gets a number of
+// free attempts; after that every further attempt locks the key for a delay that
+// doubles each time (up to a cap). Counters are forgotten after a quiet period.
+//
+// - sign_in: only failures count (wrong passwords and wrong 2FA codes alike), and
+//   a completed sign-in clears the email counter. With 2FA that is only once the
+//   code is accepted, not when the password is. Wrong passwords entered to reset
+//   the transaction PIN count here too
+// - password_reset / email_verification: every request counts, so the emails
+//   can't be used to flood an inbox
+//
+// Every sign-in attempt is also written to `login_events` so users can review
+// where their account was accessed from (see getRecentSignIns).
+
+import { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { LoginAttemptModel, LoginEventModel, LoginEventOutcome } from "./db/models";
+import { getRequestMetadata } from "./session";
+
+export type ThrottleScope = "sign_in" | "password_reset" | "email_verification";
+
+interface ThrottleRule {
+  freeAttempts: number; // Attempts allowed before the key starts locking
+  baseDelayMs: number; // First lockout, doubled for every attempt after that
+  maxDelayMs: number;
+  idleResetMs: number; // Counter is dropped after this long without attempts
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const THROTTLE_RULES: Record<ThrottleScope, { email: ThrottleRule; ip: ThrottleRule }> = {
+  sign_in: {
+    email: { freeAttempts: 5, baseDelayMs: 30 * 1000, maxDelayMs: 15 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+    ip: { freeAttempts: 20, baseDelayMs: MINUTE_MS, maxDelayMs: 30 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+  },
+  password_reset: {
+    email: { freeAttempts: 3, baseDelayMs: 10 * MINUTE_MS, maxDelayMs: 60 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+    ip: { freeAttempts: 10, baseDelayMs: 5 * MINUTE_MS, maxDelayMs: 60 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+  },
+  email_verification: {
+    email: { freeAttempts: 3, baseDelayMs: 5 * MINUTE_MS, maxDelayMs: 60 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+    ip: { freeAttempts: 10, baseDelayMs: 5 * MINUTE_MS, maxDelayMs: 60 * MINUTE_MS, idleResetMs: 60 * MINUTE_MS },
+  },
+};
+
+// Sign-in history is kept for 90 days
+const LOGIN_EVENT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const attemptsCollection = await getCollection<LoginAttemptModel>(COLLECTIONS.LOGIN_ATTEMPTS);
+      await attemptsCollection.createIndex({ key: 1 }, { unique: true });
+      await attemptsCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      const eventsCollection = await getCollection<LoginEventModel>(COLLECTIONS.LOGIN_EVENTS);
+      await eventsCollection.createIndex({ userId: 1, createdAt: -1 });
+      await eventsCollection.createIndex({ createdAt: 1 }, { expireAfterSeconds: LOGIN_EVENT_TTL_SECONDS });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+const getThrottleKeys = (
+  scope: ThrottleScope,
+  email: string,
+  ipAddress?: string
+): { key: string; rule: ThrottleRule }[] => {
+  const keys = [{ key: `${scope}:email:${email.toLowerCase()}`, rule: THROTTLE_RULES[scope].email }];
+  if (ipAddress) {
+    keys.push({ key: `${scope}:ip:${ipAddress}`, rule: THROTTLE_RULES[scope].ip });
+  }
+  return keys;
+};
+
+/**
+ * Human-readable wait time for throttle messages ("30 seconds", "4 minutes")
+ */
+export const formatRetryAfter = (retryAfterMs: number): string => {
+  if (retryAfterMs < MINUTE_MS) {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(retryAfterMs / MINUTE_MS);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+/**
+ * How long the caller has to wait before trying again (0 if not throttled)
+ * Checks both the email and the IP counter and returns the longer lock
+ */
+export const getThrottleDelay = async (
+  scope: ThrottleScope,
+  email: string,
+  ipAddress?: string
+): Promise<number> => {
+  await ensureIndexes();
+  const now = new Date();
+  const attemptsCollection = await getCollection<LoginAttemptModel>(COLLECTIONS.LOGIN_ATTEMPTS);
+  const locked = await attemptsCollection
+    .find({
+      key: { $in: getThrottleKeys(scope, email, ipAddress).map(({ key }) => key) },
+      lockedUntil: { $gt: now },
+    })
+    .toArray();
+
+  return locked.reduce(
+    (longest, attempt) => Math.max(longest, (attempt.lockedUntil?.getTime() ?? 0) - now.getTime()),
+    0
+  );
+};
+
+/**
+ * Count an attempt against the email and IP counters, locking any counter past its free attempts
+ */
+export const registerThrottledAttempt = async (
+  scope: ThrottleScope,
+  email: string,
+  ipAddress?: string
+): Promise<void> => {
+  await ensureIndexes();
+  const attemptsCollection = await getCollection<LoginAttemptModel>(COLLECTIONS.LOGIN_ATTEMPTS);
+
+  for (const { key, rule } of getThrottleKeys(scope, email, ipAddress)) {
+    const now = new Date();
+
+    // The TTL monitor only runs once a minute, so drop stale counters ourselves
+    await attemptsCollection.deleteOne({ key, expiresAt: { $lte: now } });
+
+    // Count atomically so parallel attempts can't get around the limit
+    const attempt = await attemptsCollection.findOneAndUpdate(
+      { key },
+      {
+        $inc: { count: 1 },
+        $set: { lastAttemptAt: now, expiresAt: new Date(now.getTime() + rule.idleResetMs) },
+      },
+      { upsert: true, returnDocument: "after" }
+    );
+
+    const count = attempt?.count ?? 1;
+    if (count < rule.freeAttempts) continue;
+
+    const delayMs = Math.min(rule.baseDelayMs * 2 ** (count - rule.freeAttempts), rule.maxDelayMs);
+    const lockedUntil = new Date(now.getTime() + delayMs);
+    await attemptsCollection.updateOne(
+      { key },
+      // Keep the counter around for a full quiet period after the lock ends
+      { $set: { lockedUntil, expiresAt: new Date(lockedUntil.getTime() + rule.idleResetMs) } }
+    );
+  }
+};
+
+/**
+ * Forget the email counter after a completed sign-in
+ * The IP counter is left alone so one good account can't reset a password spray
+ */
+export const clearThrottledAttempts = async (scope: ThrottleScope, email: string): Promise<void> => {
+  const attemptsCollection = await getCollection<LoginAttemptModel>(COLLECTIONS.LOGIN_ATTEMPTS);
+  await attemptsCollection.deleteOne({ key: `${scope}:email:${email.toLowerCase()}` });
+};
+
+/**
+ * Record a sign-in attempt in the user's sign-in history
+ * Failures are logged rather than thrown so history never blocks a sign-in
+ */
+export const recordLoginEvent = async (event: {
+  email: string;
+  outcome: LoginEventOutcome;
+  userId?: ObjectId;
+}): Promise<void> => {
+  try {
+    await ensureIndexes();
+    const { userAgent, ipAddress } = await getRequestMetadata();
+    const eventsCollection = await getCollection<LoginEventModel>(COLLECTIONS.LOGIN_EVENTS);
+    await eventsCollection.insertOne({
+      ...(event.userId && { userId: event.userId }),
+      email: event.email.toLowerCase(),
+      outcome: event.outcome,
+      ipAddress,
+      userAgent,
+      createdAt: new Date(),
+    });
+  } catch (error) {
+    console.error("Error recording login event:", error);
+  }
+};
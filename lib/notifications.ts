@@ -0,0 +1,76 @@
+// In-app notifications created by server code
+//
+// Kept out of lib/server-actions so it can't be called from the browser: only
+// the server decides who is notified, and of what. Users read and mark their
+// notifications through lib/server-actions/notifications.ts.
+
+import { ObjectId, type ClientSession } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { NotificationModel } from "./db/models";
+
+/**
+ * Create a notification
+ * Pass `options.session` to create it as part of a transaction; errors are then
+ * rethrown so the whole transaction rolls back
+ */
+export const createNotification = async (data: {
+  userId: string;
+  type: "transaction" | "post" | "event_approval" | "message" | "contact_message" | "security";
+  title: string;
+  message: string;
+  link?: string;
+  meta?: {
+    transactionId?: string;
+    postId?: string;
+    eventId?: string;
+    messageId?: string;
+    contactMessageId?: string;
+  };
+}, options?: { session?: ClientSession }) => {
+  try {
+    if (!data.userId || !ObjectId.isValid(data.userId)) {
+      return { success: false, error: "Invalid user ID" };
+    }
+
+    const notificationsCollection = await getCollection<NotificationModel>(
+      COLLECTIONS.NOTIFICATIONS
+    );
+
+    const notification: NotificationModel = {
+      userId: new ObjectId(data.userId),
+      type: data.type,
+      title: data.title,
+      message: data.message,
+      read: false,
+      link: data.link,
+      meta: data.meta
+        ? {
+            transactionId: data.meta.transactionId
+              ? new ObjectId(data.meta.transactionId)
+              : undefined,
+            postId: data.meta.postId ? new ObjectId(data.meta.postId) : undefined,
+            eventId: data.meta.eventId ? new ObjectId(data.meta.eventId) : undefined,
+            messageId: data.meta.messageId ? new ObjectId(data.meta.messageId) : undefined,
+            contactMessageId: data.meta.contactMessageId
+              ? new ObjectId(data.meta.contactMessageId)
+              : undefined,
+          }
+        : undefined,
+      createdAt: new Date(),
+    };
+
+    await notificationsCollection.insertOne(notification, { session: options?.session });
+
+    return { success: true };
+  } catch (error) {
+    if (options?.session) {
+      throw error;
+    }
+    console.error("Error creating notification:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create notification",
+    };
+  }
+};
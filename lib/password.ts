@@ -0,0 +1,97 @@
+// Password hashing
+//
+// Passwords are hashed with scrypt and stored in a versioned, self-describing
+// format so the work factor can be raised later without breaking old hashes:
+//
+//   scrypt$N=32768,r=8,p=1$<salt base64>$<hash base64>
+//
+// Hashes from before this format (`salt:hash`, PBKDF2-SHA512 with 1000
+// iterations) are still accepted. verifyPassword() reports them (and scrypt
+// hashes with outdated parameters) as needing a rehash, and signIn replaces
+// them with a current hash once the user has proven they know the password.
+
+import crypto from "crypto";
+
+const SCRYPT_PREFIX = "scrypt";
+
+interface ScryptParams {
+  N: number; // CPU/memory cost
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+// ~32 MiB of memory per hash (128 * N * r)
+const CURRENT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const scrypt = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey))
+    );
+  });
+};
+
+const formatParams = ({ N, r, p }: ScryptParams): string => `N=${N},r=${r},p=${p}`;
+
+// Every hash created with the current parameters starts with this prefix
+export const CURRENT_PASSWORD_HASH_PREFIX = `${SCRYPT_PREFIX}$${formatParams(CURRENT_PARAMS)}$`;
+
+const parseParams = (value: string): ScryptParams | null => {
+  const match = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(value);
+  if (!match) return null;
+  return { N: Number(match[1]), r: Number(match[2]), p: Number(match[3]) };
+};
+
+/**
+ * Check whether a stored hash uses the pre-scrypt `salt:hash` format
+ */
+export const isLegacyPasswordHash = (storedHash: string): boolean => {
+  return !storedHash.startsWith(`${SCRYPT_PREFIX}$`);
+};
+
+/**
+ * Hash a password with scrypt using the current parameters
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, CURRENT_PARAMS);
+  return [SCRYPT_PREFIX, formatParams(CURRENT_PARAMS), salt.toString("base64"), hash.toString("base64")].join("$");
+};
+
+/**
+ * Verify a password against a stored hash in constant time
+ * `needsRehash` is true when the password is valid but the stored hash is in the
+ * legacy format or uses outdated parameters
+ */
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> => {
+  if (isLegacyPasswordHash(storedHash)) {
+    const [salt, hash] = storedHash.split(":");
+    if (!salt || !hash) return { valid: false, needsRehash: false };
+
+    const expected = Buffer.from(hash, "hex");
+    const actual = crypto.pbkdf2Sync(password, salt, 1000, 64, "sha512");
+    const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, paramsValue, saltValue, hashValue] = storedHash.split("$");
+  const params = paramsValue ? parseParams(paramsValue) : null;
+  if (!params || !saltValue || !hashValue) return { valid: false, needsRehash: false };
+
+  const expected = Buffer.from(hashValue, "base64");
+  const actual = await scrypt(password, Buffer.from(saltValue, "base64"), params);
+  const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  const outdated = !storedHash.startsWith(CURRENT_PASSWORD_HASH_PREFIX);
+
+  return { valid, needsRehash: valid && outdated };
+};
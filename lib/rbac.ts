@@ -5,15 +5,112 @@
 // 2. employee, journalist - Content creators and staff
 // 3. finance - Financial operations (cash payouts)
 // 4. admin - Full system access and management
+//
+// Server actions enforce access through the guards in lib/authz.ts, which
+// check the named permissions below. Roles are stored in the `roles` collection
+// as bundles of permissions; the five built-in roles are seeded from
+// DEFAULT_ROLES and admins can add custom roles from the Permission tab.
 
-export type Role = "admin" | "journalist" | "finance" | "employee" | "user";
+export type BuiltInRole = "admin" | "journalist" | "finance" | "employee" | "user";
+
+// Custom roles are referenced by their name, so any string is a valid role
+export type Role = BuiltInRole | (string & {});
+
+/**
+ * Named permissions that can be bundled into roles
+ * The description is shown next to each checkbox in the role editor
+ */
+export const PERMISSIONS = {
+  "users.manage": "View users, change their roles and delete accounts",
+  "roles.manage": "Create, edit and delete roles",
+  "stats.view": "View platform statistics",
+  "wallet.view": "View all wallets and their transaction logs",
+  "wallet.create": "Create wallets for users",
+  "wallet.suspend": "Suspend, reactivate and delete wallets",
+  "kyc.review": "Approve or reject KYC applications",
+  "limits.manage": "Change limit profiles, KYC tiers and per-wallet limits",
+  "fees.view": "View the fee ledger and withdrawal pool",
+  "fees.edit": "Change fee schedules",
+  "fees.deposit": "Deposit collected system fees into the admin wallet",
+  "redeem.generate": "Generate, print and delete redeem codes",
+  "cash.payout": "Look up and pay out cash withdrawals",
+  "refunds.approve": "Approve or reject refund requests for any transfer",
+  "events.moderate": "Approve or reject pending events",
+  "news.publish": "Publish news posts",
+  "news.moderate": "View and manage all posts",
+  "messages.manage": "Read contact messages and message users",
+  "settings.edit": "Change system settings such as maintenance mode and the hero section",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export interface RoleDefinition {
+  name: Role;
+  label: string;
+  description: string;
+  permissions: Permission[];
+}
+
+/**
+ * Built-in roles seeded into the `roles` collection
+ * Admin always holds every permission so the platform can't be locked out
+ */
+export const DEFAULT_ROLES: Record<BuiltInRole, RoleDefinition> = {
+  user: {
+    name: "user",
+    label: "User",
+    description: "Basic user with wallet access",
+    permissions: [],
+  },
+  employee: {
+    name: "employee",
+    label: "Employee",
+    description: "Staff who review KYC applications",
+    permissions: ["kyc.review", "news.publish"],
+  },
+  journalist: {
+    name: "journalist",
+    label: "Journalist",
+    description: "Publishes news posts",
+    permissions: ["news.publish"],
+  },
+  finance: {
+    name: "finance",
+    label: "Finance",
+    description: "Pays out cash withdrawals",
+    permissions: ["cash.payout"],
+  },
+  admin: {
+    name: "admin",
+    label: "Admin",
+    description: "Full system access and management",
+    permissions: ALL_PERMISSIONS,
+  },
+};
+
+export function isBuiltInRole(role: Role): role is BuiltInRole {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_ROLES, role);
+}
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+/**
+ * Roles other than "user" carry staff permissions and require a wallet
+ */
+export function roleRequiresWallet(role: Role): boolean {
+  return role !== "user";
+}
 
 /**
  * Checks if a user role has sufficient permissions for a required role
  * Uses hierarchical permission system where higher roles inherit lower role permissions
  */
 export function hasPermission(userRole: Role, requiredRole: Role): boolean {
-  const roleHierarchy: Record<Role, number> = {
+  const roleHierarchy: Record<BuiltInRole, number> = {
     user: 1,
     employee: 2,
     journalist: 2,
@@ -21,23 +118,27 @@ export function hasPermission(userRole: Role, requiredRole: Role): boolean {
     admin: 4, // Highest privilege level - can access all features
   };
   
-  return roleHierarchy[userRole] >= roleHierarchy[requiredRole];
+  // Custom roles rank as "user" here; their access comes from their permissions
+  const rank = (role: Role) => (isBuiltInRole(role) ? roleHierarchy[role] : 1);
+
+  return rank(userRole) >= rank(requiredRole);
 }
 
 /**
- * Checks if user can publish news articles
- * Allowed: journalist, admin
+ * Checks if a user's resolved permissions (see getRolePermissions in lib/roles.ts)
+ * include the given permission
  */
-export function canPublishNews(userRole: Role): boolean {
-  return userRole === "journalist" || userRole === "admin";
+export function can(permissions: readonly Permission[] | undefined, permission: Permission): boolean {
+  return !!permissions?.includes(permission);
 }
 
 /**
- * Checks if user can moderate content (events, jobs, ads)
- * Allowed: admin only
+ * The permissions in `requested` that are missing from `held`
+ * Staff can only hand out access they hold themselves, so a delegated
+ * users.manage or roles.manage can't be turned into more access
  */
-export function canModerate(userRole: Role): boolean {
-  return userRole === "admin";
+export function getPermissionsNotHeld(held: readonly Permission[], requested: readonly Permission[]): Permission[] {
+  return requested.filter((permission) => !held.includes(permission));
 }
 
 /**
@@ -58,18 +159,17 @@ export function isAdmin(userRole: Role): boolean {
 }
 
 /**
- * Checks if user can review KYC applications
- * Allowed: admin, employee
- */
-export function canReviewKYC(userRole: Role): boolean {
-  return userRole === "admin" || userRole === "employee";
-}
-
-/**
- * Checks if user can handle finance operations (cash payouts)
- * Allowed: admin, finance
+ * Checks if a staff member may act on another user's account (change their
+ * role, reset their 2FA, delete it)
+ * Admins may act on anyone; a delegated users.manage only reaches users who
+ * aren't admins and whose role grants nothing the actor doesn't hold
  */
-export function canHandleFinance(userRole: Role): boolean {
-  return userRole === "admin" || userRole === "finance";
+export function canManageUser(
+  actorRole: Role,
+  actorPermissions: readonly Permission[],
+  targetRole: Role,
+  targetPermissions: readonly Permission[]
+): boolean {
+  if (isAdmin(actorRole)) return true;
+  return !isAdmin(targetRole) && getPermissionsNotHeld(actorPermissions, targetPermissions).length === 0;
 }
-
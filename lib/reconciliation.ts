@@ -0,0 +1,231 @@
+// Balance reconciliation
+//
+// Checks that the cached wallet balances still agree with the history behind them.
+// For every wallet it compares three figures:
+//
+// - stored:   WalletModel.balance
+// - ledger:   the sum of the wallet's journal postings (lib/ledger.ts)
+// - replayed: the balance rebuilt from the wallet's `transactions` rows
+//
+// A pending cash withdrawal has already left the wallet (it waits in the payout
+// pool), so it counts as a debit until it fails and is refunded. Ticket revenue
+// only reaches the creator's wallet through the deposit row; the pending "receive"
+// rows written at purchase time are undeposited revenue and don't count.
+//
+// It also checks the platform as a whole: everything held for users (wallet
+// balances, the payout pool, undeposited fees and ticket revenue, unredeemed codes)
+// must equal the redeem value issued, minus cash paid out, plus manual credits.
+//
+// Each run is stored in reconciliation_runs and shown on /admin/wallets/reconciliation.
+// Run it from the command line with scripts/reconcile-balances.ts.
+
+import type { ObjectId } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type {
+  FeeModel,
+  JournalEntryKind,
+  JournalEntryModel,
+  PendingWithdrawalModel,
+  ReconciliationRunModel,
+  ReconciliationTotalsModel,
+  RedeemCodeModel,
+  TicketModel,
+  TransactionModel,
+  WalletDriftModel,
+  WalletModel,
+} from "./db/models";
+
+/**
+ * Effect of one transaction row on its owner's wallet balance, in cents
+ *
+ * @param walletId - The owner's wallet; tells which side of a reversal the row is on
+ */
+export const replayTransaction = (transaction: TransactionModel, walletId: string): number => {
+  if (transaction.status === "failed") {
+    return 0;
+  }
+  const settled = transaction.status === "success" || transaction.status === "completed";
+
+  switch (transaction.type) {
+    case "send":
+    case "invoice_payment":
+      // The sender also paid the fee
+      return settled ? -(transaction.amount + (transaction.feeCents ?? 0)) : 0;
+    case "ticket_payout":
+      return settled ? -transaction.amount : 0;
+    case "receive":
+      // Ticket revenue is credited by the creator's deposit row instead
+      return settled && !transaction.meta?.eventId ? transaction.amount : 0;
+    case "deposit":
+    case "redeem":
+      return settled ? transaction.amount : 0;
+    case "cash_payout":
+      // "paid cash" rows record the cashier handing out money; they don't touch
+      // the cashier's wallet. The requester's row is debited from the moment the
+      // request is made, and the fee comes out of the pool, not the wallet.
+      return transaction.note === "paid cash" ? 0 : -transaction.amount;
+    case "reversal":
+      // The original sender gets the money back; the original recipient returns it
+      if (!settled) {
+        return 0;
+      }
+      return transaction.toWalletId === walletId ? transaction.amount : -transaction.amount;
+    default:
+      // "fee" rows belong to the platform
+      return 0;
+  }
+};
+
+const sumAmounts = <T>(documents: T[], amount: (document: T) => number): number =>
+  documents.reduce((sum, document) => sum + amount(document), 0);
+
+// Movements in and out of the platform, from the external cash account's postings
+const getExternalInflowByKind = async (): Promise<Map<JournalEntryKind, number>> => {
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  const rows = await journalCollection
+    .aggregate<{ _id: JournalEntryKind; inflow: number }>([
+      { $unwind: "$postings" },
+      { $match: { "postings.accountType": "external_cash" } },
+      { $group: { _id: "$kind", inflow: { $sum: { $subtract: ["$postings.debit", "$postings.credit"] } } } },
+    ])
+    .toArray();
+  return new Map(rows.map((row) => [row._id, row.inflow]));
+};
+
+const getLedgerWalletBalances = async (): Promise<Map<string, number>> => {
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+  const rows = await journalCollection
+    .aggregate<{ _id: string; balance: number }>([
+      { $unwind: "$postings" },
+      { $match: { "postings.accountType": "wallet" } },
+      { $group: { _id: "$postings.walletId", balance: { $sum: { $subtract: ["$postings.credit", "$postings.debit"] } } } },
+    ])
+    .toArray();
+  return new Map(rows.map((row) => [row._id, row.balance]));
+};
+
+const getReconciliationTotals = async (walletBalancesCents: number): Promise<ReconciliationTotalsModel> => {
+  const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
+  const pendingWithdrawals = await pendingWithdrawalsCollection.find({ status: "pending" }).toArray();
+
+  const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+  const undepositedFees = await feesCollection.find({ deposited: { $ne: true } }).toArray();
+
+  const ticketsCollection = await getCollection<TicketModel>(COLLECTIONS.TICKETS);
+  const undepositedTickets = await ticketsCollection
+    .find({ deposited: { $ne: true }, qty: 1, serialNumber: { $exists: true } })
+    .toArray();
+
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  const unusedCodes = await redeemCodesCollection.find({ used: false, voided: { $ne: true } }).toArray();
+
+  const pendingWithdrawalsCents = sumAmounts(pendingWithdrawals, (withdrawal) => withdrawal.amount);
+  const undepositedFeesCents = sumAmounts(undepositedFees, (fee) => fee.amount);
+  const undepositedTicketRevenueCents = sumAmounts(undepositedTickets, (ticket) => ticket.netCents);
+  const unredeemedCodesCents = sumAmounts(unusedCodes, (code) => code.amount);
+
+  const inflowByKind = await getExternalInflowByKind();
+  const issuedRedeemCents = (inflowByKind.get("redeem_issue") ?? 0) + (inflowByKind.get("redeem_void") ?? 0);
+  const cashPaidOutCents = -(inflowByKind.get("cash_payout") ?? 0);
+  const otherNetInflowCents = Array.from(inflowByKind)
+    .filter(([kind]) => kind !== "redeem_issue" && kind !== "redeem_void" && kind !== "cash_payout")
+    .reduce((sum, [, inflow]) => sum + inflow, 0);
+
+  return {
+    walletBalancesCents,
+    pendingWithdrawalsCents,
+    undepositedFeesCents,
+    undepositedTicketRevenueCents,
+    unredeemedCodesCents,
+    heldCents:
+      walletBalancesCents +
+      pendingWithdrawalsCents +
+      undepositedFeesCents +
+      undepositedTicketRevenueCents +
+      unredeemedCodesCents,
+    issuedRedeemCents,
+    cashPaidOutCents,
+    otherNetInflowCents,
+    expectedCents: issuedRedeemCents - cashPaidOutCents + otherNetInflowCents,
+  };
+};
+
+/**
+ * Reconcile every wallet and the platform totals, and store the run
+ * Only reads balances; fixing drift is left to an admin.
+ */
+export const runReconciliation = async (options: {
+  trigger: ReconciliationRunModel["trigger"];
+  triggeredBy?: ObjectId;
+}): Promise<ReconciliationRunModel> => {
+  const startedAt = new Date();
+
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const wallets = await walletsCollection
+    .find({}, { projection: { walletId: 1, userId: 1, status: 1, balance: 1 } })
+    .toArray();
+
+  // Replay the history of every wallet holder
+  const replayed = new Map<string, { walletId: string; balance: number; count: number }>();
+  for (const wallet of wallets) {
+    replayed.set(wallet.userId.toString(), { walletId: wallet.walletId, balance: 0, count: 0 });
+  }
+  const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+  const transactions = transactionsCollection.find(
+    { userId: { $exists: true } },
+    { projection: { userId: 1, type: 1, amount: 1, feeCents: 1, status: 1, note: 1, meta: 1, toWalletId: 1 } }
+  );
+  for await (const transaction of transactions) {
+    const holder = transaction.userId ? replayed.get(transaction.userId.toString()) : undefined;
+    if (holder) {
+      holder.balance += replayTransaction(transaction, holder.walletId);
+      holder.count += 1;
+    }
+  }
+
+  const ledgerBalances = await getLedgerWalletBalances();
+
+  const drift: WalletDriftModel[] = [];
+  for (const wallet of wallets) {
+    const history = replayed.get(wallet.userId.toString()) ?? { balance: 0, count: 0 };
+    const ledgerCents = ledgerBalances.get(wallet.walletId) ?? 0;
+    if (ledgerCents !== wallet.balance || history.balance !== wallet.balance) {
+      drift.push({
+        walletId: wallet.walletId,
+        userId: wallet.userId,
+        status: wallet.status,
+        storedCents: wallet.balance,
+        ledgerCents,
+        replayedCents: history.balance,
+        transactionCount: history.count,
+      });
+    }
+  }
+
+  const totals = await getReconciliationTotals(sumAmounts(wallets, (wallet) => wallet.balance));
+
+  const run: ReconciliationRunModel = {
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy,
+    walletCount: wallets.length,
+    drift,
+    totals,
+    totalsMatch: totals.heldCents === totals.expectedCents,
+    startedAt,
+    finishedAt: new Date(),
+  };
+
+  const runsCollection = await getCollection<ReconciliationRunModel>(COLLECTIONS.RECONCILIATION_RUNS);
+  await runsCollection.insertOne(run);
+
+  return run;
+};
+
+/**
+ * Most recent reconciliation run, if any
+ */
+export const getLatestReconciliationRun = async (): Promise<ReconciliationRunModel | null> => {
+  const runsCollection = await getCollection<ReconciliationRunModel>(COLLECTIONS.RECONCILIATION_RUNS);
+  return runsCollection.findOne({}, { sort: { startedAt: -1 } });
+};
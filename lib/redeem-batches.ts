@@ -0,0 +1,370 @@
+// Redeem code batches for physical scratch cards
+//
+// A batch is `count` codes of one face value with consecutive serial numbers.
+// Its face value is owed from the moment it is created (a redeem_issue entry,
+// like a single code), but its codes can only be redeemed once the batch is
+// activated:
+//
+//   created → printed → activated → assigned (to a distributor or agent)
+//
+// Printing re-keys every unused code and hands the plaintext out once, so codes
+// never exist in readable form before the batch is sent to print, and a batch
+// can be printed again until it is activated. Each print is recorded as a print
+// run (lib/redeem-print.ts). Voiding a batch (or a single code
+// in it) cancels the unused codes and releases what they were worth (redeem_void).
+
+import { ObjectId } from "mongodb";
+import { getCollection, withTransaction } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { RedeemBatchModel, RedeemBatchStatus, RedeemCodeModel } from "./db/models";
+import { postJournalEntry, debit, credit, REDEEM_LIABILITY_ACCOUNT, EXTERNAL_CASH_ACCOUNT } from "./ledger";
+import { createRedeemCodeSecrets } from "./redeem-codes";
+import { issuePrintSecrets, recordRedeemPrintRun } from "./redeem-print";
+import { formatRedeemSerial } from "./redeem-code-format";
+
+export const MAX_REDEEM_BATCH_SIZE = 5000;
+
+// Codes of batches in these states can be redeemed
+const REDEEMABLE_BATCH_STATUSES: RedeemBatchStatus[] = ["activated", "assigned"];
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+      await batchesCollection.createIndex({ serialStart: 1 }, { unique: true });
+
+      const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+      await redeemCodesCollection.createIndex({ batchId: 1, serial: 1 });
+      await redeemCodesCollection.createIndex(
+        { serial: 1 },
+        { unique: true, partialFilterExpression: { serial: { $type: "number" } } }
+      );
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+export const formatSerialRange = (batch: Pick<RedeemBatchModel, "serialStart" | "serialEnd">): string => {
+  return `${formatRedeemSerial(batch.serialStart)}–${formatRedeemSerial(batch.serialEnd)}`;
+};
+
+export interface RedeemBatchSummary {
+  batch: RedeemBatchModel;
+  redeemed: number;
+  voided: number;
+  outstanding: number; // Codes that can still be redeemed (or will be, once activated)
+  outstandingCents: number; // Liability the batch still carries
+}
+
+/**
+ * Create a batch and its codes, and record what they are worth as owed
+ */
+export const createRedeemBatch = async (
+  input: { label?: string; count: number; amountCents: number; expiresAt?: Date },
+  createdBy: ObjectId
+): Promise<RedeemBatchModel> => {
+  if (!Number.isInteger(input.count) || input.count < 1 || input.count > MAX_REDEEM_BATCH_SIZE) {
+    throw new Error(`A batch holds between 1 and ${MAX_REDEEM_BATCH_SIZE} codes`);
+  }
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    throw new Error("Face value must be greater than 0");
+  }
+
+  await ensureIndexes();
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  // Serial numbers carry on from the last batch; the unique index on serialStart
+  // makes a concurrent batch fail instead of overlapping
+  const lastBatch = await batchesCollection.findOne({}, { sort: { serialEnd: -1 }, projection: { serialEnd: 1 } });
+  const serialStart = (lastBatch?.serialEnd ?? 0) + 1;
+  const now = new Date();
+
+  const batch: RedeemBatchModel = {
+    _id: new ObjectId(),
+    label: input.label?.trim() || undefined,
+    serialStart,
+    serialEnd: serialStart + input.count - 1,
+    count: input.count,
+    amount: input.amountCents,
+    expiresAt: input.expiresAt,
+    status: "created",
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // The plaintext is thrown away: printing the batch issues fresh secrets
+  const codes: RedeemCodeModel[] = [];
+  for (let i = 0; i < input.count; i++) {
+    const { codeHash, codeLast4, pinHash } = await createRedeemCodeSecrets();
+    codes.push({
+      codeHash,
+      codeLast4,
+      pinHash,
+      amount: input.amountCents,
+      used: false,
+      batchId: batch._id,
+      serial: serialStart + i,
+      expiresAt: input.expiresAt,
+      createdAt: now,
+      createdBy,
+    });
+  }
+
+  const totalCents = input.amountCents * input.count;
+  await withTransaction(async (session) => {
+    await batchesCollection.insertOne(batch, { session });
+    await redeemCodesCollection.insertMany(codes, { session });
+    await postJournalEntry(session, {
+      kind: "redeem_issue",
+      postings: [debit(EXTERNAL_CASH_ACCOUNT, totalCents), credit(REDEEM_LIABILITY_ACCOUNT, totalCents)],
+      createdBy,
+      note: `Redeem batch ${formatSerialRange(batch)}`,
+    });
+  });
+
+  return batch;
+};
+
+/**
+ * Every batch (newest first) with how many of its codes were redeemed, voided or are still owed
+ */
+export const getRedeemBatchSummaries = async (): Promise<RedeemBatchSummary[]> => {
+  await ensureIndexes();
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  const [batches, counts] = await Promise.all([
+    batchesCollection.find({}).sort({ createdAt: -1 }).toArray(),
+    redeemCodesCollection
+      .aggregate<{ _id: ObjectId; redeemed: number; voided: number; outstanding: number; outstandingCents: number }>([
+        { $match: { batchId: { $exists: true } } },
+        {
+          $group: {
+            _id: "$batchId",
+            redeemed: { $sum: { $cond: ["$used", 1, 0] } },
+            voided: { $sum: { $cond: [{ $eq: ["$voided", true] }, 1, 0] } },
+            outstanding: {
+              $sum: { $cond: [{ $or: ["$used", { $eq: ["$voided", true] }] }, 0, 1] },
+            },
+            outstandingCents: {
+              $sum: { $cond: [{ $or: ["$used", { $eq: ["$voided", true] }] }, 0, "$amount"] },
+            },
+          },
+        },
+      ])
+      .toArray(),
+  ]);
+
+  return batches.map((batch) => {
+    const batchCounts = counts.find((count) => batch._id && count._id.equals(batch._id));
+    return {
+      batch,
+      redeemed: batchCounts?.redeemed ?? 0,
+      voided: batchCounts?.voided ?? 0,
+      outstanding: batchCounts?.outstanding ?? 0,
+      outstandingCents: batchCounts?.outstandingCents ?? 0,
+    };
+  });
+};
+
+/**
+ * Issue fresh secrets for every unused code of a batch and mark it printed
+ * Only before activation, so cards already handed out never stop working
+ *
+ * @returns The plaintext for the print file, in serial order; it can't be fetched again
+ */
+export const printRedeemBatch = async (
+  batchId: ObjectId,
+  printedBy: ObjectId
+): Promise<{
+  batch: RedeemBatchModel;
+  printRunId: ObjectId;
+  codes: { serial: number; code: string; pin: string }[];
+}> => {
+  await ensureIndexes();
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  const batch = await batchesCollection.findOne({ _id: batchId });
+  if (!batch) {
+    throw new Error("Batch not found");
+  }
+  if (batch.status !== "created" && batch.status !== "printed") {
+    throw new Error("Only batches that haven't been activated can be printed");
+  }
+
+  const codes = await redeemCodesCollection
+    .find({ batchId, used: false, voided: { $ne: true } }, { projection: { _id: 1, serial: 1, printCount: 1 } })
+    .sort({ serial: 1 })
+    .toArray();
+
+  const now = new Date();
+  const printRunId = new ObjectId();
+  const { secrets, updates, reprintedCodeIds } = await issuePrintSecrets(codes, printRunId, now);
+  const printed = codes.map((code) => {
+    const { code: plaintext, pin } = secrets.get(code._id!.toString())!;
+    return { serial: code.serial ?? 0, code: plaintext, pin };
+  });
+
+  await withTransaction(async (session) => {
+    // The status check is repeated so an activation in the meantime wins
+    const marked = await batchesCollection.updateOne(
+      { _id: batchId, status: { $in: ["created", "printed"] } },
+      { $set: { status: "printed", printedAt: now, updatedAt: now } },
+      { session }
+    );
+    if (marked.matchedCount === 0) {
+      throw new Error("Only batches that haven't been activated can be printed");
+    }
+    await recordRedeemPrintRun(
+      session,
+      {
+        _id: printRunId,
+        format: "csv",
+        cardIds: [],
+        batchId,
+        redeemCodeIds: codes.map((code) => code._id!),
+        reprintedCodeIds,
+        createdBy: printedBy,
+        createdAt: now,
+      },
+      updates
+    );
+  });
+
+  return { batch: { ...batch, status: "printed", printedAt: now, updatedAt: now }, printRunId, codes: printed };
+};
+
+/**
+ * Move a batch to activated (from printed) or assigned (from activated, or to a new distributor)
+ */
+export const advanceRedeemBatch = async (
+  batchId: ObjectId,
+  status: "activated" | "assigned",
+  distributor?: string
+): Promise<void> => {
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const now = new Date();
+
+  if (status === "activated") {
+    const result = await batchesCollection.updateOne(
+      { _id: batchId, status: "printed" },
+      { $set: { status: "activated", activatedAt: now, updatedAt: now } }
+    );
+    if (result.matchedCount === 0) {
+      throw new Error("Only printed batches can be activated");
+    }
+    return;
+  }
+
+  if (!distributor?.trim()) {
+    throw new Error("Enter the distributor or agent the batch was handed to");
+  }
+  const result = await batchesCollection.updateOne(
+    { _id: batchId, status: { $in: ["activated", "assigned"] } },
+    { $set: { status: "assigned", distributor: distributor.trim(), assignedAt: now, updatedAt: now } }
+  );
+  if (result.matchedCount === 0) {
+    throw new Error("Only activated batches can be assigned");
+  }
+};
+
+/**
+ * Void the unused codes of a batch, or only the one with `serial`
+ * Voiding every code voids the batch itself
+ *
+ * @returns How many codes were voided and what they were worth
+ */
+export const voidRedeemBatchCodes = async (
+  batchId: ObjectId,
+  voidedBy: ObjectId,
+  serial?: number
+): Promise<{ voided: number; voidedCents: number }> => {
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  const batch = await batchesCollection.findOne({ _id: batchId });
+  if (!batch) {
+    throw new Error("Batch not found");
+  }
+  if (batch.status === "voided") {
+    throw new Error("This batch has already been voided");
+  }
+
+  return withTransaction(async (session) => {
+    const filter = {
+      batchId,
+      used: false,
+      voided: { $ne: true },
+      ...(serial !== undefined && { serial }),
+    };
+    const codes = await redeemCodesCollection.find(filter, { session, projection: { amount: 1 } }).toArray();
+    if (serial !== undefined && codes.length === 0) {
+      throw new Error(`No unused code with serial ${formatRedeemSerial(serial)} in this batch`);
+    }
+
+    const now = new Date();
+    await redeemCodesCollection.updateMany(
+      { _id: { $in: codes.map((code) => code._id!) }, used: false },
+      { $set: { voided: true, voidedAt: now, voidedBy } },
+      { session }
+    );
+
+    const remaining = await redeemCodesCollection.countDocuments(
+      { batchId, used: false, voided: { $ne: true } },
+      { session }
+    );
+    if (serial === undefined || remaining === 0) {
+      await batchesCollection.updateOne(
+        { _id: batchId },
+        { $set: { status: "voided", voidedAt: now, updatedAt: now } },
+        { session }
+      );
+    }
+
+    const voidedCents = codes.reduce((sum, code) => sum + code.amount, 0);
+    if (voidedCents > 0) {
+      await postJournalEntry(session, {
+        kind: "redeem_void",
+        postings: [debit(REDEEM_LIABILITY_ACCOUNT, voidedCents), credit(EXTERNAL_CASH_ACCOUNT, voidedCents)],
+        createdBy: voidedBy,
+        note:
+          serial === undefined
+            ? `Voided redeem batch ${formatSerialRange(batch)}`
+            : `Voided redeem code ${formatRedeemSerial(serial)}`,
+      });
+    }
+
+    return { voided: codes.length, voidedCents };
+  });
+};
+
+/**
+ * Why a code can't be redeemed because of its batch, or null when it can
+ */
+export const getRedeemBatchError = async (redeemCode: RedeemCodeModel): Promise<string | null> => {
+  if (redeemCode.voided) {
+    return "This code has been voided";
+  }
+  if (!redeemCode.batchId) {
+    return null;
+  }
+
+  const batchesCollection = await getCollection<RedeemBatchModel>(COLLECTIONS.REDEEM_BATCHES);
+  const batch = await batchesCollection.findOne({ _id: redeemCode.batchId }, { projection: { status: 1 } });
+  if (!batch || batch.status === "voided") {
+    return "This code has been voided";
+  }
+  if (!REDEEMABLE_BATCH_STATUSES.includes(batch.status)) {
+    return "This code hasn't been activated yet";
+  }
+  return null;
+};
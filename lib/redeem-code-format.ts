@@ -0,0 +1,90 @@
+// Redeem code format
+//
+// A redeem code is 16 digits written as ####-####-####-####. The last digit is a
+// Luhn check digit over the first 15, so most typos (a wrong digit, two swapped
+// neighbours) are caught before the code is looked up. Codes issued before the
+// check digit existed don't carry one, so a failed check is only a hint.
+//
+// Kept free of server-only imports so the redeem forms can use it too.
+
+export const REDEEM_CODE_LENGTH = 16;
+export const REDEEM_PIN_PATTERN = /^\d{4}$/;
+
+/**
+ * Digits of a code as typed (dashes, spaces and other separators dropped)
+ *
+ * @returns The 16 digits, or null when the input doesn't have exactly 16
+ */
+export const normalizeRedeemCode = (input: string): string | null => {
+  const digits = input.replace(/\D/g, "");
+  return digits.length === REDEEM_CODE_LENGTH ? digits : null;
+};
+
+/**
+ * Format (up to) 16 digits as ####-####-####-####, e.g. while the user types
+ */
+export const formatRedeemCode = (input: string): string => {
+  const digits = input.replace(/\D/g, "").slice(0, REDEEM_CODE_LENGTH);
+  return digits.replace(/(\d{4})(?=\d)/g, "$1-");
+};
+
+/**
+ * Luhn check digit for a string of digits
+ */
+export const getLuhnCheckDigit = (digits: string): string => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Double every second digit, starting with the rightmost one
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return ((10 - (sum % 10)) % 10).toString();
+};
+
+/**
+ * Whether the last digit of a 16-digit code is the check digit of the first 15
+ */
+export const hasValidCheckDigit = (digits: string): boolean => {
+  return (
+    digits.length === REDEEM_CODE_LENGTH &&
+    /^\d+$/.test(digits) &&
+    getLuhnCheckDigit(digits.slice(0, -1)) === digits.slice(-1)
+  );
+};
+
+/**
+ * Masked code showing only the last four digits (•••• •••• •••• 3456)
+ */
+export const maskRedeemCode = (last4: string): string => {
+  return `•••• •••• •••• ${last4}`;
+};
+
+/**
+ * Serial number as printed on a batch card (zero-padded to 8 digits)
+ */
+export const formatRedeemSerial = (serial: number): string => {
+  return serial.toString().padStart(8, "0");
+};
+
+/**
+ * Code from the text of a scanned QR code: a printed card's link to
+ * /wallet/redeem?code=…, or the bare code
+ *
+ * @returns The code as ####-####-####-####, or null when the text holds no code
+ */
+export const parseScannedRedeemCode = (text: string): string | null => {
+  let candidate = text.trim();
+  try {
+    const code = new URL(candidate).searchParams.get("code");
+    if (code === null) return null;
+    candidate = code;
+  } catch {
+    // Not a link; the QR code holds the code itself
+  }
+  const digits = normalizeRedeemCode(candidate);
+  return digits ? formatRedeemCode(digits) : null;
+};
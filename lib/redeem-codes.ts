@@ -0,0 +1,326 @@
+// Redeem code secrets and brute-force protection
+//
+// Codes are 15 digits from the CSPRNG plus a Luhn check digit (see
+// lib/redeem-code-format.ts), and PINs are 4 CSPRNG digits. Neither is stored:
+// the code is kept as an HMAC lookup hash and the PIN as an HMAC bound to its
+// code, both keyed with REDEEM_CODE_SECRET, so a copy of the database can't be
+// redeemed. The admin sees the plaintext once, in the generateRedeemCode result.
+//
+// Wrong guesses are counted twice:
+// - per code: MAX_CODE_PIN_ATTEMPTS wrong PINs lock the code for CODE_LOCK_MS,
+//   whichever wallet they came from
+// - per wallet: MAX_WALLET_REDEEM_FAILURES failed redemptions in a row (unknown
+//   code or wrong PIN) stop the wallet redeeming for WALLET_REDEEM_LOCK_MS
+// Both lockouts notify the admins.
+
+import crypto from "crypto";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { JournalEntryModel, RedeemCardModel, RedeemCodeModel, UserModel, WalletModel } from "./db/models";
+import { formatRedeemCode, getLuhnCheckDigit, maskRedeemCode } from "./redeem-code-format";
+
+const MAX_CODE_PIN_ATTEMPTS = 5;
+const CODE_LOCK_MS = 24 * 60 * 60 * 1000;
+
+const MAX_WALLET_REDEEM_FAILURES = 10;
+const WALLET_REDEEM_LOCK_MS = 60 * 60 * 1000;
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+      // Partial so codes that haven't been migrated yet don't collide on a missing hash
+      await redeemCodesCollection.createIndex(
+        { codeHash: 1 },
+        { unique: true, partialFilterExpression: { codeHash: { $type: "string" } } }
+      );
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+const getRedeemCodeSecret = (): string => {
+  const secret = process.env.REDEEM_CODE_SECRET;
+
+  if (!secret || secret.trim().length < 32) {
+    throw new Error(
+      "REDEEM_CODE_SECRET is not set or is too short. Please add it to your environment variables:\n" +
+      "Generate one with: node -e \"console.log(require('crypto').randomBytes(48).toString('hex'))\"\n" +
+      "Keep it stable: changing it makes every unused redeem code unredeemable"
+    );
+  }
+
+  return secret.trim();
+};
+
+const hmac = (value: string): string => {
+  return crypto.createHmac("sha256", getRedeemCodeSecret()).update(value).digest("hex");
+};
+
+const randomDigits = (length: number): string => {
+  return Array.from({ length }, () => crypto.randomInt(10).toString()).join("");
+};
+
+const formatLockRemaining = (until: Date): string => {
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 60000));
+  if (minutes < 120) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hours`;
+};
+
+/**
+ * Lookup hash of a code's 16 digits (no separators)
+ */
+export const hashRedeemCode = (digits: string): string => {
+  return hmac(`code:${digits}`);
+};
+
+/**
+ * Hash of a PIN, bound to its code so equal PINs on different codes don't match
+ */
+export const hashRedeemPin = (codeHash: string, pin: string): string => {
+  return hmac(`pin:${codeHash}:${pin}`);
+};
+
+/**
+ * Generate a new code and PIN that no stored code uses yet
+ *
+ * @returns The plaintext to show the admin once, and the hashed fields to store
+ */
+export const createRedeemCodeSecrets = async (): Promise<{
+  code: string;
+  pin: string;
+  codeHash: string;
+  codeLast4: string;
+  pinHash: string;
+}> => {
+  await ensureIndexes();
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const body = randomDigits(15);
+    const digits = `${body}${getLuhnCheckDigit(body)}`;
+    const codeHash = hashRedeemCode(digits);
+
+    if (await redeemCodesCollection.findOne({ codeHash }, { projection: { _id: 1 } })) {
+      continue;
+    }
+
+    const pin = randomDigits(4);
+    return {
+      code: formatRedeemCode(digits),
+      pin,
+      codeHash,
+      codeLast4: digits.slice(-4),
+      pinHash: hashRedeemPin(codeHash, pin),
+    };
+  }
+
+  throw new Error("Failed to generate unique code. Please try again.");
+};
+
+/**
+ * Find a code by its 16 digits
+ */
+export const findRedeemCode = async (digits: string): Promise<RedeemCodeModel | null> => {
+  await ensureIndexes();
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  return redeemCodesCollection.findOne({ codeHash: hashRedeemCode(digits) });
+};
+
+export const isRedeemCodeLocked = (redeemCode: RedeemCodeModel): boolean => {
+  return !!redeemCode.lockedUntil && redeemCode.lockedUntil > new Date();
+};
+
+/**
+ * Why a wallet can't redeem codes right now, or null when it can
+ */
+export const getWalletRedeemLock = (wallet: WalletModel): string | null => {
+  if (!wallet.redeemLockedUntil || wallet.redeemLockedUntil <= new Date()) {
+    return null;
+  }
+  return `Too many failed redeem attempts. Try again in ${formatLockRemaining(wallet.redeemLockedUntil)}.`;
+};
+
+/**
+ * Tell every admin about a redeem lockout
+ * Failures are logged rather than thrown so the alert never changes the user's result
+ */
+const alertAdmins = async (title: string, message: string): Promise<void> => {
+  try {
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const adminUsers = await usersCollection.find({ role: "admin" }, { projection: { _id: 1 } }).toArray();
+
+    const { createNotification } = await import("./notifications");
+    await Promise.all(
+      adminUsers.map((admin) =>
+        createNotification({
+          userId: admin._id!.toString(),
+          type: "security",
+          title,
+          message,
+          link: "/admin?tab=redeem",
+        })
+      )
+    );
+  } catch (error) {
+    console.error("Error alerting admins about a redeem lockout:", error);
+  }
+};
+
+/**
+ * Count a failed redemption against the wallet, locking it after MAX_WALLET_REDEEM_FAILURES
+ *
+ * @returns The lockout message when this failure locked the wallet, otherwise null
+ */
+export const registerFailedRedemption = async (wallet: WalletModel): Promise<string | null> => {
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+
+  // Count atomically so parallel guesses can't get around the limit
+  const updated = await walletsCollection.findOneAndUpdate(
+    { _id: wallet._id },
+    { $inc: { redeemFailedAttempts: 1 } },
+    { returnDocument: "after" }
+  );
+  if ((updated?.redeemFailedAttempts ?? MAX_WALLET_REDEEM_FAILURES) < MAX_WALLET_REDEEM_FAILURES) {
+    return null;
+  }
+
+  const redeemLockedUntil = new Date(Date.now() + WALLET_REDEEM_LOCK_MS);
+  await walletsCollection.updateOne(
+    { _id: wallet._id },
+    { $set: { redeemLockedUntil, redeemFailedAttempts: 0 } }
+  );
+
+  await alertAdmins(
+    "Redeem attempts locked",
+    `Wallet ${wallet.walletId} failed ${MAX_WALLET_REDEEM_FAILURES} redeem attempts in a row and can't redeem codes for an hour.`
+  );
+
+  return `Too many failed redeem attempts. Try again in ${formatLockRemaining(redeemLockedUntil)}.`;
+};
+
+/**
+ * Forget a wallet's failed redemptions after a successful one
+ */
+export const clearRedeemFailures = async (wallet: WalletModel): Promise<void> => {
+  if (!wallet.redeemFailedAttempts) return;
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  await walletsCollection.updateOne({ _id: wallet._id }, { $set: { redeemFailedAttempts: 0 } });
+};
+
+/**
+ * Check a code's PIN, counting wrong entries and locking the code after MAX_CODE_PIN_ATTEMPTS
+ */
+export const verifyRedeemPin = async (
+  redeemCode: RedeemCodeModel,
+  pin: string,
+  wallet: WalletModel
+): Promise<{ valid: true } | { valid: false; error: string }> => {
+  if (redeemCode.lockedUntil && isRedeemCodeLocked(redeemCode)) {
+    return {
+      valid: false,
+      error: `This code is locked after too many wrong PINs. Try again in ${formatLockRemaining(redeemCode.lockedUntil)}.`,
+    };
+  }
+
+  const expected = Buffer.from(redeemCode.pinHash);
+  const actual = Buffer.from(hashRedeemPin(redeemCode.codeHash, pin));
+  if (expected.length === actual.length && crypto.timingSafeEqual(expected, actual)) {
+    if (redeemCode.failedAttempts) {
+      const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+      await redeemCodesCollection.updateOne({ _id: redeemCode._id }, { $set: { failedAttempts: 0 } });
+    }
+    return { valid: true };
+  }
+
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  const updated = await redeemCodesCollection.findOneAndUpdate(
+    { _id: redeemCode._id },
+    { $inc: { failedAttempts: 1 } },
+    { returnDocument: "after" }
+  );
+  const attempts = updated?.failedAttempts ?? MAX_CODE_PIN_ATTEMPTS;
+
+  if (attempts < MAX_CODE_PIN_ATTEMPTS) {
+    return { valid: false, error: "Invalid PIN" };
+  }
+
+  const lockedUntil = new Date(Date.now() + CODE_LOCK_MS);
+  await redeemCodesCollection.updateOne(
+    { _id: redeemCode._id },
+    { $set: { lockedUntil, failedAttempts: 0 } }
+  );
+
+  await alertAdmins(
+    "Redeem code locked",
+    `Redeem code ending ${redeemCode.codeLast4} was locked for 24 hours after ${MAX_CODE_PIN_ATTEMPTS} wrong PINs. The last attempt came from wallet ${wallet.walletId}.`
+  );
+
+  return {
+    valid: false,
+    error: `This code is locked after too many wrong PINs. Try again in ${formatLockRemaining(lockedUntil)}.`,
+  };
+};
+
+/**
+ * One-off migration of codes issued before hashing (see scripts/hash-redeem-codes.ts)
+ * Hashes each plaintext code and PIN and removes them, masks the card numbers
+ * copied from those codes and the codes in their ledger notes. Safe to run again.
+ */
+export const hashLegacyRedeemCodes = async (): Promise<{ codes: number; cards: number; journalEntries: number }> => {
+  await ensureIndexes();
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  const cardsCollection = await getCollection<RedeemCardModel>(COLLECTIONS.REDEEM_CARDS);
+  const journalCollection = await getCollection<JournalEntryModel>(COLLECTIONS.JOURNAL_ENTRIES);
+
+  let codes = 0;
+  const legacyCodes = redeemCodesCollection.find({ code: { $type: "string" } });
+  for await (const redeemCode of legacyCodes) {
+    const digits = (redeemCode.code ?? "").replace(/\D/g, "");
+    const codeHash = hashRedeemCode(digits);
+    await redeemCodesCollection.updateOne(
+      { _id: redeemCode._id },
+      {
+        $set: {
+          codeHash,
+          codeLast4: digits.slice(-4),
+          pinHash: hashRedeemPin(codeHash, redeemCode.pin ?? ""),
+        },
+        $unset: { code: "", pin: "" },
+      }
+    );
+    codes++;
+  }
+
+  let cards = 0;
+  const legacyCards = cardsCollection.find({ cardNumber: { $regex: /^\d{16}$/ } });
+  for await (const card of legacyCards) {
+    await cardsCollection.updateOne(
+      { _id: card._id },
+      { $set: { cardNumber: maskRedeemCode(card.cardNumber.slice(-4)) } }
+    );
+    cards++;
+  }
+
+  let journalEntries = 0;
+  const legacyEntries = journalCollection.find({
+    kind: "redeem_issue",
+    note: { $regex: /^Redeem code \d{4}-\d{4}-\d{4}-\d{4}$/ },
+  });
+  for await (const entry of legacyEntries) {
+    await journalCollection.updateOne(
+      { _id: entry._id },
+      { $set: { note: `Redeem code ending ${(entry.note ?? "").slice(-4)}` } }
+    );
+    journalEntries++;
+  }
+
+  return { codes, cards, journalEntries };
+};
@@ -0,0 +1,363 @@
+// Printable redeem cards
+//
+// Codes are only stored hashed, so a card can't be printed from what is stored.
+// Each print run instead issues a fresh code and PIN for every code it prints
+// (re-keys it) and hands those out once: on a card sheet the full code only goes
+// into the QR link to /wallet/redeem, the PIN under the scratch area, and the code
+// is printed masked. Printing a code again therefore makes its earlier prints
+// worthless, and every run is recorded in redeem_print_runs, so a reprint can be
+// traced to who printed which codes and when.
+//
+// Sheets are laid out by lib/redeem-sheet-layout.ts. Batches go to the print
+// shop as CSV instead (lib/redeem-batches.ts) but are recorded the same way.
+
+import { ObjectId } from "mongodb";
+import type { AnyBulkWriteOperation, ClientSession } from "mongodb";
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { getCollection, withTransaction } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type {
+  RedeemCardModel,
+  RedeemCodeModel,
+  RedeemPrintRunModel,
+  RedeemSheetSize,
+  UserModel,
+} from "./db/models";
+import { createRedeemCodeSecrets } from "./redeem-codes";
+import { formatRedeemSerial, maskRedeemCode } from "./redeem-code-format";
+import { getRedeemSheetLayout, REDEEM_CARD_HEIGHT, REDEEM_CARD_WIDTH } from "./redeem-sheet-layout";
+import type { RedeemSheetLayout } from "./redeem-sheet-layout";
+
+// One sheet run is rendered in memory and sent to the browser in one piece
+export const MAX_PRINT_RUN_CARDS = 500;
+
+const CROP_MARK_OFFSET = 3; // Gap between the grid and its crop marks
+const CROP_MARK_LENGTH = 5;
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+const ensureIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const printRunsCollection = await getCollection<RedeemPrintRunModel>(COLLECTIONS.REDEEM_PRINT_RUNS);
+      await printRunsCollection.createIndex({ createdAt: -1 });
+      await printRunsCollection.createIndex({ redeemCodeIds: 1 });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+interface PrintableRedeemCard {
+  code: string; // ####-####-####-####
+  pin: string;
+  amount: number;
+  expiresAt?: Date;
+  serial?: number;
+}
+
+export interface IssuedPrintSecrets {
+  secrets: Map<string, { code: string; pin: string; codeLast4: string }>; // By redeem code ID
+  updates: AnyBulkWriteOperation<RedeemCodeModel>[];
+  reprintedCodeIds: ObjectId[];
+}
+
+/**
+ * Link a printed QR code opens: the redeem page with the code filled in
+ */
+export const getRedeemDeepLink = (code: string): string => {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/wallet/redeem?code=${encodeURIComponent(code)}`;
+};
+
+/**
+ * Fresh secrets for the codes of a print run, and the writes that store them
+ * The writes only match unused codes, so a code redeemed in the meantime makes
+ * the bulk write come up short and the caller's transaction can be aborted.
+ */
+export const issuePrintSecrets = async (
+  codes: Pick<RedeemCodeModel, "_id" | "printCount">[],
+  printRunId: ObjectId,
+  printedAt: Date
+): Promise<IssuedPrintSecrets> => {
+  const secrets: IssuedPrintSecrets["secrets"] = new Map();
+  const updates: AnyBulkWriteOperation<RedeemCodeModel>[] = [];
+
+  for (const redeemCode of codes) {
+    const { code, pin, codeHash, codeLast4, pinHash } = await createRedeemCodeSecrets();
+    secrets.set(redeemCode._id!.toString(), { code, pin, codeLast4 });
+    updates.push({
+      updateOne: {
+        filter: { _id: redeemCode._id, used: false },
+        update: {
+          $set: { codeHash, codeLast4, pinHash, failedAttempts: 0, lastPrintedAt: printedAt, lastPrintRunId: printRunId },
+          $inc: { printCount: 1 },
+          $unset: { lockedUntil: "" },
+        },
+      },
+    });
+  }
+
+  return {
+    secrets,
+    updates,
+    reprintedCodeIds: codes.filter((code) => (code.printCount ?? 0) > 0).map((code) => code._id!),
+  };
+};
+
+/**
+ * Store the re-keyed codes and the run that printed them
+ */
+export const recordRedeemPrintRun = async (
+  session: ClientSession,
+  run: RedeemPrintRunModel,
+  updates: AnyBulkWriteOperation<RedeemCodeModel>[]
+): Promise<void> => {
+  await ensureIndexes();
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+  const printRunsCollection = await getCollection<RedeemPrintRunModel>(COLLECTIONS.REDEEM_PRINT_RUNS);
+
+  if (updates.length > 0) {
+    const result = await redeemCodesCollection.bulkWrite(updates, { session });
+    if (result.matchedCount !== updates.length) {
+      throw new Error("A code was redeemed while it was being printed. Please try again.");
+    }
+  }
+  await printRunsCollection.insertOne(run, { session });
+};
+
+const formatCardAmount = (cents: number): string => `$${(cents / 100).toFixed(2)}`;
+
+const formatCardExpiry = (expiresAt?: Date): string => {
+  if (!expiresAt) return "NO EXPIRY";
+  return `VALID THRU ${String(expiresAt.getMonth() + 1).padStart(2, "0")}/${String(expiresAt.getFullYear()).slice(-2)}`;
+};
+
+const drawCropMarks = (doc: jsPDF, layout: RedeemSheetLayout): void => {
+  const gridRight = layout.originX + layout.columns * REDEEM_CARD_WIDTH;
+  const gridBottom = layout.originY + layout.rows * REDEEM_CARD_HEIGHT;
+  const near = CROP_MARK_OFFSET;
+  const far = CROP_MARK_OFFSET + CROP_MARK_LENGTH;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+  for (let column = 0; column <= layout.columns; column++) {
+    const x = layout.originX + column * REDEEM_CARD_WIDTH;
+    doc.line(x, layout.originY - far, x, layout.originY - near);
+    doc.line(x, gridBottom + near, x, gridBottom + far);
+  }
+  for (let row = 0; row <= layout.rows; row++) {
+    const y = layout.originY + row * REDEEM_CARD_HEIGHT;
+    doc.line(layout.originX - far, y, layout.originX - near, y);
+    doc.line(gridRight + near, y, gridRight + far, y);
+  }
+};
+
+const drawCard = async (doc: jsPDF, card: PrintableRedeemCard, x: number, y: number): Promise<void> => {
+  // Header band
+  doc.setFillColor(128, 0, 0);
+  doc.rect(x, y, REDEEM_CARD_WIDTH, 10, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.text("MADEENAJUBA", x + 4, y + 6.5);
+  doc.setFontSize(7);
+  doc.text("REDEEM CARD", x + REDEEM_CARD_WIDTH - 4, y + 6.5, { align: "right" });
+
+  // Face value, masked code, serial and expiry
+  doc.setTextColor(128, 0, 0);
+  doc.setFontSize(18);
+  doc.text(formatCardAmount(card.amount), x + 4, y + 19.5);
+  doc.setFont("courier", "bold");
+  doc.setFontSize(9);
+  doc.text(maskRedeemCode(card.code.slice(-4)), x + 4, y + 26);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(6.5);
+  doc.setTextColor(80, 80, 80);
+  if (card.serial !== undefined) {
+    doc.text(`SERIAL ${formatRedeemSerial(card.serial)}`, x + 4, y + 31);
+  }
+  doc.text(formatCardExpiry(card.expiresAt), x + 4, y + 34.5);
+
+  // Scratch area: the foil goes over this box once the sheet is printed
+  doc.text("SCRATCH FOR PIN", x + 4, y + 41.5);
+  doc.setFillColor(225, 225, 225);
+  doc.roundedRect(x + 4, y + 43, 32, 8, 1.5, 1.5, "F");
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("courier", "bold");
+  doc.setFontSize(14);
+  doc.text(card.pin.split("").join(" "), x + 20, y + 48.6, { align: "center" });
+
+  // QR code with the full code
+  const qrSize = 24;
+  const qrX = x + REDEEM_CARD_WIDTH - 4 - qrSize;
+  const qr = await QRCode.toBuffer(getRedeemDeepLink(card.code), {
+    type: "png",
+    margin: 0,
+    scale: 4,
+    errorCorrectionLevel: "M",
+  });
+  doc.addImage(new Uint8Array(qr), "PNG", qrX, y + 14, qrSize, qrSize, undefined, "FAST");
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(6.5);
+  doc.setTextColor(80, 80, 80);
+  doc.text("Scan to redeem", qrX + qrSize / 2, y + 41.5, { align: "center" });
+};
+
+const renderRedeemCardSheet = async (
+  cards: PrintableRedeemCard[],
+  layout: RedeemSheetLayout,
+  footer: string
+): Promise<Buffer> => {
+  const orientation = layout.width > layout.height ? "landscape" : "portrait";
+  const doc = new jsPDF({ unit: "mm", format: [layout.width, layout.height], orientation, compress: true });
+  const sheets = Math.ceil(cards.length / layout.perSheet);
+
+  doc.setProperties({ title: "Redeem cards" });
+  for (let sheet = 0; sheet < sheets; sheet++) {
+    if (sheet > 0) {
+      doc.addPage([layout.width, layout.height], orientation);
+    }
+    drawCropMarks(doc, layout);
+
+    const sheetCards = cards.slice(sheet * layout.perSheet, (sheet + 1) * layout.perSheet);
+    for (let i = 0; i < sheetCards.length; i++) {
+      const column = i % layout.columns;
+      const row = Math.floor(i / layout.columns);
+      await drawCard(
+        doc,
+        sheetCards[i],
+        layout.originX + column * REDEEM_CARD_WIDTH,
+        layout.originY + row * REDEEM_CARD_HEIGHT
+      );
+    }
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(6);
+    doc.setTextColor(80, 80, 80);
+    doc.text(`${footer} · sheet ${sheet + 1} of ${sheets}`, layout.width - layout.originX - 3, layout.height - 3, {
+      align: "right",
+    });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+};
+
+/**
+ * Re-key the codes of the given cards and lay them out as a printable PDF
+ * Only for unused, single codes; batch codes are printed with their batch.
+ *
+ * @returns The recorded run and the PDF, which is the only copy of the new codes and PINs
+ */
+export const printRedeemCardSheet = async (
+  cardIds: ObjectId[],
+  sheetSize: RedeemSheetSize,
+  createdBy: ObjectId
+): Promise<{ run: RedeemPrintRunModel; pdf: Buffer }> => {
+  if (cardIds.length === 0) {
+    throw new Error("Select the cards to print");
+  }
+  if (cardIds.length > MAX_PRINT_RUN_CARDS) {
+    throw new Error(`At most ${MAX_PRINT_RUN_CARDS} cards can be printed at once`);
+  }
+
+  await ensureIndexes();
+  const cardsCollection = await getCollection<RedeemCardModel>(COLLECTIONS.REDEEM_CARDS);
+  const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+
+  const cards = await cardsCollection.find({ _id: { $in: cardIds } }).toArray();
+  if (cards.length !== cardIds.length) {
+    throw new Error("Some of the selected cards no longer exist");
+  }
+  // Keep the order the cards were selected in
+  cards.sort(
+    (a, b) =>
+      cardIds.findIndex((id) => id.equals(a._id!)) - cardIds.findIndex((id) => id.equals(b._id!))
+  );
+
+  const codes = await redeemCodesCollection.find({ _id: { $in: cards.map((card) => card.redeemCodeId) } }).toArray();
+  for (const card of cards) {
+    const redeemCode = codes.find((code) => code._id!.equals(card.redeemCodeId));
+    if (!redeemCode) {
+      throw new Error(`The code of card ${card.cardNumber} no longer exists`);
+    }
+    if (redeemCode.used) {
+      throw new Error(`Card ${card.cardNumber} has already been redeemed`);
+    }
+    if (redeemCode.voided) {
+      throw new Error(`Card ${card.cardNumber} has been voided`);
+    }
+    if (redeemCode.batchId) {
+      throw new Error(`Card ${card.cardNumber} belongs to a batch; print it from the Batches tab`);
+    }
+    if (redeemCode.expiresAt && redeemCode.expiresAt < new Date()) {
+      throw new Error(`Card ${card.cardNumber} has expired`);
+    }
+  }
+
+  const layout = getRedeemSheetLayout(sheetSize);
+  const now = new Date();
+  const run: RedeemPrintRunModel = {
+    _id: new ObjectId(),
+    format: "sheet",
+    sheetSize,
+    cardsPerSheet: layout.perSheet,
+    sheets: Math.ceil(cards.length / layout.perSheet),
+    cardIds: cards.map((card) => card._id!),
+    redeemCodeIds: cards.map((card) => card.redeemCodeId),
+    reprintedCodeIds: [],
+    createdBy,
+    createdAt: now,
+  };
+
+  const { secrets, updates, reprintedCodeIds } = await issuePrintSecrets(codes, run._id!, now);
+  run.reprintedCodeIds = reprintedCodeIds;
+
+  // Render before storing anything, so a failed render leaves the old cards working
+  const printable = cards.map((card) => {
+    const redeemCode = codes.find((code) => code._id!.equals(card.redeemCodeId))!;
+    const { code, pin } = secrets.get(redeemCode._id!.toString())!;
+    return { code, pin, amount: redeemCode.amount, expiresAt: redeemCode.expiresAt };
+  });
+  const pdf = await renderRedeemCardSheet(printable, layout, `Print run ${run._id!.toString()} · ${now.toISOString().slice(0, 10)}`);
+
+  await withTransaction(async (session) => {
+    await recordRedeemPrintRun(session, run, updates);
+    await cardsCollection.bulkWrite(
+      cards.map((card) => ({
+        updateOne: {
+          filter: { _id: card._id },
+          update: { $set: { cardNumber: maskRedeemCode(secrets.get(card.redeemCodeId.toString())!.codeLast4) } },
+        },
+      })),
+      { session }
+    );
+  });
+
+  return { run, pdf };
+};
+
+/**
+ * The most recent print runs (newest first), with the email of the admin who printed each
+ */
+export const getRedeemPrintRuns = async (
+  limit = 50
+): Promise<(RedeemPrintRunModel & { createdByEmail?: string })[]> => {
+  await ensureIndexes();
+  const printRunsCollection = await getCollection<RedeemPrintRunModel>(COLLECTIONS.REDEEM_PRINT_RUNS);
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+
+  const runs = await printRunsCollection.find({}).sort({ createdAt: -1 }).limit(limit).toArray();
+  const admins = await usersCollection
+    .find({ _id: { $in: runs.map((run) => run.createdBy) } }, { projection: { email: 1 } })
+    .toArray();
+
+  return runs.map((run) => ({
+    ...run,
+    createdByEmail: admins.find((admin) => admin._id!.equals(run.createdBy))?.email,
+  }));
+};
@@ -0,0 +1,53 @@
+// Redeem card sheet layout
+//
+// Cards are printed N-up: as many bank-card sized cards as fit on the sheet,
+// edge to edge in a centred grid, so every cut is one straight guillotine line.
+// Crop marks for those lines go in the margin around the grid, which is why the
+// margin is never smaller than MIN_SHEET_MARGIN. All sizes are in millimetres.
+//
+// Kept free of server-only imports so the print form can list the sheet sizes.
+
+import type { RedeemSheetSize } from "./db/models";
+
+// ISO/IEC 7810 ID-1, the size of a bank card
+export const REDEEM_CARD_WIDTH = 85.6;
+export const REDEEM_CARD_HEIGHT = 54;
+
+const MIN_SHEET_MARGIN = 10;
+
+export const REDEEM_SHEET_SIZES: Record<RedeemSheetSize, { label: string; width: number; height: number }> = {
+  a4: { label: "A4 (210 × 297 mm)", width: 210, height: 297 },
+  letter: { label: "US Letter (8.5 × 11 in)", width: 215.9, height: 279.4 },
+  sra3: { label: "SRA3 card stock (320 × 450 mm)", width: 320, height: 450 },
+  "12x18": { label: "12 × 18 in card stock", width: 304.8, height: 457.2 },
+};
+
+export interface RedeemSheetLayout {
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  perSheet: number;
+  originX: number; // Top-left corner of the grid
+  originY: number;
+}
+
+export const isRedeemSheetSize = (value: string): value is RedeemSheetSize => {
+  return Object.prototype.hasOwnProperty.call(REDEEM_SHEET_SIZES, value);
+};
+
+export const getRedeemSheetLayout = (size: RedeemSheetSize): RedeemSheetLayout => {
+  const { width, height } = REDEEM_SHEET_SIZES[size];
+  const columns = Math.floor((width - 2 * MIN_SHEET_MARGIN) / REDEEM_CARD_WIDTH);
+  const rows = Math.floor((height - 2 * MIN_SHEET_MARGIN) / REDEEM_CARD_HEIGHT);
+
+  return {
+    width,
+    height,
+    columns,
+    rows,
+    perSheet: columns * rows,
+    originX: (width - columns * REDEEM_CARD_WIDTH) / 2,
+    originY: (height - rows * REDEEM_CARD_HEIGHT) / 2,
+  };
+};
@@ -0,0 +1,188 @@
+// Refunds of P2P transfers
+//
+// Transaction rows are never deleted. A mistaken transfer is undone by reversing it:
+// the sender files a refund request against the transfer's reference number, and
+// the recipient or someone with the refunds.approve permission approves it. The
+// approval writes two "reversal" rows that point back at the original rows (one for
+// the sender, one for the recipient) and posts a "reversal" journal entry that moves
+// the amount back.
+//
+// Fee: a recipient approving a refund can only return what they received, so the
+// sender's fee stays with the platform. An admin may also return the fee, as long
+// as it hasn't been deposited to the admin wallet yet.
+
+import type { ObjectId } from "mongodb";
+import { getCollection, withTransaction } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { FeeModel, RefundRequestModel, TransactionModel } from "./db/models";
+import {
+  postJournalEntry,
+  debit,
+  credit,
+  walletAccount,
+  FEE_REVENUE_ACCOUNT,
+  INSUFFICIENT_FUNDS_ERROR,
+} from "./ledger";
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+export const ensureRefundIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+      await refundRequestsCollection.createIndex({ transactionId: 1, status: 1 });
+      await refundRequestsCollection.createIndex({ recipientUserId: 1, status: 1 });
+      await refundRequestsCollection.createIndex({ senderUserId: 1, createdAt: -1 });
+
+      // A row can only ever be reversed once, even if two approvals race
+      const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+      await transactionsCollection.createIndex(
+        { "meta.reversalOf": 1, userId: 1 },
+        { unique: true, partialFilterExpression: { type: "reversal" } }
+      );
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+// Helper function to generate reference number (6 digits)
+const generateReferenceNumber = (): string => {
+  return Math.floor(100000 + Math.random() * 900000).toString();
+};
+
+/**
+ * Approve a pending refund request and move the money back
+ * Fails (and changes nothing) when the request was already decided, the recipient
+ * no longer holds the amount, or the fee can't be returned any more.
+ *
+ * @returns Reference number of the reversal
+ */
+export const reverseTransfer = async (
+  request: RefundRequestModel,
+  decision: { decidedBy: ObjectId; refundFee: boolean; note?: string }
+): Promise<string> => {
+  if (!request._id) {
+    throw new Error("Refund request not found");
+  }
+  const requestId = request._id;
+  await ensureRefundIndexes();
+
+  const feeRefundCents = decision.refundFee ? request.feeCents : 0;
+  const reversalRef = generateReferenceNumber();
+
+  const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+  const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+  const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+
+  try {
+    await withTransaction(async (session) => {
+      const now = new Date();
+      const claimed = await refundRequestsCollection.updateOne(
+        { _id: requestId, status: "pending" },
+        {
+          $set: {
+            status: "approved",
+            feeRefunded: feeRefundCents > 0,
+            decidedBy: decision.decidedBy,
+            decidedAt: now,
+            decisionNote: decision.note,
+            reversalRef,
+          },
+        },
+        { session }
+      );
+      if (claimed.modifiedCount === 0) {
+        throw new Error("This refund request has already been decided");
+      }
+
+      // The fee was never earned after all; it leaves the fee ledger
+      if (feeRefundCents > 0) {
+        const removedFee = await feesCollection.deleteOne(
+          { transactionId: request.transactionId, deposited: { $ne: true } },
+          { session }
+        );
+        if (removedFee.deletedCount === 0) {
+          throw new Error("The fee on this transfer has already been deposited and can't be refunded");
+        }
+      }
+
+      const receiveTransaction = await transactionsCollection.findOne(
+        { ref: request.ref, type: "receive", userId: request.recipientUserId },
+        { session }
+      );
+
+      const senderReversal: TransactionModel = {
+        userId: request.senderUserId,
+        type: "reversal",
+        amount: request.amount + feeRefundCents,
+        feeCents: feeRefundCents > 0 ? feeRefundCents : undefined,
+        fromWalletId: request.recipientWalletId,
+        toWalletId: request.senderWalletId,
+        note: `Refund of transfer ${request.ref}`,
+        ref: reversalRef,
+        status: "success",
+        meta: { reversalOf: request.transactionId, refundRequestId: requestId },
+        createdAt: now,
+      };
+      const recipientReversal: TransactionModel = {
+        userId: request.recipientUserId,
+        type: "reversal",
+        amount: request.amount,
+        fromWalletId: request.recipientWalletId,
+        toWalletId: request.senderWalletId,
+        note: `Refund of transfer ${request.ref}`,
+        ref: reversalRef,
+        status: "success",
+        meta: { reversalOf: receiveTransaction?._id ?? request.transactionId, refundRequestId: requestId },
+        createdAt: now,
+      };
+      await transactionsCollection.insertMany([senderReversal, recipientReversal], { session });
+
+      await postJournalEntry(session, {
+        kind: "reversal",
+        ref: reversalRef,
+        postings: [
+          debit(walletAccount(request.recipientWalletId), request.amount),
+          debit(FEE_REVENUE_ACCOUNT, feeRefundCents),
+          credit(walletAccount(request.senderWalletId), request.amount + feeRefundCents),
+        ],
+        transactionIds: [senderReversal._id, recipientReversal._id].filter(
+          (id): id is ObjectId => id !== undefined
+        ),
+        createdBy: decision.decidedBy,
+        note: `Reversal of transfer ${request.ref}`,
+      });
+
+      const { createNotification } = await import("./notifications");
+      await createNotification({
+        userId: request.senderUserId.toString(),
+        type: "transaction",
+        title: "Refund Approved",
+        message: `${((request.amount + feeRefundCents) / 100).toFixed(2)} from transfer ${request.ref} has been returned to your wallet.`,
+        link: "/wallet",
+        meta: { transactionId: senderReversal._id?.toString() },
+      }, { session });
+      if (!decision.decidedBy.equals(request.recipientUserId)) {
+        await createNotification({
+          userId: request.recipientUserId.toString(),
+          type: "transaction",
+          title: "Transfer Reversed",
+          message: `Transfer ${request.ref} from ${request.senderWalletId} was reversed. ${(request.amount / 100).toFixed(2)} has been returned to the sender.`,
+          link: "/wallet",
+          meta: { transactionId: recipientReversal._id?.toString() },
+        }, { session });
+      }
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === INSUFFICIENT_FUNDS_ERROR) {
+      throw new Error("The recipient's wallet isn't active or doesn't hold enough to return this transfer");
+    }
+    throw error;
+  }
+
+  return reversalRef;
+};
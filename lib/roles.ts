@@ -0,0 +1,93 @@
+// Role storage and permission resolution
+//
+// Roles live in the `roles` collection as bundles of the named permissions from
+// lib/rbac.ts. The five built-in roles are seeded on first use, so an empty
+// database behaves exactly like the old hard-coded role checks. Admin always
+// resolves to every permission, whatever is stored, so a bad edit can't lock
+// the platform out of its own admin dashboard.
+
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { RoleModel } from "./db/models";
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLES,
+  Permission,
+  Role,
+  isBuiltInRole,
+  isPermission,
+} from "./rbac";
+
+// Seeding only needs to happen once per server process
+let defaultRolesSeeded: Promise<void> | null = null;
+
+/**
+ * Insert any missing built-in roles (existing documents are left untouched)
+ */
+export const ensureDefaultRoles = async (): Promise<void> => {
+  if (!defaultRolesSeeded) {
+    defaultRolesSeeded = (async () => {
+      const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+      await rolesCollection.createIndex({ name: 1 }, { unique: true });
+
+      const now = new Date();
+      await rolesCollection.bulkWrite(
+        Object.values(DEFAULT_ROLES).map((role) => ({
+          updateOne: {
+            filter: { name: role.name },
+            update: {
+              $setOnInsert: {
+                name: role.name,
+                label: role.label,
+                description: role.description,
+                permissions: role.permissions,
+                builtIn: true,
+                createdAt: now,
+                updatedAt: now,
+              },
+            },
+            upsert: true,
+          },
+        }))
+      );
+    })().catch((error) => {
+      // Let the next call retry instead of caching the failure
+      defaultRolesSeeded = null;
+      throw error;
+    });
+  }
+
+  return defaultRolesSeeded;
+};
+
+/**
+ * Get all roles, built-in roles first
+ */
+export const getRoles = async (): Promise<RoleModel[]> => {
+  await ensureDefaultRoles();
+  const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+  return rolesCollection.find({}).sort({ builtIn: -1, createdAt: 1 }).toArray();
+};
+
+export const getRoleByName = async (name: string): Promise<RoleModel | null> => {
+  await ensureDefaultRoles();
+  const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+  return rolesCollection.findOne({ name });
+};
+
+/**
+ * Resolve the permissions granted by a role
+ * Unknown roles grant nothing; permissions no longer in the catalog are dropped
+ */
+export const getRolePermissions = async (role: Role): Promise<Permission[]> => {
+  if (role === "admin") {
+    return ALL_PERMISSIONS;
+  }
+
+  const stored = await getRoleByName(role);
+  if (!stored) {
+    return isBuiltInRole(role) ? DEFAULT_ROLES[role].permissions : [];
+  }
+
+  return stored.permissions.filter(isPermission);
+};
@@ -1,9 +1,28 @@
 "use server";
 
-import { getCollection } from "@/lib/db";
+import { getCollection, withTransaction } from "@/lib/db";
 import { COLLECTIONS } from "@/lib/db/models";
-import type { UserModel, RedeemCodeModel, FeeModel, TransactionModel, KycModel, PendingWithdrawalModel, RedeemCardModel } from "@/lib/db/models";
+import type { UserModel, RedeemCodeModel, FeeModel, TransactionModel, KycModel, KycTier, PendingWithdrawalModel, RedeemCardModel, ReconciliationRunModel, RefundRequestModel } from "@/lib/db/models";
 import { updateUser } from "@/lib/db/utils";
+import { requirePermission } from "@/lib/authz";
+import { canManageUser, getPermissionsNotHeld, isAdmin, roleRequiresWallet } from "@/lib/rbac";
+import { DEFAULT_KYC_TIER, KYC_TIERS } from "@/lib/limit-profile";
+import {
+  postJournalEntry,
+  debit,
+  credit,
+  walletAccount,
+  getLedgerBalancesByType,
+  getPostingTotal,
+  FEE_REVENUE_ACCOUNT,
+  CASH_PAYOUT_POOL_ACCOUNT,
+  REDEEM_LIABILITY_ACCOUNT,
+  EXTERNAL_CASH_ACCOUNT,
+} from "@/lib/ledger";
+import { runReconciliation, getLatestReconciliationRun } from "@/lib/reconciliation";
+import { expireCashWithdrawals } from "@/lib/cash-withdrawals";
+import { createRedeemCodeSecrets, isRedeemCodeLocked } from "@/lib/redeem-codes";
+import { maskRedeemCode } from "@/lib/redeem-code-format";
 import { ObjectId } from "mongodb";
 
 /**
@@ -17,12 +36,10 @@ import { ObjectId } from "mongodb";
  * - KYC Review: Approve/reject wallet applications
  * - Content Moderation: Approve events, jobs, ads
  * 
- * **Admin Fee Exemption:**
- * Admin accounts are completely exempt from all system fees:
- * - No fees on P2P transfers (sending money)
- * - No fees on invoice payments
- * - No fees on cash withdrawals (receive 100% of withdrawal amount)
- * - No fees on deposits (deposits already have no fees for all users)
+ * **Fee Exemptions:**
+ * Each fee schedule lists the roles and wallets that pay no fee (see lib/fees.ts).
+ * Until a schedule is saved, admin accounts are exempt from P2P, invoice and
+ * cash withdrawal fees. Deposits have no fees for anyone.
  * 
  * All admin actions require server-side validation and role checks.
  * See MADEENAJUBA.md and README.md for complete admin documentation.
@@ -31,10 +48,13 @@ import { ObjectId } from "mongodb";
 /**
  * Update a user's role (Admin only)
  * 
- * Valid roles: "user", "admin", "journalist", "employer", "finance"
+ * Valid roles: any role in the roles collection (the built-in "user", "admin",
+ * "journalist", "employee", "finance" plus custom roles from the Permission tab)
  * 
  * IMPORTANT: 
- * - Users must have a wallet to be assigned finance, journalist, employee, or admin roles
+ * - Users must have a wallet to be assigned any role other than "user"
+ * - Nobody can change their own role. Non-admins can't assign the admin role or a
+ *   role with permissions they don't hold, nor change the role of a user who has one
  * - Role changes do NOT affect wallet data. When a user's role is changed:
  *   - Wallet balance remains unchanged
  *   - Wallet ID remains the same
@@ -49,22 +69,41 @@ import { ObjectId } from "mongodb";
  * @param role - New role to assign
  * @returns Success status and error message if failed
  */
-export async function updateUserRole(userId: string, role: string) {
+export const updateUserRole = requirePermission("users.manage", async (admin, userId: string, role: string) => {
   try {
     if (!ObjectId.isValid(userId)) {
       return { success: false, error: "Invalid user ID format" };
     }
 
-    const validRoles = ["user", "admin", "journalist", "employer", "finance", "employee"];
-    if (!validRoles.includes(role)) {
+    const { getRoleByName, getRolePermissions } = await import("@/lib/roles");
+    if (!(await getRoleByName(role))) {
       return { success: false, error: "Invalid role" };
     }
 
-    // Roles that require a wallet
-    const rolesRequiringWallet = ["admin", "journalist", "finance", "employee"];
+    // A delegated users.manage must not become a way to gain (or take away) more access
+    if (admin._id.equals(userId)) {
+      return { success: false, error: "You can't change your own role" };
+    }
+    if (!isAdmin(admin.role)) {
+      if (isAdmin(role)) {
+        return { success: false, error: "Only admins can assign the admin role" };
+      }
+      if (getPermissionsNotHeld(admin.permissions, await getRolePermissions(role)).length > 0) {
+        return { success: false, error: "You can't assign a role with permissions you don't have" };
+      }
+
+      const { getUserById } = await import("@/lib/db/utils");
+      const targetUser = await getUserById(userId);
+      if (!targetUser) {
+        return { success: false, error: "User not found or update failed" };
+      }
+      if (!canManageUser(admin.role, admin.permissions, targetUser.role, await getRolePermissions(targetUser.role))) {
+        return { success: false, error: "You can't change the role of a user with permissions you don't have" };
+      }
+    }
 
     // Check if the role requires a wallet
-    if (rolesRequiringWallet.includes(role)) {
+    if (roleRequiresWallet(role)) {
       // Check if user has a wallet
       const { getWalletByUserId } = await import("@/lib/db/utils");
       const userObjectId = new ObjectId(userId);
@@ -79,7 +118,7 @@ export async function updateUserRole(userId: string, role: string) {
     }
 
     // Only update the user's role field - wallet data is NOT affected
-    const result = await updateUser(userId, { role: role as any });
+    const result = await updateUser(userId, { role });
     
     if (result) {
       return { success: true };
@@ -93,25 +132,29 @@ export async function updateUserRole(userId: string, role: string) {
       error: error instanceof Error ? error.message : "Failed to update user role",
     };
   }
-}
+});
 
 /**
- * Approve KYC application and create wallet (Admin only)
+ * Approve KYC application and create wallet (Admin or employee)
  * 
  * When a KYC application is approved, a wallet is automatically created for the user.
  * 
  * @param kycApplicationId - ID of the KYC application to approve
- * @param adminUserId - ID of the admin approving the application
+ * @param tier - KYC tier granted, which selects the wallet's limit profile (see lib/limits.ts)
  * @returns Success status
  */
-export async function approveKyc(kycApplicationId: string, adminUserId: string) {
+export const approveKyc = requirePermission("kyc.review", async (
+  reviewer,
+  kycApplicationId: string,
+  tier: KycTier = DEFAULT_KYC_TIER
+) => {
   try {
     if (!ObjectId.isValid(kycApplicationId)) {
       return { success: false, error: "Invalid KYC application ID" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
+    if (!KYC_TIERS.includes(tier)) {
+      return { success: false, error: "Invalid KYC tier" };
     }
 
     const kycCollection = await getCollection(COLLECTIONS.KYC);
@@ -134,7 +177,7 @@ export async function approveKyc(kycApplicationId: string, adminUserId: string)
     const userId = kycApplication.userId;
 
     // Check if wallet already exists
-    const { getWalletByUserId, createWallet } = await import("@/lib/db/utils");
+    const { getUserById, getWalletByUserId, createWallet } = await import("@/lib/db/utils");
     const existingWallet = await getWalletByUserId(userId);
 
     if (existingWallet) {
@@ -144,16 +187,24 @@ export async function approveKyc(kycApplicationId: string, adminUserId: string)
         {
           $set: {
             status: "approved",
+            tier,
             reviewedAt: new Date(),
-            reviewedBy: new ObjectId(adminUserId),
+            reviewedBy: reviewer._id,
           },
         }
       );
       return { success: true, message: "KYC application approved (wallet already exists)" };
     }
 
+    // Wallets are only created for confirmed email addresses
+    const { isEmailVerified } = await import("@/lib/email-verification");
+    const applicant = await getUserById(userId);
+    if (!applicant || !isEmailVerified(applicant)) {
+      return { success: false, error: "The applicant hasn't verified their email address yet" };
+    }
+
     // Create wallet for the user
-    await createWallet(userId, 0);
+    await createWallet(userId);
 
     // Update KYC application status
     await kycCollection.updateOne(
@@ -161,8 +212,9 @@ export async function approveKyc(kycApplicationId: string, adminUserId: string)
       {
         $set: {
           status: "approved",
+          tier,
           reviewedAt: new Date(),
-          reviewedBy: new ObjectId(adminUserId),
+          reviewedBy: reviewer._id,
         },
       }
     );
@@ -175,7 +227,7 @@ export async function approveKyc(kycApplicationId: string, adminUserId: string)
       error: error instanceof Error ? error.message : "Failed to approve KYC",
     };
   }
-}
+});
 
 /**
  * Manually create a wallet for a user (Admin only)
@@ -192,7 +244,7 @@ export async function approveKyc(kycApplicationId: string, adminUserId: string)
  * @param initialBalance - Initial balance in dollars (default: 0)
  * @returns Success status and wallet details
  */
-export async function createWalletForUser(userId: string, initialBalance: number = 0) {
+export const createWalletForUser = requirePermission("wallet.create", async (admin, userId: string, initialBalance: number = 0) => {
   try {
     if (!ObjectId.isValid(userId)) {
       return { success: false, error: "Invalid user ID format" };
@@ -208,6 +260,11 @@ export async function createWalletForUser(userId: string, initialBalance: number
       return { success: false, error: "User not found" };
     }
 
+    const { isEmailVerified } = await import("@/lib/email-verification");
+    if (!isEmailVerified(user)) {
+      return { success: false, error: "This user hasn't verified their email address yet" };
+    }
+
     // Check if wallet already exists
     const { getWalletByUserId, createWallet } = await import("@/lib/db/utils");
     const existingWallet = await getWalletByUserId(userObjectId);
@@ -223,8 +280,38 @@ export async function createWalletForUser(userId: string, initialBalance: number
       };
     }
 
-    // Create wallet
-    const wallet = await createWallet(userObjectId, Math.round(initialBalance * 100)); // Convert to cents
+    // Create wallet; an initial balance is cash paid in over the counter, so it goes
+    // through the ledger like any other deposit
+    const initialBalanceCents = Math.round(initialBalance * 100); // Convert to cents
+    const wallet = await withTransaction(async (session) => {
+      const newWallet = await createWallet(userObjectId, session);
+      if (initialBalanceCents > 0) {
+        const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+        const depositTransaction: TransactionModel = {
+          userId: userObjectId,
+          type: "deposit",
+          amount: initialBalanceCents,
+          toWalletId: newWallet.walletId,
+          status: "success",
+          note: "Initial balance",
+          createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(depositTransaction, { session });
+
+        await postJournalEntry(session, {
+          kind: "manual_credit",
+          postings: [
+            debit(EXTERNAL_CASH_ACCOUNT, initialBalanceCents),
+            credit(walletAccount(newWallet.walletId), initialBalanceCents),
+          ],
+          transactionIds: depositTransaction._id ? [depositTransaction._id] : undefined,
+          createdBy: admin._id,
+          note: "Initial balance set when the wallet was created",
+        });
+        newWallet.balance = initialBalanceCents;
+      }
+      return newWallet;
+    });
 
     return {
       success: true,
@@ -242,28 +329,23 @@ export async function createWalletForUser(userId: string, initialBalance: number
       error: error instanceof Error ? error.message : "Failed to create wallet",
     };
   }
-}
+});
 
 /**
- * Reject KYC application (Admin only)
+ * Reject KYC application (Admin or employee)
  * 
  * When a KYC application is rejected, the user is notified and no wallet is created.
  * 
  * @param kycApplicationId - ID of the KYC application to reject
  * @param reason - Reason for rejection
- * @param adminUserId - ID of the admin rejecting the application
  * @returns Success status
  */
-export async function rejectKyc(kycApplicationId: string, reason: string, adminUserId: string) {
+export const rejectKyc = requirePermission("kyc.review", async (reviewer, kycApplicationId: string, reason: string) => {
   try {
     if (!ObjectId.isValid(kycApplicationId)) {
       return { success: false, error: "Invalid KYC application ID" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
     if (!reason || reason.trim().length === 0) {
       return { success: false, error: "Rejection reason is required" };
     }
@@ -292,7 +374,7 @@ export async function rejectKyc(kycApplicationId: string, reason: string, adminU
         $set: {
           status: "rejected",
           reviewedAt: new Date(),
-          reviewedBy: new ObjectId(adminUserId),
+          reviewedBy: reviewer._id,
           rejectionReason: reason.trim(),
         },
       }
@@ -306,89 +388,65 @@ export async function rejectKyc(kycApplicationId: string, reason: string, adminU
       error: error instanceof Error ? error.message : "Failed to reject KYC",
     };
   }
-}
+});
 
 /**
  * Generate a redeem code (Admin only)
  * 
  * Creates a unique redeem code with PIN that can be used for wallet deposits.
+ * Only hashes of the code and PIN are stored, so this result is the only time
+ * the admin sees them.
  * 
  * @param amount - Amount in dollars (will be converted to cents)
  * @param expiryDate - Optional expiration date for the code
- * @param adminUserId - ID of the admin creating the code
  * @returns Success status with generated code, PIN, and amount
  */
-export async function generateRedeemCode(
+export const generateRedeemCode = requirePermission("redeem.generate", async (
+  admin,
   amount: number,
-  adminUserId: string,
   expiryDate?: Date
-) {
+) => {
   try {
     // Validate inputs
     if (!amount || amount <= 0) {
       return { success: false, error: "Amount must be greater than 0" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
     // Convert amount to cents
     const amountCents = Math.round(amount * 100);
 
-    // Generate unique code: ####-####-####-####
-    const generateCode = (): string => {
-      const code1 = Math.floor(1000 + Math.random() * 9000);
-      const code2 = Math.floor(1000 + Math.random() * 9000);
-      const code3 = Math.floor(1000 + Math.random() * 9000);
-      const code4 = Math.floor(1000 + Math.random() * 9000);
-      return `${code1}-${code2}-${code3}-${code4}`;
-    };
-
-    // Generate 4-digit PIN
-    const generatePIN = (): string => {
-      return Math.floor(1000 + Math.random() * 9000).toString();
-    };
-
-    // Ensure code uniqueness
+    // Only the hashes are stored; the plaintext is returned to the admin this once
+    const { code, pin, codeHash, codeLast4, pinHash } = await createRedeemCodeSecrets();
     const redeemCodesCollection = await getCollection<RedeemCodeModel>(
       COLLECTIONS.REDEEM_CODES
     );
-
-    let code = generateCode();
-    let existingCode = await redeemCodesCollection.findOne({ code });
-
-    // Regenerate if code already exists
-    let attempts = 0;
-    while (existingCode && attempts < 10) {
-      code = generateCode();
-      existingCode = await redeemCodesCollection.findOne({ code });
-      attempts++;
-    }
-
-    if (existingCode) {
-      return { success: false, error: "Failed to generate unique code. Please try again." };
-    }
-
-    const pin = generatePIN();
     const now = new Date();
 
     // Create redeem code
     const redeemCode: RedeemCodeModel = {
-      code,
-      pin,
+      codeHash,
+      codeLast4,
+      pinHash,
       amount: amountCents,
       used: false,
       createdAt: now,
-      createdBy: new ObjectId(adminUserId),
+      createdBy: admin._id,
       expiresAt: expiryDate || undefined,
     };
 
-    const result = await redeemCodesCollection.insertOne(redeemCode);
-
-    if (!result.insertedId) {
-      return { success: false, error: "Failed to create redeem code" };
-    }
+    // The code's face value is owed to whoever holds it until it is redeemed
+    await withTransaction(async (session) => {
+      await redeemCodesCollection.insertOne(redeemCode, { session });
+      await postJournalEntry(session, {
+        kind: "redeem_issue",
+        postings: [
+          debit(EXTERNAL_CASH_ACCOUNT, amountCents),
+          credit(REDEEM_LIABILITY_ACCOUNT, amountCents),
+        ],
+        createdBy: admin._id,
+        note: `Redeem code ending ${codeLast4}`,
+      });
+    });
 
     return {
       success: true,
@@ -406,27 +464,28 @@ export async function generateRedeemCode(
       error: error instanceof Error ? error.message : "Failed to generate redeem code",
     };
   }
-}
+});
 
 /**
  * Get all redeem codes (Admin only)
  * 
- * Returns all redeem codes sorted by creation date (newest first).
+ * Returns all redeem codes outside batches sorted by creation date (newest first).
  * 
  * @returns Array of redeem codes with serialized data
  */
-export async function getAllRedeemCodes() {
+export const getAllRedeemCodes = requirePermission("redeem.generate", async () => {
   try {
     const collection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
-    const codes = await collection.find({}).sort({ createdAt: -1 }).toArray();
+    // Batch codes are managed (and counted) per batch in the Batches tab
+    const codes = await collection.find({ batchId: { $exists: false } }).sort({ createdAt: -1 }).toArray();
 
     // Convert MongoDB objects to plain objects for Client Components
     return codes.map((code) => ({
       _id: code._id?.toString() || "",
-      code: code.code,
-      pin: code.pin,
+      code: maskRedeemCode(code.codeLast4),
       amount: code.amount,
       used: code.used,
+      locked: isRedeemCodeLocked(code),
       usedBy: code.usedBy?.toString(),
       usedByWalletId: code.usedByWalletId,
       usedAt: code.usedAt instanceof Date ? code.usedAt.toISOString() : code.usedAt,
@@ -438,7 +497,7 @@ export async function getAllRedeemCodes() {
     console.error("Error getting redeem codes:", error);
     return [];
   }
-}
+}, () => []);
 
 /**
  * Delete redeem codes (Admin only)
@@ -447,27 +506,14 @@ export async function getAllRedeemCodes() {
  * Can delete active, expired, or used codes.
  * 
  * @param codeIds - Array of redeem code IDs to delete
- * @param adminUserId - ID of the admin performing the deletion
  * @returns Success status with deletion count
  */
-export async function deleteRedeemCodes(codeIds: string[], adminUserId: string) {
+export const deleteRedeemCodes = requirePermission("redeem.generate", async (admin, codeIds: string[]) => {
   try {
     if (!Array.isArray(codeIds) || codeIds.length === 0) {
       return { success: false, error: "No redeem codes selected for deletion" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     // Validate all code IDs
     const validIds = codeIds.filter((id) => ObjectId.isValid(id));
     if (validIds.length === 0) {
@@ -482,8 +528,34 @@ export async function deleteRedeemCodes(codeIds: string[], adminUserId: string)
       COLLECTIONS.REDEEM_CODES
     );
 
-    const result = await redeemCodesCollection.deleteMany({
-      _id: { $in: objectIds },
+    // Batch codes keep their serial numbers for the batch's records; they are voided instead
+    const batchCodes = await redeemCodesCollection.countDocuments({ _id: { $in: objectIds }, batchId: { $exists: true } });
+    if (batchCodes > 0) {
+      return { success: false, error: "Codes from a batch can't be deleted. Void them from the Batches tab instead." };
+    }
+
+    // Deleting an unused code cancels what it was worth
+    const result = await withTransaction(async (session) => {
+      const unusedCodes = await redeemCodesCollection
+        .find({ _id: { $in: objectIds }, used: false }, { session })
+        .toArray();
+      const voidedCents = unusedCodes.reduce((sum, code) => sum + code.amount, 0);
+
+      const deleted = await redeemCodesCollection.deleteMany({ _id: { $in: objectIds } }, { session });
+
+      if (voidedCents > 0) {
+        await postJournalEntry(session, {
+          kind: "redeem_void",
+          postings: [
+            debit(REDEEM_LIABILITY_ACCOUNT, voidedCents),
+            credit(EXTERNAL_CASH_ACCOUNT, voidedCents),
+          ],
+          createdBy: admin._id,
+          note: `Deleted ${unusedCodes.length} unused redeem code${unusedCodes.length !== 1 ? "s" : ""}`,
+        });
+      }
+
+      return deleted;
     });
 
     return {
@@ -498,39 +570,23 @@ export async function deleteRedeemCodes(codeIds: string[], adminUserId: string)
       error: error instanceof Error ? error.message : "Failed to delete redeem codes",
     };
   }
-}
+});
 
 /**
  * Generate cards from redeem codes (Admin only)
  * 
- * Creates physical card representations of redeem codes with 16-digit card numbers.
+ * Creates physical card representations of redeem codes, numbered with the masked code.
  * Cards are styled like master cards and displayed in the Cards tab.
  * 
  * @param redeemCodeIds - Array of redeem code IDs to generate cards for
- * @param adminUserId - ID of the admin generating the cards
  * @returns Success status with generated cards data
  */
-export async function generateCardsFromRedeemCodes(
-  redeemCodeIds: string[],
-  adminUserId: string
-) {
+export const generateCardsFromRedeemCodes = requirePermission("redeem.generate", async (admin, redeemCodeIds: string[]) => {
   try {
     if (!Array.isArray(redeemCodeIds) || redeemCodeIds.length === 0) {
       return { success: false, error: "No redeem codes selected for card generation" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     // Validate all code IDs
     const validIds = redeemCodeIds.filter((id) => ObjectId.isValid(id));
     if (validIds.length === 0) {
@@ -579,23 +635,8 @@ export async function generateCardsFromRedeemCodes(
         continue;
       }
 
-      // Use the redeem code number as the card number (remove dashes to get 16 digits)
-      // Redeem code format: ####-####-####-####
-      // Card number format: ################ (16 digits, no dashes)
-      const cardNumber = redeemCode.code.replace(/-/g, "");
-
-      // Verify it's exactly 16 digits
-      if (cardNumber.length !== 16 || !/^\d{16}$/.test(cardNumber)) {
-        console.error(`Invalid redeem code format for ${redeemCode._id}: ${redeemCode.code}`);
-        continue;
-      }
-
-      // Check if this card number already exists (shouldn't happen, but safety check)
-      const existingCardNumber = await cardsCollection.findOne({ cardNumber });
-      if (existingCardNumber && existingCardNumber.redeemCodeId.toString() !== redeemCode._id.toString()) {
-        console.error(`Card number ${cardNumber} already exists for a different redeem code`);
-        continue;
-      }
+      // Codes are only stored hashed, so the card carries the masked code
+      const cardNumber = maskRedeemCode(redeemCode.codeLast4);
 
       // Create card
       const card: Omit<RedeemCardModel, "_id"> = {
@@ -604,7 +645,7 @@ export async function generateCardsFromRedeemCodes(
         amount: redeemCode.amount,
         expiresAt: redeemCode.expiresAt,
         createdAt: new Date(),
-        createdBy: new ObjectId(adminUserId),
+        createdBy: admin._id,
       };
 
       cardsToInsert.push(card);
@@ -639,7 +680,7 @@ export async function generateCardsFromRedeemCodes(
       error: error instanceof Error ? error.message : "Failed to generate cards",
     };
   }
-}
+});
 
 /**
  * Get all redeem cards (Admin only)
@@ -648,7 +689,7 @@ export async function generateCardsFromRedeemCodes(
  * 
  * @returns Array of redeem cards with serialized data
  */
-export async function getAllRedeemCards() {
+export const getAllRedeemCards = requirePermission("redeem.generate", async () => {
   try {
     const collection = await getCollection<RedeemCardModel>(COLLECTIONS.REDEEM_CARDS);
     const cards = await collection.find({}).sort({ createdAt: -1 }).toArray();
@@ -667,7 +708,7 @@ export async function getAllRedeemCards() {
     console.error("Error getting redeem cards:", error);
     return [];
   }
-}
+}, () => []);
 
 /**
  * Delete redeem card (Admin only)
@@ -675,27 +716,14 @@ export async function getAllRedeemCards() {
  * Permanently deletes a redeem card from the database.
  * 
  * @param cardId - ID of the card to delete
- * @param adminUserId - ID of the admin performing the deletion
  * @returns Success status
  */
-export async function deleteRedeemCard(cardId: string, adminUserId: string) {
+export const deleteRedeemCard = requirePermission("redeem.generate", async (admin, cardId: string) => {
   try {
     if (!ObjectId.isValid(cardId)) {
       return { success: false, error: "Invalid card ID" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     // Delete card
     const cardsCollection = await getCollection<RedeemCardModel>(
       COLLECTIONS.REDEEM_CARDS
@@ -720,7 +748,7 @@ export async function deleteRedeemCard(cardId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to delete card",
     };
   }
-}
+});
 
 
 /**
@@ -734,7 +762,7 @@ export async function deleteRedeemCard(cardId: string, adminUserId: string) {
  * 
  * @returns Object with success status and array of user objects with serialized data including hasWallet flag
  */
-export async function getUsers() {
+export const getUsers = requirePermission("users.manage", async () => {
   try {
     const collection = await getCollection<UserModel>(COLLECTIONS.USERS);
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
@@ -750,6 +778,7 @@ export async function getUsers() {
       email: user.email,
       role: user.role,
       hasWallet: userIdsWithWallets.has(user._id?.toString() || ""),
+      twoFactorEnabled: user.twoFactor?.enabled || false,
       createdAt: user.createdAt instanceof Date ? user.createdAt.toISOString() : user.createdAt,
       updatedAt: user.updatedAt instanceof Date ? user.updatedAt.toISOString() : user.updatedAt,
     }));
@@ -766,17 +795,55 @@ export async function getUsers() {
       error: error instanceof Error ? error.message : "Failed to get users",
     };
   }
-}
+});
 
+/**
+ * Report how many accounts still have a legacy or outdated password hash (Admin only)
+ * 
+ * Hashes are upgraded automatically when the user next signs in, so these counts
+ * shrink over time. Accounts that never sign in again stay on the old format.
+ * 
+ * @returns Total accounts, accounts on the legacy PBKDF2 `salt:hash` format and
+ * accounts on scrypt with outdated parameters
+ */
+export const getPasswordHashReport = requirePermission("users.manage", async () => {
+  try {
+    const { CURRENT_PASSWORD_HASH_PREFIX } = await import("@/lib/password");
+    const escapedPrefix = CURRENT_PASSWORD_HASH_PREFIX.replace(/[$]/g, "\\$");
+
+    const collection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const [total, legacy, current] = await Promise.all([
+      collection.countDocuments({}),
+      collection.countDocuments({ password: { $not: /^scrypt\$/ } }),
+      collection.countDocuments({ password: { $regex: `^${escapedPrefix}` } }),
+    ]);
+
+    return {
+      success: true,
+      report: {
+        total,
+        legacy,
+        outdated: total - legacy - current,
+        current,
+      },
+    };
+  } catch (error) {
+    console.error("Error getting password hash report:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get password hash report",
+    };
+  }
+});
 
 /**
- * Get all KYC applications (Admin only)
+ * Get all KYC applications (Admin or employee)
  * 
  * Returns all KYC applications with user information, sorted by submission date (newest first).
  * 
  * @returns Array of KYC application objects with serialized data
  */
-export async function getAllKycApplications() {
+export const getAllKycApplications = requirePermission("kyc.review", async () => {
   try {
     const kycCollection = await getCollection(COLLECTIONS.KYC);
     const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
@@ -809,6 +876,7 @@ export async function getAllKycApplications() {
         phone: kyc.phone,
         address: kyc.address,
         status: kyc.status,
+        tier: kyc.status === "approved" ? ((kyc.tier as KycTier | undefined) ?? DEFAULT_KYC_TIER) : undefined,
         submittedAt: kyc.submittedAt instanceof Date ? kyc.submittedAt.toISOString() : kyc.submittedAt,
         reviewedAt: kyc.reviewedAt instanceof Date ? kyc.reviewedAt.toISOString() : kyc.reviewedAt,
         rejectionReason: kyc.rejectionReason,
@@ -825,7 +893,7 @@ export async function getAllKycApplications() {
     console.error("Error getting KYC applications:", error);
     return [];
   }
-}
+}, () => []);
 
 /**
  * Get all system fees (Admin only)
@@ -841,7 +909,7 @@ export async function getAllKycApplications() {
  * Shows the wallet ID that the fee came from, amount, date, and time
  * Includes all fee types: P2P, ticket, invoice, and withdrawal (cash out) fees
  */
-export async function getDepositedTicketFees() {
+export const getDepositedTicketFees = requirePermission("fees.view", async () => {
   try {
     const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
     const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
@@ -934,13 +1002,13 @@ export async function getDepositedTicketFees() {
     console.error("Error getting deposited fees:", error);
     return [];
   }
-}
+}, () => []);
 
 /**
  * Get deposited fees organized by time period (day, week, month, year, total)
  * Returns fees grouped by the specified time period
  */
-export async function getDepositedFeesByPeriod(period: "day" | "week" | "month" | "year" | "total") {
+export const getDepositedFeesByPeriod = requirePermission("fees.view", async (admin, period: "day" | "week" | "month" | "year" | "total") => {
   try {
     const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
     const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
@@ -1111,9 +1179,9 @@ export async function getDepositedFeesByPeriod(period: "day" | "week" | "month"
     console.error("Error getting deposited fees by period:", error);
     return [];
   }
-}
+}, () => []);
 
-export async function getAllFees() {
+export const getAllFees = requirePermission("fees.view", async () => {
   try {
     const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
     const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
@@ -1227,7 +1295,80 @@ export async function getAllFees() {
     console.error("Error getting fees:", error);
     return [];
   }
-}
+}, () => []);
+
+/**
+ * Get the fee revenue balance (Admin only)
+ * 
+ * Fees charged but not yet deposited to the admin wallet, from the double-entry
+ * ledger. This is the Fee Ledger total; the fee rows from getAllFees break it down.
+ * 
+ * @returns Balance in cents
+ */
+export const getFeeRevenueBalance = requirePermission("fees.view", async () => {
+  try {
+    const ledgerBalances = await getLedgerBalancesByType();
+    return { success: true, balanceCents: ledgerBalances.fee_revenue };
+  } catch (error) {
+    console.error("Error getting fee revenue balance:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get fee revenue balance",
+    };
+  }
+});
+
+const serializeReconciliationRun = (run: ReconciliationRunModel) => ({
+  id: run._id?.toString() ?? "",
+  trigger: run.trigger,
+  walletCount: run.walletCount,
+  drift: run.drift.map((wallet) => ({ ...wallet, userId: wallet.userId.toString() })),
+  totals: run.totals,
+  totalsMatch: run.totalsMatch,
+  startedAt: run.startedAt.toISOString(),
+  finishedAt: run.finishedAt.toISOString(),
+});
+
+/**
+ * Get the latest balance reconciliation run (Admin only)
+ * 
+ * Wallets whose stored balance disagrees with their ledger postings or their
+ * transaction history, and the platform-wide totals check (see lib/reconciliation.ts).
+ * 
+ * @returns The run, or null when reconciliation has never run
+ */
+export const getLatestBalanceReconciliation = requirePermission("wallet.view", async () => {
+  try {
+    const run = await getLatestReconciliationRun();
+    return { success: true, run: run ? serializeReconciliationRun(run) : null };
+  } catch (error) {
+    console.error("Error getting balance reconciliation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get balance reconciliation",
+    };
+  }
+});
+
+/**
+ * Reconcile all wallet balances now (Admin only)
+ * 
+ * Only reads balances and records the result; nothing is corrected.
+ * 
+ * @returns The new run
+ */
+export const runBalanceReconciliation = requirePermission("wallet.view", async (admin) => {
+  try {
+    const run = await runReconciliation({ trigger: "admin", triggeredBy: admin._id });
+    return { success: true, run: serializeReconciliationRun(run) };
+  } catch (error) {
+    console.error("Error running balance reconciliation:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to run balance reconciliation",
+    };
+  }
+});
 
 /**
  * Suspend a wallet (Admin only)
@@ -1240,23 +1381,10 @@ export async function getAllFees() {
  * The wallet can be reactivated later by changing status back to "active".
  * 
  * @param walletId - Wallet ID (e.g., "STR456")
- * @param adminUserId - ID of the admin performing the action
  * @returns Success status
  */
-export async function suspendWallet(walletId: string, adminUserId: string) {
+export const suspendWallet = requirePermission("wallet.suspend", async (admin, walletId: string) => {
   try {
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-    
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
     const wallet = await walletsCollection.findOne({ walletId: walletId.toUpperCase() });
 
@@ -1291,7 +1419,7 @@ export async function suspendWallet(walletId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to suspend wallet",
     };
   }
-}
+});
 
 /**
  * Reactivate a suspended wallet (Admin only)
@@ -1299,23 +1427,10 @@ export async function suspendWallet(walletId: string, adminUserId: string) {
  * Changes wallet status from "suspended" back to "active".
  * 
  * @param walletId - Wallet ID (e.g., "STR456")
- * @param adminUserId - ID of the admin performing the action
  * @returns Success status
  */
-export async function reactivateWallet(walletId: string, adminUserId: string) {
+export const reactivateWallet = requirePermission("wallet.suspend", async (admin, walletId: string) => {
   try {
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-    
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
     const wallet = await walletsCollection.findOne({ walletId: walletId.toUpperCase() });
 
@@ -1346,7 +1461,7 @@ export async function reactivateWallet(walletId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to reactivate wallet",
     };
   }
-}
+});
 
 /**
  * Terminate a wallet (Admin only)
@@ -1362,23 +1477,10 @@ export async function reactivateWallet(walletId: string, adminUserId: string) {
  * but is marked as terminated so users can see the termination message.
  * 
  * @param walletId - Wallet ID (e.g., "STR456")
- * @param adminUserId - ID of the admin performing the action
  * @returns Success status
  */
-export async function deleteWallet(walletId: string, adminUserId: string) {
+export const deleteWallet = requirePermission("wallet.suspend", async (admin, walletId: string) => {
   try {
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-    
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
     const wallet = await walletsCollection.findOne({ walletId: walletId.toUpperCase() });
 
@@ -1410,7 +1512,7 @@ export async function deleteWallet(walletId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to terminate wallet",
     };
   }
-}
+});
 
 /**
  * Deposit total fees into admin wallet (Admin only)
@@ -1418,23 +1520,10 @@ export async function deleteWallet(walletId: string, adminUserId: string) {
  * Calculates the sum of all fees in the fee ledger and deposits them into the admin wallet.
  * This allows admins to collect all accumulated system fees into their wallet balance.
  * 
- * @param adminUserId - ID of the admin performing the deposit
  * @returns Success status with deposit amount
  */
-export async function depositTotalFees(adminUserId: string) {
+export const depositTotalFees = requirePermission("fees.deposit", async (admin) => {
   try {
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-    
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     // Get all undeposited fees and calculate total (fees are stored in cents)
     const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
     const allFees = await feesCollection.find({ 
@@ -1448,45 +1537,61 @@ export async function depositTotalFees(adminUserId: string) {
     }
 
     // Find or create admin wallet
-    const { getWalletByUserId, createWallet, updateWalletBalance } = await import("@/lib/db/utils");
+    const { getWalletByUserId, createWallet } = await import("@/lib/db/utils");
     let adminWallet = await getWalletByUserId(admin._id!);
     
     if (!adminWallet) {
-      adminWallet = await createWallet(admin._id!, 0);
+      adminWallet = await createWallet(admin._id!);
     }
 
-    // Deposit total fees into admin wallet
-    await updateWalletBalance(admin._id!, totalFeesCents, "add");
-
-    // Mark all fees as deposited
     const depositTimestamp = new Date();
     const feeIds = allFees.map(fee => fee._id).filter((id): id is ObjectId => id !== undefined);
-    if (feeIds.length > 0) {
-      await feesCollection.updateMany(
-        { _id: { $in: feeIds } },
-        {
-          $set: {
-            deposited: true,
-            depositedAt: depositTimestamp,
-          }
+    const walletId = adminWallet.walletId;
+
+    // Crediting the wallet and marking the fees deposited commit together
+    await withTransaction(async (session) => {
+      // Deposit total fees into admin wallet
+      await postJournalEntry(session, {
+        kind: "fee_deposit",
+        postings: [
+          debit(FEE_REVENUE_ACCOUNT, totalFeesCents),
+          credit(walletAccount(walletId), totalFeesCents),
+        ],
+        createdBy: admin._id,
+      });
+
+      // Mark all fees as deposited (a concurrent deposit of the same fees aborts this one)
+      if (feeIds.length > 0) {
+        const marked = await feesCollection.updateMany(
+          { _id: { $in: feeIds }, deposited: { $ne: true } },
+          {
+            $set: {
+              deposited: true,
+              depositedAt: depositTimestamp,
+            }
+          },
+          { session }
+        );
+        if (marked.modifiedCount !== feeIds.length) {
+          throw new Error("Fees have already been deposited");
         }
-      );
-    }
+      }
 
-    // Create a deposit transaction record
-    const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
-    const depositTransaction: TransactionModel = {
-      userId: admin._id!,
-      type: "deposit",
-      amount: totalFeesCents,
-      fromWalletId: undefined,
-      toWalletId: adminWallet.walletId,
-      ref: `FEE-${Date.now()}`,
-      status: "success",
-      note: "Total fees deposit from fee ledger",
-      createdAt: new Date(),
-    };
-    await transactionsCollection.insertOne(depositTransaction);
+      // Create a deposit transaction record
+      const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+      const depositTransaction: TransactionModel = {
+        userId: admin._id!,
+        type: "deposit",
+        amount: totalFeesCents,
+        fromWalletId: undefined,
+        toWalletId: walletId,
+        ref: `FEE-${Date.now()}`,
+        status: "success",
+        note: "Total fees deposit from fee ledger",
+        createdAt: new Date(),
+      };
+      await transactionsCollection.insertOne(depositTransaction, { session });
+    });
 
     return {
       success: true,
@@ -1502,7 +1607,7 @@ export async function depositTotalFees(adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to deposit total fees",
     };
   }
-}
+});
 
 /**
  * Get platform statistics (Admin only)
@@ -1516,10 +1621,13 @@ export async function depositTotalFees(adminUserId: string) {
  * - Total wallet balance across all wallets
  * - Total cash payout amount
  * - Total amount in pending withdrawal pool
+ * - Undeposited fees, outstanding redeem codes and undeposited ticket revenue
+ * 
+ * Money figures are derived from the double-entry ledger.
  * 
  * @returns Statistics object with all platform metrics
  */
-export async function getPlatformStatistics() {
+export const getPlatformStatistics = requirePermission("stats.view", async () => {
   try {
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
     const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
@@ -1533,52 +1641,38 @@ export async function getPlatformStatistics() {
     const suspendedWallets = wallets.filter(w => w.status === "suspended").length;
     const terminatedWallets = wallets.filter(w => w.status === "terminated").length;
     
-    // Calculate total balance (sum of all wallet balances in cents, then convert to dollars)
-    const totalBalanceCents = wallets.reduce((sum, wallet) => sum + (wallet.balance || 0), 0);
+    // Refund uncollected withdrawals first, so the pool only holds live requests
+    await expireCashWithdrawals();
+
+    // Money figures come from the double-entry ledger (lib/ledger.ts), derived from
+    // the journal postings rather than the cached balances
+    const ledgerBalances = await getLedgerBalancesByType();
+
+    // Total balance owed to wallet holders (in cents, then converted to dollars)
+    const totalBalanceCents = ledgerBalances.wallet;
     const totalBalance = totalBalanceCents / 100;
     
     // Get total users count
     const totalUsers = await usersCollection.countDocuments({});
 
-    // Calculate total cash payout amount (from successful cash_payout transactions)
-    const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
-    const cashPayoutTransactions = await transactionsCollection.find({
-      type: "cash_payout",
-      status: "success",
-    }).toArray();
-    
-    const totalCashPayoutCents = cashPayoutTransactions.reduce(
-      (sum, tx) => sum + (tx.amount || 0),
-      0
-    );
+    // Total cash handed out by cash payouts (after fees)
+    const totalCashPayoutCents = await getPostingTotal("cash_payout", "external_cash", "credit");
     const totalCashPayout = totalCashPayoutCents / 100;
 
-    // Calculate total amount in pending withdrawal pool
-    // Sum of all pending withdrawals that haven't been processed or expired
-    const pendingWithdrawalsCollection = await getCollection(COLLECTIONS.PENDING_WITHDRAWALS);
-    const pendingWithdrawals = await pendingWithdrawalsCollection.find({
-      status: "pending",
-      expiresAt: { $gt: new Date() }, // Only include non-expired withdrawals
-    }).toArray();
-    
-    const totalAmountInPoolCents = pendingWithdrawals.reduce(
-      (sum, withdrawal) => sum + (withdrawal.amount || 0),
-      0
-    );
+    // Total amount in the pending withdrawal pool
+    const totalAmountInPoolCents = ledgerBalances.cash_payout_pool;
     const totalAmountInPool = totalAmountInPoolCents / 100;
 
-    // Calculate total deposited fees (fees that have been deposited to admin wallet)
-    const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
-    const depositedFees = await feesCollection.find({ 
-      deposited: true
-    }).toArray();
-    
-    const totalDepositedFeesCents = depositedFees.reduce(
-      (sum, fee) => sum + (fee.amount || 0),
-      0
-    );
+    // Total fees deposited to the admin wallet
+    const totalDepositedFeesCents = await getPostingTotal("fee_deposit", "fee_revenue", "debit");
     const totalDepositedFees = totalDepositedFeesCents / 100;
 
+    // Fees waiting to be deposited, value of unredeemed codes and ticket revenue
+    // not yet deposited by event creators
+    const undepositedFeesCents = ledgerBalances.fee_revenue;
+    const redeemLiabilityCents = ledgerBalances.redeem_liability;
+    const ticketSalesPayableCents = ledgerBalances.ticket_sales_payable;
+
     return {
       success: true,
       statistics: {
@@ -1595,6 +1689,9 @@ export async function getPlatformStatistics() {
         totalAmountInPoolCents,
         totalDepositedFees,
         totalDepositedFeesCents,
+        undepositedFeesCents,
+        redeemLiabilityCents,
+        ticketSalesPayableCents,
       },
     };
   } catch (error) {
@@ -1616,10 +1713,13 @@ export async function getPlatformStatistics() {
         totalAmountInPoolCents: 0,
         totalDepositedFees: 0,
         totalDepositedFeesCents: 0,
+        undepositedFeesCents: 0,
+        redeemLiabilityCents: 0,
+        ticketSalesPayableCents: 0,
       },
     };
   }
-}
+});
 
 /**
  * Get pending withdrawal pool details (Admin only)
@@ -1631,8 +1731,11 @@ export async function getPlatformStatistics() {
  * 
  * @returns Array of pending withdrawal details
  */
-export async function getPendingWithdrawalPoolDetails() {
+export const getPendingWithdrawalPoolDetails = requirePermission("fees.view", async () => {
   try {
+    // Refund withdrawals nobody collected in time, so they leave the pool
+    await expireCashWithdrawals();
+
     const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(
       COLLECTIONS.PENDING_WITHDRAWALS
     );
@@ -1668,7 +1771,7 @@ export async function getPendingWithdrawalPoolDetails() {
       error: error instanceof Error ? error.message : "Failed to get pool details",
     };
   }
-}
+});
 
 /**
  * Get cash payout details (Admin only)
@@ -1681,7 +1784,7 @@ export async function getPendingWithdrawalPoolDetails() {
  * 
  * @returns Array of cash payout details
  */
-export async function getCashPayoutDetails() {
+export const getCashPayoutDetails = requirePermission("fees.view", async () => {
   try {
     const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
     const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
@@ -1779,7 +1882,7 @@ export async function getCashPayoutDetails() {
       error: error instanceof Error ? error.message : "Failed to get cash payout details",
     };
   }
-}
+});
 
 /**
  * Delete a user and all related data (Admin only)
@@ -1788,52 +1891,50 @@ export async function getCashPayoutDetails() {
  * 
  * IMPORTANT: User can only be deleted if their wallet balance is within the configured threshold.
  * The maximum balance allowed for deletion is configured in System Settings (Control tab).
+ * Only admins can delete an admin, or a user whose role has permissions the caller lacks.
  * 
  * Deletes:
  * - User account (email, password, role)
  * - Wallet (if exists)
- * - All transactions (sent, received, fees, deposits, withdrawals)
  * - KYC application (if exists)
  * - All fees associated with user
  * - Pending withdrawals (if any)
  * - Invoices (issued and received)
  * - Redeem codes used by user (if any)
  * 
+ * Transactions are kept: they are the permanent record of money that moved, and the
+ * other party's history still points at them. Pending refund requests involving the
+ * user are cancelled.
+ * 
  * @param userId - MongoDB ObjectId of the user to delete
- * @param adminUserId - ID of the admin performing the deletion
  * @returns Success status with deletion details
  */
-export async function deleteUser(userId: string, adminUserId: string) {
+export const deleteUser = requirePermission("users.manage", async (admin, userId: string) => {
   try {
     if (!ObjectId.isValid(userId)) {
       return { success: false, error: "Invalid user ID format" };
     }
 
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
-    
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
-    }
-
     const userObjectId = new ObjectId(userId);
 
     // Prevent admin from deleting themselves
-    if (userObjectId.toString() === adminUserId) {
+    if (userObjectId.equals(admin._id)) {
       return { success: false, error: "You cannot delete your own account" };
     }
 
     // Check if user exists
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
     const user = await usersCollection.findOne({ _id: userObjectId });
     if (!user) {
       return { success: false, error: "User not found" };
     }
 
+    // A delegated users.manage can't remove an admin or anyone with more access
+    const { getRolePermissions } = await import("@/lib/roles");
+    if (!canManageUser(admin.role, admin.permissions, user.role, await getRolePermissions(user.role))) {
+      return { success: false, error: "You can't delete a user with permissions you don't have" };
+    }
+
     // Check wallet balance - user can only be deleted if balance is within the configured threshold
     const { getWalletByUserId } = await import("@/lib/db/utils");
     const { getSystemSettings } = await import("./system-settings");
@@ -1858,30 +1959,54 @@ export async function deleteUser(userId: string, adminUserId: string) {
 
     // Delete all related data
     const walletsCollection = await getCollection(COLLECTIONS.WALLETS);
-    const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
     const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
     const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
     const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(COLLECTIONS.PENDING_WITHDRAWALS);
     const invoicesCollection = await getCollection(COLLECTIONS.INVOICES);
     const redeemCodesCollection = await getCollection<RedeemCodeModel>(COLLECTIONS.REDEEM_CODES);
+    const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+
+    // Close the user's accounts in the ledger: the remaining balance and any pending
+    // withdrawals are written off as paid out, and redeem codes they used become
+    // redeemable again (see below), so their value is owed once more
+    const pendingWithdrawals = await pendingWithdrawalsCollection
+      .find({ userId: userObjectId, status: "pending" })
+      .toArray();
+    const reopenedCodes = await redeemCodesCollection
+      .find({ used: true, $or: [{ usedBy: userObjectId }, ...(walletId ? [{ usedByWalletId: walletId }] : [])] })
+      .toArray();
+    const walletBalanceCents = wallet?.balance ?? 0;
+    const pendingCents = pendingWithdrawals.reduce((sum, withdrawal) => sum + withdrawal.amount, 0);
+    const reopenedCents = reopenedCodes.reduce((sum, code) => sum + code.amount, 0);
+
+    if (walletBalanceCents + pendingCents + reopenedCents > 0) {
+      await withTransaction(async (session) => {
+        await postJournalEntry(session, {
+          kind: "wallet_closure",
+          postings: [
+            ...(walletId ? [debit(walletAccount(walletId), walletBalanceCents)] : []),
+            debit(CASH_PAYOUT_POOL_ACCOUNT, pendingCents),
+            credit(EXTERNAL_CASH_ACCOUNT, walletBalanceCents + pendingCents),
+            debit(EXTERNAL_CASH_ACCOUNT, reopenedCents),
+            credit(REDEEM_LIABILITY_ACCOUNT, reopenedCents),
+          ],
+          createdBy: admin._id,
+          note: `User ${user.email} deleted`,
+        });
+      });
+    }
 
     // Delete wallet (if exists)
     if (wallet) {
       await walletsCollection.deleteOne({ _id: wallet._id });
     }
 
-    // Delete all transactions where user is involved (by userId or walletId)
-    if (walletId) {
-      await transactionsCollection.deleteMany({
-        $or: [
-          { userId: userObjectId },
-          { fromWalletId: walletId },
-          { toWalletId: walletId },
-        ]
-      });
-    } else {
-      await transactionsCollection.deleteMany({ userId: userObjectId });
-    }
+    // Transactions are never deleted; a refund can no longer be approved without the
+    // user's wallet, so close any pending requests they are part of
+    await refundRequestsCollection.updateMany(
+      { status: "pending", $or: [{ senderUserId: userObjectId }, { recipientUserId: userObjectId }] },
+      { $set: { status: "cancelled", decidedBy: admin._id, decidedAt: new Date() } }
+    );
 
     // Delete KYC application
     await kycCollection.deleteMany({ userId: userObjectId });
@@ -1930,6 +2055,6 @@ export async function deleteUser(userId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to delete user",
     };
   }
-}
+});
 
 
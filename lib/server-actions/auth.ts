@@ -1,30 +1,40 @@
 "use server";
 
-import { getUserByEmail, createUser } from "@/lib/db/utils";
+import { getUserByEmail, createUser, updateUser } from "@/lib/db/utils";
 import { COLLECTIONS } from "@/lib/db/models";
 import type { UserModel, PasswordResetTokenModel } from "@/lib/db/models";
 import { getCollection } from "@/lib/db";
+import {
+  createSession,
+  destroyCurrentSession,
+  getCurrentUser,
+  getRequestMetadata,
+  revokeAllSessions,
+} from "@/lib/session";
+import { getRolePermissions } from "@/lib/roles";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import {
+  isTwoFactorRequiredForRole,
+  createTwoFactorChallenge,
+  getTwoFactorChallenge,
+  recordFailedTwoFactorAttempt,
+  deleteTwoFactorChallenge,
+  verifyTwoFactorCode,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+} from "@/lib/two-factor";
+import {
+  getThrottleDelay,
+  registerThrottledAttempt,
+  clearThrottledAttempts,
+  formatRetryAfter,
+  recordLoginEvent,
+} from "@/lib/login-throttle";
+import { isEmailVerified, sendEmailVerification, consumeEmailVerificationToken } from "@/lib/email-verification";
+import type { Permission } from "@/lib/rbac";
 import { ObjectId } from "mongodb";
 import crypto from "crypto";
 
-// Simple password hashing using Node.js crypto (for now)
-// In production, consider using bcryptjs for better security
-const hashPassword = (password: string): string => {
-  const salt = crypto.randomBytes(16).toString("hex");
-  const hash = crypto
-    .pbkdf2Sync(password, salt, 1000, 64, "sha512")
-    .toString("hex");
-  return `${salt}:${hash}`;
-};
-
-const verifyPassword = (password: string, hashedPassword: string): boolean => {
-  const [salt, hash] = hashedPassword.split(":");
-  const verifyHash = crypto
-    .pbkdf2Sync(password, salt, 1000, 64, "sha512")
-    .toString("hex");
-  return hash === verifyHash;
-};
-
 export interface AuthResult {
   success: boolean;
   message?: string;
@@ -32,8 +42,16 @@ export interface AuthResult {
     id: string;
     email: string;
     role: string;
+    permissions: Permission[]; // Resolved from the role so the UI can show what the user may do
+    emailVerified: boolean; // KYC and wallets stay locked until the address is verified
     createdAt: string;
   };
+  // Set when the password was correct but a second step is needed before the
+  // session is created: "verify" = enter a code, "setup" = the role requires 2FA
+  // and the account must enroll first
+  twoFactor?: "verify" | "setup";
+  challengeToken?: string;
+  recoveryCodes?: string[]; // Shown once after enrolling during sign in
 }
 
 /**
@@ -59,25 +77,38 @@ export async function signUp(email: string, password: string): Promise<AuthResul
     }
 
     // Hash password
-    const hashedPassword = hashPassword(password);
+    const hashedPassword = await hashPassword(password);
 
     // Create new user
     const newUser = await createUser({
       email: email.toLowerCase(),
       password: hashedPassword,
       role: "user",
+      emailVerified: false,
     });
 
     if (!newUser._id) {
       return { success: false, message: "Failed to create user" };
     }
 
+    // Ask the user to confirm the address (not fatal: they can resend from Settings)
+    try {
+      await sendEmailVerification(newUser);
+    } catch (verificationError) {
+      console.error("Error sending verification email:", verificationError);
+    }
+
+    // Start a server-side session for the new user
+    await createSession(newUser._id);
+
     return {
       success: true,
       user: {
         id: newUser._id.toString(),
         email: newUser.email,
         role: newUser.role,
+        permissions: await getRolePermissions(newUser.role),
+        emailVerified: isEmailVerified(newUser),
         createdAt: newUser.createdAt.toISOString(),
       },
     };
@@ -100,14 +131,33 @@ export async function signIn(email: string, password: string): Promise<AuthResul
       return { success: false, message: "Email and password are required" };
     }
 
+    const normalizedEmail = email.toLowerCase();
+    const { ipAddress } = await getRequestMetadata();
+
+    // Refuse early while this email or IP is locked out, without checking the password
+    const retryAfterMs = await getThrottleDelay("sign_in", normalizedEmail, ipAddress);
+    if (retryAfterMs > 0) {
+      const lockedUser = await getUserByEmail(normalizedEmail);
+      await recordLoginEvent({ email: normalizedEmail, outcome: "throttled", userId: lockedUser?._id });
+      return {
+        success: false,
+        message: `Too many failed sign-in attempts. Please try again in ${formatRetryAfter(retryAfterMs)}.`,
+      };
+    }
+
     // Find user by email
-    const user = await getUserByEmail(email.toLowerCase());
+    const user = await getUserByEmail(normalizedEmail);
     if (!user) {
+      await registerThrottledAttempt("sign_in", normalizedEmail, ipAddress);
+      await recordLoginEvent({ email: normalizedEmail, outcome: "unknown_email" });
       return { success: false, message: "Invalid email or password" };
     }
 
     // Verify password
-    if (!verifyPassword(password, user.password)) {
+    const { valid, needsRehash } = await verifyPassword(password, user.password);
+    if (!valid) {
+      await registerThrottledAttempt("sign_in", normalizedEmail, ipAddress);
+      await recordLoginEvent({ email: normalizedEmail, outcome: "invalid_password", userId: user._id });
       return { success: false, message: "Invalid email or password" };
     }
 
@@ -115,12 +165,55 @@ export async function signIn(email: string, password: string): Promise<AuthResul
       return { success: false, message: "User ID not found" };
     }
 
+    // Upgrade legacy/outdated hashes now that we have the plaintext password
+    if (needsRehash) {
+      try {
+        await updateUser(user._id, { password: await hashPassword(password) });
+      } catch (rehashError) {
+        // Not fatal: the old hash still works and we'll retry on the next sign in
+        console.error("Error upgrading password hash:", rehashError);
+      }
+    }
+
+    // Accounts with 2FA (or whose role requires it) need a second step before
+    // a session is created
+    if (user.twoFactor?.enabled) {
+      await recordLoginEvent({ email: normalizedEmail, outcome: "two_factor_required", userId: user._id });
+      return {
+        success: false,
+        twoFactor: "verify",
+        challengeToken: await createTwoFactorChallenge(user._id, "verify"),
+        message: "Enter the code from your authenticator app",
+      };
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      await recordLoginEvent({ email: normalizedEmail, outcome: "two_factor_required", userId: user._id });
+      return {
+        success: false,
+        twoFactor: "setup",
+        challengeToken: await createTwoFactorChallenge(user._id, "setup"),
+        message: "Your role requires two-factor authentication. Set it up to continue.",
+      };
+    }
+
+    // Signed in, so earlier failures for this email no longer count. With 2FA
+    // this only happens once the code is accepted, so a known password can't be
+    // used to keep opening new challenges to guess codes in
+    await clearThrottledAttempts("sign_in", normalizedEmail);
+
+    // Start a server-side session (sets the HTTP-only session cookie)
+    await createSession(user._id);
+    await recordLoginEvent({ email: normalizedEmail, outcome: "success", userId: user._id });
+
     return {
       success: true,
       user: {
         id: user._id.toString(),
         email: user.email,
         role: user.role,
+        permissions: await getRolePermissions(user.role),
+        emailVerified: isEmailVerified(user),
         createdAt: user.createdAt.toISOString(),
       },
     };
@@ -134,93 +227,191 @@ export async function signIn(email: string, password: string): Promise<AuthResul
 }
 
 /**
- * Get user by ID (for session management)
+ * Second sign-in step: check a TOTP or recovery code and create the session
  */
-export async function getUserById(userId: string): Promise<AuthResult> {
+export async function completeTwoFactorSignIn(challengeToken: string, code: string): Promise<AuthResult> {
   try {
-    if (!ObjectId.isValid(userId)) {
-      return { success: false, message: "Invalid user ID format" };
+    const pending = await getTwoFactorChallenge(challengeToken, "verify");
+    if (!pending) {
+      return { success: false, message: "Your sign-in attempt expired. Please sign in again." };
     }
 
-    const collection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const user = await collection.findOne({ _id: new ObjectId(userId) });
+    const { challenge, user } = pending;
+    const { ipAddress } = await getRequestMetadata();
+
+    // Wrong codes count against the same email and IP counters as wrong passwords
+    const retryAfterMs = await getThrottleDelay("sign_in", user.email, ipAddress);
+    if (retryAfterMs > 0) {
+      await recordLoginEvent({ email: user.email, outcome: "throttled", userId: user._id });
+      return {
+        success: false,
+        twoFactor: "verify",
+        challengeToken,
+        message: `Too many failed sign-in attempts. Please try again in ${formatRetryAfter(retryAfterMs)}.`,
+      };
+    }
 
-    if (!user || !user._id) {
-      return { success: false, message: "User not found" };
+    const { valid, usedRecoveryCode } = await verifyTwoFactorCode(user, code || "");
+    if (!valid) {
+      await recordFailedTwoFactorAttempt(challenge._id);
+      await registerThrottledAttempt("sign_in", user.email, ipAddress);
+      await recordLoginEvent({ email: user.email, outcome: "two_factor_failed", userId: user._id });
+      return { success: false, twoFactor: "verify", challengeToken, message: "Invalid authentication code" };
     }
 
+    await clearThrottledAttempts("sign_in", user.email);
+    await deleteTwoFactorChallenge(challenge._id);
+    await createSession(user._id);
+    await recordLoginEvent({ email: user.email, outcome: "success", userId: user._id });
+
+    const remaining = (user.twoFactor?.recoveryCodeHashes.length ?? 0) - 1;
     return {
       success: true,
+      message: usedRecoveryCode
+        ? `Signed in with a recovery code. You have ${remaining} recovery code${remaining === 1 ? "" : "s"} left.`
+        : undefined,
       user: {
         id: user._id.toString(),
         email: user.email,
         role: user.role,
+        permissions: await getRolePermissions(user.role),
+        emailVerified: isEmailVerified(user),
         createdAt: user.createdAt.toISOString(),
       },
     };
   } catch (error) {
-    console.error("Get user error:", error);
+    console.error("Two-factor sign in error:", error);
     return {
       success: false,
-      message: error instanceof Error ? error.message : "Failed to get user",
+      message: error instanceof Error ? error.message : "Failed to verify authentication code",
     };
   }
 }
 
 /**
- * Sign up a user with a specific role (for admin setup)
+ * Start the mandatory 2FA enrollment during sign in (returns the QR code to scan)
  */
-export async function signUpWithRole(
-  email: string,
-  password: string,
-  role: "user" | "admin" | "journalist" | "employee" | "finance" = "user"
-): Promise<AuthResult> {
+export async function startTwoFactorSetupSignIn(
+  challengeToken: string
+): Promise<{ success: boolean; message?: string; qrCodeDataUrl?: string; secret?: string }> {
   try {
-    // Validate email
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      return { success: false, message: "Invalid email format" };
+    const pending = await getTwoFactorChallenge(challengeToken, "setup");
+    if (!pending) {
+      return { success: false, message: "Your sign-in attempt expired. Please sign in again." };
     }
 
-    // Validate password
-    if (password.length < 8 || password.length > 25) {
-      return { success: false, message: "Password must be 8 to 25 characters" };
+    const { qrCodeDataUrl, secret } = await beginTwoFactorEnrollment(pending.user);
+    return { success: true, qrCodeDataUrl, secret };
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to start two-factor setup",
+    };
+  }
+}
+
+/**
+ * Finish the mandatory 2FA enrollment during sign in and create the session
+ * The recovery codes are returned once so the user can store them
+ */
+export async function completeTwoFactorSetupSignIn(challengeToken: string, code: string): Promise<AuthResult> {
+  try {
+    const pending = await getTwoFactorChallenge(challengeToken, "setup");
+    if (!pending) {
+      return { success: false, message: "Your sign-in attempt expired. Please sign in again." };
     }
 
-    // Check if user already exists
-    const existingUser = await getUserByEmail(email);
-    if (existingUser) {
-      return { success: false, message: "User with this email already exists" };
+    const { challenge, user } = pending;
+    const { ipAddress } = await getRequestMetadata();
+
+    const retryAfterMs = await getThrottleDelay("sign_in", user.email, ipAddress);
+    if (retryAfterMs > 0) {
+      await recordLoginEvent({ email: user.email, outcome: "throttled", userId: user._id });
+      return {
+        success: false,
+        twoFactor: "setup",
+        challengeToken,
+        message: `Too many failed sign-in attempts. Please try again in ${formatRetryAfter(retryAfterMs)}.`,
+      };
     }
 
-    // Hash password
-    const hashedPassword = hashPassword(password);
+    const recoveryCodes = await confirmTwoFactorEnrollment(user, code || "");
+    if (!recoveryCodes) {
+      await recordFailedTwoFactorAttempt(challenge._id);
+      await registerThrottledAttempt("sign_in", user.email, ipAddress);
+      return { success: false, twoFactor: "setup", challengeToken, message: "Invalid authentication code" };
+    }
 
-    // Create new user with specified role
-    const newUser = await createUser({
-      email: email.toLowerCase(),
-      password: hashedPassword,
-      role: role,
-    });
+    await clearThrottledAttempts("sign_in", user.email);
+    await deleteTwoFactorChallenge(challenge._id);
+    await createSession(user._id);
+    await recordLoginEvent({ email: user.email, outcome: "success", userId: user._id });
 
-    if (!newUser._id) {
-      return { success: false, message: "Failed to create user" };
+    return {
+      success: true,
+      recoveryCodes,
+      user: {
+        id: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        permissions: await getRolePermissions(user.role),
+        emailVerified: isEmailVerified(user),
+        createdAt: user.createdAt.toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to complete two-factor setup",
+    };
+  }
+}
+
+/**
+ * Sign out the current user (revokes the session and clears the session cookie)
+ */
+export async function signOut(): Promise<{ success: boolean; message?: string }> {
+  try {
+    await destroyCurrentSession();
+    return { success: true };
+  } catch (error) {
+    console.error("Sign out error:", error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to sign out",
+    };
+  }
+}
+
+/**
+ * Get the user for the current session (for session management)
+ */
+export async function getSessionUser(): Promise<AuthResult> {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user || !user._id) {
+      return { success: false, message: "Not signed in" };
     }
 
     return {
       success: true,
       user: {
-        id: newUser._id.toString(),
-        email: newUser.email,
-        role: newUser.role,
-        createdAt: newUser.createdAt.toISOString(),
+        id: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        permissions: await getRolePermissions(user.role),
+        emailVerified: isEmailVerified(user),
+        createdAt: user.createdAt.toISOString(),
       },
     };
   } catch (error) {
-    console.error("Sign up with role error:", error);
+    console.error("Get session user error:", error);
     return {
       success: false,
-      message: error instanceof Error ? error.message : "Failed to sign up",
+      message: error instanceof Error ? error.message : "Failed to get session",
     };
   }
 }
@@ -236,8 +427,21 @@ export async function requestPasswordReset(email: string): Promise<{ success: bo
       return { success: false, message: "Invalid email format" };
     }
 
+    // Every request counts (even for unknown emails) so the form can't be used
+    // to flood someone's inbox or probe many addresses
+    const normalizedEmail = email.toLowerCase();
+    const { ipAddress } = await getRequestMetadata();
+    const retryAfterMs = await getThrottleDelay("password_reset", normalizedEmail, ipAddress);
+    if (retryAfterMs > 0) {
+      return {
+        success: false,
+        message: `Too many password reset requests. Please try again in ${formatRetryAfter(retryAfterMs)}.`,
+      };
+    }
+    await registerThrottledAttempt("password_reset", normalizedEmail, ipAddress);
+
     // Find user by email
-    const user = await getUserByEmail(email.toLowerCase());
+    const user = await getUserByEmail(normalizedEmail);
     if (!user || !user._id) {
       // Don't reveal if user exists or not for security
       return { success: true, message: "If an account exists with this email, a password reset link has been sent." };
@@ -355,7 +559,7 @@ export async function resetPassword(
     const userId = tokenVerification.userId;
 
     // Hash new password
-    const hashedPassword = hashPassword(newPassword);
+    const hashedPassword = await hashPassword(newPassword);
 
     // Update user password
     const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
@@ -387,7 +591,10 @@ export async function resetPassword(
       }
     );
 
-    return { success: true, message: "Password has been reset successfully" };
+    // Whoever knew the old password may still be signed in somewhere, so end every session
+    await revokeAllSessions(new ObjectId(userId));
+
+    return { success: true, message: "Password has been reset successfully. Please sign in with your new password." };
   } catch (error) {
     console.error("Reset password error:", error);
     return {
@@ -397,3 +604,58 @@ export async function resetPassword(
   }
 }
 
+
+/**
+ * Verify an email address using the token from the verification link
+ */
+export async function verifyEmail(token: string): Promise<{ success: boolean; message?: string }> {
+  try {
+    if (!token || token.trim().length === 0) {
+      return { success: false, message: "Invalid verification link" };
+    }
+
+    return await consumeEmailVerificationToken(token);
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to verify email address",
+    };
+  }
+}
+
+/**
+ * Send a new verification link to the signed-in user's email address
+ */
+export async function resendVerificationEmail(): Promise<{ success: boolean; message?: string }> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { success: false, message: "Not signed in" };
+    }
+
+    if (isEmailVerified(user)) {
+      return { success: false, message: "Your email address is already verified" };
+    }
+
+    const { ipAddress } = await getRequestMetadata();
+    const retryAfterMs = await getThrottleDelay("email_verification", user.email, ipAddress);
+    if (retryAfterMs > 0) {
+      return {
+        success: false,
+        message: `Too many verification emails requested. Please try again in ${formatRetryAfter(retryAfterMs)}.`,
+      };
+    }
+    await registerThrottledAttempt("email_verification", user.email, ipAddress);
+
+    await sendEmailVerification(user);
+
+    return { success: true, message: `A new verification link has been sent to ${user.email}` };
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to send verification email",
+    };
+  }
+}
@@ -1,15 +1,17 @@
 "use server";
 
 import { uploadImageFromBase64, uploadImageFromBuffer } from "@/lib/cloudinary";
+import { requireUser } from "@/lib/authz";
 
 /**
  * Server action to upload an image to Cloudinary from base64 data URL
  */
-export async function uploadImageToCloudinary(
+export const uploadImageToCloudinary = requireUser(async (
+  uploader,
   base64Data: string,
   folder: string = 'madeenajuba_Kilimanjaro',
   publicId?: string
-) {
+) => {
   try {
     if (!base64Data) {
       return { success: false, error: "No image data provided" };
@@ -29,17 +31,18 @@ export async function uploadImageToCloudinary(
       error: error instanceof Error ? error.message : "Failed to upload image",
     };
   }
-}
+});
 
 /**
  * Server action to upload an image to Cloudinary from a file
  * This accepts a base64 string that will be converted to buffer
  */
-export async function uploadImageFileToCloudinary(
+export const uploadImageFileToCloudinary = requireUser(async (
+  uploader,
   base64Data: string,
   folder: string = 'madeenajuba_Kilimanjaro',
   publicId?: string
-) {
+) => {
   try {
     if (!base64Data) {
       return { success: false, error: "No image data provided" };
@@ -61,5 +64,5 @@ export async function uploadImageFileToCloudinary(
       error: error instanceof Error ? error.message : "Failed to upload image",
     };
   }
-}
+});
 
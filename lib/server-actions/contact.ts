@@ -3,24 +3,15 @@
 import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, ContactMessageModel, KycModel, UserModel } from "@/lib/db/models";
-import { getUserById } from "@/lib/db/utils";
-import { createNotification } from "./notifications";
+import { getCurrentUser } from "@/lib/session";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { createNotification } from "@/lib/notifications";
 
 /**
  * Get user contact information (email and phone) if authenticated
  */
-export async function getUserContactInfo(userId: string) {
+export const getUserContactInfo = requireUser(async (user) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, email: null, phone: null };
-    }
-
-    // Get user email
-    const user = await getUserById(userId);
-    if (!user) {
-      return { success: false, email: null, phone: null };
-    }
-
     const email = user.email || null;
 
     // Get user phone from KYC
@@ -43,14 +34,13 @@ export async function getUserContactInfo(userId: string) {
       error: error instanceof Error ? error.message : "Failed to get user contact info",
     };
   }
-}
+});
 
 /**
  * Submit a contact message
  * Works for both authenticated and non-authenticated users
  */
 export async function submitContactMessage(data: {
-  userId?: string; // Optional - only if user is authenticated
   email: string;
   phone?: string; // Optional
   subject: string;
@@ -76,14 +66,9 @@ export async function submitContactMessage(data: {
       return { success: false, error: "Please enter a valid email address" };
     }
 
-    // Get MongoDB user ID if authenticated
-    let mongoUserId: ObjectId | undefined = undefined;
-    if (data.userId && ObjectId.isValid(data.userId)) {
-      const user = await getUserById(data.userId);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    }
+    // Link the message to the signed-in user, if any
+    const currentUser = await getCurrentUser();
+    const mongoUserId = currentUser?._id;
 
     // Create contact message
     const contactMessage: Omit<ContactMessageModel, "_id"> = {
@@ -156,7 +141,7 @@ export async function submitContactMessage(data: {
 /**
  * Get all contact messages (Admin only)
  */
-export async function getAllContactMessages() {
+export const getAllContactMessages = requirePermission("messages.manage", async () => {
   try {
     const contactCollection = await getCollection<ContactMessageModel>(
       COLLECTIONS.CONTACT_MESSAGES
@@ -191,16 +176,17 @@ export async function getAllContactMessages() {
       messages: [],
     };
   }
-}
+});
 
 /**
  * Update contact message status (Admin only)
  */
-export async function updateMessageStatus(
+export const updateMessageStatus = requirePermission("messages.manage", async (
+  admin,
   messageId: string,
   status: "read" | "replied" | "archived",
   adminUserId?: string
-) {
+) => {
   try {
     if (!messageId || !ObjectId.isValid(messageId)) {
       return { success: false, error: "Invalid message ID" };
@@ -250,12 +236,12 @@ export async function updateMessageStatus(
       error: error instanceof Error ? error.message : "Failed to update message status",
     };
   }
-}
+});
 
 /**
  * Delete contact message (Admin only)
  */
-export async function deleteContactMessage(messageId: string) {
+export const deleteContactMessage = requirePermission("messages.manage", async (admin, messageId: string) => {
   try {
     if (!messageId || !ObjectId.isValid(messageId)) {
       return { success: false, error: "Invalid message ID" };
@@ -284,5 +270,5 @@ export async function deleteContactMessage(messageId: string) {
       error: error instanceof Error ? error.message : "Failed to delete message",
     };
   }
-}
+});
 
@@ -1,36 +1,9 @@
 "use server";
 
-import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, EventModel, InvoiceModel, TransactionModel } from "@/lib/db/models";
-import { getWalletByUserId, getUserById, getUserByEmail } from "@/lib/db/utils";
-
-// Helper function to get MongoDB user ID from localStorage user ID or email
-const getMongoUserId = async (localStorageUserId: string, email?: string): Promise<ObjectId | null> => {
-  try {
-    // If userId is already a valid ObjectId, try to use it directly
-    if (ObjectId.isValid(localStorageUserId)) {
-      const existingUser = await getUserById(localStorageUserId);
-      if (existingUser && existingUser._id) {
-        return existingUser._id;
-      }
-    }
-
-    // If userId is not a valid ObjectId, try to find user by email
-    if (email) {
-      const userByEmail = await getUserByEmail(email);
-      if (userByEmail && userByEmail._id) {
-        return userByEmail._id;
-      }
-    }
-
-    // User doesn't exist in MongoDB
-    return null;
-  } catch (error) {
-    console.error("Error getting MongoDB user ID:", error);
-    return null;
-  }
-};
+import { getWalletByUserId } from "@/lib/db/utils";
+import { requireUser } from "@/lib/authz";
 
 export interface DashboardStats {
   events: {
@@ -59,30 +32,13 @@ export interface DashboardStats {
   };
 }
 
-export async function getDashboardStats(userId: string, email?: string): Promise<{
+export const getDashboardStats = requireUser(async (currentUser): Promise<{
   success: boolean;
   stats?: DashboardStats;
   error?: string;
-}> {
+}> => {
   try {
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get Events Statistics
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -189,5 +145,5 @@ export async function getDashboardStats(userId: string, email?: string): Promise
       error: error instanceof Error ? error.message : "Failed to get dashboard statistics",
     };
   }
-}
+});
 
@@ -1,41 +1,18 @@
 "use server";
 
 import { ObjectId } from "mongodb";
-import { getCollection } from "@/lib/db";
+import { getCollection, withTransaction } from "@/lib/db";
 import { COLLECTIONS, EventModel, TicketModel, TransactionModel, FeeModel, WalletModel, UserModel } from "@/lib/db/models";
-import { getWalletByUserId, updateWalletBalance, getUserById, getUserByEmail } from "@/lib/db/utils";
-
-// Helper function to get MongoDB user ID from localStorage user ID or email
-const getMongoUserId = async (localStorageUserId: string, email?: string): Promise<ObjectId | null> => {
-  try {
-    // If userId is already a valid ObjectId, try to use it directly
-    if (ObjectId.isValid(localStorageUserId)) {
-      const existingUser = await getUserById(localStorageUserId);
-      if (existingUser && existingUser._id) {
-        return existingUser._id;
-      }
-    }
-
-    // If userId is not a valid ObjectId, try to find user by email
-    if (email) {
-      const userByEmail = await getUserByEmail(email);
-      if (userByEmail && userByEmail._id) {
-        return userByEmail._id;
-      }
-    }
-
-    // User doesn't exist in MongoDB
-    return null;
-  } catch (error) {
-    console.error("Error getting MongoDB user ID:", error);
-    return null;
-  }
-};
+import { getWalletByUserId } from "@/lib/db/utils";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { idempotent } from "@/lib/idempotency";
+import { confirmTransaction, type TransactionConfirmation } from "@/lib/transaction-pin";
+import { quoteFee } from "@/lib/fees";
+import { postJournalEntry, debit, credit, walletAccount, FEE_REVENUE_ACCOUNT, TICKET_SALES_PAYABLE_ACCOUNT } from "@/lib/ledger";
 
 // Server actions for events operations
 
-export async function createEvent(data: {
-  creatorUserId: string;
+export const createEvent = requireUser(async (creator, data: {
   title: string;
   description: string;
   startTime: string; // ISO string
@@ -45,13 +22,9 @@ export async function createEvent(data: {
   isFree: boolean;
   ticketPriceCents?: number;
   ticketQuantity?: number;
-}) {
+}) => {
   try {
     // Validate required fields
-    if (!data.creatorUserId || !ObjectId.isValid(data.creatorUserId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     if (!data.title || !data.title.trim()) {
       return { success: false, error: "Event title is required" };
     }
@@ -95,7 +68,7 @@ export async function createEvent(data: {
 
     // Create event document
     const eventData: Omit<EventModel, "_id"> = {
-      creatorUserId: new ObjectId(data.creatorUserId),
+      creatorUserId: creator._id,
       title: data.title.trim(),
       description: data.description.trim(),
       startTime: startDateTime,
@@ -125,11 +98,10 @@ export async function createEvent(data: {
             .toArray();
 
           // Get creator info for notification message
-          const creator = await getUserById(data.creatorUserId);
-          const creatorEmail = creator?.email || "Unknown user";
+          const creatorEmail = creator.email || "Unknown user";
 
           // Create notifications for all admins
-          const { createNotification } = await import("./notifications");
+          const { createNotification } = await import("@/lib/notifications");
           await Promise.all(
             adminUsers.map((admin) =>
               createNotification({
@@ -167,7 +139,7 @@ export async function createEvent(data: {
       error: error instanceof Error ? error.message : "Failed to create event",
     };
   }
-}
+});
 
 /**
  * Get all approved and live events for public display
@@ -226,15 +198,11 @@ export async function getEvents() {
 /**
  * Get events created by a specific user
  */
-export async function getUserEvents(userId: string) {
+export const getUserEvents = requireUser(async (currentUser) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, events: [], error: "Invalid user ID" };
-    }
-
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
     const events = await eventsCollection
-      .find({ creatorUserId: new ObjectId(userId) })
+      .find({ creatorUserId: currentUser._id })
       .sort({ createdAt: -1 })
       .toArray();
 
@@ -264,7 +232,7 @@ export async function getUserEvents(userId: string) {
       error: error instanceof Error ? error.message : "Failed to get events",
     };
   }
-}
+});
 
 /**
  * Get a single event by ID
@@ -320,7 +288,7 @@ export async function getEvent(id: string) {
 /**
  * Get all pending events for admin review
  */
-export async function getPendingEvents() {
+export const getPendingEvents = requirePermission("events.moderate", async () => {
   try {
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
     const events = await eventsCollection
@@ -355,28 +323,24 @@ export async function getPendingEvents() {
       error: error instanceof Error ? error.message : "Failed to get pending events",
     };
   }
-}
+});
 
 /**
  * Approve an event (admin only)
  */
-export async function approveEvent(eventId: string, adminUserId: string) {
+export const approveEvent = requirePermission("events.moderate", async (admin, eventId: string) => {
   try {
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!adminUserId || !ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
     const result = await eventsCollection.updateOne(
       { _id: new ObjectId(eventId), status: "PENDING" },
       {
         $set: {
           status: "APPROVED",
-          reviewedBy: new ObjectId(adminUserId),
+          reviewedBy: admin._id,
           reviewedAt: new Date(),
           updatedAt: new Date(),
         },
@@ -391,7 +355,7 @@ export async function approveEvent(eventId: string, adminUserId: string) {
     const approvedEvent = await eventsCollection.findOne({ _id: new ObjectId(eventId) });
     if (approvedEvent) {
       // Create notification for event creator
-      const { createNotification } = await import("./notifications");
+      const { createNotification } = await import("@/lib/notifications");
       await createNotification({
         userId: approvedEvent.creatorUserId.toString(),
         type: "event_approval",
@@ -412,21 +376,17 @@ export async function approveEvent(eventId: string, adminUserId: string) {
       error: error instanceof Error ? error.message : "Failed to approve event",
     };
   }
-}
+});
 
 /**
  * Reject an event (admin only)
  */
-export async function rejectEvent(eventId: string, adminUserId: string, reason: string) {
+export const rejectEvent = requirePermission("events.moderate", async (admin, eventId: string, reason: string) => {
   try {
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!adminUserId || !ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
-    }
-
     if (!reason || !reason.trim()) {
       return { success: false, error: "Rejection reason is required" };
     }
@@ -438,7 +398,7 @@ export async function rejectEvent(eventId: string, adminUserId: string, reason:
         $set: {
           status: "REJECTED",
           rejectedReason: reason.trim(),
-          reviewedBy: new ObjectId(adminUserId),
+          reviewedBy: admin._id,
           reviewedAt: new Date(),
           updatedAt: new Date(),
         },
@@ -457,7 +417,7 @@ export async function rejectEvent(eventId: string, adminUserId: string, reason:
       error: error instanceof Error ? error.message : "Failed to reject event",
     };
   }
-}
+});
 
 /**
  * Generate a unique reference number for transactions
@@ -469,28 +429,24 @@ function generateReferenceNumber(): string {
 /**
  * Purchase tickets for an event
  */
-export async function purchaseTicket(
+export const purchaseTicket = requireUser(idempotent("purchaseTicket", async (
+  buyer,
   eventId: string,
-  buyerUserId: string,
   quantity: number,
-  buyerEmail?: string
-) {
+  confirmation?: TransactionConfirmation
+) => {
   try {
     // Validate inputs
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!buyerUserId || !ObjectId.isValid(buyerUserId)) {
-      return { success: false, error: "Invalid buyer user ID" };
-    }
-
     if (!quantity || quantity <= 0 || !Number.isInteger(quantity)) {
       return { success: false, error: "Quantity must be a positive integer" };
     }
 
-    // Get MongoDB user ID
-    const buyerMongoUserId = new ObjectId(buyerUserId);
+    // Buyer is always the signed-in user
+    const buyerMongoUserId = buyer._id;
 
     // Get event
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -532,16 +488,11 @@ export async function purchaseTicket(
       return { success: false, error: "Insufficient balance to purchase tickets" };
     }
 
-    // Get system settings for ticket fee percentage
-    const { getSystemSettings } = await import("./system-settings");
-    const settingsResult = await getSystemSettings();
-    const ticketFeePercentage = settingsResult.success && settingsResult.settings
-      ? settingsResult.settings.ticketFeePercentage
-      : 10; // Default to 10% if settings not available
-
-    // Calculate fees and payouts
-    const feeCents = Math.round(totalCostCents * (ticketFeePercentage / 100));
-    const netCents = totalCostCents - feeCents; // Amount seller receives (90%)
+    // Confirm with the buyer's transaction PIN
+    const pinChallenge = await confirmTransaction(buyerWallet, totalCostCents, confirmation);
+    if (pinChallenge) {
+      return pinChallenge;
+    }
 
     // Get seller (event creator) wallet
     const sellerWallet = await getWalletByUserId(event.creatorUserId);
@@ -549,113 +500,144 @@ export async function purchaseTicket(
       return { success: false, error: "Event creator wallet not found" };
     }
 
+    const ticketPricePerTicket = event.ticketPriceCents;
+
+    // Calculate fees and payouts
+    // The seller pays the ticket fee out of each ticket sold, priced by the ticket fee schedule
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const seller = await usersCollection.findOne({ _id: event.creatorUserId }, { projection: { role: 1 } });
+    const feeQuote = await quoteFee("ticket", ticketPricePerTicket, {
+      role: seller?.role,
+      walletId: sellerWallet.walletId,
+    });
+    const feePerTicket = feeQuote.feeCents;
+    const netPerTicket = ticketPricePerTicket - feePerTicket;
+    const feeCents = feePerTicket * quantity;
+    const netCents = totalCostCents - feeCents; // Amount seller receives
+
     // Process transaction
+    // Every step runs in one MongoDB transaction: if any of them fails, the buyer
+    // keeps their money and no tickets, transactions or fees are left behind
     try {
-      // 1. Deduct from buyer wallet
-      await updateWalletBalance(buyerMongoUserId, totalCostCents, "subtract");
-
-      // 2. Fee will be recorded in Fee Ledger for admin to deposit manually
-      // (No automatic deposit to admin wallet)
-
-      // 3. Create individual ticket records (one per ticket) with unique serial numbers
-      const ticketsCollection = await getCollection<TicketModel>(COLLECTIONS.TICKETS);
-      const ticketPricePerTicket = event.ticketPriceCents;
-      const feePerTicket = Math.round(ticketPricePerTicket * (ticketFeePercentage / 100));
-      const netPerTicket = ticketPricePerTicket - feePerTicket;
-      
-      // Create a purchase group ID for tracking tickets from the same purchase
-      const purchaseGroupId = new ObjectId();
-      
-      // Create individual tickets
-      const ticketIds: ObjectId[] = [];
-      for (let i = 0; i < quantity; i++) {
-        const serialNumber = `${Date.now()}-${Math.random().toString(36).substring(2, 9).toUpperCase()}-${i + 1}`;
-        const referenceNumber = generateReferenceNumber();
-        
-        const ticket: TicketModel = {
+      const { purchaseRef, ticketIds } = await withTransaction(async (session) => {
+        // 1. Deduct from buyer wallet; the seller's share is held until they deposit it
+        // and the fee waits in fee revenue for the admin to deposit manually
+        await postJournalEntry(session, {
+          kind: "ticket_purchase",
+          postings: [
+            debit(walletAccount(buyerWallet.walletId), totalCostCents),
+            credit(TICKET_SALES_PAYABLE_ACCOUNT, netCents),
+            credit(FEE_REVENUE_ACCOUNT, feeCents),
+          ],
+          createdBy: buyerMongoUserId,
+        });
+
+        // 3. Create individual ticket records (one per ticket) with unique serial numbers
+        const ticketsCollection = await getCollection<TicketModel>(COLLECTIONS.TICKETS);
+
+        // Create a purchase group ID for tracking tickets from the same purchase
+        const purchaseGroupId = new ObjectId();
+
+        // Create individual tickets
+        const ticketIds: ObjectId[] = [];
+        for (let i = 0; i < quantity; i++) {
+          const serialNumber = `${Date.now()}-${Math.random().toString(36).substring(2, 9).toUpperCase()}-${i + 1}`;
+          const referenceNumber = generateReferenceNumber();
+
+          const ticket: TicketModel = {
+            eventId: new ObjectId(eventId),
+            buyerUserId: buyerMongoUserId,
+            qty: 1, // Each ticket is individual
+            totalPaidCents: ticketPricePerTicket,
+            feeCents: feePerTicket,
+            netCents: netPerTicket,
+            deposited: false, // Will be set to true when seller deposits
+            serialNumber: serialNumber,
+            referenceNumber: referenceNumber,
+            purchaseGroupId: purchaseGroupId,
+            createdAt: new Date(),
+          };
+          const result = await ticketsCollection.insertOne(ticket, { session });
+          if (result.insertedId) {
+            ticketIds.push(result.insertedId);
+          }
+        }
+
+        // Create a summary ticket record for backward compatibility and grouping
+        const summaryTicket: TicketModel = {
           eventId: new ObjectId(eventId),
           buyerUserId: buyerMongoUserId,
-          qty: 1, // Each ticket is individual
-          totalPaidCents: ticketPricePerTicket,
-          feeCents: feePerTicket,
-          netCents: netPerTicket,
-          deposited: false, // Will be set to true when seller deposits
-          serialNumber: serialNumber,
-          referenceNumber: referenceNumber,
+          qty: quantity,
+          totalPaidCents: totalCostCents,
+          feeCents: feeCents,
+          netCents: netCents,
+          deposited: false,
           purchaseGroupId: purchaseGroupId,
           createdAt: new Date(),
         };
-        const result = await ticketsCollection.insertOne(ticket);
-        if (result.insertedId) {
-          ticketIds.push(result.insertedId);
+        await ticketsCollection.insertOne(summaryTicket, { session });
+
+        // 5. Update event ticket quantity (only while enough tickets are left)
+        const stock = await eventsCollection.updateOne(
+          { _id: new ObjectId(eventId), ticketQuantity: { $gte: quantity } },
+          { $inc: { ticketQuantity: -quantity }, $set: { updatedAt: new Date() } },
+          { session }
+        );
+        if (stock.modifiedCount === 0) {
+          throw new Error("Not enough tickets available");
         }
-      }
-      
-      // Create a summary ticket record for backward compatibility and grouping
-      const summaryTicket: TicketModel = {
-        eventId: new ObjectId(eventId),
-        buyerUserId: buyerMongoUserId,
-        qty: quantity,
-        totalPaidCents: totalCostCents,
-        feeCents: feeCents,
-        netCents: netCents,
-        deposited: false,
-        purchaseGroupId: purchaseGroupId,
-        createdAt: new Date(),
-      };
-      await ticketsCollection.insertOne(summaryTicket);
 
-      // 5. Update event ticket quantity
-      await eventsCollection.updateOne(
-        { _id: new ObjectId(eventId) },
-        { $inc: { ticketQuantity: -quantity }, $set: { updatedAt: new Date() } }
-      );
+        // 6. Create buyer transaction (use first ticket's reference number for the purchase transaction)
+        const purchaseRef = ticketIds.length > 0 ? (await ticketsCollection.findOne({ _id: ticketIds[0] }, { session }))?.referenceNumber || generateReferenceNumber() : generateReferenceNumber();
+        const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+        const buyerTransaction: TransactionModel = {
+          userId: buyerMongoUserId,
+          type: "ticket_payout",
+          amount: totalCostCents,
+          fromWalletId: buyerWallet.walletId,
+          ref: purchaseRef,
+          status: "success",
+          meta: {
+            eventId: new ObjectId(eventId),
+          },
+          createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(buyerTransaction, { session });
+
+        // 7. Create seller transaction (pending deposit - will be completed when deposited)
+        // Note: Seller's wallet is not credited yet - they need to click Deposit button
+        const sellerTransaction: TransactionModel = {
+          userId: event.creatorUserId,
+          type: "receive",
+          amount: netCents,
+          toWalletId: sellerWallet.walletId,
+          ref: purchaseRef,
+          status: "pending", // Will be marked as success when deposited
+          meta: {
+            eventId: new ObjectId(eventId),
+          },
+          createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(sellerTransaction, { session });
+
+        // 8. Record fee in Fee Ledger (admin will deposit manually); exempt sellers pay none
+        if (feeCents > 0) {
+          const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+          const fee: FeeModel = {
+            type: "transaction",
+            amount: feeCents, // Fee on all tickets in the purchase
+            percentage: feeQuote.percentage,
+            scheduleId: feeQuote.scheduleId,
+            userId: event.creatorUserId,
+            transactionId: buyerTransaction._id,
+            deposited: false, // Will be deposited when admin clicks Deposit button
+            createdAt: new Date(),
+          };
+          await feesCollection.insertOne(fee, { session });
+        }
 
-      // 6. Create buyer transaction (use first ticket's reference number for the purchase transaction)
-      const purchaseRef = ticketIds.length > 0 ? (await ticketsCollection.findOne({ _id: ticketIds[0] }))?.referenceNumber || generateReferenceNumber() : generateReferenceNumber();
-      const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
-      const buyerTransaction: TransactionModel = {
-        userId: buyerMongoUserId,
-        type: "ticket_payout",
-        amount: totalCostCents,
-        fromWalletId: buyerWallet.walletId,
-        ref: purchaseRef,
-        status: "success",
-        meta: {
-          eventId: new ObjectId(eventId),
-        },
-        createdAt: new Date(),
-      };
-      await transactionsCollection.insertOne(buyerTransaction);
-
-      // 7. Create seller transaction (pending deposit - will be completed when deposited)
-      // Note: Seller's wallet is not credited yet - they need to click Deposit button
-      const sellerTransaction: TransactionModel = {
-        userId: event.creatorUserId,
-        type: "receive",
-        amount: netCents,
-        toWalletId: sellerWallet.walletId,
-        ref: purchaseRef,
-        status: "pending", // Will be marked as success when deposited
-        meta: {
-          eventId: new ObjectId(eventId),
-        },
-        createdAt: new Date(),
-      };
-      await transactionsCollection.insertOne(sellerTransaction);
-
-      // 8. Record fee in Fee Ledger (admin will deposit manually)
-      const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
-      const fee: FeeModel = {
-        type: "transaction",
-        amount: feeCents, // Fee amount (10% of ticket sale)
-        percentage: ticketFeePercentage,
-        userId: event.creatorUserId,
-        transactionId: buyerTransaction._id,
-        deposited: false, // Will be deposited when admin clicks Deposit button
-        createdAt: new Date(),
-      };
-      await feesCollection.insertOne(fee);
+        return { purchaseRef, ticketIds };
+      });
 
       return {
         success: true,
@@ -677,31 +659,14 @@ export async function purchaseTicket(
       error: error instanceof Error ? error.message : "Failed to purchase ticket",
     };
   }
-}
+}, ([eventId, quantity]) => [eventId, quantity]));
 
 /**
  * Get tickets for events created by a user
  */
-export async function getUserEventTickets(userId: string, email?: string) {
+export const getUserEventTickets = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, tickets: [], error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, tickets: [], error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, tickets: [], error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get all events created by user
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -724,14 +689,14 @@ export async function getUserEventTickets(userId: string, email?: string) {
 
     // Get user info for buyers
     const { getUserById } = await import("@/lib/db/utils");
-    const { getKycUserInfo } = await import("./kyc");
+    const { getKycName } = await import("@/lib/kyc");
 
     // Format tickets with event and buyer info
     const formattedTickets = await Promise.all(
       tickets.map(async (ticket) => {
         const event = userEvents.find(e => e._id?.toString() === ticket.eventId.toString());
         const buyer = await getUserById(ticket.buyerUserId.toString());
-        const kycInfo = await getKycUserInfo(ticket.buyerUserId.toString(), buyer?.email);
+        const kycName = await getKycName(ticket.buyerUserId);
 
         return {
           id: ticket._id?.toString() || "",
@@ -739,8 +704,8 @@ export async function getUserEventTickets(userId: string, email?: string) {
           eventTitle: event?.title || "Unknown Event",
           buyerUserId: ticket.buyerUserId.toString(),
           buyerEmail: buyer?.email || "Unknown",
-          buyerName: kycInfo.success && kycInfo.firstName && kycInfo.lastName
-            ? `${kycInfo.firstName} ${kycInfo.lastName}`
+          buyerName: kycName
+            ? `${kycName.firstName} ${kycName.lastName}`
             : buyer?.email || "Unknown",
           quantity: ticket.qty,
           totalPaidCents: ticket.totalPaidCents,
@@ -783,31 +748,14 @@ export async function getUserEventTickets(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get tickets",
     };
   }
-}
+});
 
 /**
  * Get tickets purchased by a user (as a buyer)
  */
-export async function getUserPurchasedTickets(userId: string, email?: string) {
+export const getUserPurchasedTickets = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, tickets: [], error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, tickets: [], error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, tickets: [], error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get all individual tickets purchased by this user (exclude summary tickets)
     // Only get tickets with qty=1 and have a serialNumber (individual tickets)
@@ -863,35 +811,18 @@ export async function getUserPurchasedTickets(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get purchased tickets",
     };
   }
-}
+});
 
 /**
  * Delete a ticket (only if user is the buyer)
  */
-export async function deleteTicket(ticketId: string, userId: string, email?: string) {
+export const deleteTicket = requireUser(async (currentUser, ticketId: string) => {
   try {
     if (!ticketId || !ObjectId.isValid(ticketId)) {
       return { success: false, error: "Invalid ticket ID" };
     }
 
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Verify user is the buyer of the ticket
     const ticketsCollection = await getCollection<TicketModel>(COLLECTIONS.TICKETS);
@@ -915,32 +846,15 @@ export async function deleteTicket(ticketId: string, userId: string, email?: str
       error: error instanceof Error ? error.message : "Failed to delete ticket",
     };
   }
-}
+});
 
 /**
  * Get ticket sales summary for events created by a user (as a seller)
  * Includes remaining tickets, total income, and fees
  */
-export async function getUserEventTicketSales(userId: string, email?: string) {
+export const getUserEventTicketSales = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, sales: [], error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, sales: [], error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, sales: [], error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get all events created by user
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -966,7 +880,7 @@ export async function getUserEventTicketSales(userId: string, email?: string) {
 
     // Get user info for buyers
     const { getUserById } = await import("@/lib/db/utils");
-    const { getKycUserInfo } = await import("./kyc");
+    const { getKycName } = await import("@/lib/kyc");
 
     // Calculate sales summary for each event
     const salesSummary = await Promise.all(
@@ -988,14 +902,14 @@ export async function getUserEventTicketSales(userId: string, email?: string) {
           const formattedTickets = await Promise.all(
             eventTickets.map(async (ticket) => {
               const buyer = await getUserById(ticket.buyerUserId.toString());
-              const kycInfo = await getKycUserInfo(ticket.buyerUserId.toString(), buyer?.email);
+              const kycName = await getKycName(ticket.buyerUserId);
 
               return {
                 id: ticket._id?.toString() || "",
                 buyerUserId: ticket.buyerUserId.toString(),
                 buyerEmail: buyer?.email || "Unknown",
-                buyerName: kycInfo.success && kycInfo.firstName && kycInfo.lastName
-                  ? `${kycInfo.firstName} ${kycInfo.lastName}`
+                buyerName: kycName
+                  ? `${kycName.firstName} ${kycName.lastName}`
                   : buyer?.email || "Unknown",
                 quantity: ticket.qty,
                 totalPaidCents: ticket.totalPaidCents,
@@ -1038,36 +952,19 @@ export async function getUserEventTicketSales(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get ticket sales",
     };
   }
-}
+});
 
 /**
  * Deposit ticket sales revenue to user's wallet
  * Deposits all undeposited ticket sales for an event
  */
-export async function depositTicketSales(eventId: string, userId: string, email?: string) {
+export const depositTicketSales = requireUser(async (currentUser, eventId: string) => {
   try {
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get the event
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -1108,59 +1005,76 @@ export async function depositTicketSales(eventId: string, userId: string, email?
       return { success: false, error: "Wallet not found" };
     }
 
-    // Deposit the amount to wallet (add to balance)
-    await updateWalletBalance(mongoUserId, totalNetCents, "add");
-
     // Mark all tickets as deposited
     const ticketIds = undepositedTickets.map(t => t._id).filter((id): id is ObjectId => id !== undefined);
     const depositTimestamp = new Date();
-    if (ticketIds.length > 0) {
-      await ticketsCollection.updateMany(
-        { _id: { $in: ticketIds } },
-        { 
-          $set: { 
-            deposited: true,
-            depositedAt: depositTimestamp
-          } 
-        }
-      );
-    }
 
-    // Update pending transactions for these tickets to "success" status
-    const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
-    await transactionsCollection.updateMany(
-      {
-        userId: mongoUserId,
-        status: "pending",
-        "meta.pendingDeposit": true,
-        "meta.eventId": new ObjectId(eventId),
-      },
-      {
-        $set: {
-          status: "success",
-          "meta.pendingDeposit": false,
-          "meta.depositedAt": depositTimestamp,
+    // Crediting the wallet and marking the tickets deposited commit together
+    await withTransaction(async (session) => {
+      // Deposit the amount to wallet (add to balance)
+      await postJournalEntry(session, {
+        kind: "ticket_sales_deposit",
+        postings: [
+          debit(TICKET_SALES_PAYABLE_ACCOUNT, totalNetCents),
+          credit(walletAccount(userWallet.walletId), totalNetCents),
+        ],
+        createdBy: mongoUserId,
+      });
+
+      if (ticketIds.length > 0) {
+        const marked = await ticketsCollection.updateMany(
+          { _id: { $in: ticketIds }, deposited: { $ne: true } },
+          { 
+            $set: { 
+              deposited: true,
+              depositedAt: depositTimestamp
+            } 
+          },
+          { session }
+        );
+        // Another deposit for the same tickets got there first
+        if (marked.modifiedCount !== ticketIds.length) {
+          throw new Error("Ticket revenue has already been deposited");
         }
       }
-    );
 
-    // Create a deposit transaction record
-    const ref = generateReferenceNumber();
-    
-    const depositTransaction: TransactionModel = {
-      userId: mongoUserId,
-      type: "deposit",
-      amount: totalNetCents,
-      toWalletId: userWallet.walletId,
-      ref: ref,
-      status: "success",
-      meta: {
-        eventId: new ObjectId(eventId),
-      },
-      createdAt: depositTimestamp,
-    };
+      // Update pending transactions for these tickets to "success" status
+      const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+      await transactionsCollection.updateMany(
+        {
+          userId: mongoUserId,
+          status: "pending",
+          "meta.pendingDeposit": true,
+          "meta.eventId": new ObjectId(eventId),
+        },
+        {
+          $set: {
+            status: "success",
+            "meta.pendingDeposit": false,
+            "meta.depositedAt": depositTimestamp,
+          }
+        },
+        { session }
+      );
+
+      // Create a deposit transaction record
+      const ref = generateReferenceNumber();
+
+      const depositTransaction: TransactionModel = {
+        userId: mongoUserId,
+        type: "deposit",
+        amount: totalNetCents,
+        toWalletId: userWallet.walletId,
+        ref: ref,
+        status: "success",
+        meta: {
+          eventId: new ObjectId(eventId),
+        },
+        createdAt: depositTimestamp,
+      };
 
-    await transactionsCollection.insertOne(depositTransaction);
+      await transactionsCollection.insertOne(depositTransaction, { session });
+    });
 
     return {
       success: true,
@@ -1174,35 +1088,18 @@ export async function depositTicketSales(eventId: string, userId: string, email?
       error: error instanceof Error ? error.message : "Failed to deposit ticket sales",
     };
   }
-}
+});
 
 /**
  * Stop selling tickets for an event
  */
-export async function stopSellingTickets(eventId: string, userId: string, email?: string) {
+export const stopSellingTickets = requireUser(async (currentUser, eventId: string) => {
   try {
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Verify user is the creator of the event
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -1234,35 +1131,18 @@ export async function stopSellingTickets(eventId: string, userId: string, email?
       error: error instanceof Error ? error.message : "Failed to stop ticket sales",
     };
   }
-}
+});
 
 /**
  * Delete an event (only if user is the creator)
  */
-export async function deleteEvent(eventId: string, userId: string, email?: string) {
+export const deleteEvent = requireUser(async (currentUser, eventId: string) => {
   try {
     if (!eventId || !ObjectId.isValid(eventId)) {
       return { success: false, error: "Invalid event ID" };
     }
 
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format" };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found" };
-    }
+    const mongoUserId = currentUser._id;
 
     // Verify user is the creator of the event
     const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
@@ -1299,5 +1179,5 @@ export async function deleteEvent(eventId: string, userId: string, email?: strin
       error: error instanceof Error ? error.message : "Failed to delete event",
     };
   }
-}
+});
 
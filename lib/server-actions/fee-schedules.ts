@@ -0,0 +1,116 @@
+"use server";
+
+import type { FeeBandModel, FeeKind, FeeScheduleModel } from "@/lib/db/models";
+import { requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import { FEE_KINDS } from "@/lib/fee-schedule";
+import type { FeeScheduleRules } from "@/lib/fee-schedule";
+import {
+  getFeeScheduleInEffect,
+  getFeeScheduleHistory,
+  getLegacyFeeSchedule,
+  saveFeeSchedule as insertFeeSchedule,
+} from "@/lib/fees";
+
+/**
+ * Server actions for the fee schedule editor in the admin Control tab
+ * See lib/fees.ts for how schedules take effect.
+ */
+
+const serializeFeeSchedule = (schedule: FeeScheduleModel) => ({
+  _id: schedule._id?.toString() ?? "",
+  kind: schedule.kind,
+  bands: schedule.bands,
+  exemptRoles: schedule.exemptRoles,
+  exemptWalletIds: schedule.exemptWalletIds,
+  effectiveFrom: schedule.effectiveFrom.toISOString(),
+  note: schedule.note,
+  createdAt: schedule.createdAt.toISOString(),
+});
+
+/**
+ * Get the schedule in effect, upcoming schedules and recent history of every fee kind
+ * A kind without a saved schedule reports its legacy flat percentage as `legacy`.
+ */
+export const getFeeSchedules = requirePermission("fees.edit", async () => {
+  try {
+    const now = new Date();
+    const schedules = await Promise.all(
+      FEE_KINDS.map(async (kind) => {
+        const [inEffect, history] = await Promise.all([
+          getFeeScheduleInEffect(kind, now),
+          getFeeScheduleHistory(kind),
+        ]);
+        const legacy: FeeScheduleRules | null = inEffect ? null : await getLegacyFeeSchedule(kind);
+
+        return {
+          kind,
+          current: inEffect ? serializeFeeSchedule(inEffect) : null,
+          legacy,
+          upcoming: history
+            .filter((schedule) => schedule.effectiveFrom > now)
+            .map(serializeFeeSchedule)
+            .reverse(), // Soonest first
+          history: history.filter((schedule) => schedule.effectiveFrom <= now).map(serializeFeeSchedule),
+        };
+      })
+    );
+
+    return { success: true, schedules };
+  } catch (error) {
+    console.error("Error getting fee schedules:", error);
+    return {
+      success: false,
+      schedules: [],
+      error: error instanceof Error ? error.message : "Failed to get fee schedules",
+    };
+  }
+});
+
+/**
+ * Save a new fee schedule (Admin only)
+ *
+ * @param schedule.effectiveFrom - ISO date the schedule takes effect; omit for now
+ */
+export const saveFeeSchedule = requirePermission("fees.edit", async (
+  admin,
+  schedule: {
+    kind: FeeKind;
+    bands: FeeBandModel[];
+    exemptRoles: string[];
+    exemptWalletIds: string[];
+    effectiveFrom?: string;
+    note?: string;
+  }
+) => {
+  try {
+    const effectiveFrom = schedule.effectiveFrom ? new Date(schedule.effectiveFrom) : undefined;
+    if (effectiveFrom && Number.isNaN(effectiveFrom.getTime())) {
+      return { success: false, error: "Invalid effective date" };
+    }
+
+    const saved = await insertFeeSchedule({ ...schedule, effectiveFrom }, admin._id);
+
+    await recordAuditEvent({
+      action: "fees.schedule",
+      actorUserId: admin._id,
+      details: {
+        kind: saved.kind,
+        scheduleId: saved._id?.toString(),
+        effectiveFrom: saved.effectiveFrom.toISOString(),
+      },
+    });
+
+    return {
+      success: true,
+      schedule: serializeFeeSchedule(saved),
+      message: saved.effectiveFrom > saved.createdAt ? "Fee schedule scheduled" : "Fee schedule is now in effect",
+    };
+  } catch (error) {
+    console.error("Error saving fee schedule:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save fee schedule",
+    };
+  }
+});
@@ -2,7 +2,11 @@
 
 import { ObjectId } from "mongodb";
 import { COLLECTIONS } from "@/lib/db/models";
-import type { InvoiceModel, TransactionModel, WalletModel } from "@/lib/db/models";
+import { requireUser } from "@/lib/authz";
+import { idempotent } from "@/lib/idempotency";
+import { confirmTransaction, type TransactionConfirmation } from "@/lib/transaction-pin";
+import { checkWalletId } from "@/lib/wallet-id-format";
+import type { InvoiceModel, TransactionModel } from "@/lib/db/models";
 
 // Helper function to generate reference number (6 digits)
 const generateReferenceNumber = (): string => {
@@ -13,7 +17,7 @@ const generateReferenceNumber = (): string => {
  * Get invoice by reference number (invoice ID or ref field)
  * Used for the Pay modal to look up invoice details
  */
-export async function getInvoiceByRef(referenceNumber: string) {
+export const getInvoiceByRef = requireUser(async (currentUser, referenceNumber: string) => {
   try {
     if (!referenceNumber) {
       return { success: false, error: "Reference number is required" };
@@ -74,37 +78,24 @@ export async function getInvoiceByRef(referenceNumber: string) {
       error: error instanceof Error ? error.message : "Failed to get invoice",
     };
   }
-}
+});
 
 /**
  * Pay invoice by reference number
- * Deducts amount + 5% fee from payer, credits issuer, sends 5% to Admin
+ * Deducts amount + invoice fee (see lib/fees.ts) from payer, credits issuer, records the fee
  */
-export async function payInvoiceByRef(
+export const payInvoiceByRef = requireUser(idempotent("payInvoiceByRef", async (
+  payerUser,
   referenceNumber: string,
-  payerUserId: string,
-  payerEmail?: string
-) {
+  confirmation?: TransactionConfirmation
+) => {
   try {
-    if (!referenceNumber || !payerUserId) {
-      return { success: false, error: "Reference number and user ID are required" };
-    }
-
-    // Get MongoDB user ID for payer
-    let payerMongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(payerUserId)) {
-      payerMongoUserId = new ObjectId(payerUserId);
-    } else if (payerEmail) {
-      const { getMongoUserId } = await import("./wallet");
-      payerMongoUserId = await getMongoUserId(payerUserId, payerEmail);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
+    if (!referenceNumber) {
+      return { success: false, error: "Reference number is required" };
     }
 
-    if (!payerMongoUserId) {
-      return { success: false, error: "User not found in database." };
-    }
+    // Payer is always the signed-in user
+    const payerMongoUserId = payerUser._id;
 
     // Get invoice
     const invoiceResult = await getInvoiceByRef(referenceNumber);
@@ -136,22 +127,15 @@ export async function payInvoiceByRef(
       return { success: false, error: "This invoice is not addressed to your wallet" };
     }
 
-    // Check if payer is admin (admin accounts are exempt from fees)
-    const { getUserById } = await import("@/lib/db/utils");
-    const payerUser = await getUserById(payerMongoUserId);
-    const isAdmin = payerUser?.role === "admin";
-
-    // Get invoice fee percentage from system settings
-    const { getSystemSettings } = await import("./system-settings");
-    const settingsResult = await getSystemSettings();
-    const invoiceFeePercentage = settingsResult.success && settingsResult.settings
-      ? settingsResult.settings.invoiceFeePercentage
-      : 5; // Default to 5% if settings not available
-
     // Calculate amounts
-    // Admin accounts are exempt from fees
+    // The payer pays the fee from the invoice fee schedule (exempt roles and wallets pay nothing)
     const amountCents = invoice.amountCents;
-    const feeCents = isAdmin ? 0 : Math.round(amountCents * (invoiceFeePercentage / 100)); // Dynamic fee percentage
+    const { quoteFee } = await import("@/lib/fees");
+    const feeQuote = await quoteFee("invoice", amountCents, {
+      role: payerUser.role,
+      walletId: payerWallet.walletId,
+    });
+    const feeCents = feeQuote.feeCents;
     const totalDeductedCents = amountCents + feeCents;
 
     // Check sufficient balance
@@ -170,30 +154,28 @@ export async function payInvoiceByRef(
       return { success: false, error: "Issuer wallet not found" };
     }
 
-    // Get or create Admin wallet for fees
-    const { getCollection } = await import("@/lib/db");
-    const { COLLECTIONS } = await import("@/lib/db/models");
-    const { getWalletByUserId: getWalletByUserIdUtil, createWallet } = await import("@/lib/db/utils");
-    
-    const usersCollection = await getCollection(COLLECTIONS.USERS);
-    const adminUsers = await usersCollection.find({ role: "admin" }).toArray();
-    
-    if (adminUsers.length === 0) {
-      return { success: false, error: "No admin user found. Cannot process fee." };
+    // Check the payer's limits and the issuer's maximum balance
+    const { checkOutgoingLimits, checkIncomingLimit, reserveOutgoingLimits, reserveIncomingLimit } = await import(
+      "@/lib/limits"
+    );
+    const limitError = await checkOutgoingLimits(payerWallet, amountCents);
+    if (limitError) {
+      return { success: false, error: limitError };
     }
-    
-    const adminUser = adminUsers[0];
-    let adminWallet = await getWalletByUserIdUtil(adminUser._id!.toString());
-    
-    if (!adminWallet) {
-      adminWallet = await createWallet(adminUser._id!, 0);
+    if ((await checkIncomingLimit(issuerWallet, amountCents)) !== null) {
+      return { success: false, error: "The invoice issuer's wallet can't receive this payment right now" };
     }
-    
-    if (!adminWallet) {
-      return { success: false, error: "Failed to create admin wallet for fees." };
+
+    // Confirm with the payer's transaction PIN
+    const pinChallenge = await confirmTransaction(payerWallet, totalDeductedCents, confirmation);
+    if (pinChallenge) {
+      return pinChallenge;
     }
 
-    const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+    const { getCollection, withTransaction } = await import("@/lib/db");
+    const { COLLECTIONS } = await import("@/lib/db/models");
+    const { postJournalEntry, debit, credit, walletAccount, FEE_REVENUE_ACCOUNT } = await import("@/lib/ledger");
+
     const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
     const invoicesCollection = await getCollection<InvoiceModel>(COLLECTIONS.INVOICES);
     const feesCollection = await getCollection(COLLECTIONS.FEES);
@@ -201,110 +183,116 @@ export async function payInvoiceByRef(
     // Generate reference number for transaction
     const transactionRef = generateReferenceNumber();
 
-    // Start transaction (using MongoDB transactions if possible, otherwise sequential updates)
+    // All balance changes, records and the notification commit in one MongoDB
+    // transaction; any failure rolls every step back
     try {
-      // 1. Deduct from payer wallet (with validation to prevent negative balance)
-      const updatedPayerWallet = await walletsCollection.findOneAndUpdate(
-        { _id: payerWallet._id, balance: { $gte: totalDeductedCents } },
-        { $inc: { balance: -totalDeductedCents }, $set: { updatedAt: new Date() } },
-        { returnDocument: "after" }
-      );
-      
-      if (!updatedPayerWallet) {
-        return { success: false, error: "Insufficient balance or balance would go negative" };
-      }
-      
-      // Verify balance is not negative after update
-      if (updatedPayerWallet.balance < 0) {
-        // Rollback: restore balance
-        await walletsCollection.updateOne(
-          { _id: payerWallet._id },
-          { $inc: { balance: totalDeductedCents }, $set: { updatedAt: new Date() } }
+      await withTransaction(async (session) => {
+        // 1. Mark the invoice paid first, so two payments for the same invoice can't both go through
+        const claimedInvoice = await invoicesCollection.updateOne(
+          { _id: new ObjectId(invoice._id!), status: { $ne: "paid" } },
+          {
+            $set: {
+              status: "paid",
+              paidAt: new Date(),
+            },
+          },
+          { session }
         );
-        return { success: false, error: "Balance cannot go negative. Transaction prevented." };
-      }
+        if (claimedInvoice.modifiedCount === 0) {
+          throw new Error("This invoice has already been paid");
+        }
 
-      // 2. Credit issuer wallet
-      await walletsCollection.updateOne(
-        { _id: issuerWallet._id },
-        { $inc: { balance: amountCents } }
-      );
-
-      // 3. Credit Admin wallet (fee) - only if fee is greater than 0
-      if (feeCents > 0) {
-        await walletsCollection.updateOne(
-          { _id: adminWallet._id },
-          { $inc: { balance: feeCents } }
-        );
-      }
+        // Enforce the payer's limits and the issuer's maximum balance again within
+        // the transaction, since a parallel payment may have used up the room
+        const reservedLimitError = await reserveOutgoingLimits(session, payerWallet, amountCents);
+        if (reservedLimitError) {
+          throw new Error(reservedLimitError);
+        }
+        if ((await reserveIncomingLimit(session, issuerWallet, amountCents)) !== null) {
+          throw new Error("The invoice issuer's wallet can't receive this payment right now");
+        }
 
-      // 4. Create payer transaction (invoice_payment)
-      const payerTransaction: TransactionModel = {
-        userId: payerMongoUserId,
-        type: "invoice_payment",
-        amount: amountCents,
-        feeCents: feeCents,
-        fromWalletId: payerWallet.walletId,
-        toWalletId: issuerWallet.walletId,
-        ref: transactionRef,
-        status: "success",
-        meta: {
-          invoiceId: new ObjectId(invoice._id!),
-        },
-        createdAt: new Date(),
-      };
-      await transactionsCollection.insertOne(payerTransaction);
-
-      // 5. Create issuer transaction (receive)
-      const issuerTransaction: TransactionModel = {
-        userId: new ObjectId(invoice.issuerUserId),
-        type: "receive",
-        amount: amountCents,
-        fromWalletId: payerWallet.walletId,
-        toWalletId: issuerWallet.walletId,
-        ref: transactionRef,
-        status: "success",
-        meta: {
-          invoiceId: new ObjectId(invoice._id!),
-        },
-        createdAt: new Date(),
-      };
-      await transactionsCollection.insertOne(issuerTransaction);
-
-      // 6. Record fee in fee ledger - only if fee is greater than 0 (admin accounts are exempt)
-      if (feeCents > 0) {
-        await feesCollection.insertOne({
-          type: "transaction",
-          amount: feeCents,
-          percentage: invoiceFeePercentage,
+        // 2. Create payer transaction (invoice_payment)
+        const payerTransaction: TransactionModel = {
           userId: payerMongoUserId,
-          transactionId: payerTransaction._id,
+          type: "invoice_payment",
+          amount: amountCents,
+          feeCents: feeCents,
+          fromWalletId: payerWallet.walletId,
+          toWalletId: issuerWallet.walletId,
+          ref: transactionRef,
+          status: "success",
+          meta: {
+            invoiceId: new ObjectId(invoice._id!),
+          },
+          createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(payerTransaction, { session });
+
+        // 3. Create issuer transaction (receive)
+        const issuerTransaction: TransactionModel = {
+          userId: new ObjectId(invoice.issuerUserId),
+          type: "receive",
+          amount: amountCents,
+          fromWalletId: payerWallet.walletId,
+          toWalletId: issuerWallet.walletId,
+          ref: transactionRef,
+          status: "success",
+          meta: {
+            invoiceId: new ObjectId(invoice._id!),
+          },
           createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(issuerTransaction, { session });
+
+        // 4. Record fee in fee ledger - only if fee is greater than 0 (exempt payers pay none)
+        if (feeCents > 0) {
+          await feesCollection.insertOne(
+            {
+              type: "transaction",
+              amount: feeCents,
+              percentage: feeQuote.percentage,
+              scheduleId: feeQuote.scheduleId,
+              userId: payerMongoUserId,
+              transactionId: payerTransaction._id,
+              deposited: false, // Waits in fee revenue until an admin deposits it
+              createdAt: new Date(),
+            },
+            { session }
+          );
+        }
+
+        // 5. Move the money: the payer covers the invoice plus the fee, which waits in
+        // fee revenue until an admin deposits it (fails if the payer can't cover it)
+        await postJournalEntry(session, {
+          kind: "invoice_payment",
+          ref: transactionRef,
+          postings: [
+            debit(walletAccount(payerWallet.walletId), totalDeductedCents),
+            credit(walletAccount(issuerWallet.walletId), amountCents),
+            credit(FEE_REVENUE_ACCOUNT, feeCents),
+          ],
+          transactionIds: [payerTransaction._id, issuerTransaction._id].filter(
+            (id): id is ObjectId => id !== undefined
+          ),
+          createdBy: payerMongoUserId,
         });
-      }
 
-      // 7. Update invoice status
-      await invoicesCollection.updateOne(
-        { _id: new ObjectId(invoice._id!) },
-        {
-          $set: {
-            status: "paid",
-            paidAt: new Date(),
+        // 6. Create notification for invoice issuer
+        const { createNotification } = await import("@/lib/notifications");
+        await createNotification(
+          {
+            userId: invoice.issuerUserId.toString(),
+            type: "transaction",
+            title: "Invoice Paid",
+            message: `Your invoice (${invoice.ref}) for ${(amountCents / 100).toFixed(2)} has been paid by ${payerWallet.walletId}`,
+            link: "/wallet/invoices",
+            meta: {
+              transactionId: issuerTransaction._id?.toString(),
+            },
           },
-        }
-      );
-
-      // 8. Create notification for invoice issuer
-      const { createNotification } = await import("./notifications");
-      await createNotification({
-        userId: invoice.issuerUserId.toString(),
-        type: "transaction",
-        title: "Invoice Paid",
-        message: `Your invoice (${invoice.ref}) for ${(amountCents / 100).toFixed(2)} has been paid by ${payerWallet.walletId}`,
-        link: "/wallet/invoices",
-        meta: {
-          transactionId: issuerTransaction._id?.toString(),
-        },
+          { session }
+        );
       });
 
       return {
@@ -329,24 +317,23 @@ export async function payInvoiceByRef(
       error: error instanceof Error ? error.message : "Failed to pay invoice",
     };
   }
-}
+}, ([referenceNumber]) => [referenceNumber]));
 
 /**
  * Create a new invoice/receipt
  * Validates recipient wallet, prevents self-invoicing, and creates invoice record
  */
-export async function createInvoice(
-  issuerUserId: string,
+export const createInvoice = requireUser(async (
+  issuerUser,
   recipientWalletId: string,
   itemDescription: string,
   amount: number,
   quantity?: number,
-  note?: string,
-  email?: string
-) {
+  note?: string
+) => {
   try {
     // ===== STEP 1: Basic Input Validation =====
-    if (!issuerUserId || !recipientWalletId || !itemDescription || !amount) {
+    if (!recipientWalletId || !itemDescription || !amount) {
       return { success: false, error: "All required fields must be provided" };
     }
 
@@ -359,27 +346,14 @@ export async function createInvoice(
     }
 
     // ===== STEP 2: Validate Recipient Wallet ID Format =====
-    const walletIdPattern = /^[A-Z]{3}\d{3}$/i;
-    const normalizedWalletId = recipientWalletId.trim().toUpperCase();
-    if (!walletIdPattern.test(normalizedWalletId)) {
-      return { success: false, error: "Invalid Wallet ID format. Please enter a valid Wallet ID (e.g., VXE445)" };
+    const walletIdCheck = checkWalletId(recipientWalletId);
+    if (!walletIdCheck.valid) {
+      return { success: false, error: walletIdCheck.error };
     }
+    const normalizedWalletId = walletIdCheck.walletId;
 
     // ===== STEP 3: Get and Validate Issuer =====
-    let issuerMongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(issuerUserId)) {
-      issuerMongoUserId = new ObjectId(issuerUserId);
-    } else if (email) {
-      const { getMongoUserId } = await import("./wallet");
-      issuerMongoUserId = await getMongoUserId(issuerUserId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!issuerMongoUserId) {
-      return { success: false, error: "User not found in database. Please sign up or contact support." };
-    }
+    const issuerMongoUserId = issuerUser._id;
 
     // Get issuer wallet
     const { getWalletByUserId } = await import("@/lib/db/utils");
@@ -454,7 +428,7 @@ export async function createInvoice(
       error: error instanceof Error ? error.message : "Failed to create invoice",
     };
   }
-}
+});
 
 /**
  * Delete an invoice (only for paid invoices)
@@ -465,35 +439,15 @@ export async function createInvoice(
  * - Only paid invoices can be deleted
  * 
  * @param invoiceId - Invoice ID or reference number
- * @param userId - User ID requesting deletion
- * @param email - User's email (for lookup if userId is not ObjectId)
  * @returns Success status
  */
-export async function deleteInvoice(
-  invoiceId: string,
-  userId: string,
-  email?: string
-) {
+export const deleteInvoice = requireUser(async (currentUser, invoiceId: string) => {
   try {
-    if (!invoiceId || !userId) {
-      return { success: false, error: "Invoice ID and User ID are required" };
+    if (!invoiceId) {
+      return { success: false, error: "Invoice ID is required" };
     }
 
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      const { getMongoUserId } = await import("./wallet");
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database." };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get invoice
     const invoiceResult = await getInvoiceByRef(invoiceId);
@@ -547,32 +501,14 @@ export async function deleteInvoice(
       error: error instanceof Error ? error.message : "Failed to delete invoice",
     };
   }
-}
+});
 
 /**
  * Get all invoices for a user (both issued and received)
  */
-export async function getUserInvoices(userId: string, email?: string) {
+export const getUserInvoices = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      const { getMongoUserId } = await import("./wallet");
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database." };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get user's wallet
     const { getWalletByUserId } = await import("@/lib/db/utils");
@@ -676,5 +612,5 @@ export async function getUserInvoices(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get invoices",
     };
   }
-}
+});
 
@@ -1,62 +1,46 @@
 "use server";
 
-import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS } from "@/lib/db/models";
 import type { KycModel } from "@/lib/db/models";
-import { getUserById, getUserByEmail } from "@/lib/db/utils";
+import { requireUser } from "@/lib/authz";
+import { isEmailVerified, EMAIL_NOT_VERIFIED_ERROR } from "@/lib/email-verification";
+import { getKycName } from "@/lib/kyc";
 
 /**
  * Submit KYC application
  * 
  * Users must submit their personal information and ID documents to apply for a wallet.
  * 
- * @param userId - User ID (can be localStorage ID or MongoDB ObjectId)
  * @param firstName - User's first name
  * @param lastName - User's last name
  * @param phone - User's phone number
  * @param address - User's residential address
  * @param idFrontUrl - URL to front of ID document
  * @param idBackUrl - URL to back of ID document
- * @param email - User's email (for lookup if userId is not ObjectId)
  * @returns Success status
  */
-export async function submitKycApplication(
-  userId: string,
+export const submitKycApplication = requireUser(async (
+  currentUser,
   firstName: string,
   lastName: string,
   phone: string,
   address: string,
   idFrontUrl: string,
-  idBackUrl: string,
-  email?: string
-) {
+  idBackUrl: string
+) => {
   try {
     // Validate inputs
-    if (!userId || !firstName || !lastName || !phone || !address || !idFrontUrl || !idBackUrl) {
+    if (!firstName || !lastName || !phone || !address || !idFrontUrl || !idBackUrl) {
       return { success: false, error: "All fields are required" };
     }
 
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      const user = await getUserById(userId);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else if (email) {
-      const user = await getUserByEmail(email);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
+    // Wallet notices and password resets go to this address, so it must be confirmed first
+    if (!isEmailVerified(currentUser)) {
+      return { success: false, error: EMAIL_NOT_VERIFIED_ERROR };
     }
 
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database. Please sign up or contact support." };
-    }
+    const mongoUserId = currentUser._id;
 
     // Check if user already has a KYC application
     const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
@@ -105,41 +89,16 @@ export async function submitKycApplication(
       error: error instanceof Error ? error.message : "Failed to submit KYC application",
     };
   }
-}
+});
 
 /**
- * Get user's KYC application status
+ * Get the signed-in user's KYC application status
  * 
- * @param userId - User ID (can be localStorage ID or MongoDB ObjectId)
- * @param email - User's email (for lookup if userId is not ObjectId)
  * @returns KYC application status or null if not found
  */
-export async function getKycStatus(userId: string, email?: string) {
+export const getKycStatus = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, kyc: null, error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      const user = await getUserById(userId);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else if (email) {
-      const user = await getUserByEmail(email);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else {
-      return { success: false, kyc: null, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, kyc: null, error: "User not found in database." };
-    }
+    const mongoUserId = currentUser._id;
 
     const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
     const kycApplication = await kycCollection.findOne({ userId: mongoUserId });
@@ -166,53 +125,27 @@ export async function getKycStatus(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get KYC status",
     };
   }
-}
+});
 
 /**
- * Get user's firstName and lastName from KYC by userId
+ * Get the signed-in user's firstName and lastName from their KYC application
+ * Other users' names are never returned here; see lib/kyc.ts for the masked
+ * lookup used on public pages.
  * 
- * @param userId - User ID (can be localStorage ID or MongoDB ObjectId)
- * @param email - User's email (for lookup if userId is not ObjectId)
  * @returns firstName and lastName or null if not found
  */
-export async function getKycUserInfo(userId: string, email?: string) {
+export const getKycUserInfo = requireUser(async (currentUser) => {
   try {
-    if (!userId) {
-      return { success: false, firstName: null, lastName: null, error: "User ID is required" };
-    }
+    const name = await getKycName(currentUser._id);
 
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      const user = await getUserById(userId);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else if (email) {
-      const user = await getUserByEmail(email);
-      if (user && user._id) {
-        mongoUserId = user._id;
-      }
-    } else {
-      return { success: false, firstName: null, lastName: null, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, firstName: null, lastName: null, error: "User not found in database." };
-    }
-
-    const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
-    const kycApplication = await kycCollection.findOne({ userId: mongoUserId });
-
-    if (!kycApplication) {
+    if (!name) {
       return { success: true, firstName: null, lastName: null, message: "No KYC application found" };
     }
 
     return {
       success: true,
-      firstName: kycApplication.firstName,
-      lastName: kycApplication.lastName,
+      firstName: name.firstName,
+      lastName: name.lastName,
     };
   } catch (error) {
     console.error("Error getting KYC user info:", error);
@@ -223,5 +156,5 @@ export async function getKycUserInfo(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get KYC user info",
     };
   }
-}
+});
 
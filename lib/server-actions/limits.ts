@@ -0,0 +1,235 @@
+"use server";
+
+import { getCollection } from "@/lib/db";
+import { getWalletByUserId, getWalletByWalletId } from "@/lib/db/utils";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { KycModel, KycTier, WalletLimitsModel, WalletModel } from "@/lib/db/models";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import { KYC_TIERS, getWalletAllowance } from "@/lib/limit-profile";
+import {
+  getKycTier,
+  getLimitProfile,
+  getLimitProfiles as findLimitProfiles,
+  getWalletLimits,
+  getWalletLimitUsage,
+  normalizeWalletLimits,
+  saveLimitProfile as upsertLimitProfile,
+} from "@/lib/limits";
+
+/**
+ * Server actions for wallet limits
+ * Amounts stay in cents (the *Cents fields of WalletLimitsModel); see lib/limits.ts
+ * for how limits are enforced.
+ */
+
+/**
+ * Get the current user's limits and what is left of them today and this month
+ */
+export const getMyWalletLimits = requireUser(async (currentUser) => {
+  try {
+    const wallet = await getWalletByUserId(currentUser._id);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found" };
+    }
+
+    const [{ tier, limits, source }, usage] = await Promise.all([
+      getWalletLimits(wallet),
+      getWalletLimitUsage(wallet),
+    ]);
+
+    return {
+      success: true,
+      tier,
+      source,
+      limits,
+      usage,
+      allowance: getWalletAllowance(limits, usage, wallet.balance),
+    };
+  } catch (error) {
+    console.error("Error getting wallet limits:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get wallet limits",
+    };
+  }
+});
+
+/**
+ * Get the limit profile of every KYC tier (null when the tier has no limits)
+ */
+export const getLimitProfiles = requirePermission("limits.manage", async () => {
+  try {
+    const profiles = await findLimitProfiles();
+    return {
+      success: true,
+      profiles: KYC_TIERS.map((tier) => {
+        const profile = profiles.find((candidate) => candidate.tier === tier);
+        return {
+          tier,
+          limits: profile?.limits ?? null,
+          updatedAt: profile?.updatedAt.toISOString(),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error getting limit profiles:", error);
+    return {
+      success: false,
+      profiles: [],
+      error: error instanceof Error ? error.message : "Failed to get limit profiles",
+    };
+  }
+});
+
+/**
+ * Save the limit profile of a KYC tier
+ */
+export const saveLimitProfile = requirePermission("limits.manage", async (
+  admin,
+  tier: KycTier,
+  limits: WalletLimitsModel
+) => {
+  try {
+    const profile = await upsertLimitProfile(tier, limits, admin._id);
+
+    await recordAuditEvent({
+      action: "limits.profile",
+      actorUserId: admin._id,
+      details: { tier, limits: profile.limits },
+    });
+
+    return { success: true, message: "Limit profile saved" };
+  } catch (error) {
+    console.error("Error saving limit profile:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save limit profile",
+    };
+  }
+});
+
+/**
+ * Get a wallet's KYC tier, its tier's profile, its override and its usage
+ */
+export const getWalletLimitSettings = requirePermission("limits.manage", async (admin, walletId: string) => {
+  try {
+    const wallet = await getWalletByWalletId(walletId);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found" };
+    }
+
+    const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
+    const [tier, approvedKyc, usage] = await Promise.all([
+      getKycTier(wallet.userId),
+      kycCollection.countDocuments({ userId: wallet.userId, status: "approved" }, { limit: 1 }),
+      getWalletLimitUsage(wallet),
+    ]);
+    const profile = await getLimitProfile(tier);
+
+    return {
+      success: true,
+      settings: {
+        walletId: wallet.walletId,
+        tier,
+        hasApprovedKyc: approvedKyc > 0,
+        tierLimits: profile?.limits ?? null,
+        override: wallet.limitOverride ?? null,
+        usage,
+        balanceCents: wallet.balance,
+      },
+    };
+  } catch (error) {
+    console.error("Error getting wallet limit settings:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get wallet limits",
+    };
+  }
+});
+
+/**
+ * Override a wallet's limits, or pass null to go back to its KYC tier's profile
+ */
+export const setWalletLimitOverride = requirePermission("limits.manage", async (
+  admin,
+  walletId: string,
+  limits: WalletLimitsModel | null
+) => {
+  try {
+    const wallet = await getWalletByWalletId(walletId);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found" };
+    }
+
+    const override = limits ? normalizeWalletLimits(limits) : null;
+    const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+    await walletsCollection.updateOne(
+      { _id: wallet._id },
+      override
+        ? { $set: { limitOverride: override, updatedAt: new Date() } }
+        : { $unset: { limitOverride: "" }, $set: { updatedAt: new Date() } }
+    );
+
+    await recordAuditEvent({
+      action: "limits.override",
+      actorUserId: admin._id,
+      targetUserId: wallet.userId,
+      details: { walletId: wallet.walletId, limits: override },
+    });
+
+    return {
+      success: true,
+      message: override ? "Wallet limits overridden" : "Wallet now uses its KYC tier's limits",
+    };
+  } catch (error) {
+    console.error("Error setting wallet limit override:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to set wallet limits",
+    };
+  }
+});
+
+/**
+ * Change the KYC tier of a wallet's holder
+ */
+export const setWalletKycTier = requirePermission("limits.manage", async (admin, walletId: string, tier: KycTier) => {
+  try {
+    if (!KYC_TIERS.includes(tier)) {
+      return { success: false, error: "Invalid KYC tier" };
+    }
+
+    const wallet = await getWalletByWalletId(walletId);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found" };
+    }
+
+    const kycCollection = await getCollection<KycModel>(COLLECTIONS.KYC);
+    const result = await kycCollection.updateOne(
+      { userId: wallet.userId, status: "approved" },
+      { $set: { tier } }
+    );
+    if (result.matchedCount === 0) {
+      return {
+        success: false,
+        error: "This wallet's holder has no approved KYC application. Override the wallet's limits instead.",
+      };
+    }
+
+    await recordAuditEvent({
+      action: "kyc.tier",
+      actorUserId: admin._id,
+      targetUserId: wallet.userId,
+      details: { walletId: wallet.walletId, tier },
+    });
+
+    return { success: true, message: "KYC tier updated" };
+  } catch (error) {
+    console.error("Error setting KYC tier:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to set KYC tier",
+    };
+  }
+});
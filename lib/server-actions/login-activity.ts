@@ -0,0 +1,45 @@
+"use server";
+
+import { getCollection } from "@/lib/db";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { LoginEventModel } from "@/lib/db/models";
+import { requireUser } from "@/lib/authz";
+
+/**
+ * Server actions for the sign-in history shown in Settings → Security
+ * Events are recorded by signIn() in auth.ts (see lib/login-throttle.ts)
+ */
+
+/**
+ * Get the current user's most recent sign-in attempts, newest first
+ *
+ * @param limit - Number of events to return (max 50)
+ */
+export const getRecentSignIns = requireUser(async (currentUser, limit: number = 20) => {
+  try {
+    const eventsCollection = await getCollection<LoginEventModel>(COLLECTIONS.LOGIN_EVENTS);
+    const events = await eventsCollection
+      .find({ userId: currentUser._id })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(1, Math.floor(limit) || 20), 50))
+      .toArray();
+
+    return {
+      success: true,
+      events: events.map((event) => ({
+        id: event._id!.toString(),
+        outcome: event.outcome,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt.toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting recent sign-ins:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get recent sign-ins",
+      events: [],
+    };
+  }
+});
@@ -4,22 +4,19 @@ import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, NotificationModel } from "@/lib/db/models";
 import { getUserById } from "@/lib/db/utils";
+import { requireUser } from "@/lib/authz";
 
 /**
  * Get all notifications for a user
  */
-export async function getUserNotifications(userId: string) {
+export const getUserNotifications = requireUser(async (currentUser) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, notifications: [], error: "Invalid user ID" };
-    }
-
     const notificationsCollection = await getCollection<NotificationModel>(
       COLLECTIONS.NOTIFICATIONS
     );
 
     const notifications = await notificationsCollection
-      .find({ userId: new ObjectId(userId) })
+      .find({ userId: currentUser._id })
       .sort({ createdAt: -1 })
       .limit(50) // Limit to last 50 notifications
       .toArray();
@@ -54,23 +51,19 @@ export async function getUserNotifications(userId: string) {
       error: error instanceof Error ? error.message : "Failed to get notifications",
     };
   }
-}
+});
 
 /**
  * Get unread notification count for a user
  */
-export async function getUnreadNotificationCount(userId: string) {
+export const getUnreadNotificationCount = requireUser(async (currentUser) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, count: 0, error: "Invalid user ID" };
-    }
-
     const notificationsCollection = await getCollection<NotificationModel>(
       COLLECTIONS.NOTIFICATIONS
     );
 
     const count = await notificationsCollection.countDocuments({
-      userId: new ObjectId(userId),
+      userId: currentUser._id,
       read: false,
     });
 
@@ -83,21 +76,17 @@ export async function getUnreadNotificationCount(userId: string) {
       error: error instanceof Error ? error.message : "Failed to get notification count",
     };
   }
-}
+});
 
 /**
  * Mark a notification as read
  */
-export async function markNotificationAsRead(notificationId: string, userId: string) {
+export const markNotificationAsRead = requireUser(async (currentUser, notificationId: string) => {
   try {
     if (!notificationId || !ObjectId.isValid(notificationId)) {
       return { success: false, error: "Invalid notification ID" };
     }
 
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     const notificationsCollection = await getCollection<NotificationModel>(
       COLLECTIONS.NOTIFICATIONS
     );
@@ -105,7 +94,7 @@ export async function markNotificationAsRead(notificationId: string, userId: str
     const result = await notificationsCollection.updateOne(
       {
         _id: new ObjectId(notificationId),
-        userId: new ObjectId(userId), // Ensure user owns the notification
+        userId: currentUser._id, // Ensure user owns the notification
       },
       {
         $set: { read: true },
@@ -124,24 +113,20 @@ export async function markNotificationAsRead(notificationId: string, userId: str
       error: error instanceof Error ? error.message : "Failed to mark notification as read",
     };
   }
-}
+});
 
 /**
  * Mark all notifications as read for a user
  */
-export async function markAllNotificationsAsRead(userId: string) {
+export const markAllNotificationsAsRead = requireUser(async (currentUser) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     const notificationsCollection = await getCollection<NotificationModel>(
       COLLECTIONS.NOTIFICATIONS
     );
 
     await notificationsCollection.updateMany(
       {
-        userId: new ObjectId(userId),
+        userId: currentUser._id,
         read: false,
       },
       {
@@ -157,66 +142,4 @@ export async function markAllNotificationsAsRead(userId: string) {
       error: error instanceof Error ? error.message : "Failed to mark all notifications as read",
     };
   }
-}
-
-/**
- * Create a notification (internal function)
- */
-export async function createNotification(data: {
-  userId: string;
-  type: "transaction" | "post" | "event_approval" | "message" | "contact_message";
-  title: string;
-  message: string;
-  link?: string;
-  meta?: {
-    transactionId?: string;
-    postId?: string;
-    eventId?: string;
-    messageId?: string;
-    contactMessageId?: string;
-  };
-}) {
-  try {
-    if (!data.userId || !ObjectId.isValid(data.userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
-    const notificationsCollection = await getCollection<NotificationModel>(
-      COLLECTIONS.NOTIFICATIONS
-    );
-
-    const notification: NotificationModel = {
-      userId: new ObjectId(data.userId),
-      type: data.type,
-      title: data.title,
-      message: data.message,
-      read: false,
-      link: data.link,
-      meta: data.meta
-        ? {
-            transactionId: data.meta.transactionId
-              ? new ObjectId(data.meta.transactionId)
-              : undefined,
-            postId: data.meta.postId ? new ObjectId(data.meta.postId) : undefined,
-            eventId: data.meta.eventId ? new ObjectId(data.meta.eventId) : undefined,
-            messageId: data.meta.messageId ? new ObjectId(data.meta.messageId) : undefined,
-            contactMessageId: data.meta.contactMessageId
-              ? new ObjectId(data.meta.contactMessageId)
-              : undefined,
-          }
-        : undefined,
-      createdAt: new Date(),
-    };
-
-    await notificationsCollection.insertOne(notification);
-
-    return { success: true };
-  } catch (error) {
-    console.error("Error creating notification:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to create notification",
-    };
-  }
-}
-
+});
@@ -0,0 +1,144 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { getCollection } from "@/lib/db";
+import { getWalletByUserId } from "@/lib/db/utils";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { EventModel, InvoiceModel } from "@/lib/db/models";
+import { requireUser } from "@/lib/authz";
+import { quoteFee } from "@/lib/fees";
+import { normalizeWalletId } from "@/lib/wallet-id-format";
+
+/**
+ * Read-only fee quotes for the confirmation step of the payment modals
+ * Nothing is charged or reserved: the payment action prices the fee again when it
+ * runs, so a schedule that changes in between is still applied correctly.
+ */
+
+export type PaymentQuoteRequest =
+  | { kind: "send"; recipientWalletId: string; amount: number } // amount in dollars
+  | { kind: "invoice"; referenceNumber: string }
+  | { kind: "ticket"; eventId: string; quantity: number }
+  | { kind: "cash"; amount: number }; // amount in dollars
+
+/**
+ * Quote a proposed payment from the current user's wallet
+ *
+ * All amounts are returned in dollars. `feeDeducted` means the fee comes out of the
+ * amount rather than on top of it (cash withdrawals), so it is not part of the debit;
+ * `received` is then the cash handed over, and equals the amount otherwise.
+ */
+export const quotePayment = requireUser(async (currentUser, request: PaymentQuoteRequest) => {
+  try {
+    const wallet = await getWalletByUserId(currentUser._id);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found. Please complete KYC approval first." };
+    }
+    if (wallet.status !== "active") {
+      return { success: false, error: `Your wallet is ${wallet.status}. Payments are not allowed.` };
+    }
+
+    const payer = { role: currentUser.role, walletId: wallet.walletId };
+    let amountCents: number;
+    let feeCents = 0;
+    let feeDeducted = false;
+
+    switch (request.kind) {
+      case "send": {
+        amountCents = Math.round(request.amount * 100);
+        if (!Number.isFinite(amountCents) || amountCents <= 0) {
+          return { success: false, error: "Amount must be greater than 0" };
+        }
+        if (normalizeWalletId(request.recipientWalletId) === wallet.walletId) {
+          return { success: false, error: "Cannot send money to yourself" };
+        }
+        feeCents = (await quoteFee("p2p", amountCents, payer)).feeCents;
+        break;
+      }
+
+      case "invoice": {
+        const invoicesCollection = await getCollection<InvoiceModel>(COLLECTIONS.INVOICES);
+        const referenceNumber = request.referenceNumber.trim();
+        const invoice =
+          (ObjectId.isValid(referenceNumber)
+            ? await invoicesCollection.findOne({ _id: new ObjectId(referenceNumber) })
+            : null) ?? (await invoicesCollection.findOne({ ref: referenceNumber }));
+
+        if (!invoice) {
+          return { success: false, error: "Invoice not found with this reference number" };
+        }
+        if (invoice.status === "paid") {
+          return { success: false, error: "This invoice has already been paid" };
+        }
+        if (invoice.recipientWalletId !== wallet.walletId) {
+          return { success: false, error: "This invoice is not addressed to your wallet" };
+        }
+
+        amountCents = invoice.amountCents;
+        feeCents = (await quoteFee("invoice", amountCents, payer)).feeCents;
+        break;
+      }
+
+      case "ticket": {
+        if (!ObjectId.isValid(request.eventId)) {
+          return { success: false, error: "Invalid event ID" };
+        }
+        if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+          return { success: false, error: "Quantity must be a positive integer" };
+        }
+
+        const eventsCollection = await getCollection<EventModel>(COLLECTIONS.EVENTS);
+        const event = await eventsCollection.findOne({ _id: new ObjectId(request.eventId) });
+        if (!event || event.isFree || !event.ticketPriceCents) {
+          return { success: false, error: "Tickets for this event can't be purchased" };
+        }
+        if (!event.ticketQuantity || event.ticketQuantity < request.quantity) {
+          return { success: false, error: `Only ${event.ticketQuantity || 0} tickets available` };
+        }
+
+        // The ticket fee is paid by the event creator out of each sale, never by the buyer
+        amountCents = event.ticketPriceCents * request.quantity;
+        break;
+      }
+
+      case "cash": {
+        amountCents = Math.round(request.amount * 100);
+        if (!Number.isFinite(amountCents) || amountCents <= 0) {
+          return { success: false, error: "Amount must be greater than 0" };
+        }
+
+        // Charged when the cash is paid out, with the schedule in effect at that time
+        feeCents = (await quoteFee("withdrawal", amountCents, payer)).feeCents;
+        feeDeducted = true;
+        break;
+      }
+
+      default:
+        return { success: false, error: "Unknown payment kind" };
+    }
+
+    const totalDebitCents = feeDeducted ? amountCents : amountCents + feeCents;
+    const balanceAfterCents = wallet.balance - totalDebitCents;
+
+    return {
+      success: true,
+      quote: {
+        kind: request.kind,
+        amount: amountCents / 100, // Convert cents to dollars
+        fee: feeCents / 100,
+        feeDeducted,
+        received: (feeDeducted ? amountCents - feeCents : amountCents) / 100,
+        totalDebit: totalDebitCents / 100,
+        balance: wallet.balance / 100,
+        balanceAfter: balanceAfterCents / 100,
+        sufficientFunds: balanceAfterCents >= 0,
+      },
+    };
+  } catch (error) {
+    console.error("Error quoting payment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to quote payment",
+    };
+  }
+});
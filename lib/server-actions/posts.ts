@@ -3,41 +3,20 @@
 import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, PostModel, CommentModel, UserModel } from "@/lib/db/models";
-import { getUserById } from "@/lib/db/utils";
-
-// Helper function to get MongoDB user ID from localStorage user ID
-const getMongoUserId = async (localStorageUserId: string): Promise<ObjectId | null> => {
-  try {
-    if (ObjectId.isValid(localStorageUserId)) {
-      const existingUser = await getUserById(localStorageUserId);
-      if (existingUser && existingUser._id) {
-        return existingUser._id;
-      }
-    }
-    return null;
-  } catch (error) {
-    console.error("Error getting MongoDB user ID:", error);
-    return null;
-  }
-};
+import { requireUser, requirePermission, requireAnyPermission } from "@/lib/authz";
 
 /**
- * Create a new post
+ * Requires the news.publish permission (journalist, employee and admin by default)
  * Only allowed for: journalist, employee, admin
  */
-export async function createPost(data: {
-  authorUserId: string;
+export const createPost = requirePermission("news.publish", async (author, data: {
   title: string;
   content: string;
   imageUrl?: string;
   category: "Politics" | "Sports" | "Business & Economy" | "Technology" | "Entertainment" | "Community & Local News" | "Breaking News" | "Opinion and Article" | "Events" | "Interview" | "Lifestyle";
-}) {
+}) => {
   try {
     // Validate required fields
-    if (!data.authorUserId || !ObjectId.isValid(data.authorUserId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     if (!data.title || !data.title.trim()) {
       return { success: false, error: "Post title is required" };
     }
@@ -50,31 +29,13 @@ export async function createPost(data: {
       return { success: false, error: "Post category is required" };
     }
 
-    // Check user role
-    const authorId = await getMongoUserId(data.authorUserId);
-    if (!authorId) {
-      return { success: false, error: "User not found" };
-    }
-
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const user = await usersCollection.findOne({ _id: authorId });
-    
-    if (!user) {
-      return { success: false, error: "User not found" };
-    }
-
-    const allowedRoles = ["journalist", "employee", "admin"];
-    if (!allowedRoles.includes(user.role)) {
-      return { success: false, error: "Only journalists, employees, and admins can create posts" };
-    }
-
     // Generate excerpt from content (first 150 characters)
     const excerpt = data.content.trim().substring(0, 150).replace(/<[^>]*>/g, "") + "...";
 
     // Create post document
     const now = new Date();
     const postData: Omit<PostModel, "_id"> = {
-      authorUserId: authorId,
+      authorUserId: author._id,
       title: data.title.trim(),
       content: data.content.trim(),
       excerpt,
@@ -106,7 +67,7 @@ export async function createPost(data: {
       error: error instanceof Error ? error.message : "Failed to create post",
     };
   }
-}
+});
 
 /**
  * Get all published posts for Latest News section
@@ -250,28 +211,20 @@ export async function likePost(postId: string) {
  * Add a comment to a post
  * Only allowed for logged-in users
  */
-export async function addComment(data: {
+export const addComment = requireUser(async (author, data: {
   postId: string;
-  authorUserId: string;
   content: string;
-}) {
+}) => {
   try {
     if (!ObjectId.isValid(data.postId)) {
       return { success: false, error: "Invalid post ID" };
     }
 
-    if (!data.authorUserId || !ObjectId.isValid(data.authorUserId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     if (!data.content || !data.content.trim()) {
       return { success: false, error: "Comment content is required" };
     }
 
-    const authorId = await getMongoUserId(data.authorUserId);
-    if (!authorId) {
-      return { success: false, error: "User not found" };
-    }
+    const authorId = author._id;
 
     const now = new Date();
     const commentData: Omit<CommentModel, "_id"> = {
@@ -301,7 +254,7 @@ export async function addComment(data: {
       error: error instanceof Error ? error.message : "Failed to add comment",
     };
   }
-}
+});
 
 /**
  * Get all comments for a post
@@ -366,19 +319,12 @@ export async function getPostComments(postId: string) {
 }
 
 /**
- * Get posts by user ID
- * Returns all posts created by a specific user
+ * Get posts by the signed-in user
+ * Returns all posts created by the current user
  */
-export async function getUserPosts(userId: string) {
+export const getUserPosts = requireUser(async (author) => {
   try {
-    if (!ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID", posts: [] };
-    }
-
-    const authorId = await getMongoUserId(userId);
-    if (!authorId) {
-      return { success: false, error: "User not found", posts: [] };
-    }
+    const authorId = author._id;
 
     const postsCollection = await getCollection<PostModel>(COLLECTIONS.POSTS);
     const posts = await postsCollection
@@ -418,13 +364,13 @@ export async function getUserPosts(userId: string) {
       posts: [],
     };
   }
-}
+});
 
 /**
  * Get all posts (for admin)
  * Returns all posts in the system
  */
-export async function getAllPostsForAdmin() {
+export const getAllPostsForAdmin = requirePermission("news.moderate", async () => {
   try {
     const postsCollection = await getCollection<PostModel>(COLLECTIONS.POSTS);
     const posts = await postsCollection
@@ -483,22 +429,18 @@ export async function getAllPostsForAdmin() {
       posts: [],
     };
   }
-}
+});
 
 /**
  * Delete a post
- * Only the post author or admin can delete
+ * Authors (news.publish) can delete their own posts, moderators (news.moderate) any post
  */
-export async function deletePost(postId: string, userId: string) {
+export const deletePost = requireAnyPermission(["news.publish", "news.moderate"], async (user, postId: string) => {
   try {
     if (!ObjectId.isValid(postId)) {
       return { success: false, error: "Invalid post ID" };
     }
 
-    if (!ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     const postsCollection = await getCollection<PostModel>(COLLECTIONS.POSTS);
     const post = await postsCollection.findOne({ _id: new ObjectId(postId) });
 
@@ -506,23 +448,12 @@ export async function deletePost(postId: string, userId: string) {
       return { success: false, error: "Post not found" };
     }
 
-    const authorId = await getMongoUserId(userId);
-    if (!authorId) {
-      return { success: false, error: "User not found" };
-    }
-
-    // Check if user is admin or the post author
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const user = await usersCollection.findOne({ _id: authorId });
-
-    if (!user) {
-      return { success: false, error: "User not found" };
-    }
-
-    const isAdmin = user.role === "admin";
+    // Check if user moderates news or is the post author
+    const authorId = user._id;
+    const canModerate = user.permissions.includes("news.moderate");
     const isAuthor = post.authorUserId.toString() === authorId.toString();
 
-    if (!isAdmin && !isAuthor) {
+    if (!canModerate && !isAuthor) {
       return { success: false, error: "You don't have permission to delete this post" };
     }
 
@@ -541,17 +472,16 @@ export async function deletePost(postId: string, userId: string) {
       error: error instanceof Error ? error.message : "Failed to delete post",
     };
   }
-}
+});
 
 /**
  * Reply to a comment
  */
-export async function replyToComment(data: {
+export const replyToComment = requireUser(async (author, data: {
   postId: string;
   parentCommentId: string;
-  authorUserId: string;
   content: string;
-}) {
+}) => {
   try {
     if (!ObjectId.isValid(data.postId)) {
       return { success: false, error: "Invalid post ID" };
@@ -561,18 +491,11 @@ export async function replyToComment(data: {
       return { success: false, error: "Invalid parent comment ID" };
     }
 
-    if (!data.authorUserId || !ObjectId.isValid(data.authorUserId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
     if (!data.content || !data.content.trim()) {
       return { success: false, error: "Reply content is required" };
     }
 
-    const authorId = await getMongoUserId(data.authorUserId);
-    if (!authorId) {
-      return { success: false, error: "User not found" };
-    }
+    const authorId = author._id;
 
     const now = new Date();
     const replyData: Omit<CommentModel, "_id"> = {
@@ -603,7 +526,7 @@ export async function replyToComment(data: {
       error: error instanceof Error ? error.message : "Failed to add reply",
     };
   }
-}
+});
 
 /**
  * Get comments with replies (nested structure)
@@ -0,0 +1,222 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  advanceRedeemBatch,
+  createRedeemBatch as insertRedeemBatch,
+  formatSerialRange,
+  getRedeemBatchSummaries,
+  printRedeemBatch as rekeyRedeemBatch,
+  voidRedeemBatchCodes,
+} from "@/lib/redeem-batches";
+import type { RedeemBatchSummary } from "@/lib/redeem-batches";
+
+/**
+ * Server actions for redeem code batches in the admin redeem tab
+ * Amounts are in dollars on the way in and cents on the way out, like the
+ * single-code actions. See lib/redeem-batches.ts for the batch lifecycle.
+ */
+
+const serializeRedeemBatch = ({ batch, ...counts }: RedeemBatchSummary) => ({
+  _id: batch._id?.toString() ?? "",
+  label: batch.label,
+  serialStart: batch.serialStart,
+  serialEnd: batch.serialEnd,
+  count: batch.count,
+  amount: batch.amount,
+  expiresAt: batch.expiresAt?.toISOString(),
+  status: batch.status,
+  distributor: batch.distributor,
+  createdAt: batch.createdAt.toISOString(),
+  printedAt: batch.printedAt?.toISOString(),
+  activatedAt: batch.activatedAt?.toISOString(),
+  assignedAt: batch.assignedAt?.toISOString(),
+  voidedAt: batch.voidedAt?.toISOString(),
+  ...counts,
+});
+
+const parseBatchId = (batchId: string): ObjectId => {
+  if (!ObjectId.isValid(batchId)) {
+    throw new Error("Invalid batch ID");
+  }
+  return new ObjectId(batchId);
+};
+
+/**
+ * Get every batch with its redeemed, voided and outstanding codes, and the total still owed
+ */
+export const getRedeemBatches = requirePermission("redeem.generate", async () => {
+  try {
+    const summaries = await getRedeemBatchSummaries();
+    return {
+      success: true,
+      batches: summaries.map(serializeRedeemBatch),
+      outstandingCents: summaries.reduce((sum, summary) => sum + summary.outstandingCents, 0),
+    };
+  } catch (error) {
+    console.error("Error getting redeem batches:", error);
+    return {
+      success: false,
+      batches: [],
+      error: error instanceof Error ? error.message : "Failed to get redeem batches",
+    };
+  }
+});
+
+/**
+ * Create a batch of codes
+ *
+ * @param batch.amount - Face value of each code in dollars
+ * @param batch.expiresAt - ISO date after which the codes can't be redeemed
+ */
+export const createRedeemBatch = requirePermission("redeem.generate", async (
+  admin,
+  batch: { label?: string; count: number; amount: number; expiresAt?: string }
+) => {
+  try {
+    const expiresAt = batch.expiresAt ? new Date(batch.expiresAt) : undefined;
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return { success: false, error: "Expiry must be a date in the future" };
+    }
+
+    const created = await insertRedeemBatch(
+      { label: batch.label, count: batch.count, amountCents: Math.round(batch.amount * 100), expiresAt },
+      admin._id
+    );
+
+    await recordAuditEvent({
+      action: "redeem.batch.create",
+      actorUserId: admin._id,
+      details: {
+        batchId: created._id?.toString(),
+        serials: formatSerialRange(created),
+        count: created.count,
+        amount: created.amount,
+      },
+    });
+
+    return { success: true, message: `Batch ${formatSerialRange(created)} created` };
+  } catch (error) {
+    console.error("Error creating redeem batch:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create redeem batch",
+    };
+  }
+});
+
+/**
+ * Issue the codes and PINs of a batch for printing and mark it printed
+ * The result is the only copy of the plaintext; printing again replaces it
+ */
+export const printRedeemBatch = requirePermission("redeem.generate", async (admin, batchId: string) => {
+  try {
+    const { batch, printRunId, codes } = await rekeyRedeemBatch(parseBatchId(batchId), admin._id);
+
+    await recordAuditEvent({
+      action: "redeem.batch.print",
+      actorUserId: admin._id,
+      details: { batchId, printRunId: printRunId.toString(), serials: formatSerialRange(batch), codes: codes.length },
+    });
+
+    return {
+      success: true,
+      serials: formatSerialRange(batch),
+      amount: batch.amount,
+      expiresAt: batch.expiresAt?.toISOString(),
+      codes,
+    };
+  } catch (error) {
+    console.error("Error printing redeem batch:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to print redeem batch",
+    };
+  }
+});
+
+/**
+ * Activate a printed batch, so its codes can be redeemed
+ */
+export const activateRedeemBatch = requirePermission("redeem.generate", async (admin, batchId: string) => {
+  try {
+    await advanceRedeemBatch(parseBatchId(batchId), "activated");
+
+    await recordAuditEvent({
+      action: "redeem.batch.activate",
+      actorUserId: admin._id,
+      details: { batchId },
+    });
+
+    return { success: true, message: "Batch activated" };
+  } catch (error) {
+    console.error("Error activating redeem batch:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to activate redeem batch",
+    };
+  }
+});
+
+/**
+ * Record the distributor or agent an activated batch was handed to
+ */
+export const assignRedeemBatch = requirePermission("redeem.generate", async (
+  admin,
+  batchId: string,
+  distributor: string
+) => {
+  try {
+    await advanceRedeemBatch(parseBatchId(batchId), "assigned", distributor);
+
+    await recordAuditEvent({
+      action: "redeem.batch.assign",
+      actorUserId: admin._id,
+      details: { batchId, distributor: distributor.trim() },
+    });
+
+    return { success: true, message: `Batch assigned to ${distributor.trim()}` };
+  } catch (error) {
+    console.error("Error assigning redeem batch:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to assign redeem batch",
+    };
+  }
+});
+
+/**
+ * Void a whole batch, or the single code with `serial` in it
+ */
+export const voidRedeemBatch = requirePermission("redeem.generate", async (
+  admin,
+  batchId: string,
+  serial?: number
+) => {
+  try {
+    if (serial !== undefined && (!Number.isInteger(serial) || serial < 1)) {
+      return { success: false, error: "Enter a valid serial number" };
+    }
+
+    const { voided, voidedCents } = await voidRedeemBatchCodes(parseBatchId(batchId), admin._id, serial);
+
+    await recordAuditEvent({
+      action: "redeem.batch.void",
+      actorUserId: admin._id,
+      details: { batchId, serial, voided, voidedCents },
+    });
+
+    return {
+      success: true,
+      message: `Voided ${voided} code${voided === 1 ? "" : "s"} worth ${(voidedCents / 100).toFixed(2)}`,
+    };
+  } catch (error) {
+    console.error("Error voiding redeem batch:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to void redeem batch",
+    };
+  }
+});
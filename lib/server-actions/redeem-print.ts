@@ -0,0 +1,95 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  getRedeemPrintRuns as findRedeemPrintRuns,
+  printRedeemCardSheet,
+} from "@/lib/redeem-print";
+import { isRedeemSheetSize } from "@/lib/redeem-sheet-layout";
+
+/**
+ * Server actions for printing redeem cards as N-up PDF sheets from the Cards tab
+ * See lib/redeem-print.ts for why printing issues new codes and PINs.
+ */
+
+/**
+ * Print the selected cards on sheets of `sheetSize`
+ *
+ * @returns The PDF as base64; it is the only copy of the cards' new codes and PINs
+ */
+export const printRedeemCards = requirePermission("redeem.generate", async (
+  admin,
+  cardIds: string[],
+  sheetSize: string
+) => {
+  try {
+    if (!isRedeemSheetSize(sheetSize)) {
+      return { success: false, error: "Invalid sheet size" };
+    }
+    if (cardIds.some((cardId) => !ObjectId.isValid(cardId))) {
+      return { success: false, error: "Invalid card ID" };
+    }
+
+    const { run, pdf } = await printRedeemCardSheet(
+      [...new Set(cardIds)].map((cardId) => new ObjectId(cardId)),
+      sheetSize,
+      admin._id
+    );
+
+    await recordAuditEvent({
+      action: "redeem.print",
+      actorUserId: admin._id,
+      details: {
+        printRunId: run._id?.toString(),
+        sheetSize,
+        cards: run.cardIds.length,
+        reprinted: run.reprintedCodeIds.length,
+      },
+    });
+
+    return {
+      success: true,
+      printRunId: run._id?.toString() ?? "",
+      sheets: run.sheets,
+      pdf: pdf.toString("base64"),
+    };
+  } catch (error) {
+    console.error("Error printing redeem cards:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to print redeem cards",
+    };
+  }
+});
+
+/**
+ * Recent print runs of cards and batches, newest first
+ */
+export const getRedeemPrintRuns = requirePermission("redeem.generate", async () => {
+  try {
+    const runs = await findRedeemPrintRuns();
+    return {
+      success: true,
+      runs: runs.map((run) => ({
+        _id: run._id?.toString() ?? "",
+        format: run.format,
+        sheetSize: run.sheetSize,
+        sheets: run.sheets,
+        batchId: run.batchId?.toString(),
+        codes: run.redeemCodeIds.length,
+        reprinted: run.reprintedCodeIds.length,
+        createdByEmail: run.createdByEmail,
+        createdAt: run.createdAt.toISOString(),
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting redeem print runs:", error);
+    return {
+      success: false,
+      runs: [],
+      error: error instanceof Error ? error.message : "Failed to get print runs",
+    };
+  }
+});
@@ -0,0 +1,314 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { getCollection } from "@/lib/db";
+import { getWalletByWalletId } from "@/lib/db/utils";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { RefundRequestModel, TransactionModel } from "@/lib/db/models";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import { ensureRefundIndexes, reverseTransfer } from "@/lib/refunds";
+
+/**
+ * Server actions for refunds of P2P transfers
+ *
+ * A sender asks for a transfer to be returned; the recipient or an admin with the
+ * refunds.approve permission approves or rejects the request. Approving writes
+ * compensating "reversal" transactions (see lib/refunds.ts); the original
+ * transaction rows are never changed or deleted.
+ */
+
+const MAX_REASON_LENGTH = 500;
+
+const serializeRefundRequest = (request: RefundRequestModel) => ({
+  _id: request._id?.toString() ?? "",
+  ref: request.ref,
+  senderWalletId: request.senderWalletId,
+  recipientWalletId: request.recipientWalletId,
+  amount: request.amount / 100, // Convert cents to dollars
+  amountCents: request.amount,
+  feeCents: request.feeCents,
+  reason: request.reason,
+  status: request.status,
+  feeRefunded: request.feeRefunded ?? false,
+  decisionNote: request.decisionNote,
+  reversalRef: request.reversalRef,
+  createdAt: request.createdAt.toISOString(),
+  decidedAt: request.decidedAt?.toISOString(),
+});
+
+const findRefundRequest = async (requestId: string): Promise<RefundRequestModel | null> => {
+  if (!ObjectId.isValid(requestId)) {
+    return null;
+  }
+  const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+  return refundRequestsCollection.findOne({ _id: new ObjectId(requestId) });
+};
+
+/**
+ * Ask for a transfer you sent to be returned
+ *
+ * @param referenceNumber - Reference number of the transfer
+ * @param reason - Why the money should come back (shown to the recipient)
+ */
+export const requestRefund = requireUser(async (currentUser, referenceNumber: string, reason: string) => {
+  try {
+    const trimmedReason = reason?.trim() ?? "";
+    if (!referenceNumber) {
+      return { success: false, error: "Reference number is required" };
+    }
+    if (!trimmedReason) {
+      return { success: false, error: "Please say why you want a refund" };
+    }
+    if (trimmedReason.length > MAX_REASON_LENGTH) {
+      return { success: false, error: `The reason can be at most ${MAX_REASON_LENGTH} characters` };
+    }
+
+    await ensureRefundIndexes();
+
+    const transactionsCollection = await getCollection<TransactionModel>(COLLECTIONS.TRANSACTIONS);
+    const transfer = await transactionsCollection.findOne({
+      ref: referenceNumber,
+      userId: currentUser._id,
+      type: "send",
+      status: "success",
+    });
+    if (!transfer?._id || !transfer.fromWalletId || !transfer.toWalletId) {
+      return { success: false, error: "Only transfers you sent can be refunded" };
+    }
+
+    const recipientWallet = await getWalletByWalletId(transfer.toWalletId);
+    if (!recipientWallet) {
+      return { success: false, error: "The recipient's wallet no longer exists" };
+    }
+
+    const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+    const openRequest = await refundRequestsCollection.findOne({
+      transactionId: transfer._id,
+      status: { $in: ["pending", "approved"] },
+    });
+    if (openRequest) {
+      return {
+        success: false,
+        error: openRequest.status === "approved"
+          ? "This transfer has already been refunded"
+          : "A refund for this transfer is already waiting for approval",
+      };
+    }
+
+    const refundRequest: RefundRequestModel = {
+      ref: referenceNumber,
+      transactionId: transfer._id,
+      senderUserId: currentUser._id,
+      senderWalletId: transfer.fromWalletId,
+      recipientUserId: recipientWallet.userId,
+      recipientWalletId: recipientWallet.walletId,
+      amount: transfer.amount,
+      feeCents: transfer.feeCents ?? 0,
+      reason: trimmedReason,
+      status: "pending",
+      createdAt: new Date(),
+    };
+    await refundRequestsCollection.insertOne(refundRequest);
+
+    const { createNotification } = await import("@/lib/notifications");
+    await createNotification({
+      userId: recipientWallet.userId.toString(),
+      type: "transaction",
+      title: "Refund Requested",
+      message: `${transfer.fromWalletId} asked you to return ${(transfer.amount / 100).toFixed(2)} from transfer ${referenceNumber}: ${trimmedReason}`,
+      link: "/wallet",
+    });
+
+    return { success: true, message: "Refund requested. The recipient has been asked to approve it." };
+  } catch (error) {
+    console.error("Error requesting refund:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to request refund",
+    };
+  }
+});
+
+/**
+ * Refund requests waiting for your approval, and the ones you filed
+ */
+export const getMyRefundRequests = requireUser(async (currentUser) => {
+  try {
+    const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+    const incoming = await refundRequestsCollection
+      .find({ recipientUserId: currentUser._id, status: "pending" })
+      .sort({ createdAt: -1 })
+      .toArray();
+    const outgoing = await refundRequestsCollection
+      .find({ senderUserId: currentUser._id })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .toArray();
+
+    return {
+      success: true,
+      incoming: incoming.map(serializeRefundRequest),
+      outgoing: outgoing.map(serializeRefundRequest),
+    };
+  } catch (error) {
+    console.error("Error getting refund requests:", error);
+    return {
+      success: false,
+      incoming: [],
+      outgoing: [],
+      error: error instanceof Error ? error.message : "Failed to get refund requests",
+    };
+  }
+});
+
+/**
+ * Approve or reject a refund request for a transfer you received
+ * Approving returns the amount you received; the sender's fee is not refunded.
+ */
+export const respondToRefundRequest = requireUser(async (currentUser, requestId: string, approve: boolean) => {
+  try {
+    const request = await findRefundRequest(requestId);
+    if (!request || !request.recipientUserId.equals(currentUser._id) || request.status !== "pending") {
+      return { success: false, error: "Refund request not found or already decided" };
+    }
+
+    if (approve) {
+      await reverseTransfer(request, { decidedBy: currentUser._id, refundFee: false });
+      return { success: true, message: `${(request.amount / 100).toFixed(2)} has been returned to ${request.senderWalletId}` };
+    }
+
+    return rejectRefundRequest(request, currentUser._id);
+  } catch (error) {
+    console.error("Error responding to refund request:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to respond to refund request",
+    };
+  }
+});
+
+/**
+ * Withdraw a refund request you filed before it is decided
+ */
+export const cancelRefundRequest = requireUser(async (currentUser, requestId: string) => {
+  try {
+    const request = await findRefundRequest(requestId);
+    if (!request || !request.senderUserId.equals(currentUser._id)) {
+      return { success: false, error: "Refund request not found" };
+    }
+
+    const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+    const cancelled = await refundRequestsCollection.updateOne(
+      { _id: request._id, status: "pending" },
+      { $set: { status: "cancelled", decidedBy: currentUser._id, decidedAt: new Date() } }
+    );
+    if (cancelled.modifiedCount === 0) {
+      return { success: false, error: "This refund request has already been decided" };
+    }
+
+    return { success: true, message: "Refund request cancelled" };
+  } catch (error) {
+    console.error("Error cancelling refund request:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to cancel refund request",
+    };
+  }
+});
+
+/**
+ * Get all pending refund requests (Admin only)
+ */
+export const getPendingRefundRequests = requirePermission("refunds.approve", async () => {
+  try {
+    const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+    const requests = await refundRequestsCollection
+      .find({ status: "pending" })
+      .sort({ createdAt: 1 }) // Oldest first
+      .toArray();
+
+    return { success: true, requests: requests.map(serializeRefundRequest) };
+  } catch (error) {
+    console.error("Error getting pending refund requests:", error);
+    return {
+      success: false,
+      requests: [],
+      error: error instanceof Error ? error.message : "Failed to get refund requests",
+    };
+  }
+});
+
+/**
+ * Approve or reject any refund request (Admin only)
+ *
+ * @param requestId - Refund request to decide
+ * @param approve - Reverse the transfer (true) or reject the request (false)
+ * @param options.refundFee - Also return the sender's fee (only while it is undeposited)
+ * @param options.note - Shown to the sender
+ */
+export const decideRefundRequest = requirePermission("refunds.approve", async (
+  admin,
+  requestId: string,
+  approve: boolean,
+  options: { refundFee?: boolean; note?: string } = {}
+) => {
+  try {
+    const request = await findRefundRequest(requestId);
+    if (!request || request.status !== "pending") {
+      return { success: false, error: "Refund request not found or already decided" };
+    }
+
+    const note = options.note?.trim() || undefined;
+    let result: { success: boolean; message?: string; error?: string };
+    if (approve) {
+      const reversalRef = await reverseTransfer(request, {
+        decidedBy: admin._id,
+        refundFee: options.refundFee === true,
+        note,
+      });
+      result = { success: true, message: `Transfer ${request.ref} reversed (reference ${reversalRef})` };
+    } else {
+      result = await rejectRefundRequest(request, admin._id, note);
+    }
+
+    if (result.success) {
+      await recordAuditEvent({
+        action: approve ? "refund.approve" : "refund.reject",
+        actorUserId: admin._id,
+        targetUserId: request.senderUserId,
+        details: { ref: request.ref, amount: request.amount, refundFee: approve && options.refundFee === true },
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error("Error deciding refund request:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to decide refund request",
+    };
+  }
+});
+
+const rejectRefundRequest = async (request: RefundRequestModel, decidedBy: ObjectId, note?: string) => {
+  const refundRequestsCollection = await getCollection<RefundRequestModel>(COLLECTIONS.REFUND_REQUESTS);
+  const rejected = await refundRequestsCollection.updateOne(
+    { _id: request._id, status: "pending" },
+    { $set: { status: "rejected", decidedBy, decidedAt: new Date(), decisionNote: note } }
+  );
+  if (rejected.modifiedCount === 0) {
+    return { success: false, error: "This refund request has already been decided" };
+  }
+
+  const { createNotification } = await import("@/lib/notifications");
+  await createNotification({
+    userId: request.senderUserId.toString(),
+    type: "transaction",
+    title: "Refund Declined",
+    message: `Your refund request for transfer ${request.ref} was declined${note ? `: ${note}` : "."}`,
+    link: "/wallet",
+  });
+
+  return { success: true, message: "Refund request declined" };
+};
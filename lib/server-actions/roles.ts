@@ -0,0 +1,229 @@
+"use server";
+
+import { getCollection } from "@/lib/db";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { RoleModel, UserModel } from "@/lib/db/models";
+import { requirePermission } from "@/lib/authz";
+import { getRoles as getStoredRoles, getRoleByName } from "@/lib/roles";
+import { ALL_PERMISSIONS, Permission, getPermissionsNotHeld, isAdmin, isPermission } from "@/lib/rbac";
+
+/**
+ * Server actions for managing roles (named bundles of permissions)
+ *
+ * Roles are stored in the `roles` collection; see lib/roles.ts for seeding and
+ * lib/rbac.ts for the permission catalog. Built-in roles can have their label,
+ * description and permissions edited but can't be renamed or deleted, and the
+ * admin role always keeps every permission. Only permissions the editor holds
+ * can be added to a role, and only admins can edit the admin role.
+ */
+
+// Role names are stored on users, so keep them URL/slug friendly
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9-]{1,31}$/;
+
+const serializeRole = (role: RoleModel, userCount: number) => ({
+  id: role._id?.toString() || "",
+  name: role.name,
+  label: role.label,
+  description: role.description || "",
+  permissions: role.permissions.filter(isPermission),
+  builtIn: role.builtIn,
+  userCount,
+  updatedAt: role.updatedAt.toISOString(),
+});
+
+const validatePermissions = (permissions: string[]): Permission[] | null => {
+  if (!Array.isArray(permissions) || !permissions.every(isPermission)) {
+    return null;
+  }
+  return Array.from(new Set(permissions));
+};
+
+/**
+ * Get all roles with the number of users assigned to each
+ * Also used by the role picker on the Users tab
+ */
+export const getRoles = requirePermission("users.manage", async () => {
+  try {
+    const roles = await getStoredRoles();
+
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const counts = await usersCollection
+      .aggregate<{ _id: string; count: number }>([{ $group: { _id: "$role", count: { $sum: 1 } } }])
+      .toArray();
+    const countByRole = new Map(counts.map((c) => [c._id, c.count]));
+
+    return {
+      success: true,
+      roles: roles.map((role) => serializeRole(role, countByRole.get(role.name) || 0)),
+    };
+  } catch (error) {
+    console.error("Error getting roles:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get roles",
+      roles: [],
+    };
+  }
+});
+
+/**
+ * Create a custom role
+ *
+ * @param data.name - Unique role name stored on users (lowercase letters, digits and dashes)
+ * @param data.label - Display name
+ * @param data.permissions - Permissions granted by the role
+ */
+export const createRole = requirePermission("roles.manage", async (admin, data: {
+  name: string;
+  label: string;
+  description?: string;
+  permissions: string[];
+}) => {
+  try {
+    const name = data.name?.trim().toLowerCase();
+    if (!name || !ROLE_NAME_PATTERN.test(name)) {
+      return {
+        success: false,
+        error: "Role name must be 2-32 characters of lowercase letters, digits or dashes, starting with a letter",
+      };
+    }
+
+    const label = data.label?.trim();
+    if (!label) {
+      return { success: false, error: "Role label is required" };
+    }
+
+    const permissions = validatePermissions(data.permissions);
+    if (!permissions) {
+      return { success: false, error: "Unknown permission selected" };
+    }
+
+    const notHeld = getPermissionsNotHeld(admin.permissions, permissions);
+    if (notHeld.length > 0) {
+      return { success: false, error: `You can't grant permissions you don't have: ${notHeld.join(", ")}` };
+    }
+
+    if (await getRoleByName(name)) {
+      return { success: false, error: `A role named "${name}" already exists` };
+    }
+
+    const now = new Date();
+    const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+    await rolesCollection.insertOne({
+      name,
+      label,
+      description: data.description?.trim() || "",
+      permissions,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: admin._id,
+    });
+
+    return { success: true, message: `Role "${label}" created` };
+  } catch (error) {
+    console.error("Error creating role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create role",
+    };
+  }
+});
+
+/**
+ * Update a role's label, description and permissions
+ * The admin role always keeps every permission, whatever is submitted
+ */
+export const updateRole = requirePermission("roles.manage", async (admin, name: string, data: {
+  label: string;
+  description?: string;
+  permissions: string[];
+}) => {
+  try {
+    const role = await getRoleByName(name);
+    if (!role) {
+      return { success: false, error: "Role not found" };
+    }
+
+    const label = data.label?.trim();
+    if (!label) {
+      return { success: false, error: "Role label is required" };
+    }
+
+    const permissions = validatePermissions(data.permissions);
+    if (!permissions) {
+      return { success: false, error: "Unknown permission selected" };
+    }
+
+    // Permissions the role already has can stay; only new ones must be held by the editor
+    if (role.name === "admin" && !isAdmin(admin.role)) {
+      return { success: false, error: "Only admins can edit the admin role" };
+    }
+    const notHeld = getPermissionsNotHeld(
+      admin.permissions,
+      permissions.filter((permission) => !role.permissions.includes(permission))
+    );
+    if (notHeld.length > 0) {
+      return { success: false, error: `You can't grant permissions you don't have: ${notHeld.join(", ")}` };
+    }
+
+    const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+    await rolesCollection.updateOne(
+      { _id: role._id },
+      {
+        $set: {
+          label,
+          description: data.description?.trim() || "",
+          permissions: role.name === "admin" ? ALL_PERMISSIONS : permissions,
+          updatedAt: new Date(),
+          updatedBy: admin._id,
+        },
+      }
+    );
+
+    return { success: true, message: `Role "${label}" updated` };
+  } catch (error) {
+    console.error("Error updating role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update role",
+    };
+  }
+});
+
+/**
+ * Delete a custom role
+ * Built-in roles and roles that are still assigned to users can't be deleted
+ */
+export const deleteRole = requirePermission("roles.manage", async (admin, name: string) => {
+  try {
+    const role = await getRoleByName(name);
+    if (!role) {
+      return { success: false, error: "Role not found" };
+    }
+
+    if (role.builtIn) {
+      return { success: false, error: "Built-in roles can't be deleted" };
+    }
+
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const assigned = await usersCollection.countDocuments({ role: role.name });
+    if (assigned > 0) {
+      return {
+        success: false,
+        error: `Role is assigned to ${assigned} user${assigned === 1 ? "" : "s"}. Reassign them before deleting it.`,
+      };
+    }
+
+    const rolesCollection = await getCollection<RoleModel>(COLLECTIONS.ROLES);
+    await rolesCollection.deleteOne({ _id: role._id });
+
+    return { success: true, message: `Role "${role.label}" deleted` };
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete role",
+    };
+  }
+});
@@ -0,0 +1,94 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { requireUser } from "@/lib/authz";
+import { getActiveSessions, getCurrentSession, revokeSession, revokeAllSessions } from "@/lib/session";
+
+/**
+ * Server actions for the active sessions list in Settings → Security
+ * Sessions themselves are created and checked in lib/session.ts
+ */
+
+/**
+ * List the current user's active sessions, marking the one making this request
+ */
+export const getMySessions = requireUser(async (currentUser) => {
+  try {
+    const [sessions, currentSession] = await Promise.all([
+      getActiveSessions(currentUser._id),
+      getCurrentSession(),
+    ]);
+
+    return {
+      success: true,
+      sessions: sessions.map((session) => ({
+        id: session._id!.toString(),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt.toISOString(),
+        lastSeenAt: session.lastSeenAt.toISOString(),
+        current: !!currentSession?._id && session._id!.equals(currentSession._id),
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting sessions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get sessions",
+      sessions: [],
+    };
+  }
+});
+
+/**
+ * Sign out one of the current user's other sessions
+ * The current session is signed out with signOut() instead
+ */
+export const revokeMySession = requireUser(async (currentUser, sessionId: string) => {
+  try {
+    if (!ObjectId.isValid(sessionId)) {
+      return { success: false, error: "Invalid session ID" };
+    }
+
+    const currentSession = await getCurrentSession();
+    if (currentSession?._id?.equals(sessionId)) {
+      return { success: false, error: "Use Sign Out to end the session you're using now" };
+    }
+
+    const revoked = await revokeSession(currentUser._id, new ObjectId(sessionId));
+    if (!revoked) {
+      return { success: false, error: "Session not found or already signed out" };
+    }
+
+    return { success: true, message: "Session signed out" };
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to sign out session",
+    };
+  }
+});
+
+/**
+ * Sign out every session of the current user except the one making this request
+ */
+export const revokeOtherSessions = requireUser(async (currentUser) => {
+  try {
+    const currentSession = await getCurrentSession();
+    const revokedCount = await revokeAllSessions(currentUser._id, { exceptSessionId: currentSession?._id });
+
+    return {
+      success: true,
+      message: revokedCount
+        ? `Signed out ${revokedCount} other session${revokedCount === 1 ? "" : "s"}`
+        : "No other sessions to sign out",
+    };
+  } catch (error) {
+    console.error("Error revoking other sessions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to sign out other sessions",
+    };
+  }
+});
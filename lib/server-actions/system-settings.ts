@@ -1,9 +1,10 @@
 "use server";
 
-import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, SystemSettingsModel } from "@/lib/db/models";
-import { UserModel } from "@/lib/db/models";
+import { requireAnyPermission } from "@/lib/authz";
+import { DEFAULT_TWO_FACTOR_REQUIRED_ROLES } from "@/lib/two-factor";
+import { DEFAULT_PIN_ALWAYS_REQUIRED_ABOVE_CENTS } from "@/lib/transaction-pin";
 
 /**
  * Get system settings
@@ -53,6 +54,8 @@ export async function getSystemSettings() {
         heroHeadline: settings.heroHeadline || "Time is money.\nSave both.",
         heroSubheadline: settings.heroSubheadline || "Easy-to-use corporate cards, bill payments, accounting, and a whole lot more. All in one place.",
         heroBackgroundImageUrl: settings.heroBackgroundImageUrl || "",
+        twoFactorRequiredRoles: settings.twoFactorRequiredRoles ?? DEFAULT_TWO_FACTOR_REQUIRED_ROLES,
+        pinAlwaysRequiredAboveCents: settings.pinAlwaysRequiredAboveCents ?? DEFAULT_PIN_ALWAYS_REQUIRED_ABOVE_CENTS,
       },
     };
   } catch (error) {
@@ -64,11 +67,21 @@ export async function getSystemSettings() {
   }
 }
 
+// Settings fields that change fees and need the fees.edit permission; every
+// other field needs settings.edit
+const FEE_SETTING_KEYS = [
+  "p2pFeePercentage",
+  "ticketFeePercentage",
+  "invoiceFeePercentage",
+  "withdrawalFeePercentage",
+] as const;
+
 /**
- * Update system settings (Admin only)
+ * Update system settings
+ * Fee percentages require fees.edit, all other settings require settings.edit
  */
-export async function updateSystemSettings(
-  adminUserId: string,
+export const updateSystemSettings = requireAnyPermission(["fees.edit", "settings.edit"], async (
+  admin,
   updates: {
     p2pFeePercentage?: number;
     ticketFeePercentage?: number;
@@ -81,19 +94,26 @@ export async function updateSystemSettings(
     heroHeadline?: string;
     heroSubheadline?: string;
     heroBackgroundImageUrl?: string;
+    twoFactorRequiredRoles?: string[];
+    pinAlwaysRequiredAboveCents?: number;
   }
-) {
+) => {
   try {
-    if (!ObjectId.isValid(adminUserId)) {
-      return { success: false, error: "Invalid admin user ID" };
+    const changesFees = FEE_SETTING_KEYS.some((key) => updates?.[key] !== undefined);
+    const changesSettings = Object.keys(updates ?? {}).some(
+      (key) => !(FEE_SETTING_KEYS as readonly string[]).includes(key) && updates[key as keyof typeof updates] !== undefined
+    );
+
+    if (!changesFees && !changesSettings) {
+      return { success: false, error: "No settings to update" };
     }
 
-    // Verify admin role
-    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
-    const admin = await usersCollection.findOne({ _id: new ObjectId(adminUserId) });
+    if (changesFees && !admin.permissions.includes("fees.edit")) {
+      return { success: false, error: "You don't have permission to change fees" };
+    }
 
-    if (!admin || admin.role !== "admin") {
-      return { success: false, error: "Unauthorized: Admin access required" };
+    if (changesSettings && !admin.permissions.includes("settings.edit")) {
+      return { success: false, error: "You don't have permission to change system settings" };
     }
 
     // Validate fee percentages (must be between 0 and 100)
@@ -148,6 +168,24 @@ export async function updateSystemSettings(
       return { success: false, error: "Hero background image URL must be 500 characters or less" };
     }
 
+    if (updates.pinAlwaysRequiredAboveCents !== undefined) {
+      if (!Number.isInteger(updates.pinAlwaysRequiredAboveCents) || updates.pinAlwaysRequiredAboveCents < 0) {
+        return { success: false, error: "PIN threshold must be a whole number of cents and cannot be negative" };
+      }
+    }
+
+    if (updates.twoFactorRequiredRoles !== undefined) {
+      if (!Array.isArray(updates.twoFactorRequiredRoles)) {
+        return { success: false, error: "Two-factor roles must be a list of role names" };
+      }
+      const { getRoleByName } = await import("@/lib/roles");
+      for (const role of updates.twoFactorRequiredRoles) {
+        if (!(await getRoleByName(role))) {
+          return { success: false, error: `Unknown role "${role}"` };
+        }
+      }
+    }
+
     const settingsCollection = await getCollection<SystemSettingsModel>(
       COLLECTIONS.SYSTEM_SETTINGS
     );
@@ -157,7 +195,7 @@ export async function updateSystemSettings(
 
     const updateData: Partial<SystemSettingsModel> = {
       updatedAt: new Date(),
-      updatedBy: new ObjectId(adminUserId),
+      updatedBy: admin._id,
     };
 
     // Only update fields that are provided
@@ -194,6 +232,12 @@ export async function updateSystemSettings(
     if (updates.heroBackgroundImageUrl !== undefined) {
       updateData.heroBackgroundImageUrl = updates.heroBackgroundImageUrl.trim();
     }
+    if (updates.pinAlwaysRequiredAboveCents !== undefined) {
+      updateData.pinAlwaysRequiredAboveCents = updates.pinAlwaysRequiredAboveCents;
+    }
+    if (updates.twoFactorRequiredRoles !== undefined) {
+      updateData.twoFactorRequiredRoles = Array.from(new Set(updates.twoFactorRequiredRoles));
+    }
 
     if (existingSettings) {
       // Update existing settings
@@ -215,8 +259,10 @@ export async function updateSystemSettings(
         heroHeadline: updates.heroHeadline || "Time is money.\nSave both.",
         heroSubheadline: updates.heroSubheadline || "Easy-to-use corporate cards, bill payments, accounting, and a whole lot more. All in one place.",
         heroBackgroundImageUrl: updates.heroBackgroundImageUrl || "",
+        twoFactorRequiredRoles: updates.twoFactorRequiredRoles ?? DEFAULT_TWO_FACTOR_REQUIRED_ROLES,
+        pinAlwaysRequiredAboveCents: updates.pinAlwaysRequiredAboveCents ?? DEFAULT_PIN_ALWAYS_REQUIRED_ABOVE_CENTS,
         updatedAt: new Date(),
-        updatedBy: new ObjectId(adminUserId),
+        updatedBy: admin._id,
       };
       await settingsCollection.insertOne(defaultSettings);
     }
@@ -232,5 +278,5 @@ export async function updateSystemSettings(
       error: error instanceof Error ? error.message : "Failed to update system settings",
     };
   }
-}
+});
 
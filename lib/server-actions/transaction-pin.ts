@@ -0,0 +1,176 @@
+"use server";
+
+import { getCollection } from "@/lib/db";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { UserModel, WalletModel } from "@/lib/db/models";
+import { getWalletByUserId } from "@/lib/db/utils";
+import { requireUser } from "@/lib/authz";
+import { verifyPassword } from "@/lib/password";
+import { getRequestMetadata } from "@/lib/session";
+import { getThrottleDelay, registerThrottledAttempt, formatRetryAfter } from "@/lib/login-throttle";
+import {
+  isValidPinFormat,
+  isPinLocked,
+  isTrustedDevice,
+  clearTrustedDeviceCookie,
+  setWalletPin,
+  verifyWalletPin,
+  getPinAlwaysRequiredAboveCents,
+} from "@/lib/transaction-pin";
+
+/**
+ * Server actions for managing the wallet's transaction PIN
+ * The PIN itself is checked by the payment actions through confirmTransaction()
+ */
+
+/**
+ * Check the account password before a PIN is set or reset
+ *
+ * The check counts against the same sign-in throttle as signIn, so a stolen session
+ * can't be used to guess the password here without locking out sign-in for the
+ * account (and this IP) too
+ */
+const checkAccountPassword = async (currentUser: UserModel, password: string): Promise<string | null> => {
+  const { ipAddress } = await getRequestMetadata();
+  const retryAfterMs = await getThrottleDelay("sign_in", currentUser.email, ipAddress);
+  if (retryAfterMs > 0) {
+    return `Too many incorrect passwords. Please try again in ${formatRetryAfter(retryAfterMs)}.`;
+  }
+
+  const { valid } = await verifyPassword(password || "", currentUser.password);
+  if (!valid) {
+    await registerThrottledAttempt("sign_in", currentUser.email, ipAddress);
+    return "Incorrect password";
+  }
+  return null;
+};
+
+/**
+ * Get the PIN status of the current user's wallet
+ */
+export const getTransactionPinStatus = requireUser(async (currentUser) => {
+  try {
+    const wallet = await getWalletByUserId(currentUser._id);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found. Please complete KYC approval first." };
+    }
+
+    return {
+      success: true,
+      hasPin: !!wallet.pinHash,
+      lockedUntil: isPinLocked(wallet) ? wallet.pinLockedUntil?.toISOString() : undefined,
+      trustedDevice: await isTrustedDevice(wallet),
+      trustedDeviceCount: wallet.trustedDevices?.filter((device) => device.expiresAt > new Date()).length || 0,
+      alwaysRequiredAboveCents: await getPinAlwaysRequiredAboveCents(),
+    };
+  } catch (error) {
+    console.error("Error getting transaction PIN status:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get PIN status",
+    };
+  }
+});
+
+/**
+ * Set the wallet's transaction PIN
+ * Changing an existing PIN requires the current one; setting the first one requires
+ * the account password, so a stolen session can't put its own PIN on the wallet
+ *
+ * @param newPin - 4 to 6 digits
+ * @param currentPin - Required when the wallet already has a PIN
+ * @param password - Required when the wallet has no PIN yet
+ */
+export const setTransactionPin = requireUser(async (
+  currentUser,
+  newPin: string,
+  currentPin?: string,
+  password?: string
+) => {
+  try {
+    if (!isValidPinFormat(newPin || "")) {
+      return { success: false, error: "PIN must be 4 to 6 digits" };
+    }
+
+    const wallet = await getWalletByUserId(currentUser._id);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found. Please complete KYC approval first." };
+    }
+
+    if (wallet.pinHash) {
+      const result = await verifyWalletPin(wallet, currentPin || "");
+      if (!result.valid) {
+        return { success: false, error: result.error };
+      }
+    } else {
+      const passwordError = await checkAccountPassword(currentUser, password || "");
+      if (passwordError) {
+        return { success: false, error: passwordError };
+      }
+    }
+
+    await setWalletPin(wallet, newPin);
+
+    return { success: true, message: wallet.pinHash ? "Transaction PIN changed" : "Transaction PIN set" };
+  } catch (error) {
+    console.error("Error setting transaction PIN:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to set transaction PIN",
+    };
+  }
+});
+
+/**
+ * Reset a forgotten PIN with the account password
+ * Also lifts a lockout and forgets all trusted devices
+ */
+export const resetTransactionPin = requireUser(async (currentUser, password: string, newPin: string) => {
+  try {
+    if (!isValidPinFormat(newPin || "")) {
+      return { success: false, error: "PIN must be 4 to 6 digits" };
+    }
+
+    const passwordError = await checkAccountPassword(currentUser, password);
+    if (passwordError) {
+      return { success: false, error: passwordError };
+    }
+
+    const wallet = await getWalletByUserId(currentUser._id);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found. Please complete KYC approval first." };
+    }
+
+    await setWalletPin(wallet, newPin, { forgetDevices: true });
+
+    return { success: true, message: "Transaction PIN reset. Trusted devices were signed out of PIN-free payments." };
+  } catch (error) {
+    console.error("Error resetting transaction PIN:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to reset transaction PIN",
+    };
+  }
+});
+
+/**
+ * Stop trusting every device, so all payments ask for the PIN again
+ */
+export const forgetTrustedDevices = requireUser(async (currentUser) => {
+  try {
+    const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+    await walletsCollection.updateOne(
+      { userId: currentUser._id },
+      { $set: { trustedDevices: [], updatedAt: new Date() } }
+    );
+    await clearTrustedDeviceCookie();
+
+    return { success: true, message: "All devices will ask for your PIN again" };
+  } catch (error) {
+    console.error("Error forgetting trusted devices:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to forget trusted devices",
+    };
+  }
+});
@@ -0,0 +1,227 @@
+"use server";
+
+import { ObjectId } from "mongodb";
+import { getCollection } from "@/lib/db";
+import { COLLECTIONS } from "@/lib/db/models";
+import type { UserModel } from "@/lib/db/models";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  isTwoFactorRequiredForRole,
+  generateRecoveryCodes,
+  verifyTwoFactorCode,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment as confirmEnrollment,
+} from "@/lib/two-factor";
+import { createNotification } from "@/lib/notifications";
+import { revokeAllSessions } from "@/lib/session";
+import { getRolePermissions } from "@/lib/roles";
+import { canManageUser } from "@/lib/rbac";
+
+/**
+ * Server actions for managing two-factor authentication from Settings → Security
+ * The sign-in side of 2FA lives in auth.ts
+ */
+
+/**
+ * Get the current user's 2FA status
+ */
+export const getTwoFactorStatus = requireUser(async (currentUser) => {
+  try {
+    return {
+      success: true,
+      enabled: currentUser.twoFactor?.enabled || false,
+      required: await isTwoFactorRequiredForRole(currentUser.role),
+      recoveryCodesRemaining: currentUser.twoFactor?.enabled
+        ? currentUser.twoFactor.recoveryCodeHashes.length
+        : 0,
+    };
+  } catch (error) {
+    console.error("Error getting two-factor status:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get two-factor status",
+    };
+  }
+});
+
+/**
+ * Start enrolling the current user (returns the QR code for the authenticator app)
+ */
+export const startTwoFactorEnrollment = requireUser(async (currentUser) => {
+  try {
+    if (currentUser.twoFactor?.enabled) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+
+    const { qrCodeDataUrl, secret } = await beginTwoFactorEnrollment(currentUser);
+    return { success: true, qrCodeDataUrl, secret };
+  } catch (error) {
+    console.error("Error starting two-factor enrollment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to start two-factor setup",
+    };
+  }
+});
+
+/**
+ * Finish enrolling with a code from the authenticator app
+ * Returns the recovery codes, which are only shown this once
+ */
+export const confirmTwoFactorEnrollment = requireUser(async (currentUser, code: string) => {
+  try {
+    if (currentUser.twoFactor?.enabled) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+
+    const recoveryCodes = await confirmEnrollment(currentUser, code || "");
+    if (!recoveryCodes) {
+      return { success: false, error: "Invalid authentication code" };
+    }
+
+    return { success: true, message: "Two-factor authentication enabled", recoveryCodes };
+  } catch (error) {
+    console.error("Error confirming two-factor enrollment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to enable two-factor authentication",
+    };
+  }
+});
+
+/**
+ * Turn 2FA off (requires a current code)
+ * Not allowed for roles that require 2FA
+ */
+export const disableTwoFactor = requireUser(async (currentUser, code: string) => {
+  try {
+    if (!currentUser.twoFactor?.enabled) {
+      return { success: false, error: "Two-factor authentication is not enabled" };
+    }
+
+    if (await isTwoFactorRequiredForRole(currentUser.role)) {
+      return { success: false, error: "Your role requires two-factor authentication" };
+    }
+
+    const { valid } = await verifyTwoFactorCode(currentUser, code || "");
+    if (!valid) {
+      return { success: false, error: "Invalid authentication code" };
+    }
+
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    await usersCollection.updateOne(
+      { _id: currentUser._id },
+      { $unset: { twoFactor: "" }, $set: { updatedAt: new Date() } }
+    );
+
+    return { success: true, message: "Two-factor authentication disabled" };
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to disable two-factor authentication",
+    };
+  }
+});
+
+/**
+ * Replace the recovery codes (requires a current code); the old ones stop working
+ */
+export const regenerateRecoveryCodes = requireUser(async (currentUser, code: string) => {
+  try {
+    if (!currentUser.twoFactor?.enabled) {
+      return { success: false, error: "Two-factor authentication is not enabled" };
+    }
+
+    const { valid } = await verifyTwoFactorCode(currentUser, code || "");
+    if (!valid) {
+      return { success: false, error: "Invalid authentication code" };
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    await usersCollection.updateOne(
+      { _id: currentUser._id },
+      { $set: { "twoFactor.recoveryCodeHashes": hashes, updatedAt: new Date() } }
+    );
+
+    return { success: true, message: "New recovery codes generated", recoveryCodes: codes };
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to generate recovery codes",
+    };
+  }
+});
+
+/**
+ * Reset another user's 2FA (e.g. they lost their phone and recovery codes)
+ * The reset is written to the audit log, every session of the user is ended and
+ * they are notified. If their role
+ * requires 2FA they'll be asked to enroll again on their next sign in.
+ * A delegated users.manage can't reset an admin's 2FA (or that of anyone with
+ * more access), and nobody can reset their own here.
+ */
+export const resetUserTwoFactor = requirePermission("users.manage", async (admin, userId: string) => {
+  try {
+    if (!ObjectId.isValid(userId)) {
+      return { success: false, error: "Invalid user ID" };
+    }
+
+    const targetId = new ObjectId(userId);
+    if (targetId.equals(admin._id)) {
+      return { success: false, error: "You can't reset your own two-factor authentication here" };
+    }
+
+    const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+    const target = await usersCollection.findOne({ _id: targetId });
+    if (!target) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (!canManageUser(admin.role, admin.permissions, target.role, await getRolePermissions(target.role))) {
+      return { success: false, error: "You can't reset two-factor authentication for a user with permissions you don't have" };
+    }
+
+    if (!target.twoFactor) {
+      return { success: false, error: "This user doesn't have two-factor authentication set up" };
+    }
+
+    await usersCollection.updateOne(
+      { _id: targetId },
+      { $unset: { twoFactor: "" }, $set: { updatedAt: new Date() } }
+    );
+
+    // Whoever got past the old second factor may still be signed in somewhere, so end every session
+    await revokeAllSessions(targetId);
+
+    await recordAuditEvent({
+      action: "two_factor.reset",
+      actorUserId: admin._id,
+      targetUserId: targetId,
+      details: { email: target.email, wasEnabled: target.twoFactor.enabled },
+    });
+
+    try {
+      await createNotification({
+        userId,
+        type: "security",
+        title: "Two-factor authentication reset",
+        message: "An administrator reset two-factor authentication on your account. If you didn't ask for this, contact support right away.",
+        link: "/settings",
+      });
+    } catch (notificationError) {
+      console.error("Error creating two-factor reset notification:", notificationError);
+    }
+
+    return { success: true, message: `Two-factor authentication reset for ${target.email}` };
+  } catch (error) {
+    console.error("Error resetting two-factor authentication:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to reset two-factor authentication",
+    };
+  }
+});
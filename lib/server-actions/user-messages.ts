@@ -4,18 +4,17 @@ import { ObjectId } from "mongodb";
 import { getCollection } from "@/lib/db";
 import { COLLECTIONS, UserMessageModel } from "@/lib/db/models";
 import { getUserById } from "@/lib/db/utils";
-import { createNotification } from "./notifications";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { createNotification } from "@/lib/notifications";
 
 /**
  * Send a message from admin to a user
  */
-export async function sendMessageToUser(data: {
+export const sendMessageToUser = requirePermission("messages.manage", async (admin, data: {
   userId: string;
-  senderId?: string; // Admin user ID
-  senderEmail?: string; // Admin email
   subject: string;
   message: string;
-}) {
+}) => {
   try {
     // Validate inputs
     if (!data.userId || !ObjectId.isValid(data.userId)) {
@@ -36,23 +35,11 @@ export async function sendMessageToUser(data: {
       return { success: false, error: "User not found" };
     }
 
-    // Get sender info if provided
-    let senderId: ObjectId | undefined = undefined;
-    let senderEmail = data.senderEmail || "Admin";
-
-    if (data.senderId && ObjectId.isValid(data.senderId)) {
-      const sender = await getUserById(data.senderId);
-      if (sender) {
-        senderId = sender._id;
-        senderEmail = sender.email || senderEmail;
-      }
-    }
-
     // Create message
     const userMessage: Omit<UserMessageModel, "_id"> = {
       userId: user._id!,
-      senderId,
-      senderEmail,
+      senderId: admin._id,
+      senderEmail: admin.email || "Admin",
       subject: data.subject.trim(),
       message: data.message.trim(),
       read: false,
@@ -94,26 +81,17 @@ export async function sendMessageToUser(data: {
       error: error instanceof Error ? error.message : "Failed to send message",
     };
   }
-}
+});
 
 /**
  * Check if user has any messages (for sidebar visibility)
  */
-export async function userHasMessages(userId: string): Promise<{
+export const userHasMessages = requireUser(async (user): Promise<{
   success: boolean;
   hasMessages: boolean;
   unreadCount: number;
-}> {
+}> => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, hasMessages: false, unreadCount: 0 };
-    }
-
-    const user = await getUserById(userId);
-    if (!user || !user._id) {
-      return { success: false, hasMessages: false, unreadCount: 0 };
-    }
-
     const messagesCollection = await getCollection<UserMessageModel>(
       COLLECTIONS.USER_MESSAGES
     );
@@ -144,22 +122,13 @@ export async function userHasMessages(userId: string): Promise<{
       unreadCount: 0,
     };
   }
-}
+});
 
 /**
  * Get all messages for a user
  */
-export async function getUserMessages(userId: string) {
+export const getUserMessages = requireUser(async (user) => {
   try {
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, messages: [], error: "Invalid user ID" };
-    }
-
-    const user = await getUserById(userId);
-    if (!user || !user._id) {
-      return { success: false, messages: [], error: "User not found" };
-    }
-
     const messagesCollection = await getCollection<UserMessageModel>(
       COLLECTIONS.USER_MESSAGES
     );
@@ -194,12 +163,12 @@ export async function getUserMessages(userId: string) {
       error: error instanceof Error ? error.message : "Failed to get messages",
     };
   }
-}
+});
 
 /**
  * Get all messages (Admin only - for viewing all sent messages)
  */
-export async function getAllUserMessages() {
+export const getAllUserMessages = requirePermission("messages.manage", async () => {
   try {
     const messagesCollection = await getCollection<UserMessageModel>(
       COLLECTIONS.USER_MESSAGES
@@ -235,26 +204,17 @@ export async function getAllUserMessages() {
       error: error instanceof Error ? error.message : "Failed to get messages",
     };
   }
-}
+});
 
 /**
  * Mark message as read
  */
-export async function markMessageAsRead(messageId: string, userId: string) {
+export const markMessageAsRead = requireUser(async (user, messageId: string) => {
   try {
     if (!messageId || !ObjectId.isValid(messageId)) {
       return { success: false, error: "Invalid message ID" };
     }
 
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
-    const user = await getUserById(userId);
-    if (!user || !user._id) {
-      return { success: false, error: "User not found" };
-    }
-
     const messagesCollection = await getCollection<UserMessageModel>(
       COLLECTIONS.USER_MESSAGES
     );
@@ -284,26 +244,17 @@ export async function markMessageAsRead(messageId: string, userId: string) {
       error: error instanceof Error ? error.message : "Failed to mark message as read",
     };
   }
-}
+});
 
 /**
  * Delete message (by user)
  */
-export async function deleteMessageByUser(messageId: string, userId: string) {
+export const deleteMessageByUser = requireUser(async (user, messageId: string) => {
   try {
     if (!messageId || !ObjectId.isValid(messageId)) {
       return { success: false, error: "Invalid message ID" };
     }
 
-    if (!userId || !ObjectId.isValid(userId)) {
-      return { success: false, error: "Invalid user ID" };
-    }
-
-    const user = await getUserById(userId);
-    if (!user || !user._id) {
-      return { success: false, error: "User not found" };
-    }
-
     const messagesCollection = await getCollection<UserMessageModel>(
       COLLECTIONS.USER_MESSAGES
     );
@@ -332,12 +283,12 @@ export async function deleteMessageByUser(messageId: string, userId: string) {
       error: error instanceof Error ? error.message : "Failed to delete message",
     };
   }
-}
+});
 
 /**
  * Delete message (by admin)
  */
-export async function deleteMessageByAdmin(messageId: string) {
+export const deleteMessageByAdmin = requirePermission("messages.manage", async (admin, messageId: string) => {
   try {
     if (!messageId || !ObjectId.isValid(messageId)) {
       return { success: false, error: "Invalid message ID" };
@@ -370,4 +321,4 @@ export async function deleteMessageByAdmin(messageId: string) {
       error: error instanceof Error ? error.message : "Failed to delete message",
     };
   }
-}
+});
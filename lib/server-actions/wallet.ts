@@ -1,116 +1,94 @@
 "use server";
 
 import { ObjectId } from "mongodb";
-import { getCollection } from "@/lib/db";
+import { getCollection, withTransaction } from "@/lib/db";
 import {
   getWalletByUserId,
   getWalletByWalletId,
   createWallet,
-  updateWalletBalance,
   getUserById,
   getUserByEmail,
 } from "@/lib/db/utils";
 import { COLLECTIONS } from "@/lib/db/models";
+import { requireUser, requirePermission } from "@/lib/authz";
+import { idempotent } from "@/lib/idempotency";
+import { confirmTransaction, type TransactionConfirmation } from "@/lib/transaction-pin";
+import { expireCashWithdrawals, refundCashWithdrawal } from "@/lib/cash-withdrawals";
+import { quoteFee } from "@/lib/fees";
+import { checkOutgoingLimits, checkIncomingLimit, reserveOutgoingLimits, reserveIncomingLimit } from "@/lib/limits";
+import {
+  clearRedeemFailures,
+  findRedeemCode,
+  hashRedeemCode,
+  getWalletRedeemLock,
+  registerFailedRedemption,
+  verifyRedeemPin,
+} from "@/lib/redeem-codes";
+import { getRedeemBatchError } from "@/lib/redeem-batches";
+import { hasValidCheckDigit, maskRedeemCode, normalizeRedeemCode, REDEEM_PIN_PATTERN } from "@/lib/redeem-code-format";
+import { checkWalletId } from "@/lib/wallet-id-format";
+import { maskHolderName } from "@/lib/wallet-ids";
+import {
+  postJournalEntry,
+  debit,
+  credit,
+  walletAccount,
+  FEE_REVENUE_ACCOUNT,
+  CASH_PAYOUT_POOL_ACCOUNT,
+  REDEEM_LIABILITY_ACCOUNT,
+  EXTERNAL_CASH_ACCOUNT,
+} from "@/lib/ledger";
 import type { TransactionModel, RedeemCodeModel, PendingWithdrawalModel, WalletModel, FeeModel, KycModel } from "@/lib/db/models";
 
-// Helper function to generate wallet ID (3 letters + 3 digits format, e.g., VXE445)
-const generateWalletId = (): string => {
-  // Generate 3 random uppercase letters
-  const letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-  const randomLetters = Array.from({ length: 3 }, () => 
-    letters[Math.floor(Math.random() * letters.length)]
-  ).join("");
-  
-  // Generate 3 random digits
-  const randomDigits = Math.floor(Math.random() * 1000)
-    .toString()
-    .padStart(3, "0");
-  
-  return `${randomLetters}${randomDigits}`;
-};
-
 // Helper function to generate reference number (6 digits)
 const generateReferenceNumber = (): string => {
   return Math.floor(100000 + Math.random() * 900000).toString();
 };
 
-// Helper function to get MongoDB user ID from localStorage user ID or email
-// This bridges the gap between localStorage auth and MongoDB
-export const getMongoUserId = async (localStorageUserId: string, email?: string): Promise<ObjectId | null> => {
-  try {
-    // If userId is already a valid ObjectId, try to use it directly
-    if (ObjectId.isValid(localStorageUserId)) {
-      const existingUser = await getUserById(localStorageUserId);
-      if (existingUser && existingUser._id) {
-        return existingUser._id;
-      }
-    }
-
-    // If userId is not a valid ObjectId, try to find user by email
-    if (email) {
-      const userByEmail = await getUserByEmail(email);
-      if (userByEmail && userByEmail._id) {
-        return userByEmail._id;
-      }
-    }
+const INVALID_AMOUNT_ERROR = "Amount must be greater than 0, in dollars and cents";
 
-    // User doesn't exist in MongoDB
-    return null;
-  } catch (error) {
-    console.error("Error getting MongoDB user ID:", error);
+// Dollar amount from the client in cents, or null unless it is a positive, finite
+// amount with at most two decimals (NaN, Infinity and fractions of a cent are refused)
+const toAmountCents = (amount: number): number | null => {
+  const amountCents = typeof amount === "number" ? Math.round(amount * 100) : NaN;
+  if (!Number.isSafeInteger(amountCents) || amountCents <= 0 || amountCents / 100 !== amount) {
     return null;
   }
+  return amountCents;
 };
 
 // Server actions for wallet operations
-// Note: userId parameter is required since auth is currently client-side
-// TODO: Refactor to use server-side session management when auth is migrated
+// Every action is wrapped in a guard from lib/authz.ts, which resolves the caller from the session
 
-export async function sendMoney(
-  userId: string,
+export const sendMoney = requireUser(idempotent("sendMoney", async (
+  currentUser,
   recipientWalletId: string,
   amount: number,
   note?: string,
-  email?: string
-) {
+  confirmation?: TransactionConfirmation
+) => {
   try {
     // ===== STEP 1: Basic Input Validation =====
-    if (!userId || !recipientWalletId) {
-      return { success: false, error: "User ID and recipient Wallet ID are required" };
+    if (!recipientWalletId) {
+      return { success: false, error: "Recipient Wallet ID is required" };
     }
 
-    // Validate recipient wallet ID format (3 letters + 3 digits)
-    const walletIdPattern = /^[A-Z]{3}\d{3}$/i;
-    const normalizedWalletId = recipientWalletId.trim().toUpperCase();
-    if (!walletIdPattern.test(normalizedWalletId)) {
-      return { success: false, error: "Invalid Wallet ID format. Please enter a valid Wallet ID (e.g., VXE445)" };
+    // Validate recipient wallet ID format and check character, so a typo can't reach another wallet
+    const walletIdCheck = checkWalletId(recipientWalletId);
+    if (!walletIdCheck.valid) {
+      return { success: false, error: walletIdCheck.error };
     }
+    const normalizedWalletId = walletIdCheck.walletId;
 
     // ===== STEP 2: Validate Amount =====
-    if (amount <= 0) {
-      return { success: false, error: "Amount must be greater than 0" };
-    }
-
     // Convert amount from dollars to cents
-    const amountCents = Math.round(amount * 100);
-    if (amountCents <= 0) {
-      return { success: false, error: "Amount must be greater than 0" };
+    const amountCents = toAmountCents(amount);
+    if (amountCents === null) {
+      return { success: false, error: INVALID_AMOUNT_ERROR };
     }
 
     // ===== STEP 3: Get and Validate Sender =====
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database. Please sign up or contact support." };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get sender wallet
     const senderWallet = await getWalletByUserId(mongoUserId);
@@ -169,109 +147,142 @@ export async function sendMoney(
     // Ensure we're using the most up-to-date recipient wallet data
     recipientWallet = finalRecipientCheck;
 
-    // ===== STEP 8: Check if sender is admin and Calculate Fees =====
-    // Get sender user to check if admin (admin accounts are exempt from fees)
-    const { getUserById } = await import("@/lib/db/utils");
-    const senderUser = await getUserById(mongoUserId);
-    const isAdmin = senderUser?.role === "admin";
-    
-    // Get P2P fee percentage from system settings
-    const { getSystemSettings } = await import("./system-settings");
-    const settingsResult = await getSystemSettings();
-    const p2pFeePercentage = settingsResult.success && settingsResult.settings
-      ? settingsResult.settings.p2pFeePercentage
-      : 5; // Default to 5% if settings not available
-    
-    // Calculate system fee (in cents) using dynamic percentage
-    // Admin accounts are exempt from fees
-    const feeCents = isAdmin ? 0 : Math.round(amountCents * (p2pFeePercentage / 100));
+    // ===== STEP 8: Calculate Fees =====
+    // Priced by the P2P fee schedule in effect (exempt roles and wallets pay nothing)
+    const feeQuote = await quoteFee("p2p", amountCents, {
+      role: currentUser.role,
+      walletId: senderWallet.walletId,
+    });
+    const feeCents = feeQuote.feeCents;
     const totalDeduction = amountCents + feeCents;
 
     // Check sufficient balance (amount + fee) - both in cents
     if (senderWallet.balance < totalDeduction) {
-      return { success: false, error: `Insufficient balance (including ${p2pFeePercentage}% system fee)` };
+      return { success: false, error: `Insufficient balance (including ${(feeCents / 100).toFixed(2)} system fee)` };
+    }
+
+    // ===== STEP 9: Check Wallet Limits =====
+    // The sender's caps apply to the amount sent; the recipient's maximum balance to what they receive
+    const limitError = await checkOutgoingLimits(senderWallet, amountCents);
+    if (limitError) {
+      return { success: false, error: limitError };
+    }
+    if ((await checkIncomingLimit(recipientWallet, amountCents)) !== null) {
+      return { success: false, error: "The recipient's wallet can't receive this amount right now" };
+    }
+
+    // ===== STEP 10: Confirm With Transaction PIN =====
+    const pinChallenge = await confirmTransaction(senderWallet, totalDeduction, confirmation);
+    if (pinChallenge) {
+      return pinChallenge;
     }
 
-    // ===== STEP 9: Process Transaction =====
+    // ===== STEP 11: Process Transaction =====
     // Generate reference number
     const ref = generateReferenceNumber();
 
-    // Update balances (all amounts in cents)
-    await updateWalletBalance(mongoUserId, totalDeduction, "subtract");
-    await updateWalletBalance(recipientWallet.userId, amountCents, "add");
+    // Balances, transaction rows, the fee ledger entry and the notification are
+    // written in one transaction, so a failure at any step leaves nothing behind
+    await withTransaction(async (session) => {
+      // Enforce the limits again within the transaction, since a parallel payment
+      // may have used up the room seen by the checks above
+      const reservedLimitError = await reserveOutgoingLimits(session, senderWallet, amountCents);
+      if (reservedLimitError) {
+        throw new Error(reservedLimitError);
+      }
+      if ((await reserveIncomingLimit(session, recipientWallet, amountCents)) !== null) {
+        throw new Error("The recipient's wallet can't receive this amount right now");
+      }
 
-    // Create transactions
-    const transactionsCollection = await getCollection<TransactionModel>(
-      COLLECTIONS.TRANSACTIONS
-    );
+      // Create transactions
+      const transactionsCollection = await getCollection<TransactionModel>(
+        COLLECTIONS.TRANSACTIONS
+      );
 
-    const senderTransaction: TransactionModel = {
-      userId: mongoUserId,
-      type: "send",
-      amount: amountCents, // Store in cents
-      feeCents: feeCents,
-      fromWalletId: senderWallet.walletId,
-      toWalletId: normalizedWalletId,
-      note: note,
-      ref: ref,
-      status: "success",
-      createdAt: new Date(),
-    };
+      const senderTransaction: TransactionModel = {
+        userId: mongoUserId,
+        type: "send",
+        amount: amountCents, // Store in cents
+        feeCents: feeCents,
+        fromWalletId: senderWallet.walletId,
+        toWalletId: normalizedWalletId,
+        note: note,
+        ref: ref,
+        status: "success",
+        createdAt: new Date(),
+      };
 
-    const recipientTransaction: TransactionModel = {
-      userId: recipientWallet.userId,
-      type: "receive",
-      amount: amountCents, // Store in cents
-      fromWalletId: senderWallet.walletId,
-      toWalletId: normalizedWalletId,
-      note: note,
-      ref: ref,
-      status: "success",
-      createdAt: new Date(),
-    };
+      const recipientTransaction: TransactionModel = {
+        userId: recipientWallet.userId,
+        type: "receive",
+        amount: amountCents, // Store in cents
+        fromWalletId: senderWallet.walletId,
+        toWalletId: normalizedWalletId,
+        note: note,
+        ref: ref,
+        status: "success",
+        createdAt: new Date(),
+      };
 
-    await transactionsCollection.insertOne(senderTransaction);
-    const recipientTransactionResult = await transactionsCollection.insertOne(recipientTransaction);
-    
-    // Create notification for recipient
-    const { createNotification } = await import("./notifications");
-    await createNotification({
-      userId: recipientWallet.userId.toString(),
-      type: "transaction",
-      title: "Money Received",
-      message: `You received ${(amountCents / 100).toFixed(2)} from ${senderWallet.walletId}${note ? `: ${note}` : ""}`,
-      link: "/wallet",
-      meta: {
-        transactionId: recipientTransactionResult.insertedId?.toString(),
-      },
-    });
+      await transactionsCollection.insertOne(senderTransaction, { session });
+      const recipientTransactionResult = await transactionsCollection.insertOne(recipientTransaction, { session });
+
+      // Create notification for recipient
+      const { createNotification } = await import("@/lib/notifications");
+      await createNotification({
+        userId: recipientWallet.userId.toString(),
+        type: "transaction",
+        title: "Money Received",
+        message: `You received ${(amountCents / 100).toFixed(2)} from ${senderWallet.walletId}${note ? `: ${note}` : ""}`,
+        link: "/wallet",
+        meta: {
+          transactionId: recipientTransactionResult.insertedId?.toString(),
+        },
+      }, { session });
+
+      // Only record fee transaction and fee ledger if fee is greater than 0 (exempt payers pay none)
+      if (feeCents > 0) {
+        // Fee transaction for Admin ledger
+        const feeTransaction: TransactionModel = {
+          type: "fee",
+          amount: feeCents,
+          feeCents: feeCents,
+          fromWalletId: senderWallet.walletId,
+          toWalletId: normalizedWalletId,
+          ref: ref,
+          status: "success",
+          createdAt: new Date(),
+        };
+        await transactionsCollection.insertOne(feeTransaction, { session });
+
+        // Record fee in fee ledger
+        const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+        const feeRecord: FeeModel = {
+          type: "transaction",
+          amount: feeCents,
+          percentage: feeQuote.percentage,
+          scheduleId: feeQuote.scheduleId,
+          transactionId: senderTransaction._id,
+          createdAt: new Date(),
+        };
+        await feesCollection.insertOne(feeRecord, { session });
+      }
 
-    // Only record fee transaction and fee ledger if fee is greater than 0 (admin accounts are exempt)
-    if (feeCents > 0) {
-    // Fee transaction for Admin ledger
-    const feeTransaction: TransactionModel = {
-      type: "fee",
-      amount: feeCents,
-      feeCents: feeCents,
-      fromWalletId: senderWallet.walletId,
-      toWalletId: normalizedWalletId,
-      ref: ref,
-      status: "success",
-      createdAt: new Date(),
-    };
-    await transactionsCollection.insertOne(feeTransaction);
-
-    // Record fee in fee ledger
-    const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
-    const feeRecord: FeeModel = {
-      type: "transaction",
-      amount: feeCents,
-      percentage: p2pFeePercentage,
-      transactionId: senderTransaction._id,
-      createdAt: new Date(),
-    };
-    await feesCollection.insertOne(feeRecord);
-    }
+      // Move the money (all amounts in cents); fails if the sender can no longer cover it
+      await postJournalEntry(session, {
+        kind: "p2p_transfer",
+        ref,
+        postings: [
+          debit(walletAccount(senderWallet.walletId), totalDeduction),
+          credit(walletAccount(normalizedWalletId), amountCents),
+          credit(FEE_REVENUE_ACCOUNT, feeCents),
+        ],
+        transactionIds: [senderTransaction._id, recipientTransactionResult.insertedId].filter(
+          (id): id is ObjectId => id !== undefined
+        ),
+        createdBy: mongoUserId,
+      });
+    });
 
     return { success: true, message: "Money sent successfully", ref: ref };
   } catch (error) {
@@ -281,101 +292,199 @@ export async function sendMoney(
       error: error instanceof Error ? error.message : "Failed to send money",
     };
   }
-}
+}, ([recipientWalletId, amount, note]) => [recipientWalletId, amount, note]));
+
+// Checks shared by previewing and redeeming a code. Unknown codes and wrong PINs
+// count towards the wallet and code lockouts either way, so the preview can't be
+// used to probe codes.
+const findRedeemableCode = async (
+  wallet: WalletModel,
+  code: string,
+  pin: string
+): Promise<{ redeemCode: RedeemCodeModel; error?: undefined } | { redeemCode?: undefined; error: string }> => {
+  // Wallets that keep guessing wrong are paused before any lookup
+  const walletLock = getWalletRedeemLock(wallet);
+  if (walletLock) {
+    return { error: walletLock };
+  }
 
-export async function redeemCode(userId: string, code: string, pin: string, email?: string) {
-  try {
-    // Validate inputs
-    if (!userId || !code || !pin) {
-      return { success: false, error: "User ID, code, and PIN are required" };
-    }
+  const digits = normalizeRedeemCode(code);
+  if (!digits || !REDEEM_PIN_PATTERN.test(pin)) {
+    return { error: "Enter the 16-digit code and the 4-digit PIN" };
+  }
 
-    // Get MongoDB user ID (handles both ObjectId and email lookup)
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
+  const redeemCode = await findRedeemCode(digits);
+
+  if (!redeemCode) {
+    const lockError = await registerFailedRedemption(wallet);
+    return {
+      error:
+        lockError ??
+        (hasValidCheckDigit(digits)
+          ? "Invalid redeem code"
+          : "This code doesn't look right. Check the digits and try again."),
+    };
+  }
+
+  // Validate PIN (wrong PINs count against the code and the wallet)
+  const pinCheck = await verifyRedeemPin(redeemCode, pin, wallet);
+  if (!pinCheck.valid) {
+    const lockError = await registerFailedRedemption(wallet);
+    return { error: lockError ?? pinCheck.error };
+  }
+
+  if (redeemCode.used) {
+    return { error: "Redeem code has already been used" };
+  }
+
+  // Voided codes, and codes of batches that haven't been activated, can't be redeemed
+  const batchError = await getRedeemBatchError(redeemCode);
+  if (batchError) {
+    return { error: batchError };
+  }
+
+  // Check expiration
+  if (redeemCode.expiresAt && redeemCode.expiresAt < new Date()) {
+    return { error: "Redeem code has expired" };
+  }
+
+  // The code can't take the balance above the wallet's maximum
+  const receivableCents = await checkIncomingLimit(wallet, redeemCode.amount);
+  if (receivableCents !== null) {
+    return {
+      error: `This code would take your balance above your limit (you can receive ${(receivableCents / 100).toFixed(2)} more)`,
+    };
+  }
 
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database. Please sign up or contact support." };
+  return { redeemCode };
+};
+
+// Value and expiry of a code, so the user can check the card before redeeming it
+export const previewRedeemCode = requireUser(async (currentUser, code: string, pin: string) => {
+  try {
+    if (!code || !pin) {
+      return { success: false, error: "Code and PIN are required" };
     }
 
-    // Get wallet
-    const wallet = await getWalletByUserId(mongoUserId);
+    const wallet = await getWalletByUserId(currentUser._id);
     if (!wallet) {
       return { success: false, error: "Wallet not found. Please complete KYC approval first." };
     }
 
-    // Check wallet status
     if (wallet.status !== "active") {
       return { success: false, error: `Wallet is ${wallet.status}. Deposits are not allowed.` };
     }
 
-    // Find redeem code
-    const redeemCodesCollection = await getCollection<RedeemCodeModel>(
-      COLLECTIONS.REDEEM_CODES
-    );
+    const { redeemCode, error } = await findRedeemableCode(wallet, code, pin);
+    if (!redeemCode) {
+      return { success: false, error };
+    }
 
-    const redeemCode = await redeemCodesCollection.findOne({
-      code: code.toUpperCase().trim(),
-    });
+    return {
+      success: true,
+      amount: redeemCode.amount, // In cents
+      expiresAt: redeemCode.expiresAt?.toISOString(),
+      maskedCode: maskRedeemCode(redeemCode.codeLast4),
+      serial: redeemCode.serial,
+    };
+  } catch (error) {
+    console.error("Error previewing redeem code:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to check redeem code",
+    };
+  }
+});
 
-    if (!redeemCode) {
-      return { success: false, error: "Invalid redeem code" };
+export const redeemCode = requireUser(idempotent("redeemCode", async (currentUser, code: string, pin: string) => {
+  try {
+    // Validate inputs
+    if (!code || !pin) {
+      return { success: false, error: "Code and PIN are required" };
     }
 
-    // Validate PIN
-    if (redeemCode.pin !== pin) {
-      return { success: false, error: "Invalid PIN" };
+    const mongoUserId = currentUser._id;
+
+    // Get wallet
+    const wallet = await getWalletByUserId(mongoUserId);
+    if (!wallet) {
+      return { success: false, error: "Wallet not found. Please complete KYC approval first." };
     }
 
-    if (redeemCode.used) {
-      return { success: false, error: "Redeem code has already been used" };
+    // Check wallet status
+    if (wallet.status !== "active") {
+      return { success: false, error: `Wallet is ${wallet.status}. Deposits are not allowed.` };
     }
 
-    // Check expiration
-    if (redeemCode.expiresAt && redeemCode.expiresAt < new Date()) {
-      return { success: false, error: "Redeem code has expired" };
+    const { redeemCode, error } = await findRedeemableCode(wallet, code, pin);
+    if (!redeemCode) {
+      return { success: false, error };
     }
 
-    // Update redeem code as used
-    await redeemCodesCollection.updateOne(
-      { _id: redeemCode._id },
-      {
-        $set: {
-          used: true,
-          usedBy: mongoUserId,
-          usedByWalletId: wallet.walletId,
-          usedAt: new Date(),
+    const redeemCodesCollection = await getCollection<RedeemCodeModel>(
+      COLLECTIONS.REDEEM_CODES
+    );
+
+    // Marking the code used, crediting the wallet and recording the deposit
+    // happen together or not at all
+    await withTransaction(async (session) => {
+      // Update redeem code as used (only if nobody redeemed it in the meantime)
+      const claimed = await redeemCodesCollection.updateOne(
+        { _id: redeemCode._id, used: false, voided: { $ne: true } },
+        {
+          $set: {
+            used: true,
+            usedBy: mongoUserId,
+            usedByWalletId: wallet.walletId,
+            usedAt: new Date(),
+          },
         },
+        { session }
+      );
+      if (claimed.modifiedCount === 0) {
+        throw new Error("Redeem code has already been used");
       }
-    );
 
-    // Add amount to wallet
-    await updateWalletBalance(mongoUserId, redeemCode.amount, "add");
+      // The balance may have grown since the code was checked
+      const receivableCents = await reserveIncomingLimit(session, wallet, redeemCode.amount);
+      if (receivableCents !== null) {
+        throw new Error(
+          `This code would take your balance above your limit (you can receive ${(receivableCents / 100).toFixed(2)} more)`
+        );
+      }
 
-    // Create transaction
-    const transactionsCollection = await getCollection<TransactionModel>(
-      COLLECTIONS.TRANSACTIONS
-    );
+      // Create transaction
+      const transactionsCollection = await getCollection<TransactionModel>(
+        COLLECTIONS.TRANSACTIONS
+      );
 
-    const transaction: TransactionModel = {
-      userId: mongoUserId,
-      type: "deposit",
-      amount: redeemCode.amount,
-      status: "success",
-      meta: {
-        redeemId: redeemCode._id,
-      },
-      createdAt: new Date(),
-    };
+      const transaction: TransactionModel = {
+        userId: mongoUserId,
+        type: "redeem",
+        amount: redeemCode.amount,
+        status: "success",
+        toWalletId: wallet.walletId,
+        meta: {
+          redeemId: redeemCode._id,
+        },
+        createdAt: new Date(),
+      };
+
+      await transactionsCollection.insertOne(transaction, { session });
+
+      // Add amount to wallet (the code's face value stops being owed to the bearer)
+      await postJournalEntry(session, {
+        kind: "redeem",
+        postings: [
+          debit(REDEEM_LIABILITY_ACCOUNT, redeemCode.amount),
+          credit(walletAccount(wallet.walletId), redeemCode.amount),
+        ],
+        transactionIds: transaction._id ? [transaction._id] : undefined,
+        createdBy: mongoUserId,
+      });
+    });
 
-    await transactionsCollection.insertOne(transaction);
+    await clearRedeemFailures(wallet);
 
     return {
       success: true,
@@ -389,34 +498,71 @@ export async function redeemCode(userId: string, code: string, pin: string, emai
       error: error instanceof Error ? error.message : "Failed to redeem code",
     };
   }
-}
+}, ([code]) => [hashRedeemCode(code)]));
 
-export async function requestCash(userId: string, amount: number, email?: string) {
+// The current user's redeemed codes, newest first
+export const getMyRedemptions = requireUser(async (currentUser) => {
   try {
-    // Validate inputs
-    if (!userId) {
-      return { success: false, error: "User ID is required" };
-    }
+    const transactionsCollection = await getCollection<TransactionModel>(
+      COLLECTIONS.TRANSACTIONS
+    );
+    // Codes redeemed before "redeem" rows were written were recorded as deposits
+    const transactions = await transactionsCollection
+      .find({
+        userId: currentUser._id,
+        $or: [{ type: "redeem" }, { type: "deposit", "meta.redeemId": { $exists: true } }],
+      })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .toArray();
 
-    // Get MongoDB user ID (handles both ObjectId and email lookup)
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
+    const redeemCodesCollection = await getCollection<RedeemCodeModel>(
+      COLLECTIONS.REDEEM_CODES
+    );
+    const redeemIds = transactions
+      .map((transaction) => transaction.meta?.redeemId)
+      .filter((id): id is ObjectId => id !== undefined);
+    const codes = await redeemCodesCollection
+      .find({ _id: { $in: redeemIds } }, { projection: { codeLast4: 1, serial: 1 } })
+      .toArray();
 
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database. Please sign up or contact support." };
-    }
+    return {
+      success: true,
+      redemptions: transactions.map((transaction) => {
+        const redeemCode = codes.find((code) => transaction.meta?.redeemId?.equals(code._id!));
+        return {
+          _id: transaction._id?.toString() ?? "",
+          amount: transaction.amount / 100, // Convert cents to dollars
+          amountCents: transaction.amount,
+          maskedCode: redeemCode?.codeLast4 ? maskRedeemCode(redeemCode.codeLast4) : undefined,
+          serial: redeemCode?.serial,
+          createdAt: transaction.createdAt.toISOString(),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error getting redemptions:", error);
+    return {
+      success: false,
+      redemptions: [],
+      error: error instanceof Error ? error.message : "Failed to get redemptions",
+    };
+  }
+});
 
-    if (amount <= 0) {
-      return { success: false, error: "Amount must be greater than 0" };
+export const requestCash = requireUser(async (
+  currentUser,
+  amount: number,
+  confirmation?: TransactionConfirmation
+) => {
+  try {
+    const amountCents = toAmountCents(amount);
+    if (amountCents === null) {
+      return { success: false, error: INVALID_AMOUNT_ERROR };
     }
 
+    const mongoUserId = currentUser._id;
+
     // Get wallet
     const wallet = await getWalletByUserId(mongoUserId);
     if (!wallet) {
@@ -428,14 +574,23 @@ export async function requestCash(userId: string, amount: number, email?: string
       return { success: false, error: `Wallet is ${wallet.status}. Cash requests are not allowed.` };
     }
 
-    // Convert amount to cents
-    const amountCents = Math.round(amount * 100);
-
     // Check sufficient balance
     if (wallet.balance < amountCents) {
       return { success: false, error: "Insufficient funds" };
     }
 
+    // Check the wallet's limits
+    const limitError = await checkOutgoingLimits(wallet, amountCents);
+    if (limitError) {
+      return { success: false, error: limitError };
+    }
+
+    // Confirm with the wallet's transaction PIN
+    const pinChallenge = await confirmTransaction(wallet, amountCents, confirmation);
+    if (pinChallenge) {
+      return pinChallenge;
+    }
+
     // Generate reference number
     const ref = generateReferenceNumber();
 
@@ -447,37 +602,54 @@ export async function requestCash(userId: string, amount: number, email?: string
       COLLECTIONS.PENDING_WITHDRAWALS
     );
 
-    const pendingWithdrawal: PendingWithdrawalModel = {
-      userId: mongoUserId,
-      walletId: wallet.walletId,
-      amount: amountCents,
-      ref: ref,
-      status: "pending",
-      expiresAt: expiresAt,
-      createdAt: new Date(),
-    };
+    await withTransaction(async (session) => {
+      // Enforce the limits again within the transaction (see sendMoney)
+      const reservedLimitError = await reserveOutgoingLimits(session, wallet, amountCents);
+      if (reservedLimitError) {
+        throw new Error(reservedLimitError);
+      }
 
-    const result = await pendingWithdrawalsCollection.insertOne(pendingWithdrawal);
+      const pendingWithdrawal: PendingWithdrawalModel = {
+        userId: mongoUserId,
+        walletId: wallet.walletId,
+        amount: amountCents,
+        ref: ref,
+        status: "pending",
+        expiresAt: expiresAt,
+        createdAt: new Date(),
+      };
 
-    // Deduct amount from wallet (moves to pending pool)
-    await updateWalletBalance(mongoUserId, amountCents, "subtract");
+      await pendingWithdrawalsCollection.insertOne(pendingWithdrawal, { session });
 
-    // Create transaction record
-    const transactionsCollection = await getCollection<TransactionModel>(
-      COLLECTIONS.TRANSACTIONS
-    );
+      // Create transaction record
+      const transactionsCollection = await getCollection<TransactionModel>(
+        COLLECTIONS.TRANSACTIONS
+      );
 
-    const transaction: TransactionModel = {
-      userId: mongoUserId,
-      type: "cash_payout",
-      amount: amountCents,
-      fromWalletId: wallet.walletId,
-      ref: ref,
-      status: "pending",
-      createdAt: new Date(),
-    };
+      const transaction: TransactionModel = {
+        userId: mongoUserId,
+        type: "cash_payout",
+        amount: amountCents,
+        fromWalletId: wallet.walletId,
+        ref: ref,
+        status: "pending",
+        createdAt: new Date(),
+      };
 
-    await transactionsCollection.insertOne(transaction);
+      await transactionsCollection.insertOne(transaction, { session });
+
+      // Deduct amount from wallet (moves to pending pool)
+      await postJournalEntry(session, {
+        kind: "cash_request",
+        ref,
+        postings: [
+          debit(walletAccount(wallet.walletId), amountCents),
+          credit(CASH_PAYOUT_POOL_ACCOUNT, amountCents),
+        ],
+        transactionIds: transaction._id ? [transaction._id] : undefined,
+        createdBy: mongoUserId,
+      });
+    });
 
     return {
       success: true,
@@ -493,38 +665,94 @@ export async function requestCash(userId: string, amount: number, email?: string
         error instanceof Error ? error.message : "Failed to request cash",
     };
   }
-}
+});
 
-export async function getBalance(userId: string, email?: string) {
+// List the current user's cash withdrawal requests, newest first
+export const getMyCashWithdrawals = requireUser(async (currentUser) => {
   try {
-    // Validate inputs
-    if (!userId) {
-      return { success: false, balance: 0, error: "User ID is required" };
+    // Refund anything that was left uncollected before showing the list
+    await expireCashWithdrawals({ userId: currentUser._id });
+
+    const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(
+      COLLECTIONS.PENDING_WITHDRAWALS
+    );
+    const withdrawals = await pendingWithdrawalsCollection
+      .find({ userId: currentUser._id })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .toArray();
+
+    return {
+      success: true,
+      withdrawals: withdrawals.map((withdrawal) => ({
+        ref: withdrawal.ref,
+        amount: withdrawal.amount / 100, // Convert cents to dollars
+        amountCents: withdrawal.amount,
+        walletId: withdrawal.walletId,
+        status: withdrawal.status,
+        createdAt: withdrawal.createdAt.toISOString(),
+        expiresAt: withdrawal.expiresAt.toISOString(),
+        processedAt: withdrawal.processedAt?.toISOString(),
+        payoutAmount: withdrawal.payoutAmountCents !== undefined ? withdrawal.payoutAmountCents / 100 : undefined, // Cash handed over, after the fee
+      })),
+    };
+  } catch (error) {
+    console.error("Error getting cash withdrawals:", error);
+    return {
+      success: false,
+      withdrawals: [],
+      error: error instanceof Error ? error.message : "Failed to get cash withdrawals",
+    };
+  }
+});
+
+// Cancel one of the current user's pending cash withdrawals and refund it in full
+export const cancelCashWithdrawal = requireUser(async (currentUser, referenceNumber: string) => {
+  try {
+    if (!referenceNumber) {
+      return { success: false, error: "Reference number is required" };
     }
 
-    // Get MongoDB user ID (handles both ObjectId and email lookup)
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return {
-        success: false,
-        balance: 0,
-        error: "Invalid user ID format. Please provide email or sign in again.",
-      };
+    const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(
+      COLLECTIONS.PENDING_WITHDRAWALS
+    );
+    const pendingWithdrawal = await pendingWithdrawalsCollection.findOne({
+      ref: referenceNumber,
+      userId: currentUser._id,
+      status: "pending",
+    });
+
+    if (!pendingWithdrawal) {
+      return { success: false, error: "Pending withdrawal not found or already processed" };
     }
 
-    if (!mongoUserId) {
-      return {
-        success: false,
-        balance: 0,
-        error: "User not found in database. Please sign up or contact support.",
-      };
+    // A request that ran out of time is refunded as expired rather than cancelled
+    const outcome = pendingWithdrawal.expiresAt < new Date() ? "expired" : "cancelled";
+    const refunded = await refundCashWithdrawal(pendingWithdrawal, outcome, currentUser._id);
+    if (!refunded) {
+      return { success: false, error: "Pending withdrawal not found or already processed" };
     }
 
+    return {
+      success: true,
+      message: `Withdrawal cancelled. ${(pendingWithdrawal.amount / 100).toFixed(2)} has been returned to your wallet.`,
+    };
+  } catch (error) {
+    console.error("Error cancelling cash withdrawal:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to cancel cash withdrawal",
+    };
+  }
+});
+
+export const getBalance = requireUser(async (currentUser) => {
+  try {
+    const mongoUserId = currentUser._id;
+
+    // Withdrawals left uncollected go back to the wallet before it is shown
+    await expireCashWithdrawals({ userId: mongoUserId });
+
     // Get wallet
     const wallet = await getWalletByUserId(mongoUserId);
 
@@ -576,37 +804,11 @@ export async function getBalance(userId: string, email?: string) {
       error: error instanceof Error ? error.message : "Failed to get balance",
     };
   }
-}
+});
 
-export async function getTransactions(userId: string, email?: string) {
+export const getTransactions = requireUser(async (currentUser) => {
   try {
-    // Validate inputs
-    if (!userId) {
-      return { success: false, transactions: [], error: "User ID is required" };
-    }
-
-    // Get MongoDB user ID (handles both ObjectId and email lookup)
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return {
-        success: false,
-        transactions: [],
-        error: "Invalid user ID format. Please provide email or sign in again.",
-      };
-    }
-
-    if (!mongoUserId) {
-      return {
-        success: false,
-        transactions: [],
-        error: "User not found in database. Please sign up or contact support.",
-      };
-    }
+    const mongoUserId = currentUser._id;
 
     // Get transactions
     const transactionsCollection = await getCollection<TransactionModel>(
@@ -614,12 +816,12 @@ export async function getTransactions(userId: string, email?: string) {
     );
 
     const transactions = await transactionsCollection
-      .find({ userId: mongoUserId })
+      .find({ userId: mongoUserId, hiddenAt: { $exists: false } })
       .sort({ createdAt: -1 })
       .toArray();
 
     // Get user's wallet to filter transactions by wallet ID
-    const wallet = mongoUserId ? await getWalletByUserId(mongoUserId) : null;
+    const wallet = await getWalletByUserId(mongoUserId);
     const userWalletId = wallet?.walletId;
 
     // Convert ObjectId to string for client-side use and convert amounts from cents to dollars
@@ -660,9 +862,9 @@ export async function getTransactions(userId: string, email?: string) {
           : "Failed to get transactions",
     };
   }
-}
+});
 
-export async function findUserByEmail(email: string) {
+export const findUserByEmail = requirePermission("users.manage", async (admin, email: string) => {
   try {
     if (!email) {
       return { success: false, user: null, error: "Email is required" };
@@ -693,10 +895,10 @@ export async function findUserByEmail(email: string) {
       error: error instanceof Error ? error.message : "Failed to find user",
     };
   }
-}
+});
 
 // Get pending withdrawal details by reference number (for Finance review)
-export async function getPendingWithdrawalByRef(referenceNumber: string) {
+export const getPendingWithdrawalByRef = requirePermission("cash.payout", async (financeUser, referenceNumber: string) => {
   try {
     if (!referenceNumber) {
       return { success: false, error: "Reference number is required" };
@@ -732,12 +934,20 @@ export async function getPendingWithdrawalByRef(referenceNumber: string) {
       ref: referenceNumber,
     });
 
+    // Fee the payout would charge right now (processCashPayout quotes it again)
+    const feeQuote = await quoteFee("withdrawal", pendingWithdrawal.amount, {
+      role: user.role,
+      walletId: pendingWithdrawal.walletId,
+    });
+
     return {
       success: true,
       withdrawal: {
         ref: pendingWithdrawal.ref,
         amount: pendingWithdrawal.amount / 100, // Convert cents to dollars
         amountCents: pendingWithdrawal.amount,
+        fee: feeQuote.feeCents / 100, // Convert cents to dollars
+        payoutAmount: (pendingWithdrawal.amount - feeQuote.feeCents) / 100,
         walletId: pendingWithdrawal.walletId,
         status: pendingWithdrawal.status,
         createdAt: pendingWithdrawal.createdAt.toISOString(),
@@ -769,17 +979,14 @@ export async function getPendingWithdrawalByRef(referenceNumber: string) {
       error: error instanceof Error ? error.message : "Failed to get withdrawal details",
     };
   }
-}
+});
 
 // Finance payout function - only accessible by Finance role
-export async function processCashPayout(
-  financeUserId: string,
-  referenceNumber: string
-) {
+export const processCashPayout = requirePermission("cash.payout", async (financeUser, referenceNumber: string) => {
   try {
     // Validate inputs
-    if (!financeUserId || !referenceNumber) {
-      return { success: false, error: "Finance user ID and reference number are required" };
+    if (!referenceNumber) {
+      return { success: false, error: "Reference number is required" };
     }
 
     // Find pending withdrawal by reference number
@@ -797,62 +1004,35 @@ export async function processCashPayout(
     }
 
     // Prevent self-payout: Check if finance/admin user is trying to pay cash to themselves
-    const financeMongoUserId = ObjectId.isValid(financeUserId) 
-      ? new ObjectId(financeUserId)
-      : null;
-    
-    if (financeMongoUserId) {
-      const financeWallet = await getWalletByUserId(financeMongoUserId);
-      if (financeWallet && financeWallet.walletId === pendingWithdrawal.walletId) {
-        return { 
-          success: false, 
-          error: "You cannot pay cash to yourself. Finance/Admin users cannot process cash payouts for their own withdrawal requests." 
-        };
-      }
+    const financeMongoUserId = financeUser._id;
+    const financeWallet = await getWalletByUserId(financeMongoUserId);
+    if (financeWallet && financeWallet.walletId === pendingWithdrawal.walletId) {
+      return { 
+        success: false, 
+        error: "You cannot pay cash to yourself. Finance/Admin users cannot process cash payouts for their own withdrawal requests." 
+      };
     }
 
-    // Check if expired
+    // Check if expired; whoever closes it first refunds it
     if (pendingWithdrawal.expiresAt < new Date()) {
-      // Return full amount to wallet (no fee deducted)
-      await updateWalletBalance(pendingWithdrawal.userId, pendingWithdrawal.amount, "add");
-      
-      // Delete expired withdrawal from pool (clear data)
-      await pendingWithdrawalsCollection.deleteOne({ _id: pendingWithdrawal._id });
-
-      // Update transaction status to reflect expiration
-      const transactionsCollection = await getCollection<TransactionModel>(
-        COLLECTIONS.TRANSACTIONS
-      );
-      await transactionsCollection.updateOne(
-        { ref: referenceNumber },
-        {
-          $set: {
-            status: "failed",
-          },
-        }
-      );
+      await refundCashWithdrawal(pendingWithdrawal, "expired", financeMongoUserId);
 
       return { success: false, error: "Withdrawal request has expired. Full amount has been returned to wallet without any fee deduction." };
     }
 
-    // Check if user withdrawing is admin (admin accounts are exempt from fees)
+    // The user withdrawing pays the fee (exempt roles and wallets pay nothing)
     const userWithdrawing = await getUserById(pendingWithdrawal.userId);
-    const isAdmin = userWithdrawing?.role === "admin";
-
-    // Get withdrawal fee percentage from system settings
-    const { getSystemSettings } = await import("./system-settings");
-    const settingsResult = await getSystemSettings();
-    const withdrawalFeePercentage = settingsResult.success && settingsResult.settings
-      ? settingsResult.settings.withdrawalFeePercentage
-      : 5; // Default to 5% if settings not available
 
-    // Calculate system fee from the total amount in pending pool using dynamic percentage
+    // Calculate system fee from the total amount in pending pool with the withdrawal fee schedule
     // The pending withdrawal amount represents the full amount that was moved to the pending pool
-    // When finance/admin processes the payout, we deduct the fee percentage from this pool amount
-    // Admin accounts are exempt from fees
-    const feeCents = isAdmin ? 0 : Math.round(pendingWithdrawal.amount * (withdrawalFeePercentage / 100));
+    // When finance/admin processes the payout, we deduct the fee from this pool amount
+    const feeQuote = await quoteFee("withdrawal", pendingWithdrawal.amount, {
+      role: userWithdrawing?.role,
+      walletId: pendingWithdrawal.walletId,
+    });
+    const feeCents = feeQuote.feeCents;
     // Calculate the payout amount that will be paid to the user as cash
-    // This is the amount remaining after deducting the fee percentage from the pool
+    // This is the amount remaining after deducting the fee from the pool
     const payoutAmountCents = pendingWithdrawal.amount - feeCents;
 
     // Get transactions collection (needed for multiple operations below)
@@ -860,64 +1040,102 @@ export async function processCashPayout(
       COLLECTIONS.TRANSACTIONS
     );
 
-    // Record fee in fee ledger (will appear in Fee Ledger -> All Fees tab as "cash out fee")
-    // Fee is NOT automatically deposited - admin must manually deposit it
-    // Only record fee if fee is greater than 0 (admin accounts are exempt)
-    if (feeCents > 0) {
-      const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
-      
-      // Get the transaction to link the fee (for reference number display)
-      const transaction = await transactionsCollection.findOne({ ref: referenceNumber });
-      
-      const feeRecord: FeeModel = {
-        type: "withdrawal", // Will be displayed as "cash out fee" in fee ledger
-        amount: feeCents,
-        percentage: withdrawalFeePercentage,
-        userId: pendingWithdrawal.userId,
-        transactionId: transaction?._id,
-        deposited: false, // NOT automatically deposited - admin must manually deposit
-        createdAt: new Date(),
-      };
-      await feesCollection.insertOne(feeRecord);
-    }
+    // Clearing the pool entry, the fee ledger entry and both transaction records
+    // commit together, so a failure never leaves a half-paid withdrawal behind
+    await withTransaction(async (session) => {
+      // Take the withdrawal out of the pool by marking it paid out, so it stays in
+      // the requester's history. Only one payout can claim it, even if two
+      // cashiers submit the same reference
+      const claimed = await pendingWithdrawalsCollection.updateOne(
+        { _id: pendingWithdrawal._id, status: "pending" },
+        {
+          $set: {
+            status: "processed",
+            processedAt: new Date(),
+            processedBy: financeMongoUserId,
+            feeCents: feeCents,
+            payoutAmountCents: payoutAmountCents,
+          },
+        },
+        { session }
+      );
+      if (claimed.modifiedCount === 0) {
+        throw new Error("Pending withdrawal not found or already processed");
+      }
 
-    // Create transaction record for Finance/Admin user showing "paid cash"
-    // This will appear in their wallet transactions in the "Paid" tab
-    // Reuse financeMongoUserId that was already defined earlier for self-payout check
-    if (financeMongoUserId) {
-      const financeWallet = await getWalletByUserId(financeMongoUserId);
+      // Get the user's transaction to link the fee (for reference number display)
+      // and to record the outcome on
+      const transaction = await transactionsCollection.findOne(
+        { ref: referenceNumber, userId: pendingWithdrawal.userId },
+        { session }
+      );
+
+      // Record fee in fee ledger (will appear in Fee Ledger -> All Fees tab as "cash out fee")
+      // Fee is NOT automatically deposited - admin must manually deposit it
+      // Only record fee if fee is greater than 0 (exempt payers pay none)
+      if (feeCents > 0) {
+        const feesCollection = await getCollection<FeeModel>(COLLECTIONS.FEES);
+
+        const feeRecord: FeeModel = {
+          type: "withdrawal", // Will be displayed as "cash out fee" in fee ledger
+          amount: feeCents,
+          percentage: feeQuote.percentage,
+          scheduleId: feeQuote.scheduleId,
+          userId: pendingWithdrawal.userId,
+          transactionId: transaction?._id,
+          deposited: false, // NOT automatically deposited - admin must manually deposit
+          createdAt: new Date(),
+        };
+        await feesCollection.insertOne(feeRecord, { session });
+      }
+
+      // Create transaction record for Finance/Admin user showing "paid cash"
+      // This will appear in their wallet transactions in the "Paid" tab
+      // Reuse financeWallet that was already loaded earlier for self-payout check
       if (financeWallet) {
         const paidCashTransaction: TransactionModel = {
           userId: financeMongoUserId,
           type: "cash_payout",
-          amount: payoutAmountCents, // Amount paid out to user (after 5% deduction)
+          amount: payoutAmountCents, // Amount paid out to user (after the fee deduction)
+          feeCents: feeCents, // Fee kept from the withdrawal
           fromWalletId: financeWallet.walletId,
           ref: referenceNumber,
           status: "success",
           note: "paid cash", // Title shown in transactions list
           createdAt: new Date(),
         };
-        await transactionsCollection.insertOne(paidCashTransaction);
+        await transactionsCollection.insertOne(paidCashTransaction, { session });
       }
-    }
 
-    // Delete processed withdrawal from pool (clear data after processing)
-    // Store the fee and payout amounts in transaction record for tracking
-    await pendingWithdrawalsCollection.deleteOne({ _id: pendingWithdrawal._id });
-
-    // Update transaction status with fee information
-    // This records that 5% was deducted from the pool amount
-    // The original transaction amount is preserved for audit purposes
-    // (transactionsCollection was already defined above for fee linking)
-    await transactionsCollection.updateOne(
-      { ref: referenceNumber },
-      {
-        $set: {
-          status: "success",
-          feeCents: feeCents, // 5% fee deducted from pool amount
-        },
+      // Update transaction status with fee information
+      // This records the fee deducted from the pool amount
+      // The original transaction amount is preserved for audit purposes
+      if (transaction) {
+        await transactionsCollection.updateOne(
+          { _id: transaction._id },
+          {
+            $set: {
+              status: "success",
+              feeCents: feeCents, // Fee deducted from pool amount
+            },
+          },
+          { session }
+        );
       }
-    );
+
+      // The pool pays out the cash and keeps the fee
+      await postJournalEntry(session, {
+        kind: "cash_payout",
+        ref: referenceNumber,
+        postings: [
+          debit(CASH_PAYOUT_POOL_ACCOUNT, pendingWithdrawal.amount),
+          credit(EXTERNAL_CASH_ACCOUNT, payoutAmountCents),
+          credit(FEE_REVENUE_ACCOUNT, feeCents),
+        ],
+        transactionIds: transaction?._id ? [transaction._id] : undefined,
+        createdBy: financeMongoUserId,
+      });
+    });
 
     return {
       success: true,
@@ -935,22 +1153,22 @@ export async function processCashPayout(
       error: error instanceof Error ? error.message : "Failed to process cash payout",
     };
   }
-}
+});
 
 
 // Get recipient user information by wallet ID (for confirmation before sending)
-export async function getRecipientInfoByWalletId(walletId: string) {
+export const getRecipientInfoByWalletId = requireUser(async (currentUser, walletId: string) => {
   try {
     if (!walletId) {
       return { success: false, error: "Wallet ID is required" };
     }
 
-    // Normalize wallet ID
-    const normalizedWalletId = walletId.trim().toUpperCase();
-    const walletIdPattern = /^[A-Z]{3}\d{3}$/;
-    if (!walletIdPattern.test(normalizedWalletId)) {
-      return { success: false, error: "Invalid Wallet ID format" };
+    // Validate format and check character
+    const walletIdCheck = checkWalletId(walletId);
+    if (!walletIdCheck.valid) {
+      return { success: false, error: walletIdCheck.error };
     }
+    const normalizedWalletId = walletIdCheck.walletId;
 
     // Get wallet by wallet ID
     const recipientWallet = await getWalletByWalletId(normalizedWalletId);
@@ -978,13 +1196,14 @@ export async function getRecipientInfoByWalletId(walletId: string) {
       status: "approved"
     });
 
+    // Only the masked name is returned: enough for the sender to recognise the
+    // recipient, without giving away who holds a wallet ID to anyone who types it
     return {
       success: true,
       recipient: {
         walletId: normalizedWalletId,
-        firstName: kycData?.firstName || "",
-        lastName: kycData?.lastName || "",
-        email: user.email,
+        maskedName: maskHolderName(kycData?.firstName, kycData?.lastName),
+        legacyWalletId: walletIdCheck.legacy,
       },
     };
   } catch (error) {
@@ -994,10 +1213,10 @@ export async function getRecipientInfoByWalletId(walletId: string) {
       error: error instanceof Error ? error.message : "Failed to get recipient information",
     };
   }
-}
+});
 
 // Get all wallets for admin dashboard
-export async function getAllWallets() {
+export const getAllWallets = requirePermission("wallet.view", async () => {
   try {
     const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
     const usersCollection = await getCollection(COLLECTIONS.USERS);
@@ -1033,10 +1252,10 @@ export async function getAllWallets() {
       error: error instanceof Error ? error.message : "Failed to get wallets",
     };
   }
-}
+});
 
 // Get all pending withdrawals for Finance/Admin dashboard
-export async function getAllPendingWithdrawals() {
+export const getAllPendingWithdrawals = requirePermission("cash.payout", async () => {
   try {
     const pendingWithdrawalsCollection = await getCollection<PendingWithdrawalModel>(
       COLLECTIONS.PENDING_WITHDRAWALS
@@ -1085,74 +1304,52 @@ export async function getAllPendingWithdrawals() {
       error: error instanceof Error ? error.message : "Failed to get pending withdrawals",
     };
   }
-}
+});
 
 // Get wallet transactions for a specific wallet (for admin view)
 /**
- * Delete a transaction (User only - can only delete their own transactions)
+ * Hide a transaction from your own history (User only - can only hide their own transactions)
+ * Transaction rows are never deleted; the row stays in the ledger, in admin views and
+ * in reconciliation. To undo a transfer, request a refund instead.
  * 
- * @param transactionId - ID of the transaction to delete
- * @param userId - User ID requesting the deletion
- * @param email - User's email (for lookup if userId is not ObjectId)
+ * @param transactionId - ID of the transaction to hide
  * @returns Success status
  */
-export async function deleteTransaction(
-  transactionId: string,
-  userId: string,
-  email?: string
-) {
+export const hideTransaction = requireUser(async (currentUser, transactionId: string) => {
   try {
-    if (!transactionId || !userId) {
-      return { success: false, error: "Transaction ID and User ID are required" };
+    if (!transactionId) {
+      return { success: false, error: "Transaction ID is required" };
     }
 
     if (!ObjectId.isValid(transactionId)) {
       return { success: false, error: "Invalid transaction ID" };
     }
 
-    // Get MongoDB user ID
-    let mongoUserId: ObjectId | null = null;
-    
-    if (ObjectId.isValid(userId)) {
-      mongoUserId = new ObjectId(userId);
-    } else if (email) {
-      mongoUserId = await getMongoUserId(userId, email);
-    } else {
-      return { success: false, error: "Invalid user ID format. Please provide email or sign in again." };
-    }
-
-    if (!mongoUserId) {
-      return { success: false, error: "User not found in database." };
-    }
-
     const transactionsCollection = await getCollection<TransactionModel>(
       COLLECTIONS.TRANSACTIONS
     );
 
-    // Verify the transaction belongs to the user
-    const transaction = await transactionsCollection.findOne({
-      _id: new ObjectId(transactionId),
-      userId: mongoUserId,
-    });
+    // Only the owner's own row is hidden; the other party still sees theirs
+    const result = await transactionsCollection.updateOne(
+      { _id: new ObjectId(transactionId), userId: currentUser._id },
+      { $set: { hiddenAt: new Date() } }
+    );
 
-    if (!transaction) {
-      return { success: false, error: "Transaction not found or you don't have permission to delete it." };
+    if (result.matchedCount === 0) {
+      return { success: false, error: "Transaction not found or you don't have permission to hide it." };
     }
 
-    // Delete the transaction
-    await transactionsCollection.deleteOne({ _id: new ObjectId(transactionId) });
-
-    return { success: true, message: "Transaction deleted successfully" };
+    return { success: true, message: "Transaction hidden from your history" };
   } catch (error) {
-    console.error("Error deleting transaction:", error);
+    console.error("Error hiding transaction:", error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : "Failed to delete transaction",
+      error: error instanceof Error ? error.message : "Failed to hide transaction",
     };
   }
-}
+});
 
-export async function getWalletTransactions(walletId: string) {
+export const getWalletTransactions = requirePermission("wallet.view", async (admin, walletId: string) => {
   try {
     if (!walletId) {
       return { success: false, transactions: [], error: "Wallet ID is required" };
@@ -1202,5 +1399,5 @@ export async function getWalletTransactions(walletId: string) {
       error: error instanceof Error ? error.message : "Failed to get wallet transactions",
     };
   }
-}
+});
 
@@ -0,0 +1,246 @@
+// Server-side session management using signed HTTP-only cookies
+//
+// A session is a random token handed to the browser in an HTTP-only cookie and
+// stored (hashed) in the `sessions` collection. The cookie value is signed with
+// SESSION_SECRET so tampered or forged cookies are rejected before any database
+// lookup. Server actions must use getCurrentUser() to find out who is calling
+// instead of trusting a user ID passed from the client.
+
+import { cookies, headers } from "next/headers";
+import { ObjectId } from "mongodb";
+import crypto from "crypto";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { SessionModel, UserModel } from "./db/models";
+
+export const SESSION_COOKIE_NAME = "madeenajuba_session";
+
+// Sessions stay valid for 7 days after the last request
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Only refresh lastSeenAt/expiresAt once every 5 minutes to limit writes
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const getSessionSecret = (): string => {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret || secret.trim().length < 32) {
+    throw new Error(
+      "SESSION_SECRET is not set or is too short. Please add it to your environment variables:\n" +
+      "Generate one with: node -e \"console.log(require('crypto').randomBytes(48).toString('hex'))\"\n" +
+      "For local development: add SESSION_SECRET=<value> to .env.local\n" +
+      "For Vercel: Add SESSION_SECRET in your Vercel project settings → Environment Variables"
+    );
+  }
+
+  return secret.trim();
+};
+
+// Hash a raw session token for storage (the raw token only ever lives in the cookie)
+const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const signToken = (token: string): string => {
+  return crypto.createHmac("sha256", getSessionSecret()).update(token).digest("base64url");
+};
+
+// Returns the raw token if the cookie signature is valid, otherwise null
+const verifySignedToken = (value: string): string | null => {
+  const separatorIndex = value.lastIndexOf(".");
+  if (separatorIndex <= 0) return null;
+
+  const token = value.substring(0, separatorIndex);
+  const signature = Buffer.from(value.substring(separatorIndex + 1));
+  const expected = Buffer.from(signToken(token));
+
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return token;
+};
+
+// Reverse proxies in front of the app (e.g. Vercel's edge, or a load balancer
+// plus nginx) that each append the address they got the request from to
+// X-Forwarded-For. Defaults to one.
+const getTrustedProxyHops = (): number => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? "", 10);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+// Client address as seen by the outermost trusted proxy
+// Anything left of the entries our proxies appended came from the client and can
+// be anything, so the address is counted from the right. With no trusted proxy
+// the forwarding headers are ignored altogether.
+const getClientIp = (forwardedFor: string | null, realIp: string | null): string | undefined => {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) {
+    return undefined;
+  }
+
+  const addresses = (forwardedFor ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (addresses.length === 0) {
+    return realIp?.trim() || undefined;
+  }
+  return addresses[Math.max(addresses.length - hops, 0)];
+};
+
+// Best-effort client details for session and sign-in records (and the sign-in
+// throttle's per-IP counters)
+export const getRequestMetadata = async (): Promise<{ userAgent?: string; ipAddress?: string }> => {
+  try {
+    const headerStore = await headers();
+    return {
+      userAgent: headerStore.get("user-agent") || undefined,
+      ipAddress: getClientIp(headerStore.get("x-forwarded-for"), headerStore.get("x-real-ip")),
+    };
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Create a new session for a user and set the session cookie
+ * Must be called from a server action or route handler
+ */
+export const createSession = async (userId: ObjectId): Promise<void> => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  const { userAgent, ipAddress } = await getRequestMetadata();
+
+  const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+  await sessionsCollection.insertOne({
+    userId,
+    tokenHash: hashToken(token),
+    userAgent,
+    ipAddress,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt,
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, `${token}.${signToken(token)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: expiresAt,
+  });
+};
+
+/**
+ * Get the session record for the current request
+ * Returns null if there is no cookie, the signature is invalid, or the session expired/was revoked
+ */
+export const getCurrentSession = async (): Promise<SessionModel | null> => {
+  const cookieStore = await cookies();
+  const cookieValue = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (!cookieValue) return null;
+
+  const token = verifySignedToken(cookieValue);
+  if (!token) return null;
+
+  const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+  const session = await sessionsCollection.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: { $exists: false },
+  });
+
+  if (!session) return null;
+
+  const now = new Date();
+  if (session.expiresAt < now) return null;
+
+  // Sliding expiration
+  if (now.getTime() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await sessionsCollection.updateOne(
+      { _id: session._id },
+      { $set: { lastSeenAt: now, expiresAt: new Date(now.getTime() + SESSION_TTL_MS) } }
+    );
+  }
+
+  return session;
+};
+
+/**
+ * Get the signed-in user for the current request
+ * This is the only trusted way for server actions to identify the caller
+ */
+export const getCurrentUser = async (): Promise<UserModel | null> => {
+  const session = await getCurrentSession();
+  if (!session) return null;
+
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  return usersCollection.findOne({ _id: session.userId });
+};
+
+/**
+ * Revoke the current session and clear the session cookie
+ */
+export const destroyCurrentSession = async (): Promise<void> => {
+  const cookieStore = await cookies();
+  const cookieValue = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (cookieValue) {
+    const token = verifySignedToken(cookieValue);
+    if (token) {
+      const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+      await sessionsCollection.updateOne(
+        { tokenHash: hashToken(token) },
+        { $set: { revokedAt: new Date() } }
+      );
+    }
+  }
+
+  cookieStore.delete(SESSION_COOKIE_NAME);
+};
+
+/**
+ * List a user's sessions that are still usable (not revoked or expired), most recently used first
+ */
+export const getActiveSessions = async (userId: ObjectId): Promise<SessionModel[]> => {
+  const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+  return sessionsCollection
+    .find({ userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 })
+    .toArray();
+};
+
+/**
+ * Revoke one of a user's sessions (the browser holding it is signed out on its next request)
+ * Returns false if the session doesn't belong to the user or was already revoked
+ */
+export const revokeSession = async (userId: ObjectId, sessionId: ObjectId): Promise<boolean> => {
+  const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+  const result = await sessionsCollection.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revoke every session of a user, optionally keeping one (e.g. the caller's own)
+ * Returns the number of sessions revoked
+ */
+export const revokeAllSessions = async (
+  userId: ObjectId,
+  options?: { exceptSessionId?: ObjectId }
+): Promise<number> => {
+  const sessionsCollection = await getCollection<SessionModel>(COLLECTIONS.SESSIONS);
+  const result = await sessionsCollection.updateMany(
+    {
+      userId,
+      revokedAt: { $exists: false },
+      ...(options?.exceptSessionId && { _id: { $ne: options.exceptSessionId } }),
+    },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
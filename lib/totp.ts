@@ -0,0 +1,130 @@
+// RFC 6238 time-based one-time passwords (TOTP)
+//
+// Uses the defaults every authenticator app understands: HMAC-SHA1, 6 digits
+// and a 30 second time step. Secrets are base32 encoded (RFC 4648, no padding)
+// as expected by otpauth:// URIs.
+
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+
+// Accept codes from one step before/after the current one to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const SECRET_BYTES = 20;
+
+export const TOTP_ISSUER = "MADEENAJUBA";
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character in secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (base32)
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+};
+
+/**
+ * Time step number for a point in time (seconds since epoch / 30)
+ */
+export const getTotpStep = (timeMs: number = Date.now()): number => {
+  return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Compute the TOTP code for a secret at a given time step (RFC 4226 HOTP)
+ */
+export const generateTotp = (secret: string, step: number = getTotpStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Check a TOTP code against a secret
+ * Returns the matching time step (so callers can reject replays of the same
+ * code), or null if the code doesn't match any step within the drift window
+ */
+export const verifyTotp = (secret: string, code: string, timeMs: number = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = getTotpStep(timeMs);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from the QR code
+ */
+export const buildOtpAuthUri = (secret: string, accountName: string): string => {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
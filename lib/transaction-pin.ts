@@ -0,0 +1,273 @@
+// Transaction PIN (step-up confirmation for money leaving a wallet)
+//
+// Every wallet has a 4-6 digit PIN, hashed with the same scheme as passwords
+// (see lib/password.ts). sendMoney, requestCash, payInvoiceByRef and
+// purchaseTicket call confirmTransaction() before moving any money:
+//
+// - No PIN set yet: the action is refused until the owner sets one
+// - Too many wrong PINs: the wallet is locked for PIN_LOCK_MS and nothing can be
+//   paid out of it until the lock expires (or the PIN is reset with the password)
+// - Trusted device: after a correct PIN the owner can trust the browser, which
+//   then skips the PIN for payments up to the `pinAlwaysRequiredAboveCents`
+//   system setting. Larger payments always need the PIN.
+
+import { cookies, headers } from "next/headers";
+import crypto from "crypto";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { SystemSettingsModel, WalletModel } from "./db/models";
+import { hashPassword, verifyPassword } from "./password";
+
+export const TRUSTED_DEVICE_COOKIE_NAME = "madeenajuba_trusted_device";
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MS = 30 * 60 * 1000;
+
+const TRUSTED_DEVICE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_TRUSTED_DEVICES = 5;
+
+// Payments above 500.00 need the PIN even on a trusted device unless an admin
+// changes the system setting
+export const DEFAULT_PIN_ALWAYS_REQUIRED_ABOVE_CENTS = 50000;
+
+// Passed by the wallet modals along with the payment
+export interface TransactionConfirmation {
+  pin?: string;
+  trustDevice?: boolean; // Trust this browser after a correct PIN
+}
+
+// Returned by money-moving actions instead of running when the PIN is missing or wrong
+export interface PinChallengeResult {
+  success: false;
+  error: string;
+  pinRequired: true;
+  pinSetupRequired?: boolean; // The wallet has no PIN yet
+  pinLocked?: boolean; // Too many wrong PINs; try again after the lock expires
+}
+
+const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const pinChallenge = (error: string, extra?: Partial<PinChallengeResult>): PinChallengeResult => {
+  return { success: false, error, pinRequired: true, ...extra };
+};
+
+const formatLockedUntil = (lockedUntil: Date): string => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Too many wrong PINs. Your wallet is locked for payments for ${minutes} more minute${minutes === 1 ? "" : "s"}.`;
+};
+
+export const isValidPinFormat = (pin: string): boolean => {
+  return PIN_PATTERN.test(pin);
+};
+
+export const isPinLocked = (wallet: WalletModel): boolean => {
+  return !!wallet.pinLockedUntil && wallet.pinLockedUntil > new Date();
+};
+
+/**
+ * Drop the trusted-device cookie from the current browser
+ * Other browsers keep theirs, but it stops matching once the wallet's list is cleared
+ */
+export const clearTrustedDeviceCookie = async (): Promise<void> => {
+  const cookieStore = await cookies();
+  cookieStore.delete(TRUSTED_DEVICE_COOKIE_NAME);
+};
+
+/**
+ * Set (or replace) a wallet's PIN
+ * Clears any lockout; pass `forgetDevices` to also drop trusted devices (and
+ * this browser's trusted-device cookie)
+ */
+export const setWalletPin = async (
+  wallet: WalletModel,
+  pin: string,
+  options?: { forgetDevices?: boolean }
+): Promise<void> => {
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  await walletsCollection.updateOne(
+    { _id: wallet._id },
+    {
+      $set: {
+        pinHash: await hashPassword(pin),
+        pinFailedAttempts: 0,
+        pinUpdatedAt: new Date(),
+        updatedAt: new Date(),
+        ...(options?.forgetDevices && { trustedDevices: [] }),
+      },
+      $unset: { pinLockedUntil: "" },
+    }
+  );
+
+  if (options?.forgetDevices) {
+    await clearTrustedDeviceCookie();
+  }
+};
+
+/**
+ * Check a PIN, counting wrong entries and locking the wallet after MAX_PIN_ATTEMPTS
+ */
+export const verifyWalletPin = async (
+  wallet: WalletModel,
+  pin: string
+): Promise<{ valid: true } | { valid: false; error: string; locked: boolean }> => {
+  if (!wallet.pinHash) {
+    return { valid: false, error: "Set a transaction PIN first", locked: false };
+  }
+
+  if (wallet.pinLockedUntil && isPinLocked(wallet)) {
+    return { valid: false, error: formatLockedUntil(wallet.pinLockedUntil), locked: true };
+  }
+
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const { valid } = await verifyPassword(pin || "", wallet.pinHash);
+
+  if (valid) {
+    if (wallet.pinFailedAttempts) {
+      await walletsCollection.updateOne({ _id: wallet._id }, { $set: { pinFailedAttempts: 0 } });
+    }
+    return { valid: true };
+  }
+
+  // Count atomically so parallel guesses can't get around the limit
+  const updated = await walletsCollection.findOneAndUpdate(
+    { _id: wallet._id },
+    { $inc: { pinFailedAttempts: 1 } },
+    { returnDocument: "after" }
+  );
+  const attempts = updated?.pinFailedAttempts ?? MAX_PIN_ATTEMPTS;
+
+  if (attempts < MAX_PIN_ATTEMPTS) {
+    const remaining = MAX_PIN_ATTEMPTS - attempts;
+    return {
+      valid: false,
+      error: `Incorrect PIN. ${remaining} attempt${remaining === 1 ? "" : "s"} left before your wallet is locked.`,
+      locked: false,
+    };
+  }
+
+  const lockedUntil = new Date(Date.now() + PIN_LOCK_MS);
+  await walletsCollection.updateOne(
+    { _id: wallet._id },
+    { $set: { pinLockedUntil: lockedUntil, pinFailedAttempts: 0 } }
+  );
+
+  try {
+    const { createNotification } = await import("./notifications");
+    await createNotification({
+      userId: wallet.userId.toString(),
+      type: "security",
+      title: "Wallet locked",
+      message: "Your transaction PIN was entered wrong too many times, so payments are paused for 30 minutes. If this wasn't you, reset your PIN and change your password.",
+      link: "/wallet",
+    });
+  } catch (notificationError) {
+    console.error("Error creating PIN lock notification:", notificationError);
+  }
+
+  return { valid: false, error: formatLockedUntil(lockedUntil), locked: true };
+};
+
+/**
+ * Amount above which the PIN is always required (system setting, with a default)
+ */
+export const getPinAlwaysRequiredAboveCents = async (): Promise<number> => {
+  const settingsCollection = await getCollection<SystemSettingsModel>(COLLECTIONS.SYSTEM_SETTINGS);
+  const settings = await settingsCollection.findOne({}, { projection: { pinAlwaysRequiredAboveCents: 1 } });
+  return settings?.pinAlwaysRequiredAboveCents ?? DEFAULT_PIN_ALWAYS_REQUIRED_ABOVE_CENTS;
+};
+
+/**
+ * Check whether the current browser is one of the wallet's trusted devices
+ */
+export const isTrustedDevice = async (wallet: WalletModel): Promise<boolean> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(TRUSTED_DEVICE_COOKIE_NAME)?.value;
+  if (!token || !wallet.trustedDevices?.length) return false;
+
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  return wallet.trustedDevices.some((device) => device.tokenHash === tokenHash && device.expiresAt > now);
+};
+
+/**
+ * Trust the current browser for this wallet (keeps the most recent MAX_TRUSTED_DEVICES)
+ */
+export const trustCurrentDevice = async (wallet: WalletModel): Promise<void> => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + TRUSTED_DEVICE_TTL_MS);
+
+  let userAgent: string | undefined;
+  try {
+    userAgent = (await headers()).get("user-agent") || undefined;
+  } catch {
+    userAgent = undefined;
+  }
+
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  await walletsCollection.updateOne(
+    { _id: wallet._id },
+    {
+      $push: {
+        trustedDevices: {
+          $each: [{ tokenHash: hashToken(token), userAgent, createdAt: now, expiresAt }],
+          $slice: -MAX_TRUSTED_DEVICES,
+        },
+      },
+    }
+  );
+
+  const cookieStore = await cookies();
+  cookieStore.set(TRUSTED_DEVICE_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: expiresAt,
+  });
+};
+
+/**
+ * Step-up check run by every action that moves money out of a wallet
+ * Returns null when the payment may go ahead, otherwise the result to return
+ * to the client (which then asks for the PIN and retries)
+ *
+ * @param wallet - The paying wallet
+ * @param amountCents - Total amount leaving the wallet
+ * @param confirmation - PIN (and trust-device choice) entered in the modal
+ */
+export const confirmTransaction = async (
+  wallet: WalletModel,
+  amountCents: number,
+  confirmation?: TransactionConfirmation
+): Promise<PinChallengeResult | null> => {
+  if (!wallet.pinHash) {
+    return pinChallenge("Set a transaction PIN for your wallet before making payments", { pinSetupRequired: true });
+  }
+
+  if (wallet.pinLockedUntil && isPinLocked(wallet)) {
+    return pinChallenge(formatLockedUntil(wallet.pinLockedUntil), { pinLocked: true });
+  }
+
+  if (!confirmation?.pin) {
+    if (amountCents <= (await getPinAlwaysRequiredAboveCents()) && (await isTrustedDevice(wallet))) {
+      return null;
+    }
+    return pinChallenge("Enter your transaction PIN to confirm this payment");
+  }
+
+  const result = await verifyWalletPin(wallet, confirmation.pin);
+  if (!result.valid) {
+    return pinChallenge(result.error, { pinLocked: result.locked });
+  }
+
+  if (confirmation.trustDevice && !(await isTrustedDevice(wallet))) {
+    await trustCurrentDevice(wallet);
+  }
+
+  return null;
+};
@@ -0,0 +1,222 @@
+// Two-factor authentication (TOTP) for sign in
+//
+// Enrollment: a pending secret is generated and shown as a QR code; 2FA is only
+// enabled once the user confirms a code from their authenticator app, at which
+// point they get a set of one-time recovery codes (stored hashed).
+//
+// Sign in: when the password is correct but the account has 2FA enabled (or
+// its role requires 2FA and it isn't enrolled yet), signIn doesn't create a
+// session. It hands back a short-lived challenge token instead, and the session
+// is only created once the second step succeeds (see lib/server-actions/auth.ts).
+
+import { ObjectId } from "mongodb";
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { SystemSettingsModel, TwoFactorChallengeModel, UserModel } from "./db/models";
+import type { Role } from "./rbac";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from "./totp";
+
+// Roles that must use 2FA until an admin changes the system setting
+export const DEFAULT_TWO_FACTOR_REQUIRED_ROLES: Role[] = ["admin", "finance"];
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O or 1/I/L so codes can be read back from paper without ambiguity
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+};
+
+/**
+ * Generate a fresh set of recovery codes (e.g. "K7QX-M2PA-9RTD")
+ * Only the hashes are stored; the plain codes are shown to the user once
+ */
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 12 }, () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]);
+    return chars.join("").replace(/(.{4})(?=.)/g, "$1-");
+  });
+  return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+};
+
+/**
+ * Roles that currently must use 2FA (system setting, with a safe default)
+ */
+export const getTwoFactorRequiredRoles = async (): Promise<Role[]> => {
+  const settingsCollection = await getCollection<SystemSettingsModel>(COLLECTIONS.SYSTEM_SETTINGS);
+  const settings = await settingsCollection.findOne({}, { projection: { twoFactorRequiredRoles: 1 } });
+  return settings?.twoFactorRequiredRoles ?? DEFAULT_TWO_FACTOR_REQUIRED_ROLES;
+};
+
+export const isTwoFactorRequiredForRole = async (role: Role): Promise<boolean> => {
+  const requiredRoles = await getTwoFactorRequiredRoles();
+  return requiredRoles.includes(role);
+};
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled
+ * Accepted TOTP steps and recovery codes are consumed atomically, so the same
+ * code can't be used twice (even by two concurrent requests)
+ */
+export const verifyTwoFactorCode = async (
+  user: UserModel & { _id: ObjectId },
+  code: string
+): Promise<{ valid: boolean; usedRecoveryCode: boolean }> => {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled || !twoFactor.secret) {
+    return { valid: false, usedRecoveryCode: false };
+  }
+
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    const result = await usersCollection.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { "twoFactor.lastUsedStep": { $exists: false } },
+          { "twoFactor.lastUsedStep": { $lt: step } },
+        ],
+      },
+      { $set: { "twoFactor.lastUsedStep": step } }
+    );
+    return { valid: result.modifiedCount === 1, usedRecoveryCode: false };
+  }
+
+  const codeHash = hashToken(normalizeRecoveryCode(code));
+  const result = await usersCollection.updateOne(
+    { _id: user._id, "twoFactor.recoveryCodeHashes": codeHash },
+    { $pull: { "twoFactor.recoveryCodeHashes": codeHash } }
+  );
+  return { valid: result.modifiedCount === 1, usedRecoveryCode: result.modifiedCount === 1 };
+};
+
+/**
+ * Start (or restart) 2FA enrollment: store a pending secret and return its QR code
+ */
+export const beginTwoFactorEnrollment = async (
+  user: UserModel & { _id: ObjectId }
+): Promise<{ secret: string; otpauthUri: string; qrCodeDataUrl: string }> => {
+  const secret = generateTotpSecret();
+  const otpauthUri = buildOtpAuthUri(secret, user.email);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { width: 240, margin: 1 });
+
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  await usersCollection.updateOne(
+    { _id: user._id },
+    user.twoFactor
+      ? { $set: { "twoFactor.pendingSecret": secret } }
+      : { $set: { twoFactor: { enabled: false, pendingSecret: secret, recoveryCodeHashes: [] } } }
+  );
+
+  return { secret, otpauthUri, qrCodeDataUrl };
+};
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * Returns the recovery codes to show the user, or null if the code is wrong
+ */
+export const confirmTwoFactorEnrollment = async (
+  user: UserModel & { _id: ObjectId },
+  code: string
+): Promise<string[] | null> => {
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) return null;
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  await usersCollection.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        twoFactor: {
+          enabled: true,
+          secret: pendingSecret,
+          recoveryCodeHashes: hashes,
+          lastUsedStep: step,
+          enabledAt: new Date(),
+        },
+        updatedAt: new Date(),
+      },
+    }
+  );
+
+  return codes;
+};
+
+/**
+ * Create a sign-in challenge for a user whose password has been verified
+ * Returns the raw token for the browser; only its hash is stored
+ */
+export const createTwoFactorChallenge = async (
+  userId: ObjectId,
+  purpose: TwoFactorChallengeModel["purpose"]
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  const challengesCollection = await getCollection<TwoFactorChallengeModel>(COLLECTIONS.TWO_FACTOR_CHALLENGES);
+  await challengesCollection.insertOne({
+    userId,
+    tokenHash: hashToken(token),
+    purpose,
+    attempts: 0,
+    expiresAt: new Date(now.getTime() + CHALLENGE_TTL_MS),
+    createdAt: now,
+  });
+
+  return token;
+};
+
+/**
+ * Look up a live challenge and its user
+ * Returns null if the token is unknown, expired, used up or for another purpose
+ */
+export const getTwoFactorChallenge = async (
+  token: string,
+  purpose: TwoFactorChallengeModel["purpose"]
+): Promise<{ challenge: TwoFactorChallengeModel & { _id: ObjectId }; user: UserModel & { _id: ObjectId } } | null> => {
+  if (!token) return null;
+
+  const challengesCollection = await getCollection<TwoFactorChallengeModel>(COLLECTIONS.TWO_FACTOR_CHALLENGES);
+  const challenge = await challengesCollection.findOne({
+    tokenHash: hashToken(token),
+    purpose,
+    expiresAt: { $gt: new Date() },
+    attempts: { $lt: MAX_CHALLENGE_ATTEMPTS },
+  });
+  if (!challenge?._id) return null;
+
+  const usersCollection = await getCollection<UserModel>(COLLECTIONS.USERS);
+  const user = await usersCollection.findOne({ _id: challenge.userId });
+  if (!user?._id) return null;
+
+  return {
+    challenge: challenge as TwoFactorChallengeModel & { _id: ObjectId },
+    user: user as UserModel & { _id: ObjectId },
+  };
+};
+
+export const recordFailedTwoFactorAttempt = async (challengeId: ObjectId): Promise<void> => {
+  const challengesCollection = await getCollection<TwoFactorChallengeModel>(COLLECTIONS.TWO_FACTOR_CHALLENGES);
+  await challengesCollection.updateOne({ _id: challengeId }, { $inc: { attempts: 1 } });
+};
+
+export const deleteTwoFactorChallenge = async (challengeId: ObjectId): Promise<void> => {
+  const challengesCollection = await getCollection<TwoFactorChallengeModel>(COLLECTIONS.TWO_FACTOR_CHALLENGES);
+  await challengesCollection.deleteOne({ _id: challengeId });
+};
@@ -1,5 +1,5 @@
 /**
- * Email utility for sending password reset emails
+ * Email utility for sending password reset and email verification emails
  * 
  * To configure email sending, set the following environment variables:
  * - SMTP_HOST: SMTP server host (e.g., smtp.gmail.com)
@@ -8,7 +8,7 @@
  * - SMTP_PASSWORD: SMTP password or app password
  * - SMTP_FROM: Email address to send from
  * 
- * If email is not configured, the reset link will be logged in development mode.
+ * If email is not configured, the links will be logged in development mode.
  */
 
 interface EmailConfig {
@@ -72,3 +72,33 @@ export async function sendPasswordResetEmail(email: string, resetUrl: string): P
     // The link is still valid and can be shared manually if needed
   }
 }
+
+/**
+ * Send email address verification email
+ */
+export async function sendVerificationEmail(email: string, verifyUrl: string): Promise<void> {
+  const config = getEmailConfig();
+
+  // If email is not configured, log in development mode
+  if (!config) {
+    if (process.env.NODE_ENV === "development") {
+      console.log("\n=== EMAIL VERIFICATION EMAIL (Development Mode) ===");
+      console.log(`To: ${email}`);
+      console.log(`Subject: Verify Your Email Address`);
+      console.log(`Verification Link: ${verifyUrl}`);
+      console.log("===================================================\n");
+    }
+    return;
+  }
+
+  try {
+    // Same placeholder as sendPasswordResetEmail until nodemailer is installed
+    console.log("Email configuration detected. To enable email sending, install nodemailer:");
+    console.log("npm install nodemailer @types/nodemailer");
+    console.log("\nEmail verification link:", verifyUrl);
+    console.log("Email would be sent to:", email);
+  } catch (error) {
+    console.error("Error sending email:", error);
+    // Don't throw - the user can request another link
+  }
+}
@@ -0,0 +1,78 @@
+// Wallet ID format
+//
+// A wallet ID is 8 characters from Crockford's base32 alphabet (digits and
+// capitals without I, L, O and U), e.g. 7K3M9QX1. The first 7 are random and the
+// last is a Luhn mod 32 check character over them, so a single wrong character
+// (and nearly every swap of two neighbours) is caught before any wallet is
+// looked up. I, L and O are read as 1, 1 and 0, since they are easily confused
+// when copied by hand.
+//
+// Wallets created before the check character keep their 3-letter + 3-digit IDs
+// (e.g. VXE445). Those are still accepted, but can't be checked for typos.
+//
+// Kept free of server-only imports so the send and invoice forms can use it too.
+
+export const WALLET_ID_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+export const WALLET_ID_LENGTH = 8;
+export const WALLET_ID_EXAMPLE = "7K3M9QX1";
+
+const WALLET_ID_PATTERN = new RegExp(`^[${WALLET_ID_ALPHABET}]{${WALLET_ID_LENGTH}}$`);
+const LEGACY_WALLET_ID_PATTERN = /^[A-Z]{3}\d{3}$/;
+
+export type WalletIdCheck =
+  | { valid: true; walletId: string; legacy: boolean }
+  | { valid: false; error: string };
+
+/**
+ * Luhn mod 32 check character for the random part of a wallet ID
+ */
+export const getWalletIdCheckChar = (body: string): string => {
+  const base = WALLET_ID_ALPHABET.length;
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Double every second character, starting with the rightmost one
+    let value = WALLET_ID_ALPHABET.indexOf(body[body.length - 1 - i]) * (i % 2 === 0 ? 2 : 1);
+    value = Math.floor(value / base) + (value % base);
+    sum += value;
+  }
+  return WALLET_ID_ALPHABET[(base - (sum % base)) % base];
+};
+
+/**
+ * Wallet ID as typed, in the form it is stored in
+ *
+ * Case, spaces and dashes are ignored. Legacy IDs are returned as they are, and
+ * I, L and O are read as 1, 1 and 0 in new ones.
+ */
+export const normalizeWalletId = (input: string): string => {
+  const compact = input.replace(/[\s-]/g, "").toUpperCase();
+  if (LEGACY_WALLET_ID_PATTERN.test(compact)) return compact;
+  return compact.replace(/[IL]/g, "1").replace(/O/g, "0");
+};
+
+/**
+ * Check a wallet ID entered by a user
+ *
+ * @returns The normalized ID, or a message telling a malformed ID apart from a
+ *   well-formed one whose check character doesn't match (most likely a typo)
+ */
+export const checkWalletId = (input: string): WalletIdCheck => {
+  const walletId = normalizeWalletId(input);
+
+  if (LEGACY_WALLET_ID_PATTERN.test(walletId)) {
+    return { valid: true, walletId, legacy: true };
+  }
+  if (!WALLET_ID_PATTERN.test(walletId)) {
+    return {
+      valid: false,
+      error: `Invalid Wallet ID format. Please enter a valid Wallet ID (e.g., ${WALLET_ID_EXAMPLE})`,
+    };
+  }
+  if (getWalletIdCheckChar(walletId.slice(0, -1)) !== walletId.slice(-1)) {
+    return {
+      valid: false,
+      error: "This Wallet ID doesn't look right. Please check it for typos and try again.",
+    };
+  }
+  return { valid: true, walletId, legacy: false };
+};
@@ -0,0 +1,83 @@
+// Wallet ID generation and recipient lookup helpers
+//
+// New wallet IDs are 7 characters from the CSPRNG plus a check character (see
+// lib/wallet-id-format.ts), which is about 34 billion IDs. Each one is checked
+// against the existing wallets before it is used, and a unique index on walletId
+// stops two wallets getting the same ID if two are created at the same moment.
+//
+// Wallets keep the ID they were created with, since it is used in their ledger
+// account, transactions and invoices. Legacy 3-letter + 3-digit IDs are only
+// checked for duplicates (scripts/check-wallet-ids.ts) before the index is built.
+
+import crypto from "crypto";
+import type { ClientSession } from "mongodb";
+import { getCollection } from "./db";
+import { COLLECTIONS } from "./db/models";
+import type { WalletModel } from "./db/models";
+import { getWalletIdCheckChar, WALLET_ID_ALPHABET, WALLET_ID_LENGTH } from "./wallet-id-format";
+
+// Indexes only need to be created once per server process
+let indexesEnsured: Promise<void> | null = null;
+
+export const ensureWalletIndexes = async (): Promise<void> => {
+  if (!indexesEnsured) {
+    indexesEnsured = (async () => {
+      const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+      await walletsCollection.createIndex({ walletId: 1 }, { unique: true });
+    })().catch((error) => {
+      indexesEnsured = null;
+      throw error;
+    });
+  }
+  return indexesEnsured;
+};
+
+/**
+ * A wallet ID that no wallet has yet
+ * Pass `session` when the wallet is created inside a transaction.
+ */
+export const generateWalletId = async (session?: ClientSession): Promise<string> => {
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const body = Array.from(
+      { length: WALLET_ID_LENGTH - 1 },
+      () => WALLET_ID_ALPHABET[crypto.randomInt(WALLET_ID_ALPHABET.length)]
+    ).join("");
+    const walletId = `${body}${getWalletIdCheckChar(body)}`;
+
+    if (!(await walletsCollection.findOne({ walletId }, { projection: { _id: 1 }, session }))) {
+      return walletId;
+    }
+  }
+
+  throw new Error("Failed to generate unique wallet ID. Please try again.");
+};
+
+/**
+ * Wallet IDs held by more than one wallet, which have to be resolved before the
+ * unique index can be built
+ */
+export const findDuplicateWalletIds = async (): Promise<{ walletId: string; count: number }[]> => {
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+  const duplicates = await walletsCollection
+    .aggregate<{ _id: string; count: number }>([
+      { $group: { _id: "$walletId", count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+      { $sort: { _id: 1 } },
+    ])
+    .toArray();
+  return duplicates.map((duplicate) => ({ walletId: duplicate._id, count: duplicate.count }));
+};
+
+/**
+ * Holder name as shown to someone about to pay the wallet: the first letter of
+ * each name, the rest hidden (e.g. "J*** S****")
+ */
+export const maskHolderName = (firstName?: string, lastName?: string): string => {
+  return [firstName, lastName]
+    .flatMap((name) => (name ?? "").trim().split(/\s+/))
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}${"*".repeat(Math.max(part.length - 1, 2))}`)
+    .join(" ");
+};
@@ -0,0 +1,72 @@
+/**
+ * One-off migration: check existing wallet IDs and build their unique index
+ *
+ * Run this once, right after deploying checksummed wallet IDs:
+ *   npx tsx --env-file=.env.local scripts/check-wallet-ids.ts
+ *
+ * Existing wallets keep their IDs (legacy 3-letter + 3-digit IDs stay valid, see
+ * lib/wallet-id-format.ts). Any ID held by more than one wallet is listed and the
+ * index isn't built until those wallets are sorted out by hand; the script then
+ * exits with code 1. Running it again once they are resolved builds the index.
+ */
+
+import getClientPromise, { getCollection } from "../lib/db";
+import { COLLECTIONS } from "../lib/db/models";
+import type { WalletModel } from "../lib/db/models";
+import { checkWalletId } from "../lib/wallet-id-format";
+import { ensureWalletIndexes, findDuplicateWalletIds } from "../lib/wallet-ids";
+
+async function checkWalletIds() {
+  console.log("Checking wallet IDs...");
+  const walletsCollection = await getCollection<WalletModel>(COLLECTIONS.WALLETS);
+
+  let checksummed = 0;
+  let legacy = 0;
+  const invalid: string[] = [];
+  for await (const wallet of walletsCollection.find({}, { projection: { walletId: 1 } })) {
+    const check = checkWalletId(wallet.walletId);
+    if (!check.valid || check.walletId !== wallet.walletId) {
+      invalid.push(wallet.walletId);
+    } else if (check.legacy) {
+      legacy++;
+    } else {
+      checksummed++;
+    }
+  }
+
+  console.log(`Checksummed IDs: ${checksummed}`);
+  console.log(`Legacy IDs: ${legacy}`);
+  if (invalid.length > 0) {
+    // Still unique, so they don't block the index, but users can't enter them
+    console.log(`\n⚠️  IDs users can't send to: ${invalid.join(", ")}`);
+  }
+
+  const duplicates = await findDuplicateWalletIds();
+  if (duplicates.length > 0) {
+    console.log("\n❌ Wallet IDs held by more than one wallet:");
+    for (const { walletId, count } of duplicates) {
+      console.log(`  ${walletId}: ${count} wallets`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  await ensureWalletIndexes();
+  console.log("\n✅ Unique wallet ID index is in place!");
+}
+
+// Run the script
+checkWalletIds()
+  .catch((error) => {
+    console.error("\n❌ Error checking wallet IDs:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });
@@ -1,41 +1,105 @@
 /**
- * Script to create an admin user
- * Run this with: npx tsx scripts/create-admin.ts
- * Or: node --loader ts-node/esm scripts/create-admin.ts
+ * Script to create (or promote) an admin user
+ *
+ * Run this with:
+ *   npx tsx --env-file=.env.local scripts/create-admin.ts --email admin@example.com
+ *
+ * Options (each can also come from the environment):
+ *   --email <address>     ADMIN_EMAIL       Account to create or promote (required)
+ *   --password <value>    ADMIN_PASSWORD    Password for a new account. Prefer leaving it out
+ *                                           and using the printed setup link instead.
+ *   --promote                               Give an existing user the admin role (and mark
+ *                                           their email verified)
+ *   --setup-link                            Print a one-time link to choose the password
+ *                                           (always printed when no password is given)
+ *   --force               ADMIN_BOOTSTRAP_FORCE=1
+ *                                           Run even though an admin already exists
+ *
+ * The first sign in asks the admin to set up two-factor authentication, since
+ * the admin role requires it by default.
  */
 
-import { signUpWithRole } from "../lib/server-actions/auth";
+import { parseArgs } from "node:util";
+import getClientPromise from "../lib/db";
+import type { UserModel } from "../lib/db/models";
+import { hasAdminUser, createAdminUser, promoteUserToAdmin, createAdminSetupLink } from "../lib/admin-bootstrap";
+
+const USAGE = "Usage: npx tsx --env-file=.env.local scripts/create-admin.ts --email <address> [--password <value>] [--promote] [--setup-link] [--force]";
 
 async function createAdmin() {
-  const email = "ayuelmjok@gmail.com";
-  const password = "123456pass";
-  const role = "admin";
-
-  console.log("Creating admin user...");
-  console.log(`Email: ${email}`);
-  console.log(`Role: ${role}`);
-
-  try {
-    const result = await signUpWithRole(email, password, role);
-
-    if (result.success && result.user) {
-      console.log("\n✅ Admin user created successfully!");
-      console.log(`User ID: ${result.user.id}`);
-      console.log(`Email: ${result.user.email}`);
-      console.log(`Role: ${result.user.role}`);
-      console.log(`Created at: ${result.user.createdAt}`);
-    } else {
-      console.error("\n❌ Failed to create admin user:");
-      console.error(result.message);
-      process.exit(1);
-    }
-  } catch (error) {
-    console.error("\n❌ Error creating admin user:");
-    console.error(error);
-    process.exit(1);
+  const { values } = parseArgs({
+    options: {
+      email: { type: "string" },
+      password: { type: "string" },
+      promote: { type: "boolean", default: false },
+      "setup-link": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const email = values.email || process.env.ADMIN_EMAIL;
+  const password = values.password || process.env.ADMIN_PASSWORD || undefined;
+  const force = values.force || process.env.ADMIN_BOOTSTRAP_FORCE === "1";
+
+  if (!email) {
+    console.error("❌ An email is required (--email or ADMIN_EMAIL)");
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (values.promote && password) {
+    console.error("❌ --password can't be used with --promote (the user keeps their password; use --setup-link to reset it)");
+    process.exitCode = 1;
+    return;
+  }
+
+  if ((await hasAdminUser()) && !force) {
+    console.error("❌ An admin already exists. Manage roles from the admin dashboard, or pass --force to run anyway.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let user: UserModel;
+  if (values.promote) {
+    console.log(`Promoting ${email} to admin...`);
+    user = await promoteUserToAdmin(email);
+  } else {
+    console.log(`Creating admin user ${email}...`);
+    user = await createAdminUser(email, password);
+  }
+
+  console.log("\n✅ Admin user ready!");
+  console.log(`User ID: ${user._id?.toString()}`);
+  console.log(`Email: ${user.email}`);
+  console.log(`Role: ${user.role}`);
+
+  if (values["setup-link"] || (!values.promote && !password)) {
+    const { url, expiresAt } = await createAdminSetupLink(user);
+    console.log("\nOne-time setup link (share it only with the new admin):");
+    console.log(url);
+    console.log(`Expires: ${expiresAt.toISOString()}`);
   }
 }
 
 // Run the script
-createAdmin();
-
+createAdmin()
+  .catch((error) => {
+    console.error("\n❌ Error creating admin user:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });
@@ -0,0 +1,35 @@
+/**
+ * Expire and refund cash withdrawals nobody collected in time
+ *
+ * Schedule this (e.g. every 15 minutes from cron):
+ *   npx tsx --env-file=.env.local scripts/expire-cash-withdrawals.ts
+ *
+ * Overdue requests are also swept whenever the pool or a user's wallet is viewed;
+ * this makes sure the money comes back even when nobody looks (see
+ * lib/cash-withdrawals.ts).
+ */
+
+import getClientPromise from "../lib/db";
+import { expireCashWithdrawals } from "../lib/cash-withdrawals";
+
+async function expireOverdueCashWithdrawals() {
+  console.log("Expiring overdue cash withdrawals...");
+  const refunded = await expireCashWithdrawals();
+  console.log(`\n✅ ${refunded} withdrawal(s) expired and refunded`);
+}
+
+// Run the script
+expireOverdueCashWithdrawals()
+  .catch((error) => {
+    console.error("\n❌ Error expiring cash withdrawals:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });
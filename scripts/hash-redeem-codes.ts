@@ -0,0 +1,40 @@
+/**
+ * One-off migration: hash the codes and PINs of existing redeem codes
+ *
+ * Run this once, right after deploying hashed redeem codes (codes that still
+ * hold a plaintext code can't be redeemed until then):
+ *   npx tsx --env-file=.env.local scripts/hash-redeem-codes.ts
+ *
+ * Needs the same REDEEM_CODE_SECRET as the app. Also masks card numbers and
+ * ledger notes that copied a full code (see hashLegacyRedeemCodes in
+ * lib/redeem-codes.ts). Running it again only picks up what is left.
+ */
+
+import getClientPromise from "../lib/db";
+import { hashLegacyRedeemCodes } from "../lib/redeem-codes";
+
+async function hashRedeemCodes() {
+  console.log("Hashing redeem codes...");
+  const { codes, cards, journalEntries } = await hashLegacyRedeemCodes();
+
+  console.log("\n✅ Redeem codes hashed!");
+  console.log(`Codes: ${codes}`);
+  console.log(`Card numbers masked: ${cards}`);
+  console.log(`Ledger notes masked: ${journalEntries}`);
+}
+
+// Run the script
+hashRedeemCodes()
+  .catch((error) => {
+    console.error("\n❌ Error hashing redeem codes:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });
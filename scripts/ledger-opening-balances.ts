@@ -0,0 +1,46 @@
+/**
+ * One-off migration: carry existing balances into the double-entry ledger
+ *
+ * Run this once, after deploying the ledger and before anyone moves money:
+ *   npx tsx --env-file=.env.local scripts/ledger-opening-balances.ts
+ *
+ * Posts a single opening entry with every wallet balance, pending withdrawals,
+ * undeposited fees, unused redeem codes and undeposited ticket revenue (see
+ * postOpeningBalances in lib/ledger.ts). Refuses to run once the journal has entries.
+ */
+
+import getClientPromise from "../lib/db";
+import { postOpeningBalances } from "../lib/ledger";
+
+async function postLedgerOpeningBalances() {
+  console.log("Posting opening balances...");
+  const entry = await postOpeningBalances();
+
+  const walletCount = entry.postings.filter((posting) => posting.accountType === "wallet").length;
+  const total = entry.postings.reduce((sum, posting) => sum + posting.credit, 0);
+
+  console.log("\n✅ Opening balances posted!");
+  console.log(`Wallets: ${walletCount}`);
+  for (const posting of entry.postings) {
+    if (posting.accountType !== "wallet" && posting.credit > 0) {
+      console.log(`${posting.account}: ${(posting.credit / 100).toFixed(2)}`);
+    }
+  }
+  console.log(`Total carried over: ${(total / 100).toFixed(2)}`);
+}
+
+// Run the script
+postLedgerOpeningBalances()
+  .catch((error) => {
+    console.error("\n❌ Error posting opening balances:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });
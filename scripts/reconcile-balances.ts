@@ -0,0 +1,67 @@
+/**
+ * Reconcile wallet balances against the ledger and the transaction history
+ *
+ * Run it by hand or from a scheduler (cron, a CI job):
+ *   npx tsx --env-file=.env.local scripts/reconcile-balances.ts
+ *
+ * Runs the same check as the Reconciliation page under /admin/wallets (see
+ * lib/reconciliation.ts) and stores the run so the page shows it. Nothing is
+ * corrected. Exits with code 1 when any wallet drifts or the platform totals differ.
+ */
+
+import getClientPromise from "../lib/db";
+import { runReconciliation } from "../lib/reconciliation";
+
+const formatCents = (cents: number) => (cents / 100).toFixed(2);
+
+async function reconcileBalances() {
+  console.log("Reconciling wallet balances...");
+  const run = await runReconciliation({ trigger: "cli" });
+  const { totals } = run;
+
+  console.log(`\nWallets checked: ${run.walletCount}`);
+  console.log(`Held for users:  ${formatCents(totals.heldCents)}`);
+  console.log(`  Wallet balances:            ${formatCents(totals.walletBalancesCents)}`);
+  console.log(`  Pending cash withdrawals:   ${formatCents(totals.pendingWithdrawalsCents)}`);
+  console.log(`  Undeposited fees:           ${formatCents(totals.undepositedFeesCents)}`);
+  console.log(`  Undeposited ticket revenue: ${formatCents(totals.undepositedTicketRevenueCents)}`);
+  console.log(`  Unredeemed codes:           ${formatCents(totals.unredeemedCodesCents)}`);
+  console.log(`Expected:        ${formatCents(totals.expectedCents)}`);
+  console.log(`  Redeem value issued:        ${formatCents(totals.issuedRedeemCents)}`);
+  console.log(`  Cash paid out:              ${formatCents(-totals.cashPaidOutCents)}`);
+  console.log(`  Manual credits and other:   ${formatCents(totals.otherNetInflowCents)}`);
+
+  if (run.drift.length === 0 && run.totalsMatch) {
+    console.log("\n✅ All balances reconcile");
+    return;
+  }
+
+  if (!run.totalsMatch) {
+    console.error(`\n❌ Platform totals are off by ${formatCents(totals.heldCents - totals.expectedCents)}`);
+  }
+  if (run.drift.length > 0) {
+    console.error(`\n❌ ${run.drift.length} wallet(s) drifted (stored / ledger / history):`);
+    for (const wallet of run.drift) {
+      console.error(
+        `- ${wallet.walletId}: ${formatCents(wallet.storedCents)} / ${formatCents(wallet.ledgerCents)} / ${formatCents(wallet.replayedCents)}`
+      );
+    }
+  }
+  process.exitCode = 1;
+}
+
+// Run the script
+reconcileBalances()
+  .catch((error) => {
+    console.error("\n❌ Error reconciling balances:");
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    try {
+      const client = await getClientPromise();
+      await client.close();
+    } catch {
+      // Never connected (e.g. MONGODB_URI missing); nothing to close
+    }
+  });